@@ -1,9 +1,10 @@
 import React from 'react';
-import { render, screen } from '@testing-library/react';
+import { render, screen, within } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import App from './App';
 import { useTodoContext } from './contexts/TodoContext';
 import { FilterType } from './types/Filter';
+import { SortMode } from './types/Sort';
 
 // Mock the TodoContext
 jest.mock('./contexts/TodoContext', () => ({
@@ -20,6 +21,13 @@ const renderWithTodoContext = (contextValue = {}) => {
     tasks: [],
     filteredTasks: [],
     filter: FilterType.ALL,
+    sortMode: SortMode.PRIORITY,
+    tagFilter: [],
+    searchQuery: '',
+    views: [],
+    activeViewId: null,
+    selectedTaskId: null,
+    allTags: [],
     activeCount: 0,
     completedCount: 0,
     addTask: jest.fn(),
@@ -28,7 +36,34 @@ const renderWithTodoContext = (contextValue = {}) => {
     deleteTask: jest.fn(),
     updateTaskPriority: jest.fn(),
     setFilter: jest.fn(),
+    setTagFilter: jest.fn(),
+    setSearchQuery: jest.fn(),
+    setActiveView: jest.fn(),
+    createView: jest.fn(),
+    deleteView: jest.fn(),
+    selectTask: jest.fn(),
+    setSortMode: jest.fn(),
+    reorderTask: jest.fn(),
     clearCompletedTasks: jest.fn(),
+    undo: jest.fn(),
+    redo: jest.fn(),
+    canUndo: false,
+    canRedo: false,
+    recoveredRecords: [],
+    discardRecoveredRecords: jest.fn(),
+    storageUsage: null,
+    unsavedKeys: [],
+    retrySave: jest.fn(),
+    archiveCompletedTasks: jest.fn(),
+    lists: [{ id: 'inbox', name: 'Inbox', archived: false, createdAt: 0 }],
+    activeListId: 'inbox',
+    listCounts: { inbox: { active: 0, completed: 0 } },
+    setActiveList: jest.fn(),
+    createList: jest.fn(),
+    renameList: jest.fn(),
+    archiveList: jest.fn(),
+    deleteList: jest.fn(),
+    importWorkspace: jest.fn(),
     ...contextValue,
   });
 
@@ -66,7 +101,7 @@ describe('App component', () => {
     expect(screen.getByRole('main')).toBeInTheDocument();
     
     // Verify task counter displays correctly
-    expect(screen.getByText('0 items left')).toBeInTheDocument();
+    expect(within(screen.getByRole('contentinfo')).getByText('0 items left')).toBeInTheDocument();
     
     // Clear completed button should not be visible
     expect(screen.queryByText('Clear completed')).not.toBeInTheDocument();
@@ -86,7 +121,7 @@ describe('App component', () => {
     });
 
     // Verify task count display
-    expect(screen.getByText('2 items left')).toBeInTheDocument();
+    expect(within(screen.getByRole('contentinfo')).getByText('2 items left')).toBeInTheDocument();
     
     // Clear completed button should not be visible
     expect(screen.queryByText('Clear completed')).not.toBeInTheDocument();
@@ -106,7 +141,7 @@ describe('App component', () => {
     });
 
     // Verify task count display uses singular form for 1 item
-    expect(screen.getByText('1 item left')).toBeInTheDocument();
+    expect(within(screen.getByRole('contentinfo')).getByText('1 item left')).toBeInTheDocument();
     
     // Clear completed button should be visible
     expect(screen.getByText('Clear completed')).toBeInTheDocument();
@@ -114,6 +149,7 @@ describe('App component', () => {
 
   it('handles clear completed tasks', async () => {
     const clearCompletedTasksMock = jest.fn();
+    jest.spyOn(window, 'confirm').mockReturnValue(true);
     
     renderWithTodoContext({
       tasks: [
@@ -127,12 +163,68 @@ describe('App component', () => {
 
     // Click the clear completed button
     const clearButton = screen.getByText('Clear completed');
-    userEvent.click(clearButton);
+    await userEvent.click(clearButton);
     
     // Verify the mock function was called
+    expect(window.confirm).toHaveBeenCalledTimes(1);
     expect(clearCompletedTasksMock).toHaveBeenCalledTimes(1);
   });
 
+  it('keeps completed tasks when clearing is not confirmed', async () => {
+    const clearCompletedTasksMock = jest.fn();
+    jest.spyOn(window, 'confirm').mockReturnValue(false);
+
+    renderWithTodoContext({
+      activeCount: 1,
+      completedCount: 1,
+      clearCompletedTasks: clearCompletedTasksMock,
+    });
+
+    await userEvent.click(screen.getByText('Clear completed'));
+
+    expect(clearCompletedTasksMock).not.toHaveBeenCalled();
+  });
+
+  it('renders the list sidebar next to the tasks', () => {
+    renderWithTodoContext();
+
+    expect(screen.getByRole('navigation', { name: 'Lists' })).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: /Inbox/ })).toHaveAttribute('aria-current', 'page');
+  });
+
+  it('disables undo and redo when there is no history', () => {
+    renderWithTodoContext();
+
+    expect(screen.getByRole('button', { name: 'Undo last change' })).toBeDisabled();
+    expect(screen.getByRole('button', { name: 'Redo last undone change' })).toBeDisabled();
+  });
+
+  it('calls undo and redo from the footer buttons', async () => {
+    const undoMock = jest.fn();
+    const redoMock = jest.fn();
+
+    renderWithTodoContext({ undo: undoMock, redo: redoMock, canUndo: true, canRedo: true });
+
+    await userEvent.click(screen.getByRole('button', { name: 'Undo last change' }));
+    await userEvent.click(screen.getByRole('button', { name: 'Redo last undone change' }));
+
+    expect(undoMock).toHaveBeenCalledTimes(1);
+    expect(redoMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('binds undo and redo to keyboard shortcuts', async () => {
+    const undoMock = jest.fn();
+    const redoMock = jest.fn();
+
+    renderWithTodoContext({ undo: undoMock, redo: redoMock, canUndo: true, canRedo: true });
+
+    await userEvent.keyboard('{Control>}z{/Control}');
+    await userEvent.keyboard('{Control>}{Shift>}z{/Shift}{/Control}');
+
+    expect(undoMock).toHaveBeenCalledTimes(1);
+    expect(redoMock).toHaveBeenCalledTimes(1);
+  });
+
   it('integrates with TodoContext', () => {
     const mockContext = {
       tasks: [
@@ -149,7 +241,7 @@ describe('App component', () => {
     renderWithTodoContext(mockContext);
     
     // Verify correct values from context are displayed
-    expect(screen.getByText('1 item left')).toBeInTheDocument();
+    expect(within(screen.getByRole('contentinfo')).getByText('1 item left')).toBeInTheDocument();
     expect(screen.getByText('Clear completed')).toBeInTheDocument();
   });
 
@@ -1,10 +1,19 @@
-import React, { useCallback } from 'react'; // ^18.2.0
+import React, { useCallback, useEffect } from 'react'; // ^18.2.0
 import styles from './App.module.css';
 import { TodoProvider, useTodoContext } from './contexts/TodoContext';
 import TodoForm from './components/TodoForm/TodoForm';
 import TodoList from './components/TodoList/TodoList';
 import FilterControls from './components/FilterControls/FilterControls';
+import SortControls from './components/SortControls/SortControls';
+import SearchBox from './components/SearchBox/SearchBox';
+import ListSidebar from './components/ListSidebar/ListSidebar';
+import WorkspaceTransfer from './components/WorkspaceTransfer/WorkspaceTransfer';
+import RecoveryNotice from './components/RecoveryNotice/RecoveryNotice';
+import StorageBanner from './components/StorageBanner/StorageBanner';
+import StorageStatus from './components/StorageStatus/StorageStatus';
+import Toasts from './components/Toasts/Toasts';
 import ErrorBoundary from './components/common/ErrorBoundary/ErrorBoundary';
+import useHashRoute from './hooks/useHashRoute';
 
 /**
  * A fallback UI component displayed when an error occurs in the application
@@ -24,17 +33,56 @@ const ErrorFallback = ({ error, resetErrorBoundary }: { error: Error; resetError
   );
 };
 
+/**
+ * Checks whether a keyboard event originated from a text field, where the
+ * browser's own text undo should take precedence over task undo
+ */
+const isTextEditingTarget = (target: EventTarget | null): boolean => {
+  if (!(target instanceof HTMLElement)) {
+    return false;
+  }
+  return target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable;
+};
+
 /**
  * The main application component that renders the entire Todo List application
  */
 const App: React.FC = () => {
-  // Access the todo context to get task counts and clear completed tasks function
-  const { activeCount, completedCount, clearCompletedTasks } = useTodoContext();
+  // Access the todo context to get task counts, clear completed and history functions
+  const todoContext = useTodoContext();
+  const { activeCount, completedCount, clearCompletedTasks, undo, redo, canUndo, canRedo } = todoContext;
 
-  // Define a callback function to clear completed tasks
+  // Reflect the filter, view, search query and linked task in the URL
+  useHashRoute(todoContext);
+
+  // Define a callback function to clear completed tasks after confirmation
   const handleClearCompleted = useCallback(() => {
-    clearCompletedTasks();
-  }, [clearCompletedTasks]);
+    const message = `Clear ${completedCount} completed ${completedCount === 1 ? 'task' : 'tasks'}? You can undo this with Ctrl+Z.`;
+    if (window.confirm(message)) {
+      clearCompletedTasks();
+    }
+  }, [clearCompletedTasks, completedCount]);
+
+  // Bind Ctrl+Z to undo and Ctrl+Shift+Z (or Ctrl+Y) to redo, using Cmd on macOS
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey || isTextEditingTarget(event.target)) {
+        return;
+      }
+
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        undo();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
 
   return (
     <div className={styles.app}>
@@ -43,27 +91,63 @@ const App: React.FC = () => {
           <h1 className={styles.title}>React Todo List</h1>
         </header>
 
-        <main className={styles.main}>
-          <TodoForm />
-          <FilterControls />
-          <TodoList />
-        </main>
+        <StorageBanner />
+        <RecoveryNotice />
+
+        <div className={styles.layout}>
+          <ListSidebar />
+
+          <main className={styles.main}>
+            <TodoForm />
+            <SearchBox />
+            <div className={styles.toolbar}>
+              <FilterControls />
+              <SortControls />
+            </div>
+            <TodoList />
+          </main>
+        </div>
+
+        <WorkspaceTransfer />
 
         <footer className={styles.footer}>
           <p className={styles.taskCount}>
             {activeCount} {activeCount === 1 ? 'item' : 'items'} left
           </p>
-          {completedCount > 0 && (
+          <StorageStatus />
+          <div className={styles.footerActions}>
+            <button
+              className={styles.clearButton}
+              onClick={undo}
+              disabled={!canUndo}
+              aria-label="Undo last change"
+              title="Undo (Ctrl+Z)"
+            >
+              Undo
+            </button>
             <button
               className={styles.clearButton}
-              onClick={handleClearCompleted}
-              aria-label="Clear completed tasks"
+              onClick={redo}
+              disabled={!canRedo}
+              aria-label="Redo last undone change"
+              title="Redo (Ctrl+Shift+Z)"
             >
-              Clear completed
+              Redo
             </button>
-          )}
+            {completedCount > 0 && (
+              <button
+                className={styles.clearButton}
+                onClick={handleClearCompleted}
+                aria-label="Clear completed tasks"
+              >
+                Clear completed
+              </button>
+            )}
+          </div>
         </footer>
       </div>
+
+      <Toasts />
     </div>
   );
 };
@@ -16,6 +16,14 @@ const renderWithTodoContext = (ui: React.ReactNode, contextValue = {}) => {
   const defaultContext = {
     filter: FilterType.ALL,
     setFilter: jest.fn(),
+    tagFilter: [],
+    allTags: [],
+    setTagFilter: jest.fn(),
+    views: [],
+    activeViewId: null,
+    setActiveView: jest.fn(),
+    createView: jest.fn().mockReturnValue({ success: true }),
+    deleteView: jest.fn(),
   };
   
   const mergedContext = { ...defaultContext, ...contextValue };
@@ -61,6 +69,16 @@ describe('FilterControls', () => {
     expect(mockContext.setFilter).toHaveBeenCalledWith(FilterType.COMPLETED);
   });
   
+  it('provides due date filters', () => {
+    const { mockContext } = renderWithTodoContext(<FilterControls />, { filter: FilterType.OVERDUE });
+    
+    expect(screen.getByText('Overdue')).toHaveAttribute('aria-selected', 'true');
+    
+    fireEvent.click(screen.getByText('Due today'));
+    
+    expect(mockContext.setFilter).toHaveBeenCalledWith(FilterType.DUE_TODAY);
+  });
+  
   it('has correct ARIA attributes for accessibility', () => {
     renderWithTodoContext(<FilterControls />);
     
@@ -83,4 +101,91 @@ describe('FilterControls', () => {
     expect(completedButton).toHaveAttribute('role', 'tab');
     expect(completedButton).toHaveAttribute('aria-selected', 'false');
   });
-});
\ No newline at end of file
+  
+  it('does not render the tag picker when no tasks have tags', () => {
+    renderWithTodoContext(<FilterControls />);
+    
+    expect(screen.queryByRole('group', { name: 'Filter by tags' })).not.toBeInTheDocument();
+  });
+  
+  it('toggles tags in the tag picker', () => {
+    const { mockContext } = renderWithTodoContext(<FilterControls />, {
+      allTags: ['home', 'work'],
+      tagFilter: ['work'],
+    });
+    
+    expect(screen.getByText('#work')).toHaveAttribute('aria-pressed', 'true');
+    expect(screen.getByText('#home')).toHaveAttribute('aria-pressed', 'false');
+    
+    fireEvent.click(screen.getByText('#home'));
+    expect(mockContext.setTagFilter).toHaveBeenCalledWith(['work', 'home']);
+    
+    fireEvent.click(screen.getByText('#work'));
+    expect(mockContext.setTagFilter).toHaveBeenCalledWith([]);
+  });
+  
+  it('clears the selected tags', () => {
+    const { mockContext } = renderWithTodoContext(<FilterControls />, {
+      allTags: ['work'],
+      tagFilter: ['work', 'archived'],
+    });
+    
+    // Selected tags no task carries any more remain available for deselection
+    expect(screen.getByText('#archived')).toBeInTheDocument();
+    
+    fireEvent.click(screen.getByText('Clear tags'));
+    expect(mockContext.setTagFilter).toHaveBeenCalledWith([]);
+  });
+  
+  describe('saved views', () => {
+    const views = [
+      { id: 'view-1', name: 'Urgent', query: 'priority:high is:active', createdAt: 0 },
+      { id: 'view-2', name: 'Deploys', query: '"deploy"', createdAt: 1 },
+    ];
+    
+    it('shows saved views as tabs next to the status filters', () => {
+      const { mockContext } = renderWithTodoContext(<FilterControls />, { views });
+      
+      const viewTab = screen.getByRole('tab', { name: 'Deploys' });
+      expect(viewTab).toHaveAttribute('aria-selected', 'false');
+      
+      fireEvent.click(viewTab);
+      expect(mockContext.setActiveView).toHaveBeenCalledWith('view-2');
+    });
+    
+    it('selects the active view instead of the status filter', () => {
+      const { mockContext } = renderWithTodoContext(<FilterControls />, { views, activeViewId: 'view-1' });
+      
+      expect(screen.getByRole('tab', { name: 'Urgent' })).toHaveAttribute('aria-selected', 'true');
+      expect(screen.getByRole('tab', { name: 'All' })).toHaveAttribute('aria-selected', 'false');
+      expect(screen.getByText('priority:high is:active')).toBeInTheDocument();
+      
+      fireEvent.click(screen.getByRole('button', { name: 'Delete view Urgent' }));
+      expect(mockContext.deleteView).toHaveBeenCalledWith('view-1');
+    });
+    
+    it('explains query syntax errors before saving', () => {
+      const { mockContext } = renderWithTodoContext(<FilterControls />);
+      
+      fireEvent.click(screen.getByText('New view'));
+      fireEvent.change(screen.getByLabelText('View name'), { target: { value: 'Urgent' } });
+      fireEvent.change(screen.getByLabelText('View query'), { target: { value: 'priority:urgent' } });
+      
+      expect(screen.getByRole('alert')).toHaveTextContent('Unknown priority "urgent" in priority:urgent');
+      expect(screen.getByText('Save view')).toBeDisabled();
+      expect(mockContext.createView).not.toHaveBeenCalled();
+    });
+    
+    it('saves a valid query as a view', () => {
+      const { mockContext } = renderWithTodoContext(<FilterControls />);
+      
+      fireEvent.click(screen.getByText('New view'));
+      fireEvent.change(screen.getByLabelText('View name'), { target: { value: 'Urgent' } });
+      fireEvent.change(screen.getByLabelText('View query'), { target: { value: 'priority:high is:active' } });
+      fireEvent.click(screen.getByText('Save view'));
+      
+      expect(mockContext.createView).toHaveBeenCalledWith('Urgent', 'priority:high is:active');
+      expect(screen.queryByLabelText('View name')).not.toBeInTheDocument();
+    });
+  });
+});
@@ -1,16 +1,86 @@
-import React, { FC } from 'react'; // ^18.2.0
+import React, { FC, FormEvent, useState } from 'react'; // ^18.2.0
 import classNames from 'classnames'; // ^2.3.1
 import styles from './FilterControls.module.css';
 import { FilterType } from '../../types/Filter';
 import Button from '../common/Button/Button';
+import Input from '../common/Input/Input';
+import QueryUtils from '../../utils/queryUtils';
 import { useTodoContext } from '../../contexts/TodoContext';
 
 /**
- * A component that provides buttons for filtering tasks by completion status
+ * A component that provides buttons for filtering tasks by completion status and due date,
+ * tabs for saved views with a form to save a filter query as a view,
+ * and a tag picker that narrows the selected filter to tasks carrying all chosen tags
  */
 const FilterControls: FC = () => {
-  // Access todo context to get current filter and setFilter function
-  const { filter, setFilter } = useTodoContext();
+  // Access todo context to get current filters, saved views and their setters
+  const {
+    filter,
+    setFilter,
+    tagFilter,
+    allTags,
+    setTagFilter,
+    views,
+    activeViewId,
+    setActiveView,
+    createView,
+    deleteView
+  } = useTodoContext();
+  
+  // State for the form that saves a new view
+  const [isCreatingView, setIsCreatingView] = useState(false);
+  const [viewName, setViewName] = useState('');
+  const [viewQuery, setViewQuery] = useState('');
+  
+  // The selected view, and any syntax error in the query being typed
+  const activeView = views.find(view => view.id === activeViewId);
+  const queryError = viewQuery.trim() ? QueryUtils.getQueryError(viewQuery) : null;
+  
+  // Offer every tag in use, plus selected tags no task carries any more so they can be deselected
+  const pickerTags = Array.from(new Set([...allTags, ...tagFilter])).sort();
+  
+  /**
+   * Adds a tag to the selected tags, or removes it if already selected
+   * @param tag - The tag that was clicked
+   */
+  const handleTagToggle = (tag: string): void => {
+    setTagFilter(
+      tagFilter.includes(tag)
+        ? tagFilter.filter(selected => selected !== tag)
+        : [...tagFilter, tag]
+    );
+  };
+  
+  /**
+   * Checks whether a status filter tab is selected; none is while a view is selected
+   * @param status - The status filter of the tab
+   */
+  const isStatusSelected = (status: FilterType): boolean => {
+    return !activeView && filter === status;
+  };
+  
+  /**
+   * Closes the new view form and clears its fields
+   */
+  const resetViewForm = (): void => {
+    setIsCreatingView(false);
+    setViewName('');
+    setViewQuery('');
+  };
+  
+  /**
+   * Saves the typed query as a view when it is named and valid
+   * @param event - Form submit event
+   */
+  const handleCreateView = (event: FormEvent<HTMLFormElement>): void => {
+    event.preventDefault();
+    if (!viewName.trim() || !viewQuery.trim() || queryError) {
+      return;
+    }
+    if (createView(viewName, viewQuery).success) {
+      resetViewForm();
+    }
+  };
   
   /**
    * Updates the current filter when a filter button is clicked
@@ -21,46 +91,171 @@ const FilterControls: FC = () => {
   };
   
   return (
-    <div 
-      className={styles.container} 
-      role="tablist" 
-      aria-label="Filter tasks"
-    >
-      <Button
-        className={classNames(
-          styles.filterButton,
-          filter === FilterType.ALL && styles.active
-        )}
-        onClick={() => handleFilterChange(FilterType.ALL)}
-        role="tab"
-        aria-selected={filter === FilterType.ALL}
+    <div className={styles.filters}>
+      <div 
+        className={styles.container} 
+        role="tablist" 
+        aria-label="Filter tasks"
       >
-        All
-      </Button>
+        <Button
+          className={classNames(
+            styles.filterButton,
+            isStatusSelected(FilterType.ALL) && styles.active
+          )}
+          onClick={() => handleFilterChange(FilterType.ALL)}
+          role="tab"
+          aria-selected={isStatusSelected(FilterType.ALL)}
+        >
+          All
+        </Button>
       
-      <Button
-        className={classNames(
-          styles.filterButton,
-          filter === FilterType.ACTIVE && styles.active
-        )}
-        onClick={() => handleFilterChange(FilterType.ACTIVE)}
-        role="tab"
-        aria-selected={filter === FilterType.ACTIVE}
-      >
-        Active
-      </Button>
+        <Button
+          className={classNames(
+            styles.filterButton,
+            isStatusSelected(FilterType.ACTIVE) && styles.active
+          )}
+          onClick={() => handleFilterChange(FilterType.ACTIVE)}
+          role="tab"
+          aria-selected={isStatusSelected(FilterType.ACTIVE)}
+        >
+          Active
+        </Button>
       
-      <Button
-        className={classNames(
-          styles.filterButton,
-          filter === FilterType.COMPLETED && styles.active
+        <Button
+          className={classNames(
+            styles.filterButton,
+            isStatusSelected(FilterType.COMPLETED) && styles.active
+          )}
+          onClick={() => handleFilterChange(FilterType.COMPLETED)}
+          role="tab"
+          aria-selected={isStatusSelected(FilterType.COMPLETED)}
+        >
+          Completed
+        </Button>
+      
+        <Button
+          className={classNames(
+            styles.filterButton,
+            isStatusSelected(FilterType.DUE_TODAY) && styles.active
+          )}
+          onClick={() => handleFilterChange(FilterType.DUE_TODAY)}
+          role="tab"
+          aria-selected={isStatusSelected(FilterType.DUE_TODAY)}
+        >
+          Due today
+        </Button>
+      
+        <Button
+          className={classNames(
+            styles.filterButton,
+            isStatusSelected(FilterType.OVERDUE) && styles.active
+          )}
+          onClick={() => handleFilterChange(FilterType.OVERDUE)}
+          role="tab"
+          aria-selected={isStatusSelected(FilterType.OVERDUE)}
+        >
+          Overdue
+        </Button>
+        
+        {views.map((view) => (
+          <Button
+            key={view.id}
+            className={classNames(
+              styles.filterButton,
+              view.id === activeViewId && styles.active
+            )}
+            onClick={() => setActiveView(view.id)}
+            role="tab"
+            aria-selected={view.id === activeViewId}
+            title={view.query}
+          >
+            {view.name}
+          </Button>
+        ))}
+      </div>
+      
+      <div className={styles.viewBar}>
+        {activeView && (
+          <>
+            <code className={styles.viewQuery}>{activeView.query}</code>
+            <Button
+              size="small"
+              variant="secondary"
+              onClick={() => deleteView(activeView.id)}
+              aria-label={`Delete view ${activeView.name}`}
+            >
+              Delete view
+            </Button>
+          </>
         )}
-        onClick={() => handleFilterChange(FilterType.COMPLETED)}
-        role="tab"
-        aria-selected={filter === FilterType.COMPLETED}
-      >
-        Completed
-      </Button>
+        {!isCreatingView && (
+          <Button size="small" variant="secondary" onClick={() => setIsCreatingView(true)}>
+            New view
+          </Button>
+        )}
+      </div>
+      
+      {isCreatingView && (
+        <form className={styles.viewForm} onSubmit={handleCreateView} aria-label="New view">
+          <Input
+            value={viewName}
+            onChange={(e) => setViewName(e.target.value)}
+            placeholder="View name"
+            aria-label="View name"
+          />
+          <Input
+            value={viewQuery}
+            onChange={(e) => setViewQuery(e.target.value)}
+            placeholder='priority:high is:active created:>2026-01-01 "deploy"'
+            aria-label="View query"
+            isInvalid={queryError !== null}
+            errorMessage={queryError ?? undefined}
+            fullWidth
+          />
+          <div className={styles.viewFormActions}>
+            <Button
+              type="submit"
+              size="small"
+              disabled={!viewName.trim() || !viewQuery.trim() || queryError !== null}
+            >
+              Save view
+            </Button>
+            <Button type="button" size="small" variant="secondary" onClick={resetViewForm}>
+              Cancel
+            </Button>
+          </div>
+        </form>
+      )}
+      
+      {pickerTags.length > 0 && (
+        <div className={styles.tagPicker} role="group" aria-label="Filter by tags">
+          {pickerTags.map((tag) => (
+            <Button
+              key={tag}
+              size="small"
+              variant="secondary"
+              className={classNames(
+                styles.tagButton,
+                tagFilter.includes(tag) && styles.active
+              )}
+              onClick={() => handleTagToggle(tag)}
+              aria-pressed={tagFilter.includes(tag)}
+            >
+              #{tag}
+            </Button>
+          ))}
+          {tagFilter.length > 0 && (
+            <Button
+              size="small"
+              variant="secondary"
+              className={styles.tagButton}
+              onClick={() => setTagFilter([])}
+            >
+              Clear tags
+            </Button>
+          )}
+        </div>
+      )}
     </div>
   );
 };
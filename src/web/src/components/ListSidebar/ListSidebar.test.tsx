@@ -0,0 +1,115 @@
+import React from 'react';
+import { render, screen, fireEvent, within } from '@testing-library/react';
+import ListSidebar from './ListSidebar';
+import { useTodoContext } from '../../contexts/TodoContext';
+
+// Mock the TodoContext module
+jest.mock('../../contexts/TodoContext', () => ({
+  useTodoContext: jest.fn(),
+}));
+
+// Helper function to render the sidebar with a mocked TodoContext
+const renderWithTodoContext = (contextValue = {}) => {
+  const defaultContext = {
+    lists: [
+      { id: 'inbox', name: 'Inbox', archived: false, createdAt: 0 },
+      { id: 'work', name: 'Work', archived: false, createdAt: 1 },
+      { id: 'old', name: 'Old project', archived: true, createdAt: 2 },
+    ],
+    activeListId: 'inbox',
+    listCounts: {
+      inbox: { active: 2, completed: 1 },
+      work: { active: 1, completed: 0 },
+      old: { active: 0, completed: 3 },
+    },
+    setActiveList: jest.fn(),
+    createList: jest.fn().mockReturnValue({ success: true }),
+    renameList: jest.fn().mockReturnValue({ success: true }),
+    archiveList: jest.fn(),
+    deleteList: jest.fn(),
+  };
+  
+  const mergedContext = { ...defaultContext, ...contextValue };
+  (useTodoContext as jest.Mock).mockReturnValue(mergedContext);
+  
+  return {
+    ...render(<ListSidebar />),
+    mockContext: mergedContext,
+  };
+};
+
+describe('ListSidebar', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('shows open lists with their active task counts', () => {
+    renderWithTodoContext();
+    
+    const inbox = screen.getByRole('button', { name: /Inbox/ });
+    expect(inbox).toHaveAttribute('aria-current', 'page');
+    expect(within(inbox).getByLabelText('2 active')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: /^Work/ })).not.toHaveAttribute('aria-current');
+  });
+  
+  it('switches lists when a list is clicked', () => {
+    const { mockContext } = renderWithTodoContext();
+    
+    fireEvent.click(screen.getByRole('button', { name: /^Work/ }));
+    
+    expect(mockContext.setActiveList).toHaveBeenCalledWith('work');
+  });
+  
+  it('does not offer to rename, archive or delete the Inbox', () => {
+    renderWithTodoContext();
+    
+    expect(screen.queryByRole('button', { name: 'Delete Inbox' })).not.toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: 'Archive Inbox' })).not.toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Delete Work' })).toBeInTheDocument();
+  });
+  
+  it('creates a list from the entered name', () => {
+    const { mockContext } = renderWithTodoContext();
+    
+    fireEvent.change(screen.getByLabelText('New list name'), { target: { value: 'Home' } });
+    fireEvent.click(screen.getByText('Add list'));
+    
+    expect(mockContext.createList).toHaveBeenCalledWith('Home');
+    expect(screen.getByLabelText('New list name')).toHaveValue('');
+  });
+  
+  it('renames a list inline', () => {
+    const { mockContext } = renderWithTodoContext();
+    
+    fireEvent.click(screen.getByRole('button', { name: 'Rename Work' }));
+    fireEvent.change(screen.getByLabelText('Rename list Work'), { target: { value: 'Office' } });
+    fireEvent.click(screen.getByText('Save'));
+    
+    expect(mockContext.renameList).toHaveBeenCalledWith('work', 'Office');
+    expect(screen.queryByLabelText('Rename list Work')).not.toBeInTheDocument();
+  });
+  
+  it('archives open lists and restores archived ones', () => {
+    const { mockContext } = renderWithTodoContext();
+    
+    fireEvent.click(screen.getByRole('button', { name: 'Archive Work' }));
+    const archived = screen.getByRole('region', { name: 'Archived lists' });
+    fireEvent.click(within(archived).getByRole('button', { name: 'Restore Old project' }));
+    
+    expect(mockContext.archiveList).toHaveBeenCalledWith('work', true);
+    expect(mockContext.archiveList).toHaveBeenCalledWith('old', false);
+  });
+  
+  it('deletes a list only after confirmation', () => {
+    const confirmSpy = jest.spyOn(window, 'confirm').mockReturnValueOnce(false).mockReturnValueOnce(true);
+    const { mockContext } = renderWithTodoContext();
+    
+    fireEvent.click(screen.getByRole('button', { name: 'Delete Work' }));
+    expect(mockContext.deleteList).not.toHaveBeenCalled();
+    
+    fireEvent.click(screen.getByRole('button', { name: 'Delete Work' }));
+    expect(mockContext.deleteList).toHaveBeenCalledWith('work');
+    
+    confirmSpy.mockRestore();
+  });
+});
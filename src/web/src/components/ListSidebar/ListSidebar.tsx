@@ -0,0 +1,196 @@
+import React, { FC, FormEvent, useState } from 'react'; // ^18.2.0
+import classNames from 'classnames'; // ^2.3.1
+import styles from './ListSidebar.module.css';
+import { TaskList } from '../../types/List';
+import Button from '../common/Button/Button';
+import Input from '../common/Input/Input';
+import { useTodoContext } from '../../contexts/TodoContext';
+import ListUtils from '../../utils/listUtils';
+
+/**
+ * A sidebar that switches between named lists and lets users create, rename,
+ * archive, restore and delete them. Archived lists are shown in their own section.
+ */
+const ListSidebar: FC = () => {
+  // Access todo context to get the lists, their counts and list operations
+  const {
+    lists,
+    activeListId,
+    listCounts,
+    setActiveList,
+    createList,
+    renameList,
+    archiveList,
+    deleteList
+  } = useTodoContext();
+  
+  // State for the new list name
+  const [newListName, setNewListName] = useState<string>('');
+  
+  // State for the list being renamed and its draft name
+  const [renamingListId, setRenamingListId] = useState<string | null>(null);
+  const [renameText, setRenameText] = useState<string>('');
+  
+  const openLists = lists.filter(list => !list.archived);
+  const archivedLists = lists.filter(list => list.archived);
+  
+  /**
+   * Creates a new list from the entered name
+   * @param e - Form submission event
+   */
+  const handleCreate = (e: FormEvent<HTMLFormElement>): void => {
+    e.preventDefault();
+    if (!newListName.trim()) {
+      return;
+    }
+    if (createList(newListName).success) {
+      setNewListName('');
+    }
+  };
+  
+  /**
+   * Enters rename mode for a list
+   * @param list - The list to rename
+   */
+  const handleRenameStart = (list: TaskList): void => {
+    setRenamingListId(list.id);
+    setRenameText(list.name);
+  };
+  
+  /**
+   * Saves the new name of the list being renamed
+   * @param e - Form submission event
+   */
+  const handleRenameSave = (e: FormEvent<HTMLFormElement>): void => {
+    e.preventDefault();
+    // Stay in rename mode if the list could not be renamed
+    if (renamingListId && renameText.trim() && !renameList(renamingListId, renameText).success) {
+      return;
+    }
+    setRenamingListId(null);
+  };
+  
+  /**
+   * Deletes a list after confirmation; its tasks move to the Inbox
+   * @param list - The list to delete
+   */
+  const handleDelete = (list: TaskList): void => {
+    if (window.confirm(`Delete "${list.name}"? Its tasks will be moved to the Inbox.`)) {
+      deleteList(list.id);
+    }
+  };
+  
+  /**
+   * Renders a single list entry with its count and actions
+   * @param list - The list to render
+   */
+  const renderList = (list: TaskList) => {
+    const isInbox = list.id === ListUtils.INBOX_LIST_ID;
+    const activeTasks = listCounts[list.id]?.active ?? 0;
+    
+    if (renamingListId === list.id) {
+      return (
+        <li key={list.id} className={styles.listItem}>
+          <form className={styles.renameForm} onSubmit={handleRenameSave}>
+            <Input
+              type="text"
+              value={renameText}
+              onChange={(e) => setRenameText(e.target.value)}
+              aria-label={`Rename list ${list.name}`}
+              autoFocus
+              fullWidth
+            />
+            <Button type="submit" variant="primary" size="small">
+              Save
+            </Button>
+            <Button type="button" variant="secondary" size="small" onClick={() => setRenamingListId(null)}>
+              Cancel
+            </Button>
+          </form>
+        </li>
+      );
+    }
+    
+    return (
+      <li key={list.id} className={styles.listItem}>
+        <button
+          type="button"
+          className={classNames(styles.listButton, list.id === activeListId && styles.active)}
+          onClick={() => setActiveList(list.id)}
+          aria-current={list.id === activeListId ? 'page' : undefined}
+        >
+          <span className={styles.listName}>{list.name}</span>
+          <span className={styles.listCount} aria-label={`${activeTasks} active`}>
+            {activeTasks}
+          </span>
+        </button>
+        {!isInbox && (
+          <div className={styles.listActions}>
+            {!list.archived && (
+              <Button
+                variant="text"
+                size="small"
+                className={styles.actionButton}
+                onClick={() => handleRenameStart(list)}
+                aria-label={`Rename ${list.name}`}
+              >
+                Rename
+              </Button>
+            )}
+            <Button
+              variant="text"
+              size="small"
+              className={styles.actionButton}
+              onClick={() => archiveList(list.id, !list.archived)}
+              aria-label={`${list.archived ? 'Restore' : 'Archive'} ${list.name}`}
+            >
+              {list.archived ? 'Restore' : 'Archive'}
+            </Button>
+            <Button
+              variant="text"
+              size="small"
+              className={styles.actionButton}
+              onClick={() => handleDelete(list)}
+              aria-label={`Delete ${list.name}`}
+            >
+              Delete
+            </Button>
+          </div>
+        )}
+      </li>
+    );
+  };
+  
+  return (
+    <nav className={styles.sidebar} aria-label="Lists">
+      <ul className={styles.lists}>
+        {openLists.map(renderList)}
+      </ul>
+      
+      <form className={styles.createForm} onSubmit={handleCreate}>
+        <Input
+          type="text"
+          value={newListName}
+          onChange={(e) => setNewListName(e.target.value)}
+          placeholder="New list"
+          aria-label="New list name"
+          fullWidth
+        />
+        <Button type="submit" variant="secondary" size="small" disabled={!newListName.trim()}>
+          Add list
+        </Button>
+      </form>
+      
+      {archivedLists.length > 0 && (
+        <section className={styles.archived} aria-label="Archived lists">
+          <h2 className={styles.sectionTitle}>Archived</h2>
+          <ul className={styles.lists}>
+            {archivedLists.map(renderList)}
+          </ul>
+        </section>
+      )}
+    </nav>
+  );
+};
+
+export default ListSidebar;
@@ -0,0 +1,73 @@
+import React from 'react';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import RecoveryNotice from './RecoveryNotice';
+import { useTodoContext } from '../../contexts/TodoContext';
+import { WorkspaceTransferService } from '../../services/workspaceTransfer';
+import { QuarantinedRecord } from '../../types/Storage';
+
+// Mock the TodoContext module
+jest.mock('../../contexts/TodoContext', () => ({
+  useTodoContext: jest.fn(),
+}));
+
+const records: QuarantinedRecord[] = [
+  { key: 'react-todo-list-tasks', value: { text: 'No ID' }, reason: 'The task is missing a field', quarantinedAt: 1 },
+  { key: 'react-todo-list-tasks', value: { id: 7 }, reason: 'The task is missing a field', quarantinedAt: 1 },
+];
+
+// Helper function to render the component with a mocked TodoContext
+const renderWithTodoContext = (contextValue = {}) => {
+  const mergedContext = {
+    recoveredRecords: records,
+    discardRecoveredRecords: jest.fn(),
+    ...contextValue,
+  };
+  (useTodoContext as jest.Mock).mockReturnValue(mergedContext);
+  
+  return {
+    ...render(<RecoveryNotice />),
+    mockContext: mergedContext,
+  };
+};
+
+describe('RecoveryNotice', () => {
+  it('renders nothing when no records were set aside', () => {
+    renderWithTodoContext({ recoveredRecords: [] });
+    
+    expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+  });
+  
+  it('reports how many records were set aside and why', () => {
+    renderWithTodoContext();
+    
+    expect(screen.getByRole('alert')).toHaveTextContent('2 saved records could not be read and were set aside');
+    expect(screen.getAllByRole('listitem')).toHaveLength(1);
+  });
+  
+  it('downloads the records as JSON', async () => {
+    const downloadSpy = jest.spyOn(WorkspaceTransferService, 'downloadFile').mockImplementation(() => {});
+    renderWithTodoContext();
+    
+    await userEvent.click(screen.getByRole('button', { name: 'Download records' }));
+    
+    expect(downloadSpy).toHaveBeenCalledWith(
+      expect.stringMatching(/\.recovered\.json$/),
+      JSON.stringify(records, null, 2),
+      'application/json'
+    );
+    downloadSpy.mockRestore();
+  });
+  
+  it('discards the records only after confirmation', async () => {
+    const confirmSpy = jest.spyOn(window, 'confirm').mockReturnValueOnce(false).mockReturnValueOnce(true);
+    const { mockContext } = renderWithTodoContext();
+    
+    await userEvent.click(screen.getByRole('button', { name: 'Discard' }));
+    expect(mockContext.discardRecoveredRecords).not.toHaveBeenCalled();
+    
+    await userEvent.click(screen.getByRole('button', { name: 'Discard' }));
+    expect(mockContext.discardRecoveredRecords).toHaveBeenCalled();
+    confirmSpy.mockRestore();
+  });
+});
@@ -0,0 +1,66 @@
+import React, { FC } from 'react'; // ^18.2.0
+import styles from './RecoveryNotice.module.css';
+import Button from '../common/Button/Button';
+import { useTodoContext } from '../../contexts/TodoContext';
+import { WorkspaceTransferService } from '../../services/workspaceTransfer';
+
+/**
+ * A notice shown while stored records that failed validation on load are set aside
+ * The records can be downloaded to repair them by hand, or discarded once they are no longer needed.
+ */
+const RecoveryNotice: FC = () => {
+  // Access todo context to get the set-aside records and the function to discard them
+  const { recoveredRecords, discardRecoveredRecords } = useTodoContext();
+
+  if (recoveredRecords.length === 0) {
+    return null;
+  }
+
+  const count = recoveredRecords.length;
+  const noun = count === 1 ? 'record' : 'records';
+  const reasons = Array.from(new Set(recoveredRecords.map(record => record.reason)));
+
+  /**
+   * Downloads the set-aside records as JSON, with the key each was loaded from and why it was rejected
+   */
+  const handleDownload = (): void => {
+    WorkspaceTransferService.downloadFile(
+      WorkspaceTransferService.getExportFilename('recovered.json'),
+      JSON.stringify(recoveredRecords, null, 2),
+      'application/json'
+    );
+  };
+
+  /**
+   * Deletes the set-aside records after confirmation
+   */
+  const handleDiscard = (): void => {
+    if (window.confirm(`Discard ${count} set-aside ${noun}? They cannot be recovered afterwards.`)) {
+      discardRecoveredRecords();
+    }
+  };
+
+  return (
+    <div className={styles.container} role="alert">
+      <p className={styles.message}>
+        {count} saved {noun} could not be read and {count === 1 ? 'was' : 'were'} set aside so the rest of
+        your tasks could load.
+      </p>
+      <ul className={styles.reasons}>
+        {reasons.map(reason => (
+          <li key={reason}>{reason}</li>
+        ))}
+      </ul>
+      <div className={styles.actions}>
+        <Button size="small" onClick={handleDownload}>
+          Download {noun}
+        </Button>
+        <Button variant="secondary" size="small" onClick={handleDiscard}>
+          Discard
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default RecoveryNotice;
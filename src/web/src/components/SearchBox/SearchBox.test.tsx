@@ -0,0 +1,49 @@
+import React from 'react';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import SearchBox from './SearchBox';
+import { useTodoContext } from '../../contexts/TodoContext';
+
+// Mock the TodoContext module
+jest.mock('../../contexts/TodoContext', () => ({
+  useTodoContext: jest.fn(),
+}));
+
+// Helper function to render the component with a mocked TodoContext
+const renderWithTodoContext = (contextValue = {}) => {
+  const mergedContext = {
+    searchQuery: '',
+    setSearchQuery: jest.fn(),
+    ...contextValue,
+  };
+  (useTodoContext as jest.Mock).mockReturnValue(mergedContext);
+  
+  return {
+    ...render(<SearchBox />),
+    mockContext: mergedContext,
+  };
+};
+
+describe('SearchBox', () => {
+  it('updates the search query as the user types', async () => {
+    const { mockContext } = renderWithTodoContext();
+    
+    await userEvent.type(screen.getByRole('searchbox', { name: 'Search tasks' }), 'a');
+    
+    expect(mockContext.setSearchQuery).toHaveBeenCalledWith('a');
+    expect(screen.queryByRole('button', { name: 'Clear search' })).not.toBeInTheDocument();
+  });
+  
+  it('clears the search with the clear button or Escape', async () => {
+    const { mockContext } = renderWithTodoContext({ searchQuery: 'milk' });
+    
+    expect(screen.getByRole('searchbox')).toHaveValue('milk');
+    
+    await userEvent.click(screen.getByRole('button', { name: 'Clear search' }));
+    expect(mockContext.setSearchQuery).toHaveBeenLastCalledWith('');
+    
+    mockContext.setSearchQuery.mockClear();
+    await userEvent.type(screen.getByRole('searchbox'), '{Escape}');
+    expect(mockContext.setSearchQuery).toHaveBeenCalledWith('');
+  });
+});
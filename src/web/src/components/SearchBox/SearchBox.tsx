@@ -0,0 +1,57 @@
+import React, { ChangeEvent, FC, KeyboardEvent } from 'react'; // ^18.2.0
+import styles from './SearchBox.module.css';
+import { useTodoContext } from '../../contexts/TodoContext';
+
+/**
+ * A search field that narrows the visible tasks to those matching the typed text
+ * The search combines with the selected filter and tags; Escape clears it.
+ */
+const SearchBox: FC = () => {
+  // Access todo context to get the search query and its setter
+  const { searchQuery, setSearchQuery } = useTodoContext();
+  
+  /**
+   * Updates the search query as the user types
+   * @param event - Change event from the input
+   */
+  const handleChange = (event: ChangeEvent<HTMLInputElement>): void => {
+    setSearchQuery(event.target.value);
+  };
+  
+  /**
+   * Clears the search when Escape is pressed
+   * @param event - Keyboard event from the input
+   */
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>): void => {
+    if (event.key === 'Escape' && searchQuery) {
+      event.preventDefault();
+      setSearchQuery('');
+    }
+  };
+  
+  return (
+    <div className={styles.container} role="search">
+      <input
+        type="search"
+        className={styles.input}
+        value={searchQuery}
+        onChange={handleChange}
+        onKeyDown={handleKeyDown}
+        placeholder="Search tasks"
+        aria-label="Search tasks"
+      />
+      {searchQuery && (
+        <button
+          type="button"
+          className={styles.clearButton}
+          onClick={() => setSearchQuery('')}
+          aria-label="Clear search"
+        >
+          ×
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default SearchBox;
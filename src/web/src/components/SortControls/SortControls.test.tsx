@@ -0,0 +1,56 @@
+import React from 'react';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import SortControls from './SortControls';
+import { useTodoContext } from '../../contexts/TodoContext';
+import { SortMode } from '../../types/Sort';
+
+// Mock the TodoContext module
+jest.mock('../../contexts/TodoContext', () => ({
+  useTodoContext: jest.fn(),
+}));
+
+// Helper function to render the component with a mocked TodoContext
+const renderWithTodoContext = (contextValue = {}) => {
+  const mergedContext = {
+    sortMode: SortMode.PRIORITY,
+    setSortMode: jest.fn(),
+    ...contextValue,
+  };
+  (useTodoContext as jest.Mock).mockReturnValue(mergedContext);
+  
+  return {
+    ...render(<SortControls />),
+    mockContext: mergedContext,
+  };
+};
+
+describe('SortControls', () => {
+  it('shows the current sort mode', () => {
+    renderWithTodoContext({ sortMode: SortMode.CREATED });
+    
+    expect(screen.getByLabelText('Sort by')).toHaveValue(SortMode.CREATED);
+    expect(screen.getAllByRole('option').map(option => option.textContent)).toEqual([
+      'Manual',
+      'Priority',
+      'Due date',
+      'Created date',
+      'Alphabetical',
+    ]);
+  });
+  
+  it('changes the sort mode', async () => {
+    const { mockContext } = renderWithTodoContext();
+    
+    await userEvent.selectOptions(screen.getByLabelText('Sort by'), 'Manual');
+    
+    expect(mockContext.setSortMode).toHaveBeenCalledWith(SortMode.MANUAL);
+  });
+  
+  it('shows a custom sort that matches no preset', () => {
+    renderWithTodoContext({ sortMode: null });
+    
+    expect(screen.getByLabelText('Sort by')).toHaveValue('custom');
+    expect(screen.getByRole('option', { name: 'Custom' })).toBeDisabled();
+  });
+});
@@ -0,0 +1,64 @@
+import React, { ChangeEvent, FC } from 'react'; // ^18.2.0
+import styles from './SortControls.module.css';
+import { SortMode } from '../../types/Sort';
+import { useTodoContext } from '../../contexts/TodoContext';
+
+/**
+ * Labels shown for each sort mode
+ */
+const SORT_MODE_LABELS: Record<SortMode, string> = {
+  [SortMode.MANUAL]: 'Manual',
+  [SortMode.PRIORITY]: 'Priority',
+  [SortMode.DUE_DATE]: 'Due date',
+  [SortMode.CREATED]: 'Created date',
+  [SortMode.ALPHABETICAL]: 'Alphabetical'
+};
+
+/**
+ * Value of the option shown while the tasks are sorted by keys that match no preset
+ */
+const CUSTOM_SORT = 'custom';
+
+/**
+ * A component that selects the order tasks are shown in
+ * Each option applies a preset of sort keys; manual order lets tasks be rearranged by dragging them.
+ */
+const SortControls: FC = () => {
+  // Access todo context to get the current sort mode and its setter
+  const { sortMode, setSortMode } = useTodoContext();
+  
+  /**
+   * Updates the sort mode when another option is selected
+   * @param event - Change event from the select
+   */
+  const handleChange = (event: ChangeEvent<HTMLSelectElement>): void => {
+    setSortMode(event.target.value as SortMode);
+  };
+  
+  return (
+    <div className={styles.container}>
+      <label className={styles.label} htmlFor="sort-mode">
+        Sort by
+      </label>
+      <select
+        id="sort-mode"
+        className={styles.select}
+        value={sortMode ?? CUSTOM_SORT}
+        onChange={handleChange}
+      >
+        {sortMode === null && (
+          <option value={CUSTOM_SORT} disabled>
+            Custom
+          </option>
+        )}
+        {Object.values(SortMode).map((mode) => (
+          <option key={mode} value={mode}>
+            {SORT_MODE_LABELS[mode]}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+};
+
+export default SortControls;
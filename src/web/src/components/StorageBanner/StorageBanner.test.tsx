@@ -0,0 +1,97 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import StorageBanner from './StorageBanner';
+import { useTodoContext } from '../../contexts/TodoContext';
+import { WorkspaceTransferService } from '../../services/workspaceTransfer';
+import { FilterType } from '../../types/Filter';
+import { Priority } from '../../types/Task';
+
+// Mock the TodoContext module
+jest.mock('../../contexts/TodoContext', () => ({
+  useTodoContext: jest.fn(),
+}));
+
+const tasks = [
+  { id: 'task-1', text: 'Open task', completed: false, priority: Priority.MEDIUM, createdAt: 1 },
+  { id: 'task-2', text: 'Done task', completed: true, priority: Priority.LOW, createdAt: 2 },
+];
+
+// Helper function to render the component with a mocked TodoContext
+const renderWithTodoContext = (contextValue = {}) => {
+  const mergedContext = {
+    tasks,
+    filter: FilterType.ALL,
+    lists: [],
+    unsavedKeys: ['react-todo-list-history'],
+    archiveCompletedTasks: jest.fn(),
+    retrySave: jest.fn(),
+    ...contextValue,
+  };
+  (useTodoContext as jest.Mock).mockReturnValue(mergedContext);
+  
+  return {
+    ...render(<StorageBanner />),
+    mockContext: mergedContext,
+  };
+};
+
+describe('StorageBanner', () => {
+  let downloadSpy: jest.SpyInstance;
+  
+  beforeEach(() => {
+    downloadSpy = jest.spyOn(WorkspaceTransferService, 'downloadFile').mockImplementation(() => {});
+  });
+  
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+  
+  it('renders nothing while every change is saved', () => {
+    renderWithTodoContext({ unsavedKeys: [] });
+    
+    expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+  });
+  
+  it('exports the workspace as it is in memory', async () => {
+    renderWithTodoContext();
+    
+    expect(screen.getByRole('alert')).toHaveTextContent('could not be saved');
+    await userEvent.click(screen.getByRole('button', { name: 'Export workspace' }));
+    
+    expect(downloadSpy).toHaveBeenCalledTimes(1);
+    expect(JSON.parse(downloadSpy.mock.calls[0][1]).tasks).toEqual(tasks);
+  });
+  
+  it('downloads and removes completed tasks after confirmation', async () => {
+    jest.spyOn(window, 'confirm').mockReturnValue(true);
+    const { mockContext } = renderWithTodoContext();
+    
+    await userEvent.click(screen.getByRole('button', { name: 'Archive completed tasks' }));
+    
+    expect(downloadSpy).toHaveBeenCalledWith(
+      expect.stringMatching(/\.archive\.json$/),
+      expect.any(String),
+      'application/json'
+    );
+    expect(JSON.parse(downloadSpy.mock.calls[0][1]).tasks).toEqual([tasks[1]]);
+    expect(mockContext.archiveCompletedTasks).toHaveBeenCalled();
+  });
+  
+  it('retries saving on request', async () => {
+    const { mockContext } = renderWithTodoContext();
+    
+    await userEvent.click(screen.getByRole('button', { name: 'Try again' }));
+    
+    expect(mockContext.retrySave).toHaveBeenCalled();
+  });
+  
+  it('asks for confirmation before the page is closed', () => {
+    const { unmount } = renderWithTodoContext();
+    
+    expect(fireEvent(window, new Event('beforeunload', { cancelable: true }))).toBe(false);
+    
+    unmount();
+    expect(fireEvent(window, new Event('beforeunload', { cancelable: true }))).toBe(true);
+  });
+});
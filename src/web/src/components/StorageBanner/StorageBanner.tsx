@@ -0,0 +1,91 @@
+import React, { FC, useEffect } from 'react'; // ^18.2.0
+import styles from './StorageBanner.module.css';
+import Button from '../common/Button/Button';
+import { useTodoContext } from '../../contexts/TodoContext';
+import { WorkspaceTransferService } from '../../services/workspaceTransfer';
+
+/**
+ * A banner shown while changes could not be saved, most likely because storage is full
+ * The changes are kept in memory meanwhile; the banner offers to export the workspace
+ * or archive completed tasks to free space, and warns before the page is closed.
+ */
+const StorageBanner: FC = () => {
+  // Access todo context to get the workspace and the storage recovery operations
+  const { tasks, filter, lists, unsavedKeys, archiveCompletedTasks, retrySave } = useTodoContext();
+  const hasUnsavedChanges = unsavedKeys.length > 0;
+  const completedTasks = tasks.filter(task => task.completed);
+
+  // Ask for confirmation before closing or reloading the page would lose the unsaved changes
+  useEffect(() => {
+    if (!hasUnsavedChanges) {
+      return;
+    }
+
+    const handleBeforeUnload = (event: BeforeUnloadEvent) => {
+      event.preventDefault();
+      event.returnValue = '';
+    };
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [hasUnsavedChanges]);
+
+  if (!hasUnsavedChanges) {
+    return null;
+  }
+
+  /**
+   * Downloads the workspace as it is in memory, including the unsaved changes
+   */
+  const handleExport = (): void => {
+    WorkspaceTransferService.downloadFile(
+      WorkspaceTransferService.getExportFilename('json'),
+      WorkspaceTransferService.serializeExport(WorkspaceTransferService.createExport({ tasks, filter, lists })),
+      'application/json'
+    );
+  };
+
+  /**
+   * Downloads the completed tasks as an importable file, then removes them after confirmation
+   */
+  const handleArchive = (): void => {
+    const count = completedTasks.length;
+    const message = `Archive ${count} completed ${count === 1 ? 'task' : 'tasks'}? ` +
+      'They are downloaded to a file you can import later, then removed from this browser along with the undo history.';
+    if (!window.confirm(message)) {
+      return;
+    }
+
+    WorkspaceTransferService.downloadFile(
+      WorkspaceTransferService.getExportFilename('archive.json'),
+      WorkspaceTransferService.serializeExport(
+        WorkspaceTransferService.createExport({ tasks: completedTasks, filter, lists })
+      ),
+      'application/json'
+    );
+    archiveCompletedTasks();
+  };
+
+  return (
+    <div className={styles.container} role="alert">
+      <p className={styles.message}>
+        Your latest changes could not be saved, most likely because browser storage is full. They are
+        kept in this tab until saving succeeds, so do not close or reload it.
+      </p>
+      <div className={styles.actions}>
+        <Button size="small" onClick={handleExport}>
+          Export workspace
+        </Button>
+        {completedTasks.length > 0 && (
+          <Button variant="secondary" size="small" onClick={handleArchive}>
+            Archive completed tasks
+          </Button>
+        )}
+        <Button variant="secondary" size="small" onClick={retrySave}>
+          Try again
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default StorageBanner;
@@ -0,0 +1,49 @@
+import React from 'react';
+import { render, screen } from '@testing-library/react';
+import StorageStatus from './StorageStatus';
+import { useTodoContext } from '../../contexts/TodoContext';
+
+// Mock the TodoContext module
+jest.mock('../../contexts/TodoContext', () => ({
+  useTodoContext: jest.fn(),
+}));
+
+const MB = 1024 * 1024;
+
+// Helper function to render the component with a mocked TodoContext
+const renderWithTodoContext = (contextValue = {}) => {
+  (useTodoContext as jest.Mock).mockReturnValue({
+    storageUsage: { used: MB, quota: 5 * MB },
+    unsavedKeys: [],
+    ...contextValue,
+  });
+  
+  return render(<StorageStatus />);
+};
+
+describe('StorageStatus', () => {
+  it('shows how much of the quota is used', () => {
+    renderWithTodoContext();
+    
+    expect(screen.getByRole('status')).toHaveTextContent('Storage 20% used');
+    expect(screen.getByRole('status')).toHaveAttribute('title', '1.0 MB of 5.0 MB used');
+  });
+  
+  it('warns once usage reaches the threshold', () => {
+    renderWithTodoContext({ storageUsage: { used: 4.5 * MB, quota: 5 * MB } });
+    
+    expect(screen.getByRole('status')).toHaveTextContent('Storage almost full (90%)');
+  });
+  
+  it('reports unsaved changes', () => {
+    renderWithTodoContext({ unsavedKeys: ['react-todo-list-tasks'] });
+    
+    expect(screen.getByRole('status')).toHaveTextContent('Changes not saved');
+  });
+  
+  it('renders nothing when usage cannot be measured', () => {
+    renderWithTodoContext({ storageUsage: null });
+    
+    expect(screen.queryByRole('status')).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,54 @@
+import React, { FC } from 'react'; // ^18.2.0
+import classNames from 'classnames'; // v2.3.1
+import styles from './StorageStatus.module.css';
+import { useTodoContext } from '../../contexts/TodoContext';
+import { StorageHealthService } from '../../services/storageHealth';
+
+/**
+ * Formats a byte count for display, such as '512 KB' or '4.2 MB'
+ * @param bytes - The number of bytes
+ * @returns The formatted size
+ */
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024 * 1024) {
+    return `${Math.ceil(bytes / 1024)} KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+/**
+ * A footer indicator showing how much of the storage quota the workspace uses
+ * It warns once usage reaches the configured threshold, and while changes could not be saved.
+ */
+const StorageStatus: FC = () => {
+  // Access todo context to get the storage usage and unsaved keys
+  const { storageUsage, unsavedKeys } = useTodoContext();
+
+  if (unsavedKeys.length > 0) {
+    return (
+      <p className={classNames(styles.status, styles.error)} role="status">
+        Changes not saved
+      </p>
+    );
+  }
+
+  if (!storageUsage) {
+    return null;
+  }
+
+  const percent = Math.min(100, Math.round((storageUsage.used / storageUsage.quota) * 100));
+  const isNearlyFull = percent >= StorageHealthService.resolveWarningThreshold();
+  const detail = `${formatBytes(storageUsage.used)} of ${formatBytes(storageUsage.quota)} used`;
+
+  return (
+    <p
+      className={classNames(styles.status, { [styles.warning]: isNearlyFull })}
+      role="status"
+      title={detail}
+    >
+      {isNearlyFull ? `Storage almost full (${percent}%)` : `Storage ${percent}% used`}
+    </p>
+  );
+};
+
+export default StorageStatus;
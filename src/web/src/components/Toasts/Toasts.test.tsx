@@ -0,0 +1,51 @@
+import React from 'react';
+import { render, screen, act } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import Toasts from './Toasts';
+import { NotificationService } from '../../services/notifications';
+import { NotificationSeverity } from '../../types/Notification';
+
+/**
+ * Raises a notification and waits for subscribers to be notified
+ */
+const notify = async (severity: NotificationSeverity, message: string) => {
+  await act(async () => {
+    NotificationService.notify(severity, message);
+  });
+};
+
+describe('Toasts', () => {
+  afterEach(() => {
+    act(() => {
+      NotificationService.getNotifications().forEach(notification => NotificationService.dismiss(notification.id));
+    });
+    jest.useRealTimers();
+  });
+  
+  it('shows errors as alerts until they are dismissed', async () => {
+    render(<Toasts />);
+    
+    await notify(NotificationSeverity.ERROR, 'Could not delete the task');
+    
+    expect(screen.getByRole('alert')).toHaveTextContent('Error: Could not delete the task');
+    
+    await userEvent.click(screen.getByRole('button', { name: 'Dismiss notification' }));
+    
+    expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+  });
+  
+  it('dismisses other notifications after a delay', async () => {
+    jest.useFakeTimers();
+    render(<Toasts />);
+    
+    await notify(NotificationSeverity.WARNING, 'Some saved data could not be read');
+    
+    expect(screen.getByRole('status')).toHaveTextContent('Warning: Some saved data could not be read');
+    
+    await act(async () => {
+      jest.advanceTimersByTime(5000);
+    });
+    
+    expect(screen.queryByRole('status')).not.toBeInTheDocument();
+  });
+});
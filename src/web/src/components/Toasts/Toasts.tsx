@@ -0,0 +1,73 @@
+import React, { FC, useEffect, useSyncExternalStore } from 'react'; // ^18.2.0
+import classNames from 'classnames'; // v2.3.1
+import styles from './Toasts.module.css';
+import { AppNotification, NotificationSeverity } from '../../types/Notification';
+import { NotificationService } from '../../services/notifications';
+
+/**
+ * How long notifications stay visible, in milliseconds; errors stay until dismissed
+ */
+const AUTO_DISMISS_DELAY = 5000;
+
+/**
+ * Labels announcing the severity of each notification to screen readers
+ */
+const SEVERITY_LABELS: Record<NotificationSeverity, string> = {
+  [NotificationSeverity.INFO]: 'Info',
+  [NotificationSeverity.SUCCESS]: 'Success',
+  [NotificationSeverity.WARNING]: 'Warning',
+  [NotificationSeverity.ERROR]: 'Error',
+};
+
+/**
+ * A single notification, dismissed automatically unless it reports an error
+ */
+const Toast: FC<{ notification: AppNotification }> = ({ notification }) => {
+  const { id, severity, message } = notification;
+  const isError = severity === NotificationSeverity.ERROR;
+
+  // Dismiss non-error notifications after a delay
+  useEffect(() => {
+    if (isError) {
+      return;
+    }
+    const timer = setTimeout(() => NotificationService.dismiss(id), AUTO_DISMISS_DELAY);
+    return () => clearTimeout(timer);
+  }, [id, isError]);
+
+  return (
+    <div className={classNames(styles.toast, styles[severity])} role={isError ? 'alert' : 'status'}>
+      <p className={styles.message}>
+        <span className={styles.severity}>{SEVERITY_LABELS[severity]}: </span>
+        {message}
+      </p>
+      <button
+        type="button"
+        className={styles.dismissButton}
+        onClick={() => NotificationService.dismiss(id)}
+        aria-label="Dismiss notification"
+      >
+        ×
+      </button>
+    </div>
+  );
+};
+
+/**
+ * The stack of notifications raised through NotificationService, shown in a corner of the page
+ * Errors stay until dismissed; other notifications disappear after a few seconds.
+ */
+const Toasts: FC = () => {
+  // Read the notifications from the service, re-rendering whenever they change
+  const notifications = useSyncExternalStore(NotificationService.subscribe, NotificationService.getNotifications);
+
+  return (
+    <div className={styles.container} aria-label="Notifications" role="region">
+      {notifications.map(notification => (
+        <Toast key={notification.id} notification={notification} />
+      ))}
+    </div>
+  );
+};
+
+export default Toasts;
@@ -1,9 +1,11 @@
-import React, { FormEvent, useState, useRef } from 'react'; // ^18.2.0
+import React, { ClipboardEvent, FormEvent, useState, useRef } from 'react'; // ^18.2.0
 import styles from './TodoForm.module.css';
 import Button from '../common/Button/Button';
 import Input from '../common/Input/Input';
 import { useTodoContext } from '../../contexts/TodoContext';
 import TaskUtils from '../../utils/taskUtils';
+import TagUtils from '../../utils/tagUtils';
+import MarkdownUtils from '../../utils/markdownUtils';
 import { Priority } from '../../types/Task';
 
 /**
@@ -17,13 +19,17 @@ interface TodoFormProps {
 /**
  * Form component for creating new tasks in the todo list
  * Implements requirements for task creation (F-001) with input validation
+ * Pasting a Markdown checklist adds one task per checklist item.
  */
 const TodoForm: React.FC<TodoFormProps> = ({ className, fullWidth = false }) => {
-  // Access the addTask function from context
-  const { addTask } = useTodoContext();
+  // Access the task creation functions and the selected list from context
+  const { addTask, addTasks, activeListId } = useTodoContext();
   
   // State for form input and validation
   const [inputValue, setInputValue] = useState('');
+  const [dueDate, setDueDate] = useState('');
+  const [dueTime, setDueTime] = useState('');
+  const [priority, setPriority] = useState<Priority>(Priority.MEDIUM);
   const [isInvalid, setIsInvalid] = useState(false);
   const [errorMessage, setErrorMessage] = useState('');
   
@@ -42,30 +48,97 @@ const TodoForm: React.FC<TodoFormProps> = ({ className, fullWidth = false }) =>
     }
   };
   
+  /**
+   * Handle pasted text, adding a task per item when it is a Markdown checklist
+   * Other text is pasted into the input as usual.
+   */
+  const handlePaste = (e: ClipboardEvent<HTMLInputElement>) => {
+    const pastedText = e.clipboardData.getData('text/plain');
+    if (!MarkdownUtils.isChecklist(pastedText)) {
+      return;
+    }
+    e.preventDefault();
+    
+    // Create the tasks with the same validation as single tasks, keeping their completion state
+    const { tasks, errors } = MarkdownUtils.parseChecklist(pastedText, activeListId);
+    const result = addTasks(tasks);
+    
+    if (!result.success) {
+      setIsInvalid(true);
+      setErrorMessage(result.error);
+    } else if (errors.length > 0) {
+      setIsInvalid(true);
+      setErrorMessage(
+        `${errors.length} checklist ${errors.length === 1 ? 'item was' : 'items were'} empty and not added`
+      );
+    } else {
+      setIsInvalid(false);
+      setErrorMessage('');
+    }
+  };
+  
+  /**
+   * Handle due date changes, clearing the due time along with the date
+   */
+  const handleDueDateChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setDueDate(e.target.value);
+    if (!e.target.value) {
+      setDueTime('');
+    }
+  };
+  
+  /**
+   * Handle due time changes
+   */
+  const handleDueTimeChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setDueTime(e.target.value);
+  };
+  
+  /**
+   * Handle priority changes
+   */
+  const handlePriorityChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    setPriority(e.target.value as Priority);
+  };
+  
   /**
    * Handle form submission with validation
    */
   const handleSubmit = (e: FormEvent) => {
     e.preventDefault();
     
-    // Validate task text is not empty
-    if (!TaskUtils.validateTaskText(inputValue)) {
+    // Extract '#tag' tokens from the text
+    const { text, tags } = TagUtils.parseTags(inputValue);
+    
+    // Validate task text is not empty once tags are removed
+    if (!TaskUtils.validateTaskText(text)) {
       setIsInvalid(true);
       setErrorMessage('Task cannot be empty');
       return;
     }
     
-    // Sanitize the task text to prevent XSS
-    const sanitizedText = TaskUtils.sanitizeTaskText(inputValue);
-    
-    // Create and add the task with medium priority by default
-    addTask({
-      text: sanitizedText,
-      priority: Priority.MEDIUM
+    // Create and add the task with the chosen priority and the optional due date and tags
+    // The text is stored as typed, apart from trimming; React escapes it when rendering
+    const result = addTask({
+      text: text.trim(),
+      priority,
+      ...(dueDate && { dueDate }),
+      ...(dueDate && dueTime && { dueTime }),
+      ...(tags.length > 0 && { tags })
     });
     
+    // Keep the entry if the task could not be added, so it is not lost
+    if (!result.success) {
+      setIsInvalid(true);
+      setErrorMessage(result.error);
+      return;
+    }
+    
     // Reset form and focus input for next entry
     setInputValue('');
+    setDueDate('');
+    setDueTime('');
+    setPriority(Priority.MEDIUM);
     inputRef.current?.focus();
   };
   
@@ -83,13 +156,42 @@ const TodoForm: React.FC<TodoFormProps> = ({ className, fullWidth = false }) =>
           ref={inputRef}
           value={inputValue}
           onChange={handleInputChange}
+          onPaste={handlePaste}
           placeholder="Add a new task..."
+          title="Add #tags anywhere in the text to label the task"
           isInvalid={isInvalid}
           errorMessage={errorMessage}
           aria-label="Task description"
           fullWidth
         />
       </div>
+      <div className={styles.dueContainer}>
+        <Input
+          type="date"
+          value={dueDate}
+          onChange={handleDueDateChange}
+          aria-label="Due date"
+        />
+        <Input
+          type="time"
+          value={dueTime}
+          onChange={handleDueTimeChange}
+          disabled={!dueDate}
+          aria-label="Due time"
+        />
+        <select
+          className={styles.prioritySelect}
+          value={priority}
+          onChange={handlePriorityChange}
+          aria-label="Priority"
+        >
+          {TaskUtils.PRIORITY_OPTIONS.map(option => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
       <div className={styles.buttonContainer}>
         <Button type="submit">Add Task</Button>
       </div>
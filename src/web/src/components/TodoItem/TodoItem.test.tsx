@@ -26,6 +26,7 @@ const createMockTask = (overrides?: Partial<Task>): Task => {
     completed: false,
     priority: Priority.MEDIUM,
     createdAt: Date.now(),
+    listId: 'inbox',
     ...overrides
   };
 };
@@ -43,7 +44,7 @@ describe('TodoItem component', () => {
     
     toggleTaskMock = jest.fn();
     deleteTaskMock = jest.fn();
-    updateTaskMock = jest.fn();
+    updateTaskMock = jest.fn().mockReturnValue({ success: true });
     
     mockContextValue = {
       toggleTask: toggleTaskMock,
@@ -53,12 +54,19 @@ describe('TodoItem component', () => {
       tasks: [],
       filteredTasks: [],
       filter: 'all',
+      searchQuery: '',
+      selectedTaskId: null,
       activeCount: 0,
       completedCount: 0,
       addTask: jest.fn(),
-      updateTaskPriority: jest.fn(),
+      updateTaskPriority: jest.fn().mockReturnValue({ success: true }),
       setFilter: jest.fn(),
-      clearCompletedTasks: jest.fn()
+      clearCompletedTasks: jest.fn(),
+      moveTask: jest.fn().mockReturnValue({ success: true }),
+      lists: [
+        { id: 'inbox', name: 'Inbox', archived: false, createdAt: 0 },
+        { id: 'work', name: 'Work', archived: false, createdAt: 1 }
+      ]
     };
   });
 
@@ -236,17 +244,19 @@ describe('TodoItem component', () => {
     const task = createMockTask();
     renderWithTodoContext(<TodoItem task={task} />, mockContextValue);
     
+    const user = userEvent.setup();
+
     // Test checkbox with Space key
     const checkbox = screen.getByRole('checkbox');
     checkbox.focus();
-    fireEvent.keyDown(checkbox, { key: ' ' });
+    await user.keyboard(' ');
     
     expect(toggleTaskMock).toHaveBeenCalledWith(task.id);
     
     // Test edit button with Enter key
     const editButton = screen.getByText('Edit');
     editButton.focus();
-    fireEvent.keyDown(editButton, { key: 'Enter' });
+    await user.keyboard('{Enter}');
     
     // Should be in edit mode
     const inputElement = screen.getByLabelText('Edit task text');
@@ -258,7 +268,7 @@ describe('TodoItem component', () => {
     // Submit the form with Enter key
     const saveButton = screen.getByText('Save');
     saveButton.focus();
-    fireEvent.keyDown(saveButton, { key: 'Enter' });
+    await user.keyboard('{Enter}');
     
     // updateTask should be called with the new text
     expect(updateTaskMock).toHaveBeenCalledWith({
@@ -266,4 +276,180 @@ describe('TodoItem component', () => {
       text: 'Updated with keyboard'
     });
   });
-});
\ No newline at end of file
+
+  test('shows the due date and marks overdue tasks', () => {
+    const task = createMockTask({ text: 'Pay rent', dueDate: '2000-01-01' });
+    renderWithTodoContext(<TodoItem task={task} />, mockContextValue);
+    
+    const dueLabel = screen.getByLabelText(/^Due .* \(overdue\)$/);
+    expect(dueLabel.className).toContain('overdue');
+  });
+
+  test('removes the due date when it is cleared in edit mode', () => {
+    const task = createMockTask({ text: 'Pay rent', dueDate: '2000-01-01', dueTime: '09:00' });
+    renderWithTodoContext(<TodoItem task={task} />, mockContextValue);
+    
+    fireEvent.click(screen.getByText('Edit'));
+    fireEvent.change(screen.getByLabelText('Edit due date'), { target: { value: '' } });
+    fireEvent.click(screen.getByText('Save'));
+    
+    expect(updateTaskMock).toHaveBeenCalledWith({
+      id: task.id,
+      text: 'Pay rent',
+      dueDate: null,
+      dueTime: null
+    });
+  });
+
+  test('shows checklist progress and toggles steps', () => {
+    const toggleSubtaskMock = jest.fn();
+    const task = createMockTask({
+      text: 'Move house',
+      subtasks: [
+        { id: 'step-1', text: 'Pack boxes', completed: true },
+        { id: 'step-2', text: 'Book van', completed: false }
+      ]
+    });
+    renderWithTodoContext(<TodoItem task={task} />, { ...mockContextValue, toggleSubtask: toggleSubtaskMock });
+    
+    // The checklist starts collapsed with a progress indicator
+    const toggleButton = screen.getByText('1/2 done');
+    expect(toggleButton).toHaveAttribute('aria-expanded', 'false');
+    expect(screen.queryByText('Book van')).not.toBeInTheDocument();
+    
+    fireEvent.click(toggleButton);
+    expect(toggleButton).toHaveAttribute('aria-expanded', 'true');
+    
+    fireEvent.click(screen.getByLabelText('Mark step "Book van" as complete'));
+    expect(toggleSubtaskMock).toHaveBeenCalledWith(task.id, 'step-2');
+  });
+
+  test('adds a step to the checklist', () => {
+    const addSubtaskMock = jest.fn().mockReturnValue({ success: true });
+    const task = createMockTask({ text: 'Move house' });
+    renderWithTodoContext(<TodoItem task={task} />, { ...mockContextValue, addSubtask: addSubtaskMock });
+    
+    fireEvent.click(screen.getByText('Steps'));
+    fireEvent.change(screen.getByLabelText('New step'), { target: { value: ' Hire movers ' } });
+    fireEvent.click(screen.getByText('Add'));
+    
+    expect(addSubtaskMock).toHaveBeenCalledWith(task.id, 'Hire movers');
+    expect(screen.getByLabelText('New step')).toHaveValue('');
+  });
+
+  test('shows tags as chips that can be removed', () => {
+    const task = createMockTask({ text: 'Call plumber', tags: ['home', 'urgent'] });
+    renderWithTodoContext(<TodoItem task={task} />, mockContextValue);
+    
+    expect(screen.getByText('#home')).toBeInTheDocument();
+    
+    fireEvent.click(screen.getByLabelText('Remove tag home'));
+    expect(updateTaskMock).toHaveBeenCalledWith({ id: task.id, tags: ['urgent'] });
+  });
+
+  test('shows todo.txt projects and contexts as chips', () => {
+    const task = createMockTask({ text: 'Call plumber', projects: ['Home'], contexts: ['phone'] });
+    renderWithTodoContext(<TodoItem task={task} />, mockContextValue);
+    
+    const chips = screen.getByLabelText('Projects and contexts for task: Call plumber');
+    expect(chips).toHaveTextContent('+Home');
+    expect(chips).toHaveTextContent('@phone');
+  });
+
+  test('highlights the parts of the task matching the search query', () => {
+    const task = createMockTask({ text: 'Book the Café', tags: ['cafes'] });
+    renderWithTodoContext(<TodoItem task={task} />, { ...mockContextValue, searchQuery: 'cafe' });
+    
+    const highlights = screen.getAllByText((_, element) => element?.tagName === 'MARK');
+    expect(highlights.map(mark => mark.textContent)).toEqual(['Café', 'cafe']);
+  });
+
+  test('links to the task', () => {
+    const task = createMockTask({ id: 'task-7', text: 'Write report' });
+    renderWithTodoContext(<TodoItem task={task} />, mockContextValue);
+    
+    expect(screen.getByLabelText('Link to task: Write report')).toHaveAttribute('href', '#/task/task-7');
+  });
+  
+  test('scrolls to and highlights the task opened from a link', () => {
+    const scrollIntoView = jest.fn();
+    Element.prototype.scrollIntoView = scrollIntoView;
+    const task = createMockTask({ id: 'task-7', text: 'Write report' });
+    
+    try {
+      renderWithTodoContext(<TodoItem task={task} />, { ...mockContextValue, selectedTaskId: 'task-7' });
+      
+      expect(scrollIntoView).toHaveBeenCalledTimes(1);
+      expect(scrollIntoView.mock.instances[0]).toHaveAttribute('aria-current', 'true');
+    } finally {
+      delete (Element.prototype as Partial<Element>).scrollIntoView;
+    }
+  });
+  
+  test('changes the priority chosen in edit mode', () => {
+    const task = createMockTask({ text: 'Write report', priority: Priority.MEDIUM });
+    renderWithTodoContext(<TodoItem task={task} />, mockContextValue);
+    
+    fireEvent.click(screen.getByText('Edit'));
+    expect(screen.getByLabelText('Edit priority')).toHaveValue(Priority.MEDIUM);
+    fireEvent.change(screen.getByLabelText('Edit priority'), { target: { value: Priority.LOW } });
+    fireEvent.click(screen.getByText('Save'));
+    
+    expect(mockContextValue.updateTaskPriority).toHaveBeenCalledWith(task.id, Priority.LOW);
+  });
+  
+  test('does not change the priority when it is left as it was', () => {
+    const task = createMockTask({ text: 'Write report', priority: Priority.MEDIUM });
+    renderWithTodoContext(<TodoItem task={task} />, mockContextValue);
+    
+    fireEvent.click(screen.getByText('Edit'));
+    fireEvent.click(screen.getByText('Save'));
+    
+    expect(mockContextValue.updateTaskPriority).not.toHaveBeenCalled();
+  });
+  
+  test('sets the priority with the 1, 2 and 3 keys on the focused task', () => {
+    const task = createMockTask({ text: 'Write report', priority: Priority.MEDIUM });
+    renderWithTodoContext(<TodoItem task={task} />, mockContextValue);
+    
+    const item = screen.getByRole('group', { name: 'Task: Write report' });
+    fireEvent.keyDown(item, { key: '1' });
+    expect(mockContextValue.updateTaskPriority).toHaveBeenLastCalledWith(task.id, Priority.HIGH);
+    
+    // Keys pressed on the task's controls reach the task too
+    fireEvent.keyDown(screen.getByText('Edit'), { key: '3' });
+    expect(mockContextValue.updateTaskPriority).toHaveBeenLastCalledWith(task.id, Priority.LOW);
+    
+    // The current priority, other keys and modified keys are ignored
+    fireEvent.keyDown(item, { key: '2' });
+    fireEvent.keyDown(item, { key: '4' });
+    fireEvent.keyDown(item, { key: '1', ctrlKey: true });
+    expect(mockContextValue.updateTaskPriority).toHaveBeenCalledTimes(2);
+  });
+  
+  test('adds #tags typed while editing', () => {
+    const task = createMockTask({ text: 'Call plumber', tags: ['home'] });
+    renderWithTodoContext(<TodoItem task={task} />, mockContextValue);
+    
+    fireEvent.click(screen.getByText('Edit'));
+    fireEvent.change(screen.getByLabelText('Edit task text'), { target: { value: 'Call plumber #urgent' } });
+    fireEvent.click(screen.getByText('Save'));
+    
+    expect(updateTaskMock).toHaveBeenCalledWith({
+      id: task.id,
+      text: 'Call plumber',
+      tags: ['home', 'urgent']
+    });
+  });
+
+  test('moves the task to the list chosen in edit mode', () => {
+    const task = createMockTask({ text: 'Write report' });
+    renderWithTodoContext(<TodoItem task={task} />, mockContextValue);
+    
+    fireEvent.click(screen.getByText('Edit'));
+    fireEvent.change(screen.getByLabelText('Move to list'), { target: { value: 'work' } });
+    fireEvent.click(screen.getByText('Save'));
+    
+    expect(mockContextValue.moveTask).toHaveBeenCalledWith(task.id, 'work');
+  });
+});
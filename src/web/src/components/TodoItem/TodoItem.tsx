@@ -1,11 +1,15 @@
 import React, { useState, useRef, useEffect, FC } from 'react';
 import classNames from 'classnames'; // v2.3.1
 import styles from './TodoItem.module.css';
-import { Task, Priority } from '../../types/Task';
+import { Task, Priority, DueStatus } from '../../types/Task';
 import Button from '../common/Button/Button';
 import Checkbox from '../common/Checkbox/Checkbox';
 import Input from '../common/Input/Input';
 import { useTodoContext } from '../../contexts/TodoContext';
+import TaskUtils from '../../utils/taskUtils';
+import TagUtils from '../../utils/tagUtils';
+import SearchUtils from '../../utils/searchUtils';
+import RouteUtils from '../../utils/routeUtils';
 
 /**
  * Props interface for the TodoItem component
@@ -21,17 +25,43 @@ interface TodoItemProps {
  */
 const TodoItem: FC<TodoItemProps> = ({ task }) => {
   // Extract properties from task
-  const { id, text, completed, priority } = task;
+  const { id, text, completed, priority, listId, dueDate = '', dueTime = '', subtasks = [], tags = [], projects = [], contexts = [] } = task;
   
   // State for managing edit mode
   const [isEditing, setIsEditing] = useState(false);
   const [editText, setEditText] = useState(text);
+  const [editDueDate, setEditDueDate] = useState(dueDate);
+  const [editDueTime, setEditDueTime] = useState(dueTime);
+  const [editListId, setEditListId] = useState(listId);
+  const [editPriority, setEditPriority] = useState<Priority>(priority);
+  
+  // State for the collapsible checklist of subtasks
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [newSubtaskText, setNewSubtaskText] = useState('');
   
   // Reference for auto-focusing the input field when editing
   const inputRef = useRef<HTMLInputElement>(null);
   
+  // Reference for scrolling the task into view when it is linked to
+  const containerRef = useRef<HTMLDivElement>(null);
+  
   // Access todo context for task operations
-  const { toggleTask, deleteTask, updateTask } = useTodoContext();
+  const {
+    toggleTask,
+    deleteTask,
+    updateTask,
+    updateTaskPriority,
+    moveTask,
+    lists,
+    addSubtask,
+    toggleSubtask,
+    deleteSubtask,
+    searchQuery,
+    selectedTaskId
+  } = useTodoContext();
+  
+  // Whether the task was opened from a link to it
+  const isSelected = selectedTaskId === id;
   
   // Auto-focus input when entering edit mode
   useEffect(() => {
@@ -40,6 +70,13 @@ const TodoItem: FC<TodoItemProps> = ({ task }) => {
     }
   }, [isEditing]);
   
+  // Scroll to the task when it is opened from a link
+  useEffect(() => {
+    if (isSelected && containerRef.current && containerRef.current.scrollIntoView) {
+      containerRef.current.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }
+  }, [isSelected]);
+  
   /**
    * Toggles the completion status of the task
    */
@@ -59,6 +96,10 @@ const TodoItem: FC<TodoItemProps> = ({ task }) => {
    */
   const handleEditStart = () => {
     setEditText(text);
+    setEditDueDate(dueDate);
+    setEditDueTime(dueTime);
+    setEditListId(listId);
+    setEditPriority(priority);
     setIsEditing(true);
   };
   
@@ -70,14 +111,82 @@ const TodoItem: FC<TodoItemProps> = ({ task }) => {
   };
   
   /**
-   * Saves the edited task text
+   * Updates the editDueDate state, clearing the due time along with the date
+   */
+  const handleEditDueDateChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    setEditDueDate(event.target.value);
+    if (!event.target.value) {
+      setEditDueTime('');
+    }
+  };
+  
+  /**
+   * Updates the editDueTime state
+   */
+  const handleEditDueTimeChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    setEditDueTime(event.target.value);
+  };
+  
+  /**
+   * Updates the editListId state
+   */
+  const handleEditListChange = (event: React.ChangeEvent<HTMLSelectElement>) => {
+    setEditListId(event.target.value);
+  };
+  
+  /**
+   * Updates the editPriority state
+   */
+  const handleEditPriorityChange = (event: React.ChangeEvent<HTMLSelectElement>) => {
+    setEditPriority(event.target.value as Priority);
+  };
+  
+  /**
+   * Sets the task's priority with the 1, 2 and 3 keys while the task or one of its controls has focus
+   * The keys follow the order of TaskUtils.PRIORITY_OPTIONS, so 1 is the highest priority
+   */
+  const handleItemKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    if (event.ctrlKey || event.metaKey || event.altKey) {
+      return;
+    }
+    
+    const option = /^[1-9]$/.test(event.key) ? TaskUtils.PRIORITY_OPTIONS[Number(event.key) - 1] : undefined;
+    if (option) {
+      event.preventDefault();
+      if (option.value !== priority) {
+        updateTaskPriority(id, option.value);
+      }
+    }
+  };
+  
+  /**
+   * Saves the edited task text, any '#tags' typed into it, any changed due date, time or priority
+   * and moves the task if another list was chosen
    */
   const handleEditSubmit = (event: React.FormEvent<HTMLFormElement>) => {
     event.preventDefault();
-    const trimmedText = editText.trim();
+    const parsed = TagUtils.parseTags(editText.trim());
+    const trimmedText = parsed.text;
     if (trimmedText) {
-      updateTask({ id, text: trimmedText });
-      setIsEditing(false);
+      const results = [updateTask({
+        id,
+        text: trimmedText,
+        ...(parsed.tags.length > 0 && { tags: TagUtils.mergeTags(tags, parsed.tags) }),
+        // Cleared fields are sent as null so they are removed from the task
+        ...(editDueDate !== dueDate && { dueDate: editDueDate || null }),
+        ...(editDueTime !== dueTime && { dueTime: editDueTime || null })
+      })];
+      // Priority changes go through updateTaskPriority, which validates the level
+      if (editPriority !== priority) {
+        results.push(updateTaskPriority(id, editPriority));
+      }
+      if (editListId !== listId) {
+        results.push(moveTask(id, editListId));
+      }
+      // Stay in edit mode after a failure so the changes can be corrected or cancelled
+      if (results.every(result => result.success)) {
+        setIsEditing(false);
+      }
     }
   };
   
@@ -88,6 +197,40 @@ const TodoItem: FC<TodoItemProps> = ({ task }) => {
     setIsEditing(false);
   };
   
+  /**
+   * Shows or hides the checklist of subtasks
+   */
+  const handleToggleExpanded = () => {
+    setIsExpanded(!isExpanded);
+  };
+  
+  /**
+   * Updates the newSubtaskText state as user types
+   */
+  const handleNewSubtaskChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    setNewSubtaskText(event.target.value);
+  };
+  
+  /**
+   * Adds a new step to the checklist
+   */
+  const handleAddSubtask = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const trimmedText = newSubtaskText.trim();
+    if (trimmedText) {
+      if (addSubtask(id, trimmedText).success) {
+        setNewSubtaskText('');
+      }
+    }
+  };
+  
+  /**
+   * Removes a tag from the task
+   */
+  const handleRemoveTag = (tag: string) => {
+    updateTask({ id, tags: tags.filter(existing => existing !== tag) });
+  };
+  
   /**
    * Determines the CSS class based on task priority
    */
@@ -105,42 +248,247 @@ const TodoItem: FC<TodoItemProps> = ({ task }) => {
   };
   
   /**
-   * Renders the task in normal view mode
+   * Returns the display name of the task's priority
    */
-  const renderViewMode = () => (
-    <div className={classNames(styles.todoItem, { [styles.completed]: completed })}>
-      <div className={styles.leftSection}>
-        <Checkbox 
-          checked={completed} 
-          onChange={handleToggle} 
-          aria-label={`Mark task "${text}" as ${completed ? 'incomplete' : 'complete'}`}
-        />
-        <div 
-          className={classNames(styles.priorityIndicator, getPriorityClass())} 
-          aria-hidden="true"
+  const getPriorityLabel = () => {
+    const option = TaskUtils.PRIORITY_OPTIONS.find(candidate => candidate.value === priority);
+    return option ? option.label : priority;
+  };
+  
+  /**
+   * Determines the CSS class based on where the due date falls relative to now
+   */
+  const getDueStatusClass = (dueStatus: DueStatus | null) => {
+    switch (dueStatus) {
+      case DueStatus.OVERDUE:
+        return styles.overdue;
+      case DueStatus.TODAY:
+        return styles.dueToday;
+      case DueStatus.UPCOMING:
+        return styles.upcoming;
+      default:
+        return '';
+    }
+  };
+  
+  /**
+   * Renders the due date label, if the task has a due date
+   */
+  const renderDueDate = () => {
+    if (!dueDate) {
+      return null;
+    }
+    
+    const dueStatus = TaskUtils.getDueStatus(task);
+    const formattedDueDate = TaskUtils.formatDueDate(task);
+    return (
+      <span
+        className={classNames(styles.dueDate, getDueStatusClass(dueStatus))}
+        aria-label={`Due ${formattedDueDate}${dueStatus === DueStatus.OVERDUE ? ' (overdue)' : ''}`}
+      >
+        {formattedDueDate}
+      </span>
+    );
+  };
+  
+  /**
+   * Renders text with the parts matching the search query highlighted
+   * @param value - The text to render
+   */
+  const renderHighlighted = (value: string) => {
+    if (!searchQuery) {
+      return value;
+    }
+    
+    return SearchUtils.splitHighlights(value, searchQuery).map((segment, index) =>
+      segment.highlighted ? (
+        <mark key={index} className={styles.highlight}>{segment.text}</mark>
+      ) : (
+        <React.Fragment key={index}>{segment.text}</React.Fragment>
+      )
+    );
+  };
+  
+  /**
+   * Renders the task's tags as removable chips
+   */
+  const renderTags = () => {
+    if (tags.length === 0) {
+      return null;
+    }
+    
+    return (
+      <ul className={styles.tagList} aria-label={`Tags for task: ${text}`}>
+        {tags.map((tag) => (
+          <li key={tag} className={styles.tag}>
+            #{renderHighlighted(tag)}
+            <button
+              type="button"
+              className={styles.tagRemove}
+              onClick={() => handleRemoveTag(tag)}
+              aria-label={`Remove tag ${tag}`}
+            >
+              ×
+            </button>
+          </li>
+        ))}
+      </ul>
+    );
+  };
+  
+  /**
+   * Renders the task's todo.txt projects and contexts as read-only chips
+   */
+  const renderTodoTxtMetadata = () => {
+    if (projects.length === 0 && contexts.length === 0) {
+      return null;
+    }
+    
+    return (
+      <ul className={styles.tagList} aria-label={`Projects and contexts for task: ${text}`}>
+        {projects.map((project) => (
+          <li key={`+${project}`} className={classNames(styles.tag, styles.project)}>
+            +{renderHighlighted(project)}
+          </li>
+        ))}
+        {contexts.map((context) => (
+          <li key={`@${context}`} className={classNames(styles.tag, styles.context)}>
+            @{renderHighlighted(context)}
+          </li>
+        ))}
+      </ul>
+    );
+  };
+  
+  /**
+   * Renders the button that expands the checklist, showing progress when steps exist
+   */
+  const renderSubtaskToggle = () => {
+    const progress = TaskUtils.getSubtaskProgress(task);
+    return (
+      <Button
+        variant="secondary"
+        size="small"
+        onClick={handleToggleExpanded}
+        className={classNames(styles.actionButton, styles.subtaskToggle)}
+        aria-expanded={isExpanded}
+        aria-controls={`subtasks-${id}`}
+        aria-label={`${isExpanded ? 'Hide' : 'Show'} steps for task: ${text}`}
+      >
+        {progress.total > 0 ? `${progress.completed}/${progress.total} done` : 'Steps'}
+      </Button>
+    );
+  };
+  
+  /**
+   * Renders the checklist of subtasks and the form for adding a step
+   */
+  const renderSubtaskList = () => (
+    <div id={`subtasks-${id}`} className={styles.subtaskSection}>
+      {subtasks.length > 0 && (
+        <ul className={styles.subtaskList} aria-label={`Steps for task: ${text}`}>
+          {subtasks.map((subtask) => (
+            <li
+              key={subtask.id}
+              className={classNames(styles.subtaskItem, { [styles.completed]: subtask.completed })}
+            >
+              <Checkbox
+                checked={subtask.completed}
+                onChange={() => toggleSubtask(id, subtask.id)}
+                aria-label={`Mark step "${subtask.text}" as ${subtask.completed ? 'incomplete' : 'complete'}`}
+              />
+              <span className={styles.subtaskText}>{renderHighlighted(subtask.text)}</span>
+              <Button
+                variant="secondary"
+                size="small"
+                onClick={() => deleteSubtask(id, subtask.id)}
+                className={styles.actionButton}
+                aria-label={`Delete step: ${subtask.text}`}
+              >
+                Remove
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <form className={styles.subtaskForm} onSubmit={handleAddSubtask} aria-label={`Add step to task: ${text}`}>
+        <Input
+          value={newSubtaskText}
+          onChange={handleNewSubtaskChange}
+          placeholder="Add a step..."
+          aria-label="New step"
         />
-        <span className={styles.todoText}>{text}</span>
-      </div>
-      <div className={styles.todoActions}>
-        <Button 
-          variant="secondary" 
-          size="small" 
-          onClick={handleEditStart} 
-          className={styles.actionButton}
-          aria-label={`Edit task: ${text}`}
-        >
-          Edit
-        </Button>
-        <Button 
-          variant="danger" 
-          size="small" 
-          onClick={handleDelete} 
-          className={styles.actionButton}
-          aria-label={`Delete task: ${text}`}
-        >
-          Delete
+        <Button type="submit" variant="secondary" size="small" disabled={!newSubtaskText.trim()}>
+          Add
         </Button>
+      </form>
+    </div>
+  );
+  
+  /**
+   * Renders the task in normal view mode, followed by the checklist when expanded
+   */
+  const renderViewMode = () => (
+    <div
+      ref={containerRef}
+      className={classNames(styles.taskContainer, { [styles.selected]: isSelected })}
+      aria-current={isSelected ? 'true' : undefined}
+    >
+      <div
+        className={classNames(styles.todoItem, { [styles.completed]: completed })}
+        role="group"
+        aria-label={`Task: ${text}`}
+        aria-keyshortcuts="1 2 3"
+        tabIndex={0}
+        onKeyDown={handleItemKeyDown}
+      >
+        <div className={styles.leftSection}>
+          <Checkbox 
+            checked={completed} 
+            onChange={handleToggle} 
+            aria-label={`Mark task "${text}" as ${completed ? 'incomplete' : 'complete'}`}
+          />
+          <div 
+            className={classNames(styles.priorityIndicator, getPriorityClass())} 
+            title={`${getPriorityLabel()} priority (press 1, 2 or 3 to change)`}
+            aria-hidden="true"
+          />
+          <span className={styles.todoText}>{renderHighlighted(text)}</span>
+          {renderTags()}
+          {renderTodoTxtMetadata()}
+          {renderDueDate()}
+        </div>
+        <div className={styles.todoActions}>
+          {renderSubtaskToggle()}
+          <a
+            href={RouteUtils.getTaskLink(id)}
+            className={styles.taskLink}
+            aria-label={`Link to task: ${text}`}
+            title="Link to this task"
+          >
+            Link
+          </a>
+          <Button 
+            variant="secondary" 
+            size="small" 
+            onClick={handleEditStart} 
+            className={styles.actionButton}
+            aria-label={`Edit task: ${text}`}
+          >
+            Edit
+          </Button>
+          <Button 
+            variant="danger" 
+            size="small" 
+            onClick={handleDelete} 
+            className={styles.actionButton}
+            aria-label={`Delete task: ${text}`}
+          >
+            Delete
+          </Button>
+        </div>
       </div>
+      {isExpanded && renderSubtaskList()}
     </div>
   );
   
@@ -149,16 +497,55 @@ const TodoItem: FC<TodoItemProps> = ({ task }) => {
    */
   const renderEditMode = () => (
     <div className={styles.todoItem}>
-      <form className={styles.editForm} onSubmit={handleEditSubmit}>
+      <form className={styles.editForm} onSubmit={handleEditSubmit} aria-label="Edit task">
         <Input
           value={editText}
           onChange={handleEditChange}
           ref={inputRef}
           aria-label="Edit task text"
-          placeholder="Edit task..."
+          placeholder="Edit task... (add #tags to label it)"
           isInvalid={editText.trim().length === 0}
           errorMessage="Task text cannot be empty"
         />
+        <Input
+          type="date"
+          value={editDueDate}
+          onChange={handleEditDueDateChange}
+          aria-label="Edit due date"
+        />
+        <Input
+          type="time"
+          value={editDueTime}
+          onChange={handleEditDueTimeChange}
+          disabled={!editDueDate}
+          aria-label="Edit due time"
+        />
+        <select
+          className={styles.listSelect}
+          value={editPriority}
+          onChange={handleEditPriorityChange}
+          aria-label="Edit priority"
+        >
+          {TaskUtils.PRIORITY_OPTIONS.map(option => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <select
+          className={styles.listSelect}
+          value={editListId}
+          onChange={handleEditListChange}
+          aria-label="Move to list"
+        >
+          {lists
+            .filter(list => !list.archived || list.id === listId)
+            .map(list => (
+              <option key={list.id} value={list.id}>
+                {list.name}
+              </option>
+            ))}
+        </select>
         <Button type="submit" variant="primary" size="small">
           Save
         </Button>
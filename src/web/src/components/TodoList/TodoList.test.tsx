@@ -1,9 +1,10 @@
 import React from 'react';
-import { render, screen, within, waitFor } from '@testing-library/react';
+import { render, screen, within, waitFor, fireEvent } from '@testing-library/react';
 import type { RenderResult } from '@testing-library/react';
 import TodoList from './TodoList';
 import { Task, Priority } from '../../types/Task';
 import { FilterType } from '../../types/Filter';
+import { SortMode } from '../../types/Sort';
 import { TodoContext } from '../../contexts/TodoContext';
 
 // Mock the TodoContext hook
@@ -27,6 +28,8 @@ describe('TodoList component', () => {
   const mockContextValue = {
     filteredTasks: [] as Task[],
     filter: FilterType.ALL,
+    sortMode: SortMode.PRIORITY,
+    searchQuery: '',
     activeCount: 0,
     tasks: [] as Task[],
     completedCount: 0,
@@ -37,6 +40,7 @@ describe('TodoList component', () => {
     updateTaskPriority: jest.fn(),
     setFilter: jest.fn(),
     clearCompletedTasks: jest.fn(),
+    reorderTask: jest.fn(),
   };
 
   beforeEach(() => {
@@ -54,6 +58,7 @@ describe('TodoList component', () => {
       completed: false,
       priority: Priority.MEDIUM,
       createdAt: Date.now() - index * 1000,
+      listId: 'inbox',
       ...overrides,
     }));
   };
@@ -153,13 +158,13 @@ describe('TodoList component', () => {
     });
     
     // Render the component
-    render(<TodoList />);
+    const { unmount } = render(<TodoList />);
     
     // Should say "1 item left" (singular)
     expect(screen.getByText('1 item left')).toBeInTheDocument();
     
     // Clean up
-    screen.unmount();
+    unmount();
     
     // Test with multiple active tasks
     (useTodoContext as jest.Mock).mockReturnValue({
@@ -213,4 +218,77 @@ describe('TodoList component', () => {
     const counter = screen.getByText('3 items left');
     expect(counter).toBeInTheDocument();
   });
+
+  test('shows a search empty state when no tasks match the search', () => {
+    (useTodoContext as jest.Mock).mockReturnValue({
+      ...mockContextValue,
+      searchQuery: ' milk ',
+    });
+    
+    render(<TodoList />);
+    
+    expect(screen.getByText('No tasks match "milk"')).toBeInTheDocument();
+    expect(screen.getByText('Try a different search.')).toBeInTheDocument();
+  });
+
+  describe('manual order', () => {
+    const renderManual = (tasks = createMockTasks(3)) => {
+      (useTodoContext as jest.Mock).mockReturnValue({
+        ...mockContextValue,
+        filteredTasks: tasks,
+        activeCount: tasks.length,
+        sortMode: SortMode.MANUAL,
+      });
+      return render(<TodoList />);
+    };
+
+    test('shows reorder handles only in manual sort mode', () => {
+      (useTodoContext as jest.Mock).mockReturnValue({
+        ...mockContextValue,
+        filteredTasks: createMockTasks(2),
+        activeCount: 2,
+      });
+      const { unmount } = render(<TodoList />);
+      expect(screen.queryByRole('button', { name: /^Reorder/ })).not.toBeInTheDocument();
+      unmount();
+
+      renderManual();
+      expect(screen.getAllByRole('button', { name: /^Reorder/ })).toHaveLength(3);
+    });
+
+    test('moves a task with the keyboard and announces its position', () => {
+      renderManual();
+
+      fireEvent.keyDown(screen.getByRole('button', { name: 'Reorder Task 1' }), { key: 'ArrowDown' });
+      expect(mockContextValue.reorderTask).toHaveBeenCalledWith('task-0', 1);
+      expect(screen.getByText('Moved Task 1 to position 2 of 3')).toBeInTheDocument();
+
+      fireEvent.keyDown(screen.getByRole('button', { name: 'Reorder Task 2' }), { key: 'End' });
+      expect(mockContextValue.reorderTask).toHaveBeenLastCalledWith('task-1', 2);
+    });
+
+    test('does not move a task past either end of the list', () => {
+      renderManual();
+
+      fireEvent.keyDown(screen.getByRole('button', { name: 'Reorder Task 1' }), { key: 'ArrowUp' });
+      fireEvent.keyDown(screen.getByRole('button', { name: 'Reorder Task 3' }), { key: 'ArrowDown' });
+
+      expect(mockContextValue.reorderTask).not.toHaveBeenCalled();
+    });
+
+    test('moves a dragged task to the position it is dropped at', () => {
+      renderManual();
+      const dataTransfer = { setData: jest.fn(), effectAllowed: '', dropEffect: '' };
+      // Drag events on the handles bubble up to the draggable rows
+      const source = screen.getByRole('button', { name: 'Reorder Task 3' });
+      const target = screen.getByRole('button', { name: 'Reorder Task 1' });
+
+      fireEvent.dragStart(source, { dataTransfer });
+      fireEvent.dragOver(target, { dataTransfer });
+      fireEvent.drop(target, { dataTransfer });
+
+      expect(dataTransfer.setData).toHaveBeenCalledWith('text/plain', 'task-2');
+      expect(mockContextValue.reorderTask).toHaveBeenCalledWith('task-2', 0);
+    });
+  });
 });
\ No newline at end of file
@@ -1,9 +1,11 @@
-import React, { FC, memo } from 'react';
+import React, { DragEvent, FC, KeyboardEvent, memo, useEffect, useRef, useState } from 'react'; // ^18.2.0
+import classNames from 'classnames'; // ^2.3.1
 import { CSSTransition, TransitionGroup } from 'react-transition-group'; // ^4.4.5
 import styles from './TodoList.module.css';
 import TodoItem from '../TodoItem/TodoItem';
 import { Task } from '../../types/Task';
 import { FilterType } from '../../types/Filter';
+import { SortMode } from '../../types/Sort';
 import { useTodoContext } from '../../contexts/TodoContext';
 
 /**
@@ -24,6 +26,10 @@ const getEmptyStateMessage = (filter: FilterType): string => {
       return 'No active tasks found';
     case FilterType.COMPLETED:
       return 'No completed tasks found';
+    case FilterType.DUE_TODAY:
+      return 'No tasks due today';
+    case FilterType.OVERDUE:
+      return 'No overdue tasks';
     default:
       return 'No tasks to display';
   }
@@ -31,33 +37,133 @@ const getEmptyStateMessage = (filter: FilterType): string => {
 
 /**
  * Component that renders the collection of todo items with filtering and empty state handling
+ * In manual sort mode, tasks can be reordered by dragging them or with the arrow keys on their handle.
  */
 const TodoList: FC<TodoListProps> = () => {
-  // Access filtered tasks, filter, and active count from the todo context
-  const { filteredTasks, filter, activeCount } = useTodoContext();
+  // Access filtered tasks, filter, search, sort mode and active count from the todo context
+  const { filteredTasks, filter, searchQuery, activeCount, sortMode, reorderTask } = useTodoContext();
+  const isSearching = searchQuery.trim().length > 0;
+  const isManualOrder = sortMode === SortMode.MANUAL;
+  
+  // State for the task being dragged, the position it would be dropped at and the last move announced
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  const [announcement, setAnnouncement] = useState('');
+  
+  // Drag handles by task ID, and the task whose handle should regain focus after a keyboard move
+  const handleRefs = useRef(new Map<string, HTMLButtonElement>());
+  const focusTaskIdRef = useRef<string | null>(null);
+  
+  // Keep focus on the moved task's handle once the list has been reordered
+  useEffect(() => {
+    if (focusTaskIdRef.current) {
+      handleRefs.current.get(focusTaskIdRef.current)?.focus();
+      focusTaskIdRef.current = null;
+    }
+  }, [filteredTasks]);
+  
+  /**
+   * Moves a task and announces its new position to screen readers
+   * @param task - The task to move
+   * @param toIndex - The position among the visible tasks to move it to
+   */
+  const moveTask = (task: Task, toIndex: number) => {
+    const index = Math.max(0, Math.min(toIndex, filteredTasks.length - 1));
+    reorderTask(task.id, index);
+    setAnnouncement(`Moved ${task.text} to position ${index + 1} of ${filteredTasks.length}`);
+  };
+  
+  /**
+   * Moves a task with the arrow, Home and End keys on its drag handle
+   * @param event - The keyboard event
+   * @param task - The task the handle belongs to
+   * @param index - The task's current position
+   */
+  const handleHandleKeyDown = (event: KeyboardEvent<HTMLButtonElement>, task: Task, index: number) => {
+    const targets: Record<string, number> = {
+      ArrowUp: index - 1,
+      ArrowDown: index + 1,
+      Home: 0,
+      End: filteredTasks.length - 1
+    };
+    const toIndex = targets[event.key];
+    if (toIndex === undefined) {
+      return;
+    }
+    
+    event.preventDefault();
+    if (toIndex >= 0 && toIndex < filteredTasks.length && toIndex !== index) {
+      focusTaskIdRef.current = task.id;
+      moveTask(task, toIndex);
+    }
+  };
+  
+  /**
+   * Starts dragging a task
+   */
+  const handleDragStart = (event: DragEvent<HTMLDivElement>, task: Task) => {
+    event.dataTransfer.effectAllowed = 'move';
+    event.dataTransfer.setData('text/plain', task.id);
+    setDraggedId(task.id);
+  };
+  
+  /**
+   * Marks the task being dragged over as the drop position
+   */
+  const handleDragOver = (event: DragEvent<HTMLDivElement>, index: number) => {
+    if (!draggedId) {
+      return;
+    }
+    event.preventDefault();
+    event.dataTransfer.dropEffect = 'move';
+    setDropIndex(index);
+  };
+  
+  /**
+   * Moves the dragged task to the position it was dropped at
+   */
+  const handleDrop = (event: DragEvent<HTMLDivElement>, index: number) => {
+    event.preventDefault();
+    const task = filteredTasks.find(({ id }) => id === draggedId);
+    if (task) {
+      moveTask(task, index);
+    }
+    handleDragEnd();
+  };
+  
+  /**
+   * Clears the drag state when dragging ends, whether or not the task was dropped
+   */
+  const handleDragEnd = () => {
+    setDraggedId(null);
+    setDropIndex(null);
+  };
 
   /**
-   * Renders the empty state message when no tasks are available
+   * Renders the empty state message when no tasks are available or none match the search
    * @returns The empty state JSX
    */
   const renderEmptyState = () => (
     <div className={styles.emptyState}>
       <div className={styles.emptyStateMessage}>
-        {getEmptyStateMessage(filter)}
+        {isSearching ? `No tasks match "${searchQuery.trim()}"` : getEmptyStateMessage(filter)}
       </div>
       <div className={styles.emptyStateAction}>
-        Add a task to get started!
+        {isSearching ? 'Try a different search.' : 'Add a task to get started!'}
       </div>
     </div>
   );
 
+  // Position of the dragged task, which decides whether the drop indicator shows above or below
+  const draggedIndex = filteredTasks.findIndex(({ id }) => id === draggedId);
+  
   /**
    * Renders the list of todo items with transition effects
    * @returns The task list JSX
    */
   const renderTaskList = () => (
     <TransitionGroup component="div">
-      {filteredTasks.map((task) => (
+      {filteredTasks.map((task, index) => (
         <CSSTransition
           key={task.id}
           timeout={200}
@@ -68,7 +174,44 @@ const TodoList: FC<TodoListProps> = () => {
             exitActive: styles['taskItem-exit-active']
           }}
         >
-          <TodoItem task={task} />
+          {isManualOrder ? (
+            <div
+              className={classNames(
+                styles.sortableItem,
+                task.id === draggedId && styles.dragging,
+                index === dropIndex && task.id !== draggedId &&
+                  (index > draggedIndex ? styles.dropAfter : styles.dropBefore)
+              )}
+              draggable
+              onDragStart={(e) => handleDragStart(e, task)}
+              onDragOver={(e) => handleDragOver(e, index)}
+              onDrop={(e) => handleDrop(e, index)}
+              onDragEnd={handleDragEnd}
+            >
+              <button
+                type="button"
+                ref={(element) => {
+                  if (element) {
+                    handleRefs.current.set(task.id, element);
+                  } else {
+                    handleRefs.current.delete(task.id);
+                  }
+                }}
+                className={styles.dragHandle}
+                onKeyDown={(e) => handleHandleKeyDown(e, task, index)}
+                aria-label={`Reorder ${task.text}`}
+                aria-describedby="reorder-instructions"
+                title="Drag to reorder, or use the arrow keys"
+              >
+                ⠿
+              </button>
+              <div className={styles.sortableContent}>
+                <TodoItem task={task} />
+              </div>
+            </div>
+          ) : (
+            <TodoItem task={task} />
+          )}
         </CSSTransition>
       ))}
     </TransitionGroup>
@@ -89,6 +232,16 @@ const TodoList: FC<TodoListProps> = () => {
       <div className={styles.listContainer}>
         {filteredTasks.length === 0 ? renderEmptyState() : renderTaskList()}
       </div>
+      {isManualOrder && (
+        <>
+          <p id="reorder-instructions" className="sr-only">
+            Use the arrow keys to move a task up or down, or Home and End to move it to the top or bottom.
+          </p>
+          <div className="sr-only" aria-live="polite">
+            {announcement}
+          </div>
+        </>
+      )}
       {renderTaskCounter()}
     </div>
   );
@@ -0,0 +1,248 @@
+import React from 'react';
+import { render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import WorkspaceTransfer from './WorkspaceTransfer';
+import { useTodoContext } from '../../contexts/TodoContext';
+import { WorkspaceTransferService } from '../../services/workspaceTransfer';
+import { Task, Priority } from '../../types/Task';
+import { FilterType } from '../../types/Filter';
+import { ImportMode } from '../../types/Transfer';
+
+// Mock the TodoContext module
+jest.mock('../../contexts/TodoContext', () => ({
+  useTodoContext: jest.fn(),
+}));
+
+// Helper function to create a mock task for testing
+const createMockTask = (overrides: Partial<Task> = {}): Task => ({
+  id: 'task-1',
+  text: 'Buy milk',
+  completed: false,
+  priority: Priority.MEDIUM,
+  createdAt: 1623456789000,
+  listId: 'inbox',
+  ...overrides,
+});
+
+// Helper function to render the component with a mocked TodoContext
+const renderWithTodoContext = (contextValue = {}) => {
+  const defaultContext = {
+    tasks: [createMockTask()],
+    filteredTasks: [createMockTask()],
+    filter: FilterType.ALL,
+    lists: [{ id: 'inbox', name: 'Inbox', archived: false, createdAt: 0 }],
+    activeListId: 'inbox',
+    importWorkspace: jest.fn().mockReturnValue({ success: true }),
+  };
+  
+  const mergedContext = { ...defaultContext, ...contextValue };
+  (useTodoContext as jest.Mock).mockReturnValue(mergedContext);
+  
+  return {
+    ...render(<WorkspaceTransfer />),
+    mockContext: mergedContext,
+  };
+};
+
+// Helper function to build an exported file containing the given tasks
+const createExportFile = (tasks: Task[]): File => {
+  const document = WorkspaceTransferService.createExport({
+    tasks,
+    filter: FilterType.ACTIVE,
+    lists: [{ id: 'inbox', name: 'Inbox', archived: false, createdAt: 0 }],
+  });
+  return new File([WorkspaceTransferService.serializeExport(document)], 'export.json', {
+    type: 'application/json',
+  });
+};
+
+describe('WorkspaceTransfer', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('downloads the workspace as JSON', async () => {
+    const downloadSpy = jest.spyOn(WorkspaceTransferService, 'downloadFile').mockImplementation(() => {});
+    renderWithTodoContext();
+    
+    await userEvent.click(screen.getByText('Export JSON'));
+    
+    expect(downloadSpy).toHaveBeenCalledWith(
+      expect.stringMatching(/^react-todo-list-\d{4}-\d{2}-\d{2}\.json$/),
+      expect.stringContaining('"text": "Buy milk"'),
+      'application/json'
+    );
+  });
+  
+  it('previews additions and conflicts before merging', async () => {
+    const { mockContext } = renderWithTodoContext();
+    
+    await userEvent.upload(
+      screen.getByLabelText('Import file'),
+      createExportFile([createMockTask({ text: 'Buy oat milk' }), createMockTask({ id: 'task-2', text: 'Call mom' })])
+    );
+    
+    const preview = await screen.findByRole('region', { name: 'Import preview' });
+    expect(within(preview).getByText('1 new, 1 conflict, 0 unchanged')).toBeInTheDocument();
+    expect(within(preview).getByText('Buy oat milk')).toBeInTheDocument();
+    
+    await userEvent.click(within(preview).getByText('Merge'));
+    
+    expect(mockContext.importWorkspace).toHaveBeenCalledWith(
+      expect.objectContaining({ filter: FilterType.ACTIVE }),
+      ImportMode.MERGE
+    );
+    expect(screen.queryByRole('region', { name: 'Import preview' })).not.toBeInTheDocument();
+  });
+  
+  it('replaces the workspace when chosen', async () => {
+    const { mockContext } = renderWithTodoContext();
+    
+    await userEvent.upload(screen.getByLabelText('Import file'), createExportFile([createMockTask()]));
+    await userEvent.click(await screen.findByText('Replace all'));
+    
+    expect(mockContext.importWorkspace).toHaveBeenCalledWith(expect.any(Object), ImportMode.REPLACE);
+  });
+  
+  it('downloads the tasks as CSV', async () => {
+    const downloadSpy = jest.spyOn(WorkspaceTransferService, 'downloadFile').mockImplementation(() => {});
+    renderWithTodoContext();
+    
+    await userEvent.click(screen.getByText('Export CSV'));
+    
+    expect(downloadSpy).toHaveBeenCalledWith(
+      expect.stringMatching(/\.csv$/),
+      expect.stringContaining('id,text,completed,priority,createdAt\r\ntask-1,Buy milk,false,medium,'),
+      'text/csv'
+    );
+  });
+  
+  it('maps CSV columns before previewing the import', async () => {
+    const { mockContext } = renderWithTodoContext();
+    
+    await userEvent.upload(
+      screen.getByLabelText('Import file'),
+      new File(['Task,Importance\nCall mom,urgent\n,low\nBuy milk,low\n'], 'tasks.csv', { type: 'text/csv' })
+    );
+    
+    const mapping = await screen.findByRole('region', { name: 'Map CSV columns' });
+    expect(within(mapping).getByLabelText('Text column')).toHaveValue('0');
+    await userEvent.selectOptions(within(mapping).getByLabelText('Priority column'), 'Importance');
+    await userEvent.click(within(mapping).getByText('Continue'));
+    
+    const preview = screen.getByRole('region', { name: 'Import preview' });
+    expect(within(preview).getByText('1 new, 1 conflict, 0 unchanged')).toBeInTheDocument();
+    expect(within(preview).getByText('Row 3: Task text cannot be empty')).toBeInTheDocument();
+    
+    await userEvent.click(within(preview).getByText('Skip duplicates'));
+    
+    const [document, mode] = mockContext.importWorkspace.mock.calls[0];
+    expect(mode).toBe(ImportMode.SKIP_DUPLICATES);
+    expect(document.tasks[0]).toMatchObject({ text: 'Call mom', priority: Priority.HIGH, listId: 'inbox' });
+  });
+  
+  it('downloads the tasks as todo.txt', async () => {
+    const downloadSpy = jest.spyOn(WorkspaceTransferService, 'downloadFile').mockImplementation(() => {});
+    renderWithTodoContext({ tasks: [createMockTask({ priority: Priority.HIGH, projects: ['Home'] })] });
+    
+    await userEvent.click(screen.getByText('Export todo.txt'));
+    
+    expect(downloadSpy).toHaveBeenCalledWith(
+      expect.stringMatching(/\.txt$/),
+      expect.stringMatching(/^\(A\) \d{4}-\d{2}-\d{2} Buy milk \+Home\n$/),
+      'text/plain'
+    );
+  });
+  
+  it('downloads the shown tasks as a Markdown checklist grouped by priority', async () => {
+    const downloadSpy = jest.spyOn(WorkspaceTransferService, 'downloadFile').mockImplementation(() => {});
+    renderWithTodoContext({
+      filteredTasks: [createMockTask({ priority: Priority.HIGH, completed: true })],
+    });
+    
+    await userEvent.click(screen.getByLabelText('Group by priority'));
+    await userEvent.click(screen.getByText('Export Markdown'));
+    
+    expect(downloadSpy).toHaveBeenCalledWith(
+      expect.stringMatching(/\.md$/),
+      '## High priority\n\n- [x] Buy milk\n',
+      'text/markdown'
+    );
+  });
+  
+  it('previews pasted todo.txt lines', async () => {
+    const { mockContext } = renderWithTodoContext();
+    
+    await userEvent.click(screen.getByText('Paste todo.txt'));
+    const paste = screen.getByRole('region', { name: 'Paste todo.txt' });
+    await userEvent.type(within(paste).getByLabelText('todo.txt lines'), '(A) Call mom +Family @phone{enter}+Work');
+    await userEvent.click(within(paste).getByText('Preview'));
+    
+    const preview = screen.getByRole('region', { name: 'Import preview' });
+    expect(within(preview).getByText('1 new, 0 conflicts, 0 unchanged')).toBeInTheDocument();
+    expect(within(preview).getByText('Row 2: Task text cannot be empty')).toBeInTheDocument();
+    
+    await userEvent.click(within(preview).getByText('Merge'));
+    
+    const [document] = mockContext.importWorkspace.mock.calls[0];
+    expect(document.tasks[0]).toMatchObject({
+      text: 'Call mom',
+      priority: Priority.HIGH,
+      projects: ['Family'],
+      contexts: ['phone']
+    });
+  });
+  
+  it('previews an uploaded todo.txt file', async () => {
+    renderWithTodoContext();
+    
+    await userEvent.upload(
+      screen.getByLabelText('Import file'),
+      new File(['x 2024-01-04 2024-01-02 Buy milk\n'], 'todo.txt', { type: 'text/plain' })
+    );
+    
+    const preview = await screen.findByRole('region', { name: 'Import preview' });
+    expect(within(preview).getByText('0 new, 1 conflict, 0 unchanged')).toBeInTheDocument();
+  });
+  
+  it('downloads the tasks as iCalendar to-dos', async () => {
+    const downloadSpy = jest.spyOn(WorkspaceTransferService, 'downloadFile').mockImplementation(() => {});
+    renderWithTodoContext();
+    
+    await userEvent.click(screen.getByText('Export iCalendar'));
+    
+    expect(downloadSpy).toHaveBeenCalledWith(
+      expect.stringMatching(/\.ics$/),
+      expect.stringContaining('BEGIN:VTODO\r\nUID:task-1\r\n'),
+      'text/calendar'
+    );
+  });
+  
+  it('previews an uploaded iCalendar file', async () => {
+    renderWithTodoContext();
+    
+    await userEvent.upload(
+      screen.getByLabelText('Import file'),
+      new File(
+        ['BEGIN:VCALENDAR\r\nBEGIN:VTODO\r\nUID:task-9\r\nSUMMARY:Renew passport\r\nEND:VTODO\r\nEND:VCALENDAR\r\n'],
+        'tasks.ics',
+        { type: 'text/calendar' }
+      )
+    );
+    
+    const preview = await screen.findByRole('region', { name: 'Import preview' });
+    expect(within(preview).getByText('1 new, 0 conflicts, 0 unchanged')).toBeInTheDocument();
+  });
+  
+  it('shows an error for invalid files', async () => {
+    const { mockContext } = renderWithTodoContext();
+    
+    await userEvent.upload(
+      screen.getByLabelText('Import file'),
+      new File(['not json'], 'notes.json', { type: 'application/json' })
+    );
+    
+    expect(await screen.findByRole('alert')).toHaveTextContent('Import failed: The file is not valid JSON');
+    expect(mockContext.importWorkspace).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,434 @@
+import React, { ChangeEvent, FC, useRef, useState } from 'react'; // ^18.2.0
+import styles from './WorkspaceTransfer.module.css';
+import {
+  WorkspaceExport,
+  ImportMode,
+  ImportPreview,
+  CsvField,
+  CsvColumnMapping,
+  ImportRowError,
+  TaskImportResult
+} from '../../types/Transfer';
+import Button from '../common/Button/Button';
+import { useTodoContext } from '../../contexts/TodoContext';
+import { WorkspaceTransferService } from '../../services/workspaceTransfer';
+import CsvUtils from '../../utils/csvUtils';
+import TodoTxtUtils from '../../utils/todoTxtUtils';
+import MarkdownUtils from '../../utils/markdownUtils';
+import IcalUtils from '../../utils/icalUtils';
+
+/**
+ * An import that passed validation, together with what importing it would change
+ */
+interface PendingImport {
+  document: WorkspaceExport;
+  preview: ImportPreview;
+  errors: ImportRowError[];
+}
+
+/**
+ * A CSV file waiting for the user to choose which column holds each task field
+ */
+interface CsvDraft {
+  headers: string[];
+  rows: string[][];
+  mapping: CsvColumnMapping;
+}
+
+/**
+ * Labels shown for each task field in the CSV column mapping step
+ */
+const CSV_FIELD_LABELS: Record<CsvField, string> = {
+  id: 'ID',
+  text: 'Text',
+  completed: 'Completed',
+  priority: 'Priority',
+  createdAt: 'Created'
+};
+
+/**
+ * Checks whether a chosen file should be read as CSV rather than JSON
+ * @param file - The chosen file
+ * @returns True if the file is a CSV file
+ */
+const isCsvFile = (file: File): boolean => {
+  return file.type === 'text/csv' || file.name.toLowerCase().endsWith('.csv');
+};
+
+/**
+ * Checks whether a chosen file should be read as todo.txt
+ * @param file - The chosen file
+ * @returns True if the file is a plain text file
+ */
+const isTodoTxtFile = (file: File): boolean => {
+  return file.type === 'text/plain' || file.name.toLowerCase().endsWith('.txt');
+};
+
+/**
+ * Checks whether a chosen file should be read as iCalendar
+ * @param file - The chosen file
+ * @returns True if the file is an iCalendar file
+ */
+const isIcalFile = (file: File): boolean => {
+  return file.type === 'text/calendar' || file.name.toLowerCase().endsWith('.ics');
+};
+
+/**
+ * A component that exports the workspace as JSON, CSV, todo.txt or iCalendar and imports such files back.
+ * The tasks currently shown can also be exported as a Markdown checklist.
+ * CSV imports start with a column mapping step, and todo.txt can also be pasted. Every import
+ * is validated and previewed before the user chooses to merge, skip duplicates or replace.
+ */
+const WorkspaceTransfer: FC = () => {
+  // Access todo context to get the workspace contents and the import operation
+  const { tasks, filteredTasks, filter, lists, activeListId, importWorkspace } = useTodoContext();
+
+  // State for the CSV awaiting a column mapping, the pasted todo.txt, the validated import and any import error
+  const [csvDraft, setCsvDraft] = useState<CsvDraft | null>(null);
+  const [pastedText, setPastedText] = useState<string | null>(null);
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  
+  // Whether the Markdown export groups tasks under a heading per priority
+  const [groupByPriority, setGroupByPriority] = useState(false);
+
+  // Reference to the hidden file input opened by the Import button
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  /**
+   * Downloads the workspace as a versioned JSON document
+   */
+  const handleExportJson = (): void => {
+    const exported = WorkspaceTransferService.createExport({ tasks, filter, lists });
+    WorkspaceTransferService.downloadFile(
+      WorkspaceTransferService.getExportFilename('json'),
+      WorkspaceTransferService.serializeExport(exported),
+      'application/json'
+    );
+  };
+
+  /**
+   * Downloads the tasks as CSV
+   */
+  const handleExportCsv = (): void => {
+    WorkspaceTransferService.downloadFile(
+      WorkspaceTransferService.getExportFilename('csv'),
+      CsvUtils.tasksToCsv(tasks),
+      'text/csv'
+    );
+  };
+
+  /**
+   * Downloads the tasks as todo.txt
+   */
+  const handleExportTodoTxt = (): void => {
+    WorkspaceTransferService.downloadFile(
+      WorkspaceTransferService.getExportFilename('txt'),
+      TodoTxtUtils.tasksToTodoTxt(tasks),
+      'text/plain'
+    );
+  };
+
+  /**
+   * Downloads the tasks as iCalendar to-dos
+   */
+  const handleExportIcal = (): void => {
+    WorkspaceTransferService.downloadFile(
+      WorkspaceTransferService.getExportFilename('ics'),
+      IcalUtils.tasksToIcal(tasks),
+      'text/calendar'
+    );
+  };
+
+  /**
+   * Downloads the tasks currently shown as a Markdown checklist
+   */
+  const handleExportMarkdown = (): void => {
+    WorkspaceTransferService.downloadFile(
+      WorkspaceTransferService.getExportFilename('md'),
+      MarkdownUtils.tasksToMarkdown(filteredTasks, groupByPriority),
+      'text/markdown'
+    );
+  };
+
+  /**
+   * Shows the import preview for tasks read from a CSV or todo.txt file
+   * @param result - The imported tasks and the rejected rows
+   */
+  const previewTaskImport = (result: TaskImportResult): void => {
+    setPendingImport({
+      document: WorkspaceTransferService.createExport({ tasks: result.tasks, filter, lists }),
+      preview: WorkspaceTransferService.previewImport(tasks, result.tasks),
+      errors: result.errors
+    });
+  };
+
+  /**
+   * Reads the chosen file and moves on to the CSV mapping step or the import preview
+   * @param event - Change event from the file input
+   */
+  const handleFileChange = async (event: ChangeEvent<HTMLInputElement>): Promise<void> => {
+    const file = event.target.files?.[0];
+    // Reset the input so choosing the same file again triggers another change
+    event.target.value = '';
+    if (!file) {
+      return;
+    }
+
+    setCsvDraft(null);
+    setPastedText(null);
+    setPendingImport(null);
+    setError(null);
+
+    try {
+      const text = await WorkspaceTransferService.readFile(file);
+      if (isCsvFile(file)) {
+        const [headers, ...rows] = CsvUtils.parseCsv(text);
+        if (!headers) {
+          throw new Error('The CSV file is empty');
+        }
+        setCsvDraft({ headers, rows, mapping: CsvUtils.guessColumnMapping(headers) });
+      } else if (isIcalFile(file)) {
+        previewTaskImport(IcalUtils.parseIcal(text, activeListId, tasks));
+      } else if (isTodoTxtFile(file)) {
+        previewTaskImport(TodoTxtUtils.parseTodoTxt(text, tasks, activeListId));
+      } else {
+        const imported = WorkspaceTransferService.parseImport(text);
+        setPendingImport({
+          document: imported,
+          preview: WorkspaceTransferService.previewImport(tasks, imported.tasks),
+          errors: []
+        });
+      }
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'The file could not be read');
+    }
+  };
+
+  /**
+   * Changes the column a task field is read from
+   * @param field - The task field
+   * @param value - The selected column index, or an empty string to skip the field
+   */
+  const handleMappingChange = (field: CsvField, value: string): void => {
+    if (!csvDraft) {
+      return;
+    }
+    const mapping = { ...csvDraft.mapping };
+    if (value === '') {
+      delete mapping[field];
+    } else {
+      mapping[field] = Number(value);
+    }
+    setCsvDraft({ ...csvDraft, mapping });
+  };
+
+  /**
+   * Converts the mapped CSV rows into tasks and shows the import preview
+   */
+  const handleCsvContinue = (): void => {
+    if (!csvDraft) {
+      return;
+    }
+    previewTaskImport(CsvUtils.rowsToTasks(csvDraft.rows, csvDraft.mapping, tasks, activeListId));
+    setCsvDraft(null);
+  };
+
+  /**
+   * Opens the area for pasting todo.txt lines, closing any other import step
+   */
+  const handleOpenPaste = (): void => {
+    setCsvDraft(null);
+    setPendingImport(null);
+    setError(null);
+    setPastedText('');
+  };
+
+  /**
+   * Converts the pasted todo.txt lines into tasks and shows the import preview
+   */
+  const handlePasteContinue = (): void => {
+    if (!pastedText) {
+      return;
+    }
+    previewTaskImport(TodoTxtUtils.parseTodoTxt(pastedText, tasks, activeListId));
+    setPastedText(null);
+  };
+
+  /**
+   * Applies the previewed import
+   * @param mode - How to combine the imported tasks with the current ones
+   */
+  const handleApply = (mode: ImportMode): void => {
+    // Keep the preview open if the import failed, so it can be retried
+    if (pendingImport && importWorkspace(pendingImport.document, mode).success) {
+      setPendingImport(null);
+    }
+  };
+
+  /**
+   * Renders the step that maps CSV columns onto task fields
+   */
+  const renderCsvMapping = (draft: CsvDraft) => (
+    <div className={styles.preview} role="region" aria-label="Map CSV columns">
+      <p className={styles.summary}>Choose the column for each task field</p>
+      <div className={styles.mapping}>
+        {CsvUtils.CSV_FIELDS.map(field => (
+          <label key={field} className={styles.mappingField}>
+            <span>{CSV_FIELD_LABELS[field]}</span>
+            <select
+              className={styles.select}
+              value={draft.mapping[field] ?? ''}
+              onChange={(e) => handleMappingChange(field, e.target.value)}
+              aria-label={`${CSV_FIELD_LABELS[field]} column`}
+            >
+              <option value="">Not imported</option>
+              {draft.headers.map((header, index) => (
+                <option key={index} value={index}>
+                  {header || `Column ${index + 1}`}
+                </option>
+              ))}
+            </select>
+          </label>
+        ))}
+      </div>
+      <div className={styles.actions}>
+        <Button size="small" onClick={handleCsvContinue} disabled={draft.mapping.text === undefined}>
+          Continue
+        </Button>
+        <Button variant="secondary" size="small" onClick={() => setCsvDraft(null)}>
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+
+  /**
+   * Renders the area for pasting todo.txt lines
+   */
+  const renderPaste = (text: string) => (
+    <div className={styles.preview} role="region" aria-label="Paste todo.txt">
+      <textarea
+        className={styles.pasteInput}
+        value={text}
+        onChange={(e) => setPastedText(e.target.value)}
+        placeholder="(A) 2024-01-02 Call Mom +Family @phone"
+        rows={6}
+        aria-label="todo.txt lines"
+      />
+      <div className={styles.actions}>
+        <Button size="small" onClick={handlePasteContinue} disabled={!text.trim()}>
+          Preview
+        </Button>
+        <Button variant="secondary" size="small" onClick={() => setPastedText(null)}>
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+
+  /**
+   * Renders the summary of what the import would change and the ways to apply it
+   */
+  const renderPreview = ({ preview, errors }: PendingImport) => (
+    <div className={styles.preview} role="region" aria-label="Import preview">
+      <p className={styles.summary}>
+        {preview.additions.length} new, {preview.conflicts.length}{' '}
+        {preview.conflicts.length === 1 ? 'conflict' : 'conflicts'}, {preview.unchanged} unchanged
+      </p>
+
+      {preview.conflicts.length > 0 && (
+        <ul className={styles.conflicts} aria-label="Conflicting tasks">
+          {preview.conflicts.map(({ current, incoming }) => (
+            <li key={current.id}>
+              <span className={styles.current}>{current.text}</span>
+              {' → '}
+              <span>{incoming.text}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {errors.length > 0 && (
+        <ul className={styles.rowErrors} aria-label="Rejected rows">
+          {errors.map(({ row, message }) => (
+            <li key={row}>
+              Row {row}: {message}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className={styles.actions}>
+        <Button size="small" onClick={() => handleApply(ImportMode.MERGE)}>
+          Merge
+        </Button>
+        <Button variant="secondary" size="small" onClick={() => handleApply(ImportMode.SKIP_DUPLICATES)}>
+          Skip duplicates
+        </Button>
+        <Button variant="danger" size="small" onClick={() => handleApply(ImportMode.REPLACE)}>
+          Replace all
+        </Button>
+        <Button variant="secondary" size="small" onClick={() => setPendingImport(null)}>
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+
+  return (
+    <section className={styles.container} aria-label="Export and import">
+      <div className={styles.actions}>
+        <Button variant="secondary" size="small" onClick={handleExportJson}>
+          Export JSON
+        </Button>
+        <Button variant="secondary" size="small" onClick={handleExportCsv}>
+          Export CSV
+        </Button>
+        <Button variant="secondary" size="small" onClick={handleExportTodoTxt}>
+          Export todo.txt
+        </Button>
+        <Button variant="secondary" size="small" onClick={handleExportIcal}>
+          Export iCalendar
+        </Button>
+        <Button variant="secondary" size="small" onClick={handleExportMarkdown}>
+          Export Markdown
+        </Button>
+        <label className={styles.option}>
+          <input
+            type="checkbox"
+            checked={groupByPriority}
+            onChange={(e) => setGroupByPriority(e.target.checked)}
+          />
+          Group by priority
+        </label>
+        <Button variant="secondary" size="small" onClick={() => fileInputRef.current?.click()}>
+          Import
+        </Button>
+        <Button variant="secondary" size="small" onClick={handleOpenPaste}>
+          Paste todo.txt
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json,text/csv,.csv,text/plain,.txt,text/calendar,.ics"
+          className={styles.fileInput}
+          onChange={handleFileChange}
+          aria-label="Import file"
+        />
+      </div>
+
+      {error && (
+        <p className={styles.error} role="alert">
+          Import failed: {error}
+        </p>
+      )}
+
+      {csvDraft && renderCsvMapping(csvDraft)}
+      {pastedText !== null && renderPaste(pastedText)}
+      {pendingImport && renderPreview(pendingImport)}
+    </section>
+  );
+};
+
+export default WorkspaceTransfer;
@@ -17,8 +17,7 @@ describe('Checkbox component', () => {
     const label = 'Test Label';
     render(<Checkbox label={label} />);
     expect(screen.getByText(label)).toBeInTheDocument();
-    const checkbox = screen.getByRole('checkbox');
-    expect(screen.getByLabelText(label)).toBe(checkbox);
+    expect(screen.getByRole('checkbox', { name: label })).toBeInTheDocument();
   });
 
   test('can be checked and unchecked', async () => {
@@ -77,7 +76,7 @@ describe('Checkbox component', () => {
     
     const checkbox = screen.getByRole('checkbox');
     expect(checkbox).toHaveAttribute('id', id);
-    expect(checkbox.parentElement).toHaveAttribute('htmlFor', id);
+    expect(checkbox.parentElement).toHaveAttribute('for', id);
     expect(checkbox).toHaveAttribute('aria-checked', 'false');
   });
 
@@ -109,9 +108,9 @@ describe('Checkbox component', () => {
     
     // Find the check icon element
     const checkIcon = document.querySelector('svg');
-    expect(checkIcon?.className).toContain('checkedIcon');
+    expect(checkIcon).toHaveClass('checkedIcon');
     
     rerender(<Checkbox checked={false} />);
-    expect(checkIcon?.className).not.toContain('checkedIcon');
+    expect(checkIcon).not.toHaveClass('checkedIcon');
   });
 });
\ No newline at end of file
@@ -6,7 +6,7 @@ import React, {
 } from 'react';
 import classNames from 'classnames'; // v2.3.1
 import styles from './Checkbox.module.css';
-import { ReactComponent as CheckIcon } from '../../assets/icons/check.svg';
+import { ReactComponent as CheckIcon } from '../../../assets/icons/check.svg';
 
 /**
  * Props interface for the Checkbox component
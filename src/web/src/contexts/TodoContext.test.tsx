@@ -1,7 +1,7 @@
 import React from 'react';
 import { render, screen, fireEvent, act, waitFor } from '@testing-library/react'; // ^13.4.0
 import { TodoContext, TodoProvider, useTodoContext } from './TodoContext';
-import { Task } from '../types/Task';
+import { Task, Priority } from '../types/Task';
 import { FilterType } from '../types/Filter';
 
 // Mock the useTodoList hook
@@ -12,12 +12,12 @@ import useTodoList from '../hooks/useTodoList';
 
 // Test fixtures
 const mockTasks: Task[] = [
-  { id: 'task-1', text: 'Test Task 1', completed: false, priority: 'medium', createdAt: 1234567890 },
-  { id: 'task-2', text: 'Test Task 2', completed: true, priority: 'high', createdAt: 1234567891 }
+  { id: 'task-1', text: 'Test Task 1', completed: false, priority: Priority.MEDIUM, createdAt: 1234567890, listId: 'inbox' },
+  { id: 'task-2', text: 'Test Task 2', completed: true, priority: Priority.HIGH, createdAt: 1234567891, listId: 'inbox' }
 ];
 
 const mockFilteredTasks: Task[] = [
-  { id: 'task-1', text: 'Test Task 1', completed: false, priority: 'medium', createdAt: 1234567890 }
+  { id: 'task-1', text: 'Test Task 1', completed: false, priority: Priority.MEDIUM, createdAt: 1234567890, listId: 'inbox' }
 ];
 
 // Setup function to configure the mock implementation
@@ -63,7 +63,7 @@ const TestComponent: React.FC = () => {
       <button onClick={() => toggleTask('task-1')}>Toggle Task</button>
       <button onClick={() => updateTask({ id: 'task-1', text: 'Updated Task' })}>Update Task</button>
       <button onClick={() => deleteTask('task-1')}>Delete Task</button>
-      <button onClick={() => updateTaskPriority('task-1', 'high')}>Update Priority</button>
+      <button onClick={() => updateTaskPriority('task-1', Priority.HIGH)}>Update Priority</button>
       <button onClick={() => setFilter(FilterType.ACTIVE)}>Set Filter</button>
       <button onClick={() => clearCompletedTasks()}>Clear Completed</button>
     </div>
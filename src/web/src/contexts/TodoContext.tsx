@@ -1,7 +1,17 @@
-import React, { createContext, useContext, ReactNode, FC } from 'react'; // ^18.2.0
-import { Task, CreateTaskInput, UpdateTaskInput } from '../types/Task';
+import React, { createContext, useContext, useState, ReactNode, FC } from 'react'; // ^18.2.0
+import { Task, Priority, CreateTaskInput, UpdateTaskInput } from '../types/Task';
 import { FilterType } from '../types/Filter';
+import { SortMode, SortSpec } from '../types/Sort';
+import { SavedView } from '../types/Query';
+import { TaskList, ListCounts } from '../types/List';
+import { WorkspaceExport, ImportMode } from '../types/Transfer';
+import { StorageAdapter, StorageBackend, QuarantinedRecord } from '../types/Storage';
+import { OperationResult } from '../types/Notification';
 import useTodoList from '../hooks/useTodoList';
+import { MigrationService } from '../services/migrations';
+import { ValidationService } from '../services/validation';
+import { StorageUsage } from '../services/storageHealth';
+import { StorageAdapters } from '../services/storageAdapters';
 
 /**
  * Interface defining the shape of the TodoContext value
@@ -10,38 +20,161 @@ interface TodoContextType {
   /** All tasks in the todo list */
   tasks: Task[];
   
-  /** Tasks filtered according to the current filter */
+  /** Tasks in the selected list filtered according to the current filter */
   filteredTasks: Task[];
   
   /** Current filter selection */
   filter: FilterType;
   
-  /** Count of active (incomplete) tasks */
+  /** Sort keys the visible tasks are ordered by */
+  sortSpec: SortSpec;
+  
+  /** Preset matching the sort keys, or null for a custom order */
+  sortMode: SortMode | null;
+  
+  /** Text the visible tasks are searched for, combined with the filter selection */
+  searchQuery: string;
+  
+  /** Saved views, shown as extra filter tabs */
+  views: SavedView[];
+  
+  /** ID of the selected view, which replaces the filter selection, or null */
+  activeViewId: string | null;
+  
+  /** ID of the task linked to from the URL, which is highlighted, or null */
+  selectedTaskId: string | null;
+  
+  /** Tags a task must all carry to be shown, combined with the filter selection */
+  tagFilter: string[];
+  
+  /** All tags used across tasks, sorted alphabetically */
+  allTags: string[];
+  
+  /** Count of active (incomplete) tasks in the selected list */
   activeCount: number;
   
-  /** Count of completed tasks */
+  /** Count of completed tasks in the selected list */
   completedCount: number;
   
+  /** All named lists, starting with the Inbox */
+  lists: TaskList[];
+  
+  /** ID of the list whose tasks are shown */
+  activeListId: string;
+  
+  /** Active and completed task counts keyed by list ID */
+  listCounts: Record<string, ListCounts>;
+  
   /** Adds a new task to the list */
-  addTask: (input: CreateTaskInput) => void;
+  addTask: (input: CreateTaskInput) => OperationResult;
+  
+  /** Adds several prepared tasks as a single change */
+  addTasks: (tasks: Task[]) => OperationResult;
   
-  /** Updates an existing task's text or priority */
-  updateTask: (input: UpdateTaskInput) => void;
+  /** Updates an existing task's text, priority, due date or tags */
+  updateTask: (input: UpdateTaskInput) => OperationResult;
   
   /** Toggles a task's completion status */
-  toggleTask: (id: string) => void;
+  toggleTask: (id: string) => OperationResult;
   
   /** Removes a task from the list */
-  deleteTask: (id: string) => void;
+  deleteTask: (id: string) => OperationResult;
   
   /** Updates a task's priority level */
-  updateTaskPriority: (id: string, priority: string) => void;
+  updateTaskPriority: (id: string, priority: Priority) => OperationResult;
+  
+  /** Adds a checklist step to a task */
+  addSubtask: (taskId: string, text: string) => OperationResult;
+  
+  /** Toggles a checklist step's completion status */
+  toggleSubtask: (taskId: string, subtaskId: string) => OperationResult;
+  
+  /** Removes a checklist step from a task */
+  deleteSubtask: (taskId: string, subtaskId: string) => OperationResult;
+  
+  /** Moves a task to another list */
+  moveTask: (taskId: string, listId: string) => OperationResult;
+  
+  /** Moves a task to a position among the visible tasks in the manual order */
+  reorderTask: (taskId: string, toIndex: number) => OperationResult;
   
   /** Changes the current filter selection */
   setFilter: (filter: FilterType) => void;
   
-  /** Removes all completed tasks from the list */
+  /** Replaces the sort keys the visible tasks are ordered by */
+  setSortSpec: (sortSpec: SortSpec) => void;
+  
+  /** Orders the visible tasks by a preset sort mode */
+  setSortMode: (sortMode: SortMode) => void;
+  
+  /** Changes the text the visible tasks are searched for */
+  setSearchQuery: (query: string) => void;
+  
+  /** Selects a saved view, or leaves the selected view with null */
+  setActiveView: (viewId: string | null) => void;
+  
+  /** Saves a named filter query as a view and selects it */
+  createView: (name: string, query: string) => OperationResult;
+  
+  /** Deletes a saved view */
+  deleteView: (viewId: string) => void;
+  
+  /** Selects a task to scroll to and highlight, revealing it if it is hidden, or clears the selection with null */
+  selectTask: (taskId: string | null) => void;
+  
+  /** Replaces the selected tags */
+  setTagFilter: (tags: string[]) => void;
+  
+  /** Removes all completed tasks from the selected list */
   clearCompletedTasks: () => void;
+  
+  /** Removes completed tasks in every list and clears the undo history to free storage space */
+  archiveCompletedTasks: () => void;
+  
+  /** Selects the list whose tasks are shown */
+  setActiveList: (listId: string) => void;
+  
+  /** Creates a new list and selects it */
+  createList: (name: string) => OperationResult;
+  
+  /** Renames a list */
+  renameList: (listId: string, name: string) => OperationResult;
+  
+  /** Archives a list, or restores it when archived is false */
+  archiveList: (listId: string, archived?: boolean) => OperationResult;
+  
+  /** Deletes a list, moving its tasks into the Inbox */
+  deleteList: (listId: string) => OperationResult;
+  
+  /** Merges an imported workspace into this one, or replaces it */
+  importWorkspace: (document: WorkspaceExport, mode: ImportMode) => OperationResult;
+
+  /** Reverts the most recent task change */
+  undo: () => void;
+
+  /** Reapplies the most recently undone task change */
+  redo: () => void;
+
+  /** Whether there is a task change that can be undone */
+  canUndo: boolean;
+
+  /** Whether there is an undone task change that can be reapplied */
+  canRedo: boolean;
+
+  /** Stored records that failed validation on load and were set aside */
+  recoveredRecords: QuarantinedRecord[];
+
+  /** Permanently deletes the records that were set aside */
+  discardRecoveredRecords: () => void;
+
+  /** How much of its quota the storage backend is using, or null if it cannot be measured */
+  storageUsage: StorageUsage | null;
+
+  /** Storage keys whose latest value could not be saved and is kept in memory */
+  unsavedKeys: string[];
+
+  /** Saves the values that could not be saved before */
+  retrySave: () => void;
 }
 
 /**
@@ -49,6 +182,12 @@ interface TodoContextType {
  */
 interface TodoProviderProps {
   children: ReactNode;
+
+  /** Storage adapter to persist to; takes precedence over storageBackend */
+  storageAdapter?: StorageAdapter;
+
+  /** Storage backend to create an adapter for, defaults to the configured backend */
+  storageBackend?: StorageBackend;
 }
 
 /**
@@ -60,10 +199,24 @@ export const TodoContext = createContext<TodoContextType | undefined>(undefined)
 /**
  * Provider component that makes todo list state available to child components
  * Wraps the useTodoList hook to provide its functionality through Context API
+ * The storage adapter is selected once at mount and kept for the provider's lifetime
  */
-export const TodoProvider: FC<TodoProviderProps> = ({ children }) => {
+export const TodoProvider: FC<TodoProviderProps> = ({ children, storageAdapter, storageBackend }) => {
+  // Select the storage adapter on mount, set aside invalid stored records as they are loaded
+  // and bring the data up to the current schema version
+  const [adapter] = useState<StorageAdapter>(() =>
+    MigrationService.withMigrations(
+      ValidationService.withValidation(
+        storageAdapter ??
+          StorageAdapters.createStorageAdapter(
+            storageBackend ?? StorageAdapters.resolveStorageBackend()
+          )
+      )
+    )
+  );
+
   // Use the custom todo list hook to get state and operations
-  const todoList = useTodoList();
+  const todoList = useTodoList(adapter);
   
   // Provide the todo list context to children
   return (
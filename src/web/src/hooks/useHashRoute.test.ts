@@ -0,0 +1,151 @@
+import { useState } from 'react'; // ^18.2.0
+import { renderHook, act } from '@testing-library/react-hooks'; // ^8.0.1
+import useHashRoute from './useHashRoute';
+import { FilterType } from '../types/Filter';
+
+/**
+ * Helper hook holding the routed state the way useTodoList does, with useHashRoute applied
+ */
+const useRoutedState = () => {
+  const [filter, setFilterState] = useState(FilterType.ALL);
+  const [activeViewId, setActiveViewId] = useState<string | null>(null);
+  const [selectedTaskId, setSelectedTaskId] = useState<string | null>(null);
+  const [searchQuery, setSearchText] = useState('');
+
+  const state = {
+    filter,
+    activeViewId,
+    selectedTaskId,
+    searchQuery,
+    setFilter: (value: FilterType) => {
+      setFilterState(value);
+      setActiveViewId(null);
+      setSelectedTaskId(null);
+    },
+    setActiveView: (viewId: string | null) => {
+      setActiveViewId(viewId);
+      setSelectedTaskId(null);
+    },
+    selectTask: (taskId: string | null) => setSelectedTaskId(taskId),
+    setSearchQuery: (query: string) => {
+      setSearchText(query);
+      setSelectedTaskId(null);
+    }
+  };
+  useHashRoute(state);
+  return state;
+};
+
+/**
+ * Helper function to replace the URL hash without firing navigation events
+ */
+const setHash = (hash: string) => {
+  window.history.replaceState(null, '', `${window.location.pathname}${hash}`);
+};
+
+describe('useHashRoute', () => {
+  let pushStateSpy: jest.SpyInstance;
+  let replaceStateSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    setHash('');
+    pushStateSpy = jest.spyOn(window.history, 'pushState');
+    replaceStateSpy = jest.spyOn(window.history, 'replaceState');
+  });
+
+  afterEach(() => {
+    pushStateSpy.mockRestore();
+    replaceStateSpy.mockRestore();
+  });
+
+  test('should record the current state when the URL has no route', () => {
+    renderHook(() => useRoutedState());
+
+    expect(window.location.hash).toBe('#/all');
+    expect(pushStateSpy).not.toHaveBeenCalled();
+  });
+
+  test('should apply a shared link on mount without adding a history entry', () => {
+    setHash('#/completed?q=deploy');
+
+    const { result } = renderHook(() => useRoutedState());
+
+    expect(result.current.filter).toBe(FilterType.COMPLETED);
+    expect(result.current.searchQuery).toBe('deploy');
+    expect(window.location.hash).toBe('#/completed?q=deploy');
+    expect(pushStateSpy).not.toHaveBeenCalled();
+  });
+
+  test('should add a history entry for a new filter and replace it while searching', () => {
+    const { result } = renderHook(() => useRoutedState());
+
+    act(() => {
+      result.current.setFilter(FilterType.ACTIVE);
+    });
+
+    expect(window.location.hash).toBe('#/active');
+    expect(pushStateSpy).toHaveBeenCalledTimes(1);
+
+    act(() => {
+      result.current.setSearchQuery('deploy');
+    });
+
+    expect(window.location.hash).toBe('#/active?q=deploy');
+    expect(pushStateSpy).toHaveBeenCalledTimes(1);
+
+    act(() => {
+      result.current.setActiveView('view-1');
+    });
+
+    expect(window.location.hash).toBe('#/view/view-1?q=deploy');
+    expect(pushStateSpy).toHaveBeenCalledTimes(2);
+  });
+
+  test('should follow back and forward navigation', () => {
+    const { result } = renderHook(() => useRoutedState());
+
+    act(() => {
+      result.current.setFilter(FilterType.COMPLETED);
+    });
+    act(() => {
+      setHash('#/all');
+      window.dispatchEvent(new PopStateEvent('popstate'));
+    });
+
+    expect(result.current.filter).toBe(FilterType.ALL);
+    expect(pushStateSpy).toHaveBeenCalledTimes(1);
+  });
+
+  test('should select the task named by a followed link', () => {
+    const { result } = renderHook(() => useRoutedState());
+
+    act(() => {
+      setHash('#/task/task-1');
+      window.dispatchEvent(new HashChangeEvent('hashchange'));
+    });
+
+    expect(result.current.selectedTaskId).toBe('task-1');
+    expect(window.location.hash).toBe('#/task/task-1');
+
+    act(() => {
+      result.current.setFilter(FilterType.ACTIVE);
+    });
+
+    expect(result.current.selectedTaskId).toBeNull();
+    expect(window.location.hash).toBe('#/active');
+  });
+
+  test('should ignore hashes that are not routes', () => {
+    const { result } = renderHook(() => useRoutedState());
+
+    act(() => {
+      result.current.setFilter(FilterType.ACTIVE);
+    });
+    act(() => {
+      setHash('#main');
+      window.dispatchEvent(new HashChangeEvent('hashchange'));
+    });
+
+    expect(result.current.filter).toBe(FilterType.ACTIVE);
+  });
+});
@@ -0,0 +1,112 @@
+import { useEffect, useMemo, useRef } from 'react'; // ^18.2.0
+import { FilterType } from '../types/Filter';
+import { Route } from '../types/Route';
+import RouteUtils from '../utils/routeUtils';
+import { TodoListHook } from './useTodoList';
+
+/**
+ * The state reflected in the URL and the operations used to restore it
+ */
+export type HashRouteState = Pick<
+  TodoListHook,
+  | 'filter'
+  | 'activeViewId'
+  | 'selectedTaskId'
+  | 'searchQuery'
+  | 'setFilter'
+  | 'setActiveView'
+  | 'selectTask'
+  | 'setSearchQuery'
+>;
+
+/**
+ * A custom hook that keeps the URL hash in sync with the filter, view, search query and selected task,
+ * so they can be bookmarked and shared.
+ *
+ * On mount, a route in the hash is applied to the state; without one, the hash is set from the state.
+ * Afterwards the hash follows the state: showing another filter, view or task adds a history entry,
+ * while changing only the search query replaces the current entry so typing does not flood the history.
+ * Back and forward navigation and edited or followed links apply the new hash to the state.
+ *
+ * @param {HashRouteState} state - The todo list state and operations, usually from useTodoContext
+ */
+const useHashRoute = (state: HashRouteState): void => {
+  const { filter, activeViewId, selectedTaskId, searchQuery } = state;
+
+  // Keep the latest state and operations without resubscribing to navigation events on every render
+  const stateRef = useRef(state);
+  stateRef.current = state;
+
+  // Set once the hash has been read on mount, so the initial state never overwrites a shared link
+  const isReadyRef = useRef(false);
+
+  // The route for the current state; a selected task takes precedence over a view, and a view over the filter
+  const route = useMemo<Route>(
+    () => ({
+      filter: selectedTaskId || activeViewId ? null : filter,
+      viewId: selectedTaskId ? null : activeViewId,
+      taskId: selectedTaskId,
+      query: searchQuery
+    }),
+    [filter, activeViewId, selectedTaskId, searchQuery]
+  );
+  const routeRef = useRef(route);
+  routeRef.current = route;
+
+  // Write the state to the hash as it changes
+  useEffect(() => {
+    const hash = RouteUtils.formatRoute(route);
+    if (!isReadyRef.current || window.location.hash === hash) {
+      return;
+    }
+
+    const current = RouteUtils.parseRoute(window.location.hash);
+    if (current && RouteUtils.isSameLocation(current, route)) {
+      window.history.replaceState(window.history.state, '', hash);
+    } else {
+      window.history.pushState(null, '', hash);
+    }
+  }, [route]);
+
+  // Read the hash on mount and whenever it changes through navigation
+  useEffect(() => {
+    /**
+     * Applies the route in the hash to the state
+     * @returns True if the hash held a route
+     */
+    const applyHash = (): boolean => {
+      const next = RouteUtils.parseRoute(window.location.hash);
+      if (!next) {
+        return false;
+      }
+
+      const { setFilter, setActiveView, selectTask, setSearchQuery } = stateRef.current;
+      if (next.taskId) {
+        selectTask(next.taskId);
+        return true;
+      }
+      if (next.viewId) {
+        setActiveView(next.viewId);
+      } else {
+        setFilter(next.filter ?? FilterType.ALL);
+      }
+      setSearchQuery(next.query);
+      return true;
+    };
+
+    if (!applyHash()) {
+      window.history.replaceState(window.history.state, '', RouteUtils.formatRoute(routeRef.current));
+    }
+    isReadyRef.current = true;
+
+    // Our own history writes fire neither event, so only navigation by the user is applied
+    window.addEventListener('hashchange', applyHash);
+    window.addEventListener('popstate', applyHash);
+    return () => {
+      window.removeEventListener('hashchange', applyHash);
+      window.removeEventListener('popstate', applyHash);
+    };
+  }, []);
+};
+
+export default useHashRoute;
@@ -1,11 +1,13 @@
 import { renderHook, act } from '@testing-library/react-hooks'; // ^8.0.1
-import { jest } from '@jest/globals'; // ^29.5.0
 import useLocalStorage from './useLocalStorage';
 import { LocalStorageService } from '../services/localStorage';
+import { StorageHealthService } from '../services/storageHealth';
 
 // Mock the LocalStorageService to avoid actual localStorage operations during tests
+// Other members, such as STORAGE_KEYS, are kept for the modules that import them
 jest.mock('../services/localStorage', () => ({
   LocalStorageService: {
+    ...jest.requireActual('../services/localStorage').LocalStorageService,
     saveData: jest.fn(),
     loadData: jest.fn(),
     removeData: jest.fn()
@@ -78,10 +80,11 @@ describe('useLocalStorage', () => {
       throw new Error('Storage error');
     });
     
-    // Act & Assert
-    expect(() => {
-      renderHook(() => useLocalStorage('test-key', defaultValue));
-    }).toThrow('Storage error');
+    // Act
+    const { result } = renderHook(() => useLocalStorage('test-key', defaultValue));
+    
+    // Assert - renderHook captures errors thrown while rendering instead of rethrowing them
+    expect(result.error).toEqual(new Error('Storage error'));
     
     // Cleanup
     consoleErrorSpy.mockRestore();
@@ -105,6 +108,60 @@ describe('useLocalStorage', () => {
     expect(result.current[0]).toEqual(initialValue); // State resets to initial value after removal
   });
 
+  test('should repair loaded values with the normalize option and persist the repair', () => {
+    // Arrange
+    (LocalStorageService.loadData as jest.Mock).mockReturnValue(['a', 'B']);
+    const normalize = (value: string[]) =>
+      value.every(item => item === item.toLowerCase()) ? value : value.map(item => item.toLowerCase());
+    
+    // Act
+    const { result } = renderHook(() => useLocalStorage('test-key', [] as string[], undefined, { normalize }));
+    
+    // Assert
+    expect(result.current[0]).toEqual(['a', 'b']);
+    expect(LocalStorageService.saveData).toHaveBeenCalledWith('test-key', ['a', 'b']);
+  });
+
+  test('should not write back values the normalize option leaves unchanged', () => {
+    // Arrange
+    (LocalStorageService.loadData as jest.Mock).mockReturnValue(['a', 'b']);
+    const normalize = jest.fn((value: string[]) => value);
+    
+    // Act
+    const { result } = renderHook(() => useLocalStorage('test-key', [] as string[], undefined, { normalize }));
+    
+    // Assert
+    expect(result.current[0]).toEqual(['a', 'b']);
+    expect(normalize).toHaveBeenCalledWith(['a', 'b']);
+    expect(LocalStorageService.saveData).not.toHaveBeenCalled();
+  });
+
+  test('should keep a value that could not be saved and save it again on retry', () => {
+    // Arrange
+    (LocalStorageService.loadData as jest.Mock).mockReturnValue('stored');
+    (LocalStorageService.saveData as jest.Mock).mockReturnValue(false);
+    const { result } = renderHook(() => useLocalStorage('test-key', ''));
+    
+    // Act
+    act(() => {
+      result.current[1]('unsaved');
+    });
+    
+    // Assert
+    expect(result.current[0]).toBe('unsaved');
+    expect(StorageHealthService.getFailedKeys()).toEqual(['test-key']);
+    
+    // Act: space is freed and a retry is requested
+    (LocalStorageService.saveData as jest.Mock).mockReturnValue(true);
+    act(() => {
+      StorageHealthService.requestRetry();
+    });
+    
+    // Assert
+    expect(LocalStorageService.saveData).toHaveBeenLastCalledWith('test-key', 'unsaved');
+    expect(StorageHealthService.getFailedKeys()).toEqual([]);
+  });
+
   test('should accept a function as initialValue', () => {
     // Arrange
     const initialValueFn = jest.fn().mockReturnValue({ computed: 'value' });
@@ -1,53 +1,218 @@
-import { useState, useEffect, useCallback } from 'react'; // ^18.2.0
-import { LocalStorageService } from '../services/localStorage';
+import { useState, useEffect, useCallback, useRef } from 'react'; // ^18.2.0
+import { StorageAdapters } from '../services/storageAdapters';
+import { SyncService } from '../services/syncChannel';
+import { StorageHealthService } from '../services/storageHealth';
+import { StorageAdapter } from '../types/Storage';
+import MaybePromiseUtils from '../utils/maybePromise';
 
 /**
- * A custom hook that synchronizes React state with localStorage.
+ * Default adapter used when no storage adapter is supplied to the hook
+ */
+const defaultAdapter = StorageAdapters.createLocalStorageAdapter();
+
+/**
+ * Repairs a value read from storage with the normalize option, if one was given
+ * @param normalize - The normalize option
+ * @param value - The value as stored
+ * @returns The repaired value
+ */
+const applyNormalize = <T>(normalize: ((value: T) => T) | undefined, value: T): T => {
+  return normalize ? normalize(value) : value;
+};
+
+/**
+ * Options for customizing how useLocalStorage synchronizes between tabs
+ */
+export interface UseLocalStorageOptions<T> {
+  /**
+   * Resolves a value changed in another tab against the local state.
+   * Receives the last value both tabs agreed on, the local value and the remote value.
+   * When omitted, the remote value replaces the local one.
+   */
+  merge?: (base: T, local: T, remote: T) => T;
+
+  /**
+   * Repairs values loaded from storage or received from other tabs before they reach the state.
+   * Returning a different value writes the repaired value back to storage.
+   * When omitted, values are used as stored.
+   */
+  normalize?: (value: T) => T;
+}
+
+/**
+ * A custom hook that synchronizes React state with persistent storage.
  * This hook extends useState functionality to automatically persist state changes
- * to the browser's localStorage, enabling data to persist between page refreshes
- * and browser sessions.
- * 
+ * through a StorageAdapter (localStorage by default), enabling data to persist
+ * between page refreshes and browser sessions.
+ *
+ * When the adapter loads asynchronously, the hook starts with initialValue and
+ * replaces it with the stored value once loading completes. Writes are held back
+ * until then so the stored value is never overwritten by the initial value.
+ *
+ * Changes made in other tabs are received through SyncService and merged into
+ * the local state using options.merge.
+ *
+ * Loaded and received values pass through options.normalize first, and values it
+ * repairs are persisted as if they had been set.
+ *
+ * Save outcomes are reported to StorageHealthService. A value that could not be saved,
+ * for example because the storage quota is exhausted, stays in state and is saved
+ * again with the next change or when StorageHealthService requests a retry.
+ *
  * @template T The type of the state value
- * @param {string} key - The localStorage key to store the data under
- * @param {T} initialValue - The initial value to use if no value exists in localStorage
+ * @param {string} key - The storage key to store the data under
+ * @param {T} initialValue - The initial value to use if no value exists in storage
+ * @param {StorageAdapter} adapter - The storage backend to persist to (localStorage by default)
+ * @param {UseLocalStorageOptions<T>} options - Optional cross-tab synchronization and repair settings
  * @returns {[T, (value: T | ((val: T) => T)) => void, () => void]} An array containing:
  *   - The current state value
- *   - A function to update the state (and localStorage)
- *   - A function to remove the item from state and localStorage
+ *   - A function to update the state (and storage)
+ *   - A function to remove the item from state and storage
  */
-const useLocalStorage = <T>(key: string, initialValue: T): [T, (value: T | ((val: T) => T)) => void, () => void] => {
-  // Initialize state with function to avoid unnecessary localStorage access on every render
+const useLocalStorage = <T>(
+  key: string,
+  initialValue: T,
+  adapter: StorageAdapter = defaultAdapter,
+  options: UseLocalStorageOptions<T> = {}
+): [T, (value: T | ((val: T) => T)) => void, () => void] => {
+  // Holds a pending load when the adapter is asynchronous
+  const pendingLoadRef = useRef<Promise<T> | null>(null);
+
+  // Tracks whether the stored value has been loaded and writes may proceed
+  const isHydratedRef = useRef(true);
+
+  // The value last known to be persisted; used to skip redundant writes and as the merge base
+  const syncedValueRef = useRef<T>(initialValue);
+
+  // Keep the latest initial value and merge function without resubscribing on every render
+  const initialValueRef = useRef(initialValue);
+  initialValueRef.current = initialValue;
+  const mergeRef = useRef(options.merge);
+  mergeRef.current = options.merge;
+  const normalizeRef = useRef(options.normalize);
+  normalizeRef.current = options.normalize;
+
+  // Initialize state with function to avoid unnecessary storage access on every render
   const [storedValue, setStoredValue] = useState<T>(() => {
-    return LocalStorageService.loadData<T>(key, initialValue);
+    const loaded = adapter.load<T>(key, initialValue);
+    if (MaybePromiseUtils.isPromise(loaded)) {
+      pendingLoadRef.current = loaded;
+      isHydratedRef.current = false;
+      return initialValue;
+    }
+    // Record the value as stored, so a repaired value differs from it and is persisted
+    syncedValueRef.current = loaded;
+    return applyNormalize(normalizeRef.current, loaded);
   });
 
-  // Create a memoized setValue function that updates both React state and localStorage
+  // Keep the latest value for retries, and whether the last save of it failed
+  const storedValueRef = useRef(storedValue);
+  storedValueRef.current = storedValue;
+  const hasUnsavedValueRef = useRef(false);
+
+  // Resolve an asynchronous initial load into React state
+  useEffect(() => {
+    const pendingLoad = pendingLoadRef.current;
+    if (!pendingLoad) {
+      return;
+    }
+
+    let isCancelled = false;
+    pendingLoad
+      .then((loaded) => {
+        if (!isCancelled) {
+          pendingLoadRef.current = null;
+          isHydratedRef.current = true;
+          syncedValueRef.current = loaded;
+          setStoredValue(applyNormalize(normalizeRef.current, loaded));
+        }
+      })
+      .catch((error) => {
+        console.error(`Error loading data for key "${key}":`, error);
+        isHydratedRef.current = true;
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [key]);
+
+  // Merge changes made to this key in other tabs into local state
+  useEffect(() => {
+    return SyncService.subscribe(adapter.backend, (changedKey, value) => {
+      if (changedKey !== key || !isHydratedRef.current) {
+        return;
+      }
+
+      const storedRemoteValue = value === null ? initialValueRef.current : (value as T);
+      const remoteValue = applyNormalize(normalizeRef.current, storedRemoteValue);
+      const base = syncedValueRef.current;
+      syncedValueRef.current = storedRemoteValue;
+
+      setStoredValue((localValue) => {
+        const merge = mergeRef.current;
+        const mergedValue = merge ? merge(base, localValue, remoteValue) : remoteValue;
+
+        // Keep the current state object when the merge produced no visible change
+        return JSON.stringify(mergedValue) === JSON.stringify(localValue) ? localValue : mergedValue;
+      });
+    });
+  }, [key, adapter]);
+
+  // Create a memoized setValue function that updates React state; the effect below persists it
   const setValue = useCallback((value: T | ((val: T) => T)) => {
     setStoredValue((prevValue) => {
       // Handle case where value is a function (similar to useState's functional updates)
-      const valueToStore = value instanceof Function ? value(prevValue) : value;
-      
-      // Save to localStorage
-      LocalStorageService.saveData(key, valueToStore);
-      
-      return valueToStore;
+      return value instanceof Function ? value(prevValue) : value;
     });
-  }, [key]);
+  }, []);
 
-  // Create a memoized removeValue function that removes the item from both state and localStorage
+  // Create a memoized removeValue function that removes the item from both state and storage
   const removeValue = useCallback(() => {
+    syncedValueRef.current = initialValue;
     setStoredValue(initialValue);
-    LocalStorageService.removeData(key);
-  }, [key, initialValue]);
+    void adapter.remove(key);
+    SyncService.publish(key, null);
+
+    // Nothing is left to save once the value is removed
+    if (hasUnsavedValueRef.current) {
+      hasUnsavedValueRef.current = false;
+      StorageHealthService.reportSave(key, true);
+    }
+  }, [key, initialValue, adapter]);
+
+  // Save a value and report the outcome; outcomes of saves overtaken by a newer value are ignored
+  const persist = useCallback((value: T) => {
+    MaybePromiseUtils.chain(adapter.save(key, value), (saved) => {
+      if (value === storedValueRef.current) {
+        hasUnsavedValueRef.current = !saved;
+        StorageHealthService.reportSave(key, saved);
+      }
+    });
+  }, [key, adapter]);
 
-  // Effect to ensure localStorage stays in sync with the React state
-  // This handles edge cases like key changes and provides a safety net
-  // for any state changes that might occur outside the setValue function
+  // Effect to persist state changes and notify other tabs
+  // Values that are already persisted (initial loads and remote changes) are not written again
   useEffect(() => {
-    LocalStorageService.saveData(key, storedValue);
-  }, [key, storedValue]);
+    if (!isHydratedRef.current || storedValue === syncedValueRef.current) {
+      return;
+    }
+
+    syncedValueRef.current = storedValue;
+    persist(storedValue);
+    SyncService.publish(key, storedValue);
+  }, [key, storedValue, persist]);
+
+  // Save an unsaved value again when a retry is requested
+  useEffect(() => {
+    return StorageHealthService.subscribeRetry(() => {
+      if (hasUnsavedValueRef.current) {
+        persist(storedValueRef.current);
+      }
+    });
+  }, [persist]);
 
   return [storedValue, setValue, removeValue];
 };
 
-export default useLocalStorage;
\ No newline at end of file
+export default useLocalStorage;
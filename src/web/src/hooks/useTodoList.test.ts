@@ -1,9 +1,14 @@
+import { useState } from 'react'; // ^18.2.0
 import { renderHook, act } from '@testing-library/react-hooks'; // ^8.0.1
 import { act as reactAct } from '@testing-library/react'; // ^14.0.0
 import useTodoList from './useTodoList';
 import { Task, Priority } from '../types/Task';
 import { FilterType } from '../types/Filter';
+import { SortMode, SortField, SortDirection } from '../types/Sort';
+import { ImportMode } from '../types/Transfer';
+import { NotificationSeverity, OperationResult } from '../types/Notification';
 import { LocalStorageService } from '../services/localStorage';
+import { NotificationService } from '../services/notifications';
 import TaskUtils from '../utils/taskUtils';
 import useLocalStorage from './useLocalStorage';
 
@@ -20,6 +25,7 @@ const createMockTask = (taskProps: Partial<Task> = {}): Task => ({
   completed: taskProps.completed ?? false,
   priority: taskProps.priority || Priority.MEDIUM,
   createdAt: taskProps.createdAt || 1623456789000,
+  listId: taskProps.listId || 'inbox',
 });
 
 describe('useTodoList', () => {
@@ -38,7 +44,11 @@ describe('useTodoList', () => {
     TaskUtils.getActiveTaskCount = jest.fn().mockReturnValue(0);
     TaskUtils.getCompletedTaskCount = jest.fn().mockReturnValue(0);
     TaskUtils.filterTasks = jest.fn().mockImplementation((tasks) => tasks);
-    TaskUtils.sortTasksByPriority = jest.fn().mockImplementation((tasks) => tasks);
+    TaskUtils.sortTasks = jest.fn().mockImplementation((tasks) => tasks);
+    TaskUtils.getNextOrder = jest.fn().mockReturnValue(0);
+    TaskUtils.SORT_PRESETS = jest.requireActual('../utils/taskUtils').default.SORT_PRESETS;
+    TaskUtils.normalizeSortSpec = jest.requireActual('../utils/taskUtils').default.normalizeSortSpec;
+    TaskUtils.getSortMode = jest.requireActual('../utils/taskUtils').default.getSortMode;
     TaskUtils.createTask = jest.fn();
     TaskUtils.updateTask = jest.fn();
     TaskUtils.toggleTaskStatus = jest.fn();
@@ -48,6 +58,9 @@ describe('useTodoList', () => {
 
   afterEach(() => {
     jest.clearAllMocks();
+
+    // Dismiss failures reported by a test so they do not leak into the next one
+    NotificationService.getNotifications().forEach(notification => NotificationService.dismiss(notification.id));
   });
 
   test('should initialize with empty tasks and default filter', () => {
@@ -84,14 +97,16 @@ describe('useTodoList', () => {
     // Assert
     expect(TaskUtils.createTask).toHaveBeenCalledWith({ 
       text: 'New Task', 
-      priority: Priority.HIGH 
+      priority: Priority.HIGH,
+      listId: 'inbox'
     });
     expect(setTasksMock).toHaveBeenCalledWith(expect.any(Function));
     
     // Verify the state update function works correctly
     const setTasksCallback = setTasksMock.mock.calls[0][0];
     const updatedTasks = setTasksCallback([]);
-    expect(updatedTasks).toEqual([mockTask]);
+    expect(TaskUtils.getNextOrder).toHaveBeenCalledWith([]);
+    expect(updatedTasks).toEqual([{ ...mockTask, order: 0 }]);
   });
 
   test('should update an existing task', () => {
@@ -208,6 +223,35 @@ describe('useTodoList', () => {
     expect(setTasksMock).toHaveBeenCalled();
   });
 
+  test('should report a failed priority change and keep the tasks', () => {
+    // Arrange
+    const initialTasks = [createMockTask({ id: 'task-1', priority: Priority.MEDIUM })];
+    const setTasksMock = jest.fn();
+    
+    (useLocalStorage as jest.Mock).mockImplementation((key) => {
+      if (key === LocalStorageService.STORAGE_KEYS.TASKS) {
+        return [initialTasks, setTasksMock];
+      }
+      return [FilterType.ALL, jest.fn()];
+    });
+
+    TaskUtils.updateTaskPriority = jest.requireActual('../utils/taskUtils').default.updateTaskPriority;
+
+    // Act
+    const { result } = renderHook(() => useTodoList());
+    let outcome: OperationResult | undefined;
+    act(() => {
+      outcome = result.current.updateTaskPriority('task-1', 'urgent' as Priority);
+    });
+
+    // Assert
+    expect(outcome).toEqual({ success: false, error: expect.stringContaining('Could not change the task priority') });
+    expect(setTasksMock).not.toHaveBeenCalled();
+    expect(NotificationService.getNotifications()).toEqual([
+      expect.objectContaining({ severity: NotificationSeverity.ERROR })
+    ]);
+  });
+
   test('should filter tasks correctly', () => {
     // Arrange
     const allTasks = [
@@ -241,7 +285,7 @@ describe('useTodoList', () => {
       return allTasks;
     });
     
-    TaskUtils.sortTasksByPriority = jest.fn().mockImplementation((tasks) => {
+    TaskUtils.sortTasks = jest.fn().mockImplementation((tasks) => {
       if (tasks === activeTasks) return sortedActiveTasks;
       if (tasks === completedTasks) return sortedCompletedTasks;
       return sortedAllTasks;
@@ -251,7 +295,7 @@ describe('useTodoList', () => {
     const { result, rerender } = renderHook(() => useTodoList());
     
     expect(TaskUtils.filterTasks).toHaveBeenCalledWith(allTasks, FilterType.ALL);
-    expect(TaskUtils.sortTasksByPriority).toHaveBeenCalledWith(allTasks);
+    expect(TaskUtils.sortTasks).toHaveBeenCalledWith(allTasks, TaskUtils.SORT_PRESETS[SortMode.PRIORITY]);
     expect(result.current.filteredTasks).toEqual(sortedAllTasks);
     
     // Act & Assert - Filter active tasks
@@ -264,12 +308,12 @@ describe('useTodoList', () => {
     
     expect(setFilterMock).toHaveBeenCalledWith(FilterType.ACTIVE);
     expect(TaskUtils.filterTasks).toHaveBeenCalledWith(allTasks, FilterType.ACTIVE);
-    expect(TaskUtils.sortTasksByPriority).toHaveBeenCalledWith(activeTasks);
+    expect(TaskUtils.sortTasks).toHaveBeenCalledWith(activeTasks, TaskUtils.SORT_PRESETS[SortMode.PRIORITY]);
     expect(result.current.filteredTasks).toEqual(sortedActiveTasks);
     
     // Act & Assert - Filter completed tasks
     TaskUtils.filterTasks.mockClear();
-    TaskUtils.sortTasksByPriority.mockClear();
+    TaskUtils.sortTasks.mockClear();
     
     act(() => {
       result.current.setFilter(FilterType.COMPLETED);
@@ -280,7 +324,7 @@ describe('useTodoList', () => {
     
     expect(setFilterMock).toHaveBeenCalledWith(FilterType.COMPLETED);
     expect(TaskUtils.filterTasks).toHaveBeenCalledWith(allTasks, FilterType.COMPLETED);
-    expect(TaskUtils.sortTasksByPriority).toHaveBeenCalledWith(completedTasks);
+    expect(TaskUtils.sortTasks).toHaveBeenCalledWith(completedTasks, TaskUtils.SORT_PRESETS[SortMode.PRIORITY]);
     expect(result.current.filteredTasks).toEqual(sortedCompletedTasks);
   });
 
@@ -343,4 +387,555 @@ describe('useTodoList', () => {
       initialTasks.filter(task => !task.completed)
     );
   });
-});
\ No newline at end of file
+
+  test('should combine the filter with the selected tags', () => {
+    // Arrange
+    const tasks = [createMockTask({ id: 'task-1' })];
+    const setTagFilterMock = jest.fn();
+    (useLocalStorage as jest.Mock).mockImplementation((key, initialValue) => {
+      if (key === LocalStorageService.STORAGE_KEYS.TASKS) {
+        return [tasks, jest.fn()];
+      }
+      if (key === LocalStorageService.STORAGE_KEYS.TAG_FILTER) {
+        return [['work'], setTagFilterMock];
+      }
+      return [initialValue, jest.fn()];
+    });
+
+    // Act
+    const { result } = renderHook(() => useTodoList());
+    act(() => {
+      result.current.setTagFilter(['#Home', 'work']);
+    });
+
+    // Assert
+    expect(TaskUtils.filterTasks).toHaveBeenCalledWith(tasks, { status: FilterType.ALL, tags: ['work'] });
+    expect(result.current.tagFilter).toEqual(['work']);
+    expect(setTagFilterMock).toHaveBeenCalledWith(['home', 'work']);
+  });
+
+  describe('named lists', () => {
+    const initialTasks = [
+      createMockTask({ id: 'task-1' }),
+      createMockTask({ id: 'task-2', listId: 'work' }),
+      createMockTask({ id: 'task-3', listId: 'work', completed: true })
+    ];
+    const initialLists = [
+      { id: 'inbox', name: 'Inbox', archived: false, createdAt: 0 },
+      { id: 'work', name: 'Work', archived: false, createdAt: 1 }
+    ];
+
+    beforeEach(() => {
+      // Back useLocalStorage with React state so updates re-render the hook
+      (useLocalStorage as jest.Mock).mockImplementation((key, initialValue) => {
+        if (key === LocalStorageService.STORAGE_KEYS.TASKS) {
+          // eslint-disable-next-line react-hooks/rules-of-hooks
+          return useState(initialTasks);
+        }
+        // eslint-disable-next-line react-hooks/rules-of-hooks
+        return useState(key === LocalStorageService.STORAGE_KEYS.LISTS ? initialLists : initialValue);
+      });
+      TaskUtils.moveTaskToList = jest.fn().mockImplementation((tasks: Task[], id: string, listId: string) =>
+        tasks.map(task => (task.id === id ? { ...task, listId } : task))
+      );
+      TaskUtils.getNextOrder = jest.requireActual('../utils/taskUtils').default.getNextOrder;
+      TaskUtils.reorderTask = jest.requireActual('../utils/taskUtils').default.reorderTask;
+    });
+
+    test('should show the Inbox by default', () => {
+      const { result } = renderHook(() => useTodoList());
+
+      expect(result.current.activeListId).toBe('inbox');
+      expect(result.current.filteredTasks).toEqual([initialTasks[0]]);
+    });
+
+    test('should scope tasks and counts to the selected list', () => {
+      const { result } = renderHook(() => useTodoList());
+
+      act(() => {
+        result.current.setActiveList('work');
+      });
+
+      expect(result.current.filteredTasks).toEqual([initialTasks[1], initialTasks[2]]);
+      expect(TaskUtils.getActiveTaskCount).toHaveBeenLastCalledWith([initialTasks[1], initialTasks[2]]);
+      expect(result.current.listCounts).toEqual({
+        inbox: { active: 1, completed: 0 },
+        work: { active: 1, completed: 1 }
+      });
+    });
+
+    test('should create a list and select it', () => {
+      const { result } = renderHook(() => useTodoList());
+
+      act(() => {
+        result.current.createList('  Home ');
+      });
+
+      expect(result.current.lists).toHaveLength(3);
+      expect(result.current.lists[2]).toMatchObject({ name: 'Home', archived: false });
+      expect(result.current.activeListId).toBe(result.current.lists[2].id);
+    });
+
+    test('should fall back to the Inbox when the selected list is archived', () => {
+      const { result } = renderHook(() => useTodoList());
+
+      act(() => {
+        result.current.setActiveList('work');
+      });
+      act(() => {
+        result.current.archiveList('work');
+      });
+
+      expect(result.current.lists[1].archived).toBe(true);
+      expect(result.current.activeListId).toBe('inbox');
+    });
+
+    test('should move the tasks of a deleted list into the Inbox', () => {
+      const { result } = renderHook(() => useTodoList());
+
+      act(() => {
+        result.current.deleteList('work');
+      });
+
+      expect(result.current.lists).toEqual([initialLists[0]]);
+      expect(result.current.tasks.every(task => task.listId === 'inbox')).toBe(true);
+    });
+
+    test('should import a workspace, replacing the tasks, lists and filter', () => {
+      const importedTasks = [createMockTask({ id: 'task-9', listId: 'home' })];
+      const importedLists = [initialLists[0], { id: 'home', name: 'Home', archived: false, createdAt: 2 }];
+      const { result } = renderHook(() => useTodoList());
+
+      act(() => {
+        result.current.importWorkspace(
+          {
+            app: 'react-todo-list',
+            appVersion: '1.0.0',
+            schemaVersion: LocalStorageService.CURRENT_VERSION,
+            exportedAt: '',
+            tasks: importedTasks,
+            filter: FilterType.ACTIVE,
+            lists: importedLists
+          },
+          ImportMode.REPLACE
+        );
+      });
+
+      expect(result.current.tasks).toEqual(importedTasks);
+      expect(result.current.lists).toEqual(importedLists);
+      expect(result.current.filter).toBe(FilterType.ACTIVE);
+      expect(result.current.canUndo).toBe(true);
+    });
+
+    test('should add several tasks as a single undoable change', () => {
+      const pastedTasks = [
+        createMockTask({ id: 'task-7', text: 'Write notes' }),
+        createMockTask({ id: 'task-8', text: 'Tag build', completed: true })
+      ];
+      const { result } = renderHook(() => useTodoList());
+
+      act(() => {
+        result.current.addTasks(pastedTasks);
+      });
+
+      expect(result.current.tasks).toEqual([
+        ...initialTasks,
+        { ...pastedTasks[0], order: 3 },
+        { ...pastedTasks[1], order: 4 }
+      ]);
+      expect(result.current.canUndo).toBe(true);
+
+      act(() => {
+        result.current.undo();
+      });
+
+      expect(result.current.tasks).toEqual(initialTasks);
+    });
+
+    test('should reorder a task among the visible tasks as an undoable change', () => {
+      const { result } = renderHook(() => useTodoList());
+
+      act(() => {
+        result.current.setActiveList('work');
+      });
+      act(() => {
+        result.current.reorderTask('task-3', 0);
+      });
+
+      expect(result.current.tasks.map(task => [task.id, task.order])).toEqual([
+        ['task-1', 0],
+        ['task-2', 2],
+        ['task-3', 1]
+      ]);
+      expect(result.current.canUndo).toBe(true);
+
+      act(() => {
+        result.current.undo();
+      });
+
+      expect(result.current.tasks).toEqual(initialTasks);
+    });
+
+    test('should persist the sort specification and report the matching preset', () => {
+      const { result } = renderHook(() => useTodoList());
+
+      expect(result.current.sortMode).toBe(SortMode.PRIORITY);
+
+      act(() => {
+        result.current.setSortMode(SortMode.ALPHABETICAL);
+      });
+
+      expect(result.current.sortSpec).toEqual(TaskUtils.SORT_PRESETS[SortMode.ALPHABETICAL]);
+      expect(result.current.sortMode).toBe(SortMode.ALPHABETICAL);
+      expect(TaskUtils.sortTasks).toHaveBeenLastCalledWith(
+        [initialTasks[0]],
+        TaskUtils.SORT_PRESETS[SortMode.ALPHABETICAL]
+      );
+
+      act(() => {
+        result.current.setSortSpec([{ field: SortField.TEXT, direction: SortDirection.DESC }]);
+      });
+
+      expect(result.current.sortSpec).toEqual([{ field: SortField.TEXT, direction: SortDirection.DESC }]);
+      expect(result.current.sortMode).toBeNull();
+    });
+
+    test('should narrow the visible tasks by the search query', () => {
+      const { result } = renderHook(() => useTodoList());
+
+      act(() => {
+        result.current.setSearchQuery('zebra');
+      });
+
+      expect(result.current.searchQuery).toBe('zebra');
+      expect(result.current.filteredTasks).toEqual([]);
+
+      act(() => {
+        result.current.setSearchQuery('MOCK');
+      });
+
+      expect(result.current.filteredTasks).toEqual([initialTasks[0]]);
+    });
+
+    test('should save a query as a view and show only the tasks it matches', () => {
+      const { result } = renderHook(() => useTodoList());
+
+      act(() => {
+        result.current.setActiveList('work');
+      });
+      act(() => {
+        result.current.createView('  Done ', 'is:completed');
+      });
+
+      expect(result.current.views).toEqual([expect.objectContaining({ name: 'Done', query: 'is:completed' })]);
+      expect(result.current.activeViewId).toBe(result.current.views[0].id);
+      expect(result.current.filteredTasks).toEqual([initialTasks[2]]);
+      expect(TaskUtils.filterTasks).toHaveBeenLastCalledWith(
+        [initialTasks[1], initialTasks[2]],
+        FilterType.ALL
+      );
+
+      act(() => {
+        result.current.setFilter(FilterType.ACTIVE);
+      });
+
+      expect(result.current.activeViewId).toBeNull();
+      expect(result.current.filter).toBe(FilterType.ACTIVE);
+    });
+
+    test('should not save a view with an invalid query', () => {
+      const { result } = renderHook(() => useTodoList());
+
+      let outcome: OperationResult | undefined;
+      act(() => {
+        outcome = result.current.createView('Broken', 'priority:urgent');
+      });
+
+      expect(result.current.views).toEqual([]);
+      expect(result.current.activeViewId).toBeNull();
+      expect(outcome).toEqual({ success: false, error: expect.stringContaining('Could not save the view') });
+      expect(NotificationService.getNotifications()).toEqual([
+        expect.objectContaining({ severity: NotificationSeverity.ERROR, message: outcome && !outcome.success ? outcome.error : '' })
+      ]);
+    });
+
+    test('should return to the status filter when the selected view is deleted', () => {
+      const { result } = renderHook(() => useTodoList());
+
+      act(() => {
+        result.current.createView('Done', 'is:completed');
+      });
+      act(() => {
+        result.current.deleteView(result.current.views[0].id);
+      });
+
+      expect(result.current.views).toEqual([]);
+      expect(result.current.activeViewId).toBeNull();
+    });
+
+    test('should reveal a selected task hidden by the list, filter and search', () => {
+      const { result } = renderHook(() => useTodoList());
+
+      act(() => {
+        result.current.setFilter(FilterType.COMPLETED);
+        result.current.setSearchQuery('zebra');
+      });
+      act(() => {
+        result.current.selectTask('task-2');
+      });
+
+      expect(result.current.selectedTaskId).toBe('task-2');
+      expect(result.current.activeListId).toBe('work');
+      expect(result.current.filter).toBe(FilterType.ALL);
+      expect(result.current.searchQuery).toBe('');
+      expect(result.current.filteredTasks).toContain(initialTasks[1]);
+
+      act(() => {
+        result.current.setSearchQuery('mock');
+      });
+
+      expect(result.current.selectedTaskId).toBeNull();
+    });
+
+    test('should move a task to another list', () => {
+      const { result } = renderHook(() => useTodoList());
+
+      act(() => {
+        result.current.moveTask('task-1', 'work');
+      });
+
+      expect(TaskUtils.moveTaskToList).toHaveBeenCalledWith(initialTasks, 'task-1', 'work');
+      expect(result.current.filteredTasks).toEqual([]);
+    });
+  });
+
+  describe('undo and redo', () => {
+    const initialTasks = [
+      createMockTask({ id: 'task-1' }),
+      createMockTask({ id: 'task-2', completed: true })
+    ];
+
+    beforeEach(() => {
+      // Back useLocalStorage with React state so updates re-render the hook
+      (useLocalStorage as jest.Mock).mockImplementation((key, initialValue) =>
+        // eslint-disable-next-line react-hooks/rules-of-hooks
+        useState(key === LocalStorageService.STORAGE_KEYS.TASKS ? initialTasks : initialValue)
+      );
+      TaskUtils.deleteTask = jest.fn().mockImplementation((tasks: Task[], id: string) =>
+        tasks.filter(task => task.id !== id)
+      );
+    });
+
+    test('should start with nothing to undo or redo', () => {
+      const { result } = renderHook(() => useTodoList());
+
+      expect(result.current.canUndo).toBe(false);
+      expect(result.current.canRedo).toBe(false);
+    });
+
+    test('should undo and redo a task mutation', () => {
+      const { result } = renderHook(() => useTodoList());
+
+      act(() => {
+        result.current.deleteTask('task-1');
+      });
+      expect(result.current.tasks).toEqual([initialTasks[1]]);
+      expect(result.current.canUndo).toBe(true);
+
+      act(() => {
+        result.current.undo();
+      });
+      expect(result.current.tasks).toEqual(initialTasks);
+      expect(result.current.canUndo).toBe(false);
+      expect(result.current.canRedo).toBe(true);
+
+      act(() => {
+        result.current.redo();
+      });
+      expect(result.current.tasks).toEqual([initialTasks[1]]);
+      expect(result.current.canUndo).toBe(true);
+      expect(result.current.canRedo).toBe(false);
+    });
+
+    test('should recover tasks removed by clearing completed tasks', () => {
+      const { result } = renderHook(() => useTodoList());
+
+      act(() => {
+        result.current.clearCompletedTasks();
+      });
+      act(() => {
+        result.current.undo();
+      });
+
+      expect(result.current.tasks).toEqual(initialTasks);
+    });
+
+    test('should archive completed tasks in every list and clear the history', () => {
+      const { result } = renderHook(() => useTodoList());
+
+      act(() => {
+        result.current.deleteTask('task-1');
+      });
+      act(() => {
+        result.current.undo();
+      });
+      act(() => {
+        result.current.archiveCompletedTasks();
+      });
+
+      expect(result.current.tasks).toEqual([initialTasks[0]]);
+      expect(result.current.canUndo).toBe(false);
+      expect(result.current.canRedo).toBe(false);
+    });
+
+    test('should discard redo entries after a new mutation', () => {
+      const { result } = renderHook(() => useTodoList());
+
+      act(() => {
+        result.current.deleteTask('task-1');
+      });
+      act(() => {
+        result.current.undo();
+      });
+      act(() => {
+        result.current.deleteTask('task-2');
+      });
+
+      expect(result.current.canRedo).toBe(false);
+      expect(result.current.canUndo).toBe(true);
+    });
+
+    test('should report a failure caused by a change queued just before', () => {
+      TaskUtils.updateTask = jest.fn().mockImplementation((tasks: Task[], input: { id: string; text: string }) => {
+        if (!tasks.some(task => task.id === input.id)) {
+          throw new Error('Task not found');
+        }
+        return tasks.map(task => (task.id === input.id ? { ...task, text: input.text } : task));
+      });
+      const { result } = renderHook(() => useTodoList());
+
+      let outcome: OperationResult | undefined;
+      act(() => {
+        result.current.deleteTask('task-1');
+        outcome = result.current.updateTask({ id: 'task-1', text: 'Renamed' });
+      });
+
+      expect(outcome).toEqual({ success: false, error: 'Could not update the task: Task not found' });
+      expect(result.current.tasks).toEqual([initialTasks[1]]);
+      expect(NotificationService.getNotifications()).toEqual([
+        expect.objectContaining({ severity: NotificationSeverity.ERROR, message: 'Could not update the task: Task not found' })
+      ]);
+    });
+
+    test('should keep a change queued just before an undo as the redo entry', () => {
+      const { result } = renderHook(() => useTodoList());
+
+      act(() => {
+        result.current.deleteTask('task-1');
+      });
+      act(() => {
+        result.current.deleteTask('task-2');
+        result.current.undo();
+      });
+
+      expect(result.current.tasks).toEqual(initialTasks);
+      expect(result.current.canUndo).toBe(false);
+
+      act(() => {
+        result.current.redo();
+      });
+
+      expect(result.current.tasks).toEqual([]);
+    });
+
+    test('should step back twice when undo runs twice in one event', () => {
+      const { result } = renderHook(() => useTodoList());
+
+      act(() => {
+        result.current.deleteTask('task-1');
+      });
+      act(() => {
+        result.current.deleteTask('task-2');
+      });
+      act(() => {
+        result.current.undo();
+        result.current.undo();
+      });
+
+      expect(result.current.tasks).toEqual(initialTasks);
+      expect(result.current.canUndo).toBe(false);
+
+      act(() => {
+        result.current.redo();
+        result.current.redo();
+      });
+
+      expect(result.current.tasks).toEqual([]);
+      expect(result.current.canRedo).toBe(false);
+    });
+
+    test('should keep the redo entries after a mutation that changes nothing', () => {
+      TaskUtils.moveTaskToList = jest.requireActual('../utils/taskUtils').default.moveTaskToList;
+      const { result } = renderHook(() => useTodoList());
+
+      act(() => {
+        result.current.deleteTask('task-1');
+      });
+      // task-2 is already in the Inbox, so moving it there leaves the tasks unchanged
+      act(() => {
+        result.current.moveTask('task-2', 'inbox');
+      });
+      act(() => {
+        result.current.undo();
+      });
+
+      expect(result.current.tasks).toEqual(initialTasks);
+      expect(result.current.canRedo).toBe(true);
+
+      act(() => {
+        result.current.redo();
+      });
+
+      expect(result.current.tasks).toEqual([initialTasks[1]]);
+      expect(result.current.canUndo).toBe(true);
+      expect(result.current.canRedo).toBe(false);
+    });
+
+    test('should persist the history under its own storage key', () => {
+      renderHook(() => useTodoList());
+
+      expect(useLocalStorage).toHaveBeenCalledWith(
+        LocalStorageService.STORAGE_KEYS.HISTORY,
+        { past: [], future: [] },
+        undefined
+      );
+    });
+  });
+
+  describe('recovered records', () => {
+    const storedRecords = [
+      { key: LocalStorageService.STORAGE_KEYS.TASKS, value: { id: 7 }, reason: 'Invalid task', quarantinedAt: 1 },
+      { key: LocalStorageService.STORAGE_KEYS.TASKS, reason: 'Missing timestamp' }
+    ];
+
+    beforeEach(() => {
+      // Back useLocalStorage with React state so updates re-render the hook
+      (useLocalStorage as jest.Mock).mockImplementation((key, initialValue) =>
+        // eslint-disable-next-line react-hooks/rules-of-hooks
+        useState(key === LocalStorageService.STORAGE_KEYS.RECOVERY ? storedRecords : initialValue)
+      );
+    });
+
+    test('should expose well-formed records and discard them', () => {
+      const { result } = renderHook(() => useTodoList());
+
+      expect(result.current.recoveredRecords).toEqual([storedRecords[0]]);
+
+      act(() => {
+        result.current.discardRecoveredRecords();
+      });
+
+      expect(result.current.recoveredRecords).toEqual([]);
+    });
+  });
+});
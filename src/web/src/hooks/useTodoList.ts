@@ -1,102 +1,614 @@
-import { useState, useEffect, useCallback, useMemo } from 'react'; // ^18.2.0
-import { Task, CreateTaskInput, UpdateTaskInput } from '../types/Task';
+import { useState, useEffect, useCallback, useMemo, useRef, useDeferredValue } from 'react'; // ^18.2.0
+import { Task, Priority, CreateTaskInput, UpdateTaskInput } from '../types/Task';
 import { FilterType } from '../types/Filter';
+import { SortMode, SortSpec } from '../types/Sort';
+import { SavedView } from '../types/Query';
+import { TaskHistory } from '../types/History';
+import { TaskList, ListCounts } from '../types/List';
+import { WorkspaceExport, ImportMode } from '../types/Transfer';
 import useLocalStorage from './useLocalStorage';
 import TaskUtils from '../utils/taskUtils';
+import HistoryUtils from '../utils/historyUtils';
+import TagUtils from '../utils/tagUtils';
+import SearchUtils from '../utils/searchUtils';
+import QueryUtils from '../utils/queryUtils';
+import ViewUtils from '../utils/viewUtils';
+import ListUtils from '../utils/listUtils';
 import { LocalStorageService } from '../services/localStorage';
+import { WorkspaceTransferService } from '../services/workspaceTransfer';
+import { ValidationService } from '../services/validation';
+import { StorageHealthService, StorageUsage } from '../services/storageHealth';
+import { NotificationService } from '../services/notifications';
+import { StorageAdapter, StorageBackend, QuarantinedRecord } from '../types/Storage';
+import { NotificationSeverity, OperationResult } from '../types/Notification';
 
 /**
- * Custom hook that provides state and operations for managing a todo list with localStorage persistence
+ * Result returned by operations that succeeded
+ */
+const SUCCESS: OperationResult = { success: true };
+
+/**
+ * Reports a failed operation to the user as an error notification
+ * @param summary - What failed, such as 'Could not add the task'
+ * @param error - The error thrown by the operation
+ * @returns The failure result, carrying the message shown
+ */
+const reportFailure = (summary: string, error: unknown): OperationResult => {
+  const message = error instanceof Error && error.message ? `${summary}: ${error.message}` : summary;
+  NotificationService.notify(NotificationSeverity.ERROR, message);
+  return { success: false, error: message };
+};
+
+/**
+ * Custom hook that provides state and operations for managing a todo list with persistent storage
+ * Operations that can fail report the failure to NotificationService and return an OperationResult
+ * @param adapter - Optional storage backend, defaults to localStorage
  * @returns Object containing todo list state and operations
  */
-const useTodoList = (): TodoListHook => {
-  // Initialize tasks state with localStorage persistence
+const useTodoList = (adapter?: StorageAdapter): TodoListHook => {
+  // Initialize tasks state with persistence, merging edits made in other tabs per task
+  // and repairing unknown priorities in loaded and received tasks
   const [tasks, setTasks] = useLocalStorage<Task[]>(
     LocalStorageService.STORAGE_KEYS.TASKS,
-    []
+    [],
+    adapter,
+    { merge: TaskUtils.mergeTasks, normalize: TaskUtils.repairTaskPriorities }
   );
   
-  // Initialize filter state with localStorage persistence
-  const [filter, setFilter] = useLocalStorage<FilterType>(
+  // Initialize filter state with persistence
+  const [filter, setStoredFilter] = useLocalStorage<FilterType>(
     LocalStorageService.STORAGE_KEYS.FILTER,
-    FilterType.ALL
+    FilterType.ALL,
+    adapter
+  );
+
+  // Initialize the records set aside by validation, after the tasks and filter whose loads set them aside
+  const [storedRecoveredRecords, setRecoveredRecords] = useLocalStorage<QuarantinedRecord[]>(
+    LocalStorageService.STORAGE_KEYS.RECOVERY,
+    [],
+    adapter
+  );
+  const recoveredRecords = useMemo(
+    () => ValidationService.normalizeRecords(storedRecoveredRecords),
+    [storedRecoveredRecords]
+  );
+  
+  // Initialize the saved views and the selected view with persistence, alongside the filter
+  // A selected view replaces the status filter until a status filter is chosen again
+  const [storedViews, setStoredViews] = useLocalStorage<SavedView[]>(
+    LocalStorageService.STORAGE_KEYS.VIEWS,
+    [],
+    adapter
+  );
+  const views = useMemo(() => ViewUtils.normalizeViews(storedViews), [storedViews]);
+  const [storedActiveViewId, setActiveViewId] = useLocalStorage<string | null>(
+    LocalStorageService.STORAGE_KEYS.ACTIVE_VIEW,
+    null,
+    adapter
+  );
+  const activeView = views.find(view => view.id === storedActiveViewId) ?? null;
+  const activeViewId = activeView ? activeView.id : null;
+  
+  // Compile the selected view's query; a query that no longer parses shows the unfiltered list
+  const viewPredicate = useMemo(() => {
+    if (!activeView) {
+      return null;
+    }
+    try {
+      return QueryUtils.parseQuery(activeView.query);
+    } catch (error) {
+      console.error('Error parsing view query:', error);
+      return null;
+    }
+  }, [activeView]);
+  
+  // Initialize the sort specification with persistence, alongside the filter
+  // Preset names stored by earlier versions and invalid values are normalized when read
+  const [storedSort, setStoredSort] = useLocalStorage<SortSpec | string>(
+    LocalStorageService.STORAGE_KEYS.SORT,
+    TaskUtils.SORT_PRESETS[SortMode.PRIORITY],
+    adapter
+  );
+  const sortSpec = useMemo(() => TaskUtils.normalizeSortSpec(storedSort), [storedSort]);
+  const sortMode = useMemo(() => TaskUtils.getSortMode(sortSpec), [sortSpec]);
+  
+  // Initialize the selected tags with persistence, alongside the status filter
+  const [storedTagFilter, setStoredTagFilter] = useLocalStorage<string[]>(
+    LocalStorageService.STORAGE_KEYS.TAG_FILTER,
+    [],
+    adapter
+  );
+  const tagFilter = useMemo(
+    () => (Array.isArray(storedTagFilter) ? storedTagFilter : []),
+    [storedTagFilter]
+  );
+
+  // Initialize undo/redo history with persistence so it survives reloads
+  const [storedHistory, setHistory] = useLocalStorage<TaskHistory>(
+    LocalStorageService.STORAGE_KEYS.HISTORY,
+    HistoryUtils.createHistory(),
+    adapter
+  );
+  const history = useMemo(() => HistoryUtils.normalize(storedHistory), [storedHistory]);
+
+  // Initialize the named lists with persistence; the Inbox always exists
+  const [storedLists, setStoredLists] = useLocalStorage<TaskList[]>(
+    LocalStorageService.STORAGE_KEYS.LISTS,
+    [ListUtils.createInbox()],
+    adapter
+  );
+  const lists = useMemo(() => ListUtils.normalizeLists(storedLists), [storedLists]);
+
+  // Initialize the selected list with persistence, falling back to the Inbox if it no longer exists
+  const [storedActiveListId, setActiveListId] = useLocalStorage<string>(
+    LocalStorageService.STORAGE_KEYS.ACTIVE_LIST,
+    ListUtils.INBOX_LIST_ID,
+    adapter
+  );
+  const activeListId = lists.some(list => list.id === storedActiveListId)
+    ? storedActiveListId
+    : ListUtils.INBOX_LIST_ID;
+
+  // Track the keys whose latest value could not be saved; their values are kept in memory meanwhile
+  const [unsavedKeys, setUnsavedKeys] = useState<string[]>(StorageHealthService.getFailedKeys);
+  useEffect(() => StorageHealthService.subscribe(setUnsavedKeys), []);
+
+  // Measure storage usage after the data it holds changes; declared after the stored values so it runs after their saves
+  const storageBackend = adapter ? adapter.backend : StorageBackend.LOCAL_STORAGE;
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+  useEffect(() => {
+    let isCancelled = false;
+    Promise.resolve(StorageHealthService.getUsage(storageBackend)).then((usage) => {
+      if (!isCancelled) {
+        setStorageUsage(usage);
+      }
+    });
+    return () => {
+      isCancelled = true;
+    };
+  }, [storageBackend, tasks, storedHistory, storedLists, unsavedKeys]);
+
+  // Set by task mutations so the next change to tasks is recorded in the history.
+  // Changes from undo/redo, loading and other tabs leave it unset and are not recorded.
+  const shouldRecordRef = useRef(false);
+  const previousTasksRef = useRef(tasks);
+
+  // Record the tasks as they were before each local mutation
+  useEffect(() => {
+    const previousTasks = previousTasksRef.current;
+    previousTasksRef.current = tasks;
+
+    if (shouldRecordRef.current && previousTasks !== tasks) {
+      shouldRecordRef.current = false;
+      setHistory((prevHistory) => HistoryUtils.record(HistoryUtils.normalize(prevHistory), previousTasks));
+    }
+  }, [tasks, setHistory]);
+
+  // Apply a task mutation and mark it for recording in the history.
+  // Mutations that change nothing return prevTasks and leave the flag alone, since tasks
+  // would not change to clear it and the next undo, redo or sync would be recorded instead.
+  const mutateTasks = useCallback((update: (prevTasks: Task[]) => Task[]) => {
+    setTasks((prevTasks) => {
+      const nextTasks = update(prevTasks);
+      if (nextTasks !== prevTasks) {
+        shouldRecordRef.current = true;
+      }
+      return nextTasks;
+    });
+  }, [setTasks]);
+  
+  // Keep the latest tasks, including operations queued since the last render, so each
+  // operation's result is known when it is called
+  const tasksRef = useRef(tasks);
+  tasksRef.current = tasks;
+  
+  // Apply a task mutation to the latest tasks, so a failure is reported and returned to the
+  // caller instead of being thrown while rendering
+  const runTaskOperation = useCallback((update: (prevTasks: Task[]) => Task[], failure: string): OperationResult => {
+    const baseTasks = tasksRef.current;
+    let nextTasks: Task[];
+    try {
+      nextTasks = update(baseTasks);
+    } catch (error) {
+      return reportFailure(failure, error);
+    }
+    tasksRef.current = nextTasks;
+    
+    // Other changes, such as those from another tab, may land before the update is applied;
+    // the mutation is then run again, and a failure is reported from there and keeps the tasks
+    mutateTasks((prevTasks) => {
+      if (prevTasks === baseTasks) {
+        return nextTasks;
+      }
+      try {
+        return update(prevTasks);
+      } catch (error) {
+        reportFailure(failure, error);
+        return prevTasks;
+      }
+    });
+    return SUCCESS;
+  }, [mutateTasks]);
+  
+  // Scope the visible tasks and counts to the selected list
+  const listTasks = useMemo(
+    () => ListUtils.getTasksInList(tasks, activeListId, lists),
+    [tasks, activeListId, lists]
   );
+
+  // Count active and completed tasks in every list for the sidebar
+  const listCounts = useMemo(() => ListUtils.getListCounts(tasks, lists), [tasks, lists]);
+  
+  // The search query as typed; tasks are searched with a deferred copy so typing stays responsive
+  const [searchQuery, setSearchText] = useState('');
+  const deferredSearchQuery = useDeferredValue(searchQuery);
+  
+  // The task linked to from the URL, highlighted in the list; it is not persisted
+  const [selectedTaskId, setSelectedTaskId] = useState<string | null>(null);
   
-  // Memoize filtered and sorted tasks based on current tasks and filter
+  // A selected task waiting to be revealed once it has loaded
+  const taskToRevealRef = useRef<string | null>(null);
+  
+  // Memoize filtered and sorted tasks based on the selected list, filter or view, selected tags, search and sort specification
+  // The plain status filter is used when no tags are selected
   const filteredTasks = useMemo(() => {
-    const filtered = TaskUtils.filterTasks(tasks, filter);
-    return TaskUtils.sortTasksByPriority(filtered);
-  }, [tasks, filter]);
+    const status = viewPredicate ? FilterType.ALL : filter;
+    const filtered = TaskUtils.filterTasks(
+      listTasks,
+      tagFilter.length > 0 ? { status, tags: tagFilter } : status
+    );
+    const matching = viewPredicate ? filtered.filter(viewPredicate) : filtered;
+    return TaskUtils.sortTasks(SearchUtils.searchTasks(matching, deferredSearchQuery), sortSpec);
+  }, [listTasks, filter, viewPredicate, tagFilter, deferredSearchQuery, sortSpec]);
+  
+  // Collect the tags used across all tasks for the tag picker
+  const allTags = useMemo(() => TagUtils.getAllTags(tasks), [tasks]);
+  
+  // Select a status filter, leaving any selected view or task
+  const setFilter = useCallback((newFilter: FilterType) => {
+    setStoredFilter(newFilter);
+    setActiveViewId(null);
+    setSelectedTaskId(null);
+  }, [setStoredFilter, setActiveViewId]);
+  
+  // Select a saved view, or leave the selected view with null
+  const setActiveView = useCallback((viewId: string | null) => {
+    setActiveViewId(viewId);
+    setSelectedTaskId(null);
+  }, [setActiveViewId]);
+  
+  // Change the search query, leaving any selected task
+  const setSearchQuery = useCallback((query: string) => {
+    setSearchText(query);
+    setSelectedTaskId(null);
+  }, []);
   
-  // Calculate active and completed task counts
-  const activeCount = useMemo(() => TaskUtils.getActiveTaskCount(tasks), [tasks]);
-  const completedCount = useMemo(() => TaskUtils.getCompletedTaskCount(tasks), [tasks]);
+  // Select a task to highlight, or clear the selection with null
+  const selectTask = useCallback((taskId: string | null) => {
+    setSelectedTaskId(taskId);
+    taskToRevealRef.current = taskId;
+  }, []);
   
-  // Add a new task to the list
-  const addTask = useCallback((input: CreateTaskInput) => {
+  // Reveal the selected task once it has loaded: show its list and clear the filters hiding it
+  useEffect(() => {
+    const taskId = taskToRevealRef.current;
+    const task = taskId ? tasks.find(candidate => candidate.id === taskId) : undefined;
+    if (!task) {
+      return;
+    }
+    
+    taskToRevealRef.current = null;
+    setActiveListId(lists.some(list => list.id === task.listId) ? task.listId : ListUtils.INBOX_LIST_ID);
+    if (!filteredTasks.some(candidate => candidate.id === task.id)) {
+      setStoredFilter(FilterType.ALL);
+      setActiveViewId(null);
+      setStoredTagFilter([]);
+      setSearchText('');
+    }
+  }, [selectedTaskId, tasks, lists, filteredTasks, setActiveListId, setStoredFilter, setActiveViewId, setStoredTagFilter]);
+  
+  // Save a named filter query as a view and select it
+  const createView = useCallback((name: string, query: string): OperationResult => {
     try {
-      const newTask = TaskUtils.createTask(input);
-      setTasks((prevTasks) => [...prevTasks, newTask]);
+      const nextViews = ViewUtils.createView(views, name, query);
+      setStoredViews(nextViews);
+      setActiveViewId(nextViews[nextViews.length - 1].id);
+      return SUCCESS;
     } catch (error) {
-      console.error('Error adding task:', error);
+      return reportFailure('Could not save the view', error);
     }
-  }, [setTasks]);
+  }, [views, setStoredViews, setActiveViewId]);
   
-  // Update an existing task
-  const updateTask = useCallback((input: UpdateTaskInput) => {
+  // Delete a saved view, returning to the status filter if it was selected
+  const deleteView = useCallback((viewId: string) => {
+    setStoredViews(ViewUtils.deleteView(views, viewId));
+    if (viewId === activeViewId) {
+      setActiveViewId(null);
+    }
+  }, [views, activeViewId, setStoredViews, setActiveViewId]);
+  
+  // Replace the selected tags, normalizing them for comparison with task tags
+  const setTagFilter = useCallback((tags: string[]) => {
+    setStoredTagFilter(TagUtils.mergeTags(tags));
+  }, [setStoredTagFilter]);
+  
+  // Calculate active and completed task counts for the selected list
+  const activeCount = useMemo(() => TaskUtils.getActiveTaskCount(listTasks), [listTasks]);
+  const completedCount = useMemo(() => TaskUtils.getCompletedTaskCount(listTasks), [listTasks]);
+  
+  // Replace the sort specification, keeping only valid keys
+  const setSortSpec = useCallback((spec: SortSpec) => {
+    setStoredSort(TaskUtils.normalizeSortSpec(spec));
+  }, [setStoredSort]);
+  
+  // Switch to the sort specification of a preset sort mode
+  const setSortMode = useCallback((mode: SortMode) => {
+    setStoredSort(TaskUtils.SORT_PRESETS[mode]);
+  }, [setStoredSort]);
+  
+  // Add a new task to the selected list unless another list is given
+  const addTask = useCallback((input: CreateTaskInput): OperationResult => {
+    let newTask: Task;
     try {
-      setTasks((prevTasks) => TaskUtils.updateTask(prevTasks, input));
+      newTask = TaskUtils.createTask({ ...input, listId: input.listId || activeListId });
     } catch (error) {
-      console.error('Error updating task:', error);
+      return reportFailure('Could not add the task', error);
     }
-  }, [setTasks]);
+    return runTaskOperation(
+      (prevTasks) => [...prevTasks, { ...newTask, order: TaskUtils.getNextOrder(prevTasks) }],
+      'Could not add the task'
+    );
+  }, [runTaskOperation, activeListId]);
+  
+  // Add several prepared tasks, such as a pasted checklist, as a single change
+  const addTasks = useCallback((newTasks: Task[]): OperationResult => {
+    if (newTasks.length === 0) {
+      return SUCCESS;
+    }
+    return runTaskOperation((prevTasks) => {
+      const nextOrder = TaskUtils.getNextOrder(prevTasks);
+      return [...prevTasks, ...newTasks.map((task, index) => ({ ...task, order: nextOrder + index }))];
+    }, 'Could not add the tasks');
+  }, [runTaskOperation]);
+  
+  // Update an existing task
+  const updateTask = useCallback((input: UpdateTaskInput): OperationResult => {
+    return runTaskOperation((prevTasks) => TaskUtils.updateTask(prevTasks, input), 'Could not update the task');
+  }, [runTaskOperation]);
   
   // Toggle a task's completion status
-  const toggleTask = useCallback((id: string) => {
+  const toggleTask = useCallback((id: string): OperationResult => {
+    return runTaskOperation((prevTasks) => TaskUtils.toggleTaskStatus(prevTasks, id), 'Could not change the task status');
+  }, [runTaskOperation]);
+  
+  // Delete a task from the list
+  const deleteTask = useCallback((id: string): OperationResult => {
+    return runTaskOperation((prevTasks) => TaskUtils.deleteTask(prevTasks, id), 'Could not delete the task');
+  }, [runTaskOperation]);
+  
+  // Update a task's priority
+  const updateTaskPriority = useCallback((id: string, priority: Priority): OperationResult => {
+    return runTaskOperation((prevTasks) => TaskUtils.updateTaskPriority(prevTasks, id, priority), 'Could not change the task priority');
+  }, [runTaskOperation]);
+  
+  // Add a step to a task's checklist
+  const addSubtask = useCallback((taskId: string, text: string): OperationResult => {
+    return runTaskOperation((prevTasks) => TaskUtils.addSubtask(prevTasks, taskId, text), 'Could not add the checklist step');
+  }, [runTaskOperation]);
+  
+  // Toggle a checklist step's completion status
+  const toggleSubtask = useCallback((taskId: string, subtaskId: string): OperationResult => {
+    return runTaskOperation((prevTasks) => TaskUtils.toggleSubtaskStatus(prevTasks, taskId, subtaskId), 'Could not change the checklist step');
+  }, [runTaskOperation]);
+  
+  // Remove a step from a task's checklist
+  const deleteSubtask = useCallback((taskId: string, subtaskId: string): OperationResult => {
+    return runTaskOperation((prevTasks) => TaskUtils.deleteSubtask(prevTasks, taskId, subtaskId), 'Could not delete the checklist step');
+  }, [runTaskOperation]);
+  
+  // Move a task to another list
+  const moveTask = useCallback((taskId: string, listId: string): OperationResult => {
+    return runTaskOperation((prevTasks) => TaskUtils.moveTaskToList(prevTasks, taskId, listId), 'Could not move the task');
+  }, [runTaskOperation]);
+  
+  // Clear the completed tasks of the selected list
+  const clearCompletedTasks = useCallback(() => {
+    const clearedIds = new Set(listTasks.filter(task => task.completed).map(task => task.id));
+    mutateTasks((prevTasks) => prevTasks.filter(task => !clearedIds.has(task.id)));
+  }, [mutateTasks, listTasks]);
+  
+  // Remove completed tasks in every list to free storage space, along with the undo history
+  // whose snapshots still hold them; this cannot be undone, so callers export the tasks first
+  const archiveCompletedTasks = useCallback(() => {
+    setTasks((prevTasks) => prevTasks.filter(task => !task.completed));
+    setHistory(HistoryUtils.createHistory());
+  }, [setTasks, setHistory]);
+  
+  // Save values that could not be saved before
+  const retrySave = useCallback(() => {
+    StorageHealthService.requestRetry();
+  }, []);
+  
+  // Switch the sidebar selection to another list
+  const setActiveList = useCallback((listId: string) => {
+    setActiveListId(listId);
+  }, [setActiveListId]);
+  
+  // Create a new list and switch to it
+  const createList = useCallback((name: string): OperationResult => {
     try {
-      setTasks((prevTasks) => TaskUtils.toggleTaskStatus(prevTasks, id));
+      const nextLists = ListUtils.createList(lists, name);
+      setStoredLists(nextLists);
+      setActiveListId(nextLists[nextLists.length - 1].id);
+      return SUCCESS;
     } catch (error) {
-      console.error('Error toggling task status:', error);
+      return reportFailure('Could not create the list', error);
     }
-  }, [setTasks]);
+  }, [lists, setStoredLists, setActiveListId]);
   
-  // Delete a task from the list
-  const deleteTask = useCallback((id: string) => {
+  // Rename a list
+  const renameList = useCallback((listId: string, name: string): OperationResult => {
     try {
-      setTasks((prevTasks) => TaskUtils.deleteTask(prevTasks, id));
+      setStoredLists(ListUtils.renameList(lists, listId, name));
+      return SUCCESS;
     } catch (error) {
-      console.error('Error deleting task:', error);
+      return reportFailure('Could not rename the list', error);
     }
-  }, [setTasks]);
+  }, [lists, setStoredLists]);
   
-  // Update a task's priority
-  const updateTaskPriority = useCallback((id: string, priority: string) => {
+  // Archive or restore a list, leaving an archived list's selection for the Inbox
+  const archiveList = useCallback((listId: string, archived: boolean = true): OperationResult => {
     try {
-      setTasks((prevTasks) => TaskUtils.updateTaskPriority(prevTasks, id, priority));
+      setStoredLists(ListUtils.setListArchived(lists, listId, archived));
+      if (archived && listId === activeListId) {
+        setActiveListId(ListUtils.INBOX_LIST_ID);
+      }
+      return SUCCESS;
     } catch (error) {
-      console.error('Error updating task priority:', error);
+      return reportFailure(archived ? 'Could not archive the list' : 'Could not restore the list', error);
     }
-  }, [setTasks]);
+  }, [lists, activeListId, setStoredLists, setActiveListId]);
   
-  // Clear all completed tasks
-  const clearCompletedTasks = useCallback(() => {
-    setTasks((prevTasks) => prevTasks.filter(task => !task.completed));
-  }, [setTasks]);
+  // Delete a list and move its tasks into the Inbox
+  const deleteList = useCallback((listId: string): OperationResult => {
+    let nextLists: TaskList[];
+    try {
+      nextLists = ListUtils.deleteList(lists, listId);
+    } catch (error) {
+      return reportFailure('Could not delete the list', error);
+    }
+    
+    const result = runTaskOperation(
+      (prevTasks) => ListUtils.moveTasksToInbox(prevTasks, listId),
+      'Could not delete the list'
+    );
+    if (result.success) {
+      setStoredLists(nextLists);
+      if (listId === activeListId) {
+        setActiveListId(ListUtils.INBOX_LIST_ID);
+      }
+    }
+    return result;
+  }, [lists, activeListId, setStoredLists, setActiveListId, runTaskOperation]);
+
+  // Move a task to a new position among the visible tasks, keeping hidden tasks in place
+  const reorderTask = useCallback((taskId: string, toIndex: number): OperationResult => {
+    const visibleIds = filteredTasks.map(task => task.id);
+    return runTaskOperation(
+      (prevTasks) => TaskUtils.reorderTask(prevTasks, taskId, visibleIds, toIndex),
+      'Could not move the task'
+    );
+  }, [runTaskOperation, filteredTasks]);
+
+  // Merge an imported workspace into this one, or replace it; the task change can be undone
+  const importWorkspace = useCallback((document: WorkspaceExport, mode: ImportMode): OperationResult => {
+    let nextLists: TaskList[];
+    try {
+      nextLists = WorkspaceTransferService.applyListImport(lists, document.lists, mode);
+    } catch (error) {
+      return reportFailure('Could not import the workspace', error);
+    }
+    
+    const result = runTaskOperation(
+      (prevTasks) => WorkspaceTransferService.applyImport(prevTasks, document.tasks, mode),
+      'Could not import the workspace'
+    );
+    if (result.success) {
+      setStoredLists(nextLists);
+      if (mode === ImportMode.REPLACE) {
+        setFilter(document.filter);
+      }
+    }
+    return result;
+  }, [runTaskOperation, lists, setStoredLists, setFilter]);
+
+  // Keep the latest history, including undo and redo steps queued since the last render
+  const historyRef = useRef(history);
+  historyRef.current = history;
+
+  // Step through the history from the latest tasks, so changes queued since the last render are
+  // kept as the redo or undo entry. The step's own change to tasks clears any pending recording.
+  const stepHistory = useCallback((step: typeof HistoryUtils.undo) => {
+    const currentTasks = tasksRef.current;
+    const result = step(historyRef.current, currentTasks);
+    if (!result) {
+      return;
+    }
+    tasksRef.current = result.tasks;
+    historyRef.current = result.history;
+    setTasks(() => {
+      shouldRecordRef.current = false;
+      return result.tasks;
+    });
+    setHistory((prevHistory) => step(HistoryUtils.normalize(prevHistory), currentTasks)?.history ?? prevHistory);
+  }, [setTasks, setHistory]);
+
+  // Restore the tasks as they were before the last recorded change
+  const undo = useCallback(() => stepHistory(HistoryUtils.undo), [stepHistory]);
+
+  // Reapply the last undone change
+  const redo = useCallback(() => stepHistory(HistoryUtils.redo), [stepHistory]);
+  
+  // Delete the records set aside by validation once the user has dealt with them
+  const discardRecoveredRecords = useCallback(() => {
+    setRecoveredRecords([]);
+  }, [setRecoveredRecords]);
   
   // Return the hook API
   return {
     tasks,
     filteredTasks,
     filter,
+    sortSpec,
+    sortMode,
+    searchQuery,
+    views,
+    activeViewId,
+    selectedTaskId,
+    tagFilter,
+    allTags,
     activeCount,
     completedCount,
+    lists,
+    activeListId,
+    listCounts,
     addTask,
+    addTasks,
     updateTask,
     toggleTask,
     deleteTask,
     updateTaskPriority,
+    addSubtask,
+    toggleSubtask,
+    deleteSubtask,
+    moveTask,
+    reorderTask,
     setFilter,
-    clearCompletedTasks
+    setSortSpec,
+    setSortMode,
+    setSearchQuery,
+    setActiveView,
+    createView,
+    deleteView,
+    selectTask,
+    setTagFilter,
+    clearCompletedTasks,
+    archiveCompletedTasks,
+    setActiveList,
+    createList,
+    renameList,
+    archiveList,
+    deleteList,
+    importWorkspace,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+    recoveredRecords,
+    discardRecoveredRecords,
+    storageUsage,
+    unsavedKeys,
+    retrySave
   };
 };
 
@@ -107,38 +619,161 @@ export interface TodoListHook {
   /** All tasks in the todo list */
   tasks: Task[];
   
-  /** Tasks filtered according to the current filter */
+  /** Tasks in the selected list filtered according to the current filter */
   filteredTasks: Task[];
   
   /** Current filter selection */
   filter: FilterType;
   
-  /** Count of active (incomplete) tasks */
+  /** Sort keys the visible tasks are ordered by */
+  sortSpec: SortSpec;
+  
+  /** Preset matching the sort keys, or null for a custom order */
+  sortMode: SortMode | null;
+  
+  /** Text the visible tasks are searched for, combined with the filter selection */
+  searchQuery: string;
+  
+  /** Saved views, shown as extra filter tabs */
+  views: SavedView[];
+  
+  /** ID of the selected view, which replaces the filter selection, or null */
+  activeViewId: string | null;
+  
+  /** ID of the task linked to from the URL, which is highlighted, or null */
+  selectedTaskId: string | null;
+  
+  /** Tags a task must all carry to be shown, combined with the filter selection */
+  tagFilter: string[];
+  
+  /** All tags used across tasks, sorted alphabetically */
+  allTags: string[];
+  
+  /** Count of active (incomplete) tasks in the selected list */
   activeCount: number;
   
-  /** Count of completed tasks */
+  /** Count of completed tasks in the selected list */
   completedCount: number;
   
+  /** All named lists, starting with the Inbox */
+  lists: TaskList[];
+  
+  /** ID of the list whose tasks are shown */
+  activeListId: string;
+  
+  /** Active and completed task counts keyed by list ID */
+  listCounts: Record<string, ListCounts>;
+  
   /** Adds a new task to the list */
-  addTask: (input: CreateTaskInput) => void;
+  addTask: (input: CreateTaskInput) => OperationResult;
+  
+  /** Adds several prepared tasks as a single change */
+  addTasks: (tasks: Task[]) => OperationResult;
   
-  /** Updates an existing task's text or priority */
-  updateTask: (input: UpdateTaskInput) => void;
+  /** Updates an existing task's text, priority, due date or tags */
+  updateTask: (input: UpdateTaskInput) => OperationResult;
   
   /** Toggles a task's completion status */
-  toggleTask: (id: string) => void;
+  toggleTask: (id: string) => OperationResult;
   
   /** Removes a task from the list */
-  deleteTask: (id: string) => void;
+  deleteTask: (id: string) => OperationResult;
   
   /** Updates a task's priority level */
-  updateTaskPriority: (id: string, priority: string) => void;
+  updateTaskPriority: (id: string, priority: Priority) => OperationResult;
+  
+  /** Adds a checklist step to a task */
+  addSubtask: (taskId: string, text: string) => OperationResult;
+  
+  /** Toggles a checklist step's completion status */
+  toggleSubtask: (taskId: string, subtaskId: string) => OperationResult;
+  
+  /** Removes a checklist step from a task */
+  deleteSubtask: (taskId: string, subtaskId: string) => OperationResult;
+  
+  /** Moves a task to another list */
+  moveTask: (taskId: string, listId: string) => OperationResult;
+  
+  /** Moves a task to a position among the visible tasks in the manual order */
+  reorderTask: (taskId: string, toIndex: number) => OperationResult;
   
   /** Changes the current filter selection */
   setFilter: (filter: FilterType) => void;
   
-  /** Removes all completed tasks from the list */
+  /** Replaces the sort keys the visible tasks are ordered by */
+  setSortSpec: (sortSpec: SortSpec) => void;
+  
+  /** Orders the visible tasks by a preset sort mode */
+  setSortMode: (sortMode: SortMode) => void;
+  
+  /** Changes the text the visible tasks are searched for */
+  setSearchQuery: (query: string) => void;
+  
+  /** Selects a saved view, or leaves the selected view with null */
+  setActiveView: (viewId: string | null) => void;
+  
+  /** Saves a named filter query as a view and selects it */
+  createView: (name: string, query: string) => OperationResult;
+  
+  /** Deletes a saved view */
+  deleteView: (viewId: string) => void;
+  
+  /** Selects a task to scroll to and highlight, revealing it if it is hidden, or clears the selection with null */
+  selectTask: (taskId: string | null) => void;
+  
+  /** Replaces the selected tags */
+  setTagFilter: (tags: string[]) => void;
+  
+  /** Removes all completed tasks from the selected list */
   clearCompletedTasks: () => void;
+  
+  /** Removes completed tasks in every list and clears the undo history to free storage space */
+  archiveCompletedTasks: () => void;
+  
+  /** Selects the list whose tasks are shown */
+  setActiveList: (listId: string) => void;
+  
+  /** Creates a new list and selects it */
+  createList: (name: string) => OperationResult;
+  
+  /** Renames a list */
+  renameList: (listId: string, name: string) => OperationResult;
+  
+  /** Archives a list, or restores it when archived is false */
+  archiveList: (listId: string, archived?: boolean) => OperationResult;
+  
+  /** Deletes a list, moving its tasks into the Inbox */
+  deleteList: (listId: string) => OperationResult;
+  
+  /** Merges an imported workspace into this one, or replaces it */
+  importWorkspace: (document: WorkspaceExport, mode: ImportMode) => OperationResult;
+
+  /** Reverts the most recent task change */
+  undo: () => void;
+
+  /** Reapplies the most recently undone task change */
+  redo: () => void;
+
+  /** Whether there is a task change that can be undone */
+  canUndo: boolean;
+
+  /** Whether there is an undone task change that can be reapplied */
+  canRedo: boolean;
+
+  /** Stored records that failed validation on load and were set aside */
+  recoveredRecords: QuarantinedRecord[];
+
+  /** Permanently deletes the records that were set aside */
+  discardRecoveredRecords: () => void;
+
+  /** How much of its quota the storage backend is using, or null if it cannot be measured */
+  storageUsage: StorageUsage | null;
+
+  /** Storage keys whose latest value could not be saved and is kept in memory */
+  unsavedKeys: string[];
+
+  /** Saves the values that could not be saved before */
+  retrySave: () => void;
 }
 
 export default useTodoList;
\ No newline at end of file
@@ -0,0 +1,170 @@
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { IndexedDBService } from './indexedDB';
+import { LocalStorageService } from './localStorage';
+import { StorageBackend } from '../types/Storage';
+import { Task } from '../types/Task';
+
+const TASKS_KEY = LocalStorageService.STORAGE_KEYS.TASKS;
+
+// Helper function to create multiple mock tasks
+const createMockTasks = (count: number): Task[] => {
+  const tasks: Task[] = [];
+  for (let i = 0; i < count; i++) {
+    tasks.push({
+      id: `task-${i}`,
+      text: `Test task ${i}`,
+      completed: false,
+      priority: 'medium',
+      createdAt: 1623456789000 + i
+    });
+  }
+  return tasks;
+};
+
+describe('IndexedDBService', () => {
+  const adapter = IndexedDBService.createAdapter();
+
+  afterEach(async () => {
+    await adapter.clear();
+  });
+
+  test('should report IndexedDB as available', () => {
+    expect(IndexedDBService.isIndexedDBAvailable()).toBe(true);
+  });
+
+  describe('createAdapter', () => {
+    test('should identify itself as the IndexedDB backend', () => {
+      expect(adapter.backend).toBe(StorageBackend.INDEXED_DB);
+    });
+
+    test('should return the default value for missing keys', async () => {
+      await expect(adapter.load('missing', 'default')).resolves.toBe('default');
+    });
+
+    test('should save and load data asynchronously', async () => {
+      await expect(adapter.save('key', { value: 1 })).resolves.toBe(true);
+      await expect(adapter.load('key', null)).resolves.toEqual({ value: 1 });
+    });
+
+    test('should list and remove keys', async () => {
+      await adapter.save('first', 1);
+      await adapter.save('second', 2);
+
+      await expect(adapter.list()).resolves.toEqual(['first', 'second']);
+      await expect(adapter.remove('first')).resolves.toBe(true);
+      await expect(adapter.list()).resolves.toEqual(['second']);
+    });
+
+    test('should clear all data', async () => {
+      await adapter.save('key', 'value');
+
+      await expect(adapter.clear()).resolves.toBe(true);
+      await expect(adapter.list()).resolves.toEqual([]);
+    });
+  });
+
+  describe('task storage', () => {
+    beforeEach(() => {
+      // Start every test with an empty database and no legacy localStorage data
+      window.indexedDB = new IDBFactory();
+      jest.spyOn(LocalStorageService, 'isStorageAvailable').mockReturnValue(true);
+      jest.spyOn(LocalStorageService, 'loadData').mockReturnValue(null);
+      jest.spyOn(LocalStorageService, 'removeData').mockReturnValue(true);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    test('should return the default value when no tasks are stored', async () => {
+      const taskAdapter = IndexedDBService.createAdapter();
+
+      await expect(taskAdapter.load(TASKS_KEY, [])).resolves.toEqual([]);
+    });
+
+    test('should store one record per task and preserve order', async () => {
+      const taskAdapter = IndexedDBService.createAdapter();
+      const tasks = createMockTasks(3).reverse();
+
+      await taskAdapter.load(TASKS_KEY, []);
+      await expect(taskAdapter.save(TASKS_KEY, tasks)).resolves.toBe(true);
+
+      const db = await IndexedDBService.openDatabase();
+      const count = await new Promise(resolve => {
+        const request = db
+          .transaction(IndexedDBService.STORES.TASKS, 'readonly')
+          .objectStore(IndexedDBService.STORES.TASKS)
+          .count();
+        request.onsuccess = () => resolve(request.result);
+      });
+      db.close();
+
+      expect(count).toBe(3);
+      await expect(IndexedDBService.createAdapter().load(TASKS_KEY, [])).resolves.toEqual(tasks);
+      await expect(taskAdapter.list()).resolves.toEqual([TASKS_KEY]);
+    });
+
+    test('should only write tasks that have changed', async () => {
+      const taskAdapter = IndexedDBService.createAdapter();
+      const tasks = createMockTasks(100);
+
+      await taskAdapter.load(TASKS_KEY, []);
+      await taskAdapter.save(TASKS_KEY, tasks);
+
+      const putSpy = jest.spyOn(IDBObjectStore.prototype, 'put');
+      const toggled = tasks.map(task =>
+        task.id === 'task-42' ? { ...task, completed: true } : task
+      );
+      await taskAdapter.save(TASKS_KEY, toggled);
+
+      expect(putSpy).toHaveBeenCalledTimes(1);
+      expect(putSpy).toHaveBeenCalledWith(toggled[42]);
+
+      putSpy.mockClear();
+      await taskAdapter.save(TASKS_KEY, toggled);
+      expect(putSpy).not.toHaveBeenCalled();
+    });
+
+    test('should delete records for removed tasks', async () => {
+      const taskAdapter = IndexedDBService.createAdapter();
+      const tasks = createMockTasks(3);
+
+      await taskAdapter.load(TASKS_KEY, []);
+      await taskAdapter.save(TASKS_KEY, tasks);
+      await taskAdapter.save(TASKS_KEY, tasks.slice(1));
+
+      await expect(IndexedDBService.createAdapter().load(TASKS_KEY, [])).resolves.toEqual(
+        tasks.slice(1)
+      );
+    });
+
+    test('should migrate existing localStorage tasks on first load', async () => {
+      const legacyTasks = createMockTasks(2);
+      (LocalStorageService.loadData as jest.Mock).mockReturnValue(legacyTasks);
+
+      const taskAdapter = IndexedDBService.createAdapter();
+
+      await expect(taskAdapter.load(TASKS_KEY, [])).resolves.toEqual(legacyTasks);
+      expect(LocalStorageService.loadData).toHaveBeenCalledWith(TASKS_KEY, null);
+      expect(LocalStorageService.removeData).toHaveBeenCalledWith(TASKS_KEY);
+
+      // Subsequent loads read from IndexedDB without migrating again
+      (LocalStorageService.loadData as jest.Mock).mockClear();
+      await expect(IndexedDBService.createAdapter().load(TASKS_KEY, [])).resolves.toEqual(
+        legacyTasks
+      );
+      expect(LocalStorageService.loadData).not.toHaveBeenCalled();
+    });
+
+    test('should clear task records when the tasks key is removed', async () => {
+      const taskAdapter = IndexedDBService.createAdapter();
+
+      await taskAdapter.load(TASKS_KEY, []);
+      await taskAdapter.save(TASKS_KEY, createMockTasks(2));
+      await expect(taskAdapter.remove(TASKS_KEY)).resolves.toBe(true);
+
+      await expect(taskAdapter.list()).resolves.toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,371 @@
+import { StorageAdapter, StorageBackend } from '../types/Storage';
+import { Task } from '../types/Task';
+import { LocalStorageService } from './localStorage';
+
+/**
+ * Name and schema version of the application's IndexedDB database.
+ */
+const DB_NAME = 'react-todo-list';
+const DB_VERSION = 2;
+
+/**
+ * Object store names used within the database.
+ * Tasks are stored one record per task so that a change only rewrites that task.
+ */
+const STORES = {
+  KEY_VALUE: 'keyValue',
+  TASKS: 'tasks'
+};
+
+/**
+ * Key-value entries used to track task storage metadata.
+ */
+const META_KEYS = {
+  TASK_ORDER: `${LocalStorageService.STORAGE_KEYS.TASKS}-order`,
+  MIGRATED: `${LocalStorageService.STORAGE_KEYS.TASKS}-migrated`
+};
+
+/**
+ * Checks if IndexedDB is available in the current browser environment.
+ *
+ * @returns {boolean} True if IndexedDB is available, false otherwise
+ */
+const isIndexedDBAvailable = (): boolean => {
+  try {
+    return typeof indexedDB !== 'undefined' && indexedDB !== null;
+  } catch (e) {
+    console.error('IndexedDB is not available:', e);
+    return false;
+  }
+};
+
+/**
+ * Wraps an IDBRequest in a Promise that settles when the request completes.
+ *
+ * @param {IDBRequest<T>} request - The request to wrap
+ * @returns {Promise<T>} A promise resolving to the request result
+ */
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Wraps an IDBTransaction in a Promise that settles when the transaction finishes.
+ *
+ * @param {IDBTransaction} transaction - The transaction to wrap
+ * @returns {Promise<void>} A promise resolving once the transaction commits
+ */
+const transactionToPromise = (transaction: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+/**
+ * Opens the application database, creating or upgrading object stores as needed.
+ *
+ * @returns {Promise<IDBDatabase>} A promise resolving to the open database
+ */
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!isIndexedDBAvailable()) {
+    return Promise.reject(new Error('IndexedDB is not available'));
+  }
+
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    if (!db.objectStoreNames.contains(STORES.KEY_VALUE)) {
+      db.createObjectStore(STORES.KEY_VALUE);
+    }
+    if (!db.objectStoreNames.contains(STORES.TASKS)) {
+      db.createObjectStore(STORES.TASKS, { keyPath: 'id' });
+    }
+  };
+
+  return requestToPromise(request);
+};
+
+/**
+ * Reads all task records and returns them in their persisted order.
+ * Tasks missing from the order list (e.g. written by an older version) are appended.
+ *
+ * @param {IDBDatabase} db - The open database
+ * @returns {Promise<Task[] | null>} The stored tasks, or null if none have been stored yet
+ */
+const readTasks = async (db: IDBDatabase): Promise<Task[] | null> => {
+  const transaction = db.transaction([STORES.TASKS, STORES.KEY_VALUE], 'readonly');
+  const [records, order] = await Promise.all([
+    requestToPromise(transaction.objectStore(STORES.TASKS).getAll() as IDBRequest<Task[]>),
+    requestToPromise(
+      transaction.objectStore(STORES.KEY_VALUE).get(META_KEYS.TASK_ORDER) as IDBRequest<
+        string[] | undefined
+      >
+    )
+  ]);
+
+  if (order === undefined && records.length === 0) {
+    return null;
+  }
+
+  const tasksById = new Map(records.map(task => [task.id, task]));
+  const orderedTasks: Task[] = [];
+  (order || []).forEach(id => {
+    const task = tasksById.get(id);
+    if (task) {
+      orderedTasks.push(task);
+      tasksById.delete(id);
+    }
+  });
+  tasksById.forEach(task => orderedTasks.push(task));
+
+  return orderedTasks;
+};
+
+/**
+ * Writes only the tasks that differ from the previously persisted snapshot.
+ * Tasks are treated as immutable, so a task whose object reference is unchanged
+ * is known to be unchanged and is skipped. The id order is only rewritten when
+ * tasks are added, removed or reordered.
+ *
+ * @param {IDBDatabase} db - The open database
+ * @param {Task[]} tasks - The complete, current task list
+ * @param {Map<string, Task>} previous - The last persisted tasks keyed by id
+ * @returns {Promise<void>} A promise resolving once the changes are committed
+ */
+const writeTaskChanges = async (
+  db: IDBDatabase,
+  tasks: Task[],
+  previous: Map<string, Task>
+): Promise<void> => {
+  // Find tasks that are new or have changed since the last save
+  const changedTasks = tasks.filter(task => previous.get(task.id) !== task);
+
+  // Find tasks that are no longer in the list
+  const currentIds = new Set(tasks.map(task => task.id));
+  const deletedIds = Array.from(previous.keys()).filter(id => !currentIds.has(id));
+
+  // Detect whether the sequence of ids has changed
+  const previousIds = Array.from(previous.keys());
+  const orderChanged =
+    previousIds.length !== tasks.length ||
+    tasks.some((task, index) => task.id !== previousIds[index]);
+
+  // Skip the transaction entirely when nothing has changed
+  if (changedTasks.length === 0 && deletedIds.length === 0 && !orderChanged) {
+    return;
+  }
+
+  const transaction = db.transaction([STORES.TASKS, STORES.KEY_VALUE], 'readwrite');
+  const taskStore = transaction.objectStore(STORES.TASKS);
+  changedTasks.forEach(task => taskStore.put(task));
+  deletedIds.forEach(id => taskStore.delete(id));
+  if (orderChanged) {
+    transaction.objectStore(STORES.KEY_VALUE).put(
+      tasks.map(task => task.id),
+      META_KEYS.TASK_ORDER
+    );
+  }
+
+  await transactionToPromise(transaction);
+};
+
+/**
+ * Migrates tasks previously persisted to localStorage into IndexedDB.
+ * Runs once; the localStorage copy is removed after a successful migration.
+ *
+ * @param {IDBDatabase} db - The open database
+ * @returns {Promise<Task[] | null>} The migrated tasks, or null if there was nothing to migrate
+ */
+const migrateTasksFromLocalStorage = async (db: IDBDatabase): Promise<Task[] | null> => {
+  const migrated = await requestToPromise(
+    db.transaction(STORES.KEY_VALUE, 'readonly').objectStore(STORES.KEY_VALUE).get(META_KEYS.MIGRATED)
+  );
+  if (migrated || !LocalStorageService.isStorageAvailable()) {
+    return null;
+  }
+
+  const tasks = LocalStorageService.loadData<Task[] | null>(LocalStorageService.STORAGE_KEYS.TASKS, null);
+  if (Array.isArray(tasks)) {
+    await writeTaskChanges(db, tasks, new Map());
+  }
+
+  const transaction = db.transaction(STORES.KEY_VALUE, 'readwrite');
+  transaction.objectStore(STORES.KEY_VALUE).put(true, META_KEYS.MIGRATED);
+  await transactionToPromise(transaction);
+
+  if (!Array.isArray(tasks)) {
+    return null;
+  }
+
+  LocalStorageService.removeData(LocalStorageService.STORAGE_KEYS.TASKS);
+  return tasks;
+};
+
+/**
+ * Creates a storage adapter that persists key-value data to IndexedDB.
+ * The task list is stored one record per task and saved incrementally;
+ * all other keys are stored as single values.
+ * All operations are asynchronous and resolve to a failure value rather
+ * than rejecting, mirroring the error handling of LocalStorageService.
+ *
+ * @returns {StorageAdapter} An IndexedDB-backed storage adapter
+ */
+const createAdapter = (): StorageAdapter => {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  // Snapshot of the tasks last read from or written to the database, keyed by id
+  let persistedTasks = new Map<string, Task>();
+
+  // Task writes are serialized so each one is diffed against the previous result
+  let taskWriteQueue: Promise<boolean> = Promise.resolve(true);
+
+  const isTaskKey = (key: string): boolean => key === LocalStorageService.STORAGE_KEYS.TASKS;
+
+  const toTaskMap = (tasks: Task[]): Map<string, Task> =>
+    new Map(tasks.map(task => [task.id, task]));
+
+  // Lazily open the database once and share the connection between operations
+  const getDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+      dbPromise = openDatabase();
+    }
+    return dbPromise;
+  };
+
+  const loadTasks = async <T>(defaultValue: T): Promise<T> => {
+    const db = await getDatabase();
+    const tasks = (await readTasks(db)) ?? (await migrateTasksFromLocalStorage(db));
+    persistedTasks = toTaskMap(tasks ?? []);
+    return tasks === null ? defaultValue : (tasks as unknown as T);
+  };
+
+  const saveTasks = (tasks: Task[]): Promise<boolean> => {
+    taskWriteQueue = taskWriteQueue.then(async () => {
+      try {
+        const db = await getDatabase();
+        await writeTaskChanges(db, tasks, persistedTasks);
+        persistedTasks = toTaskMap(tasks);
+        return true;
+      } catch (e) {
+        console.error('Error saving tasks to IndexedDB:', e);
+        return false;
+      }
+    });
+    return taskWriteQueue;
+  };
+
+  const load = async <T>(key: string, defaultValue: T): Promise<T> => {
+    try {
+      if (isTaskKey(key)) {
+        return await loadTasks(defaultValue);
+      }
+
+      const db = await getDatabase();
+      const store = db.transaction(STORES.KEY_VALUE, 'readonly').objectStore(STORES.KEY_VALUE);
+      const value = await requestToPromise(store.get(key));
+      return value === undefined ? defaultValue : (value as T);
+    } catch (e) {
+      console.error(`Error loading data for key "${key}" from IndexedDB:`, e);
+      return defaultValue;
+    }
+  };
+
+  const save = async <T>(key: string, data: T): Promise<boolean> => {
+    if (isTaskKey(key) && Array.isArray(data)) {
+      return saveTasks(data as Task[]);
+    }
+
+    try {
+      const db = await getDatabase();
+      const transaction = db.transaction(STORES.KEY_VALUE, 'readwrite');
+      transaction.objectStore(STORES.KEY_VALUE).put(data, key);
+      await transactionToPromise(transaction);
+      return true;
+    } catch (e) {
+      console.error(`Error saving data for key "${key}" to IndexedDB:`, e);
+      return false;
+    }
+  };
+
+  const remove = async (key: string): Promise<boolean> => {
+    try {
+      const db = await getDatabase();
+      const transaction = db.transaction([STORES.TASKS, STORES.KEY_VALUE], 'readwrite');
+      if (isTaskKey(key)) {
+        transaction.objectStore(STORES.TASKS).clear();
+        transaction.objectStore(STORES.KEY_VALUE).delete(META_KEYS.TASK_ORDER);
+        persistedTasks = new Map();
+      } else {
+        transaction.objectStore(STORES.KEY_VALUE).delete(key);
+      }
+      await transactionToPromise(transaction);
+      return true;
+    } catch (e) {
+      console.error(`Error removing data for key "${key}" from IndexedDB:`, e);
+      return false;
+    }
+  };
+
+  const list = async (): Promise<string[]> => {
+    try {
+      const db = await getDatabase();
+      const transaction = db.transaction([STORES.TASKS, STORES.KEY_VALUE], 'readonly');
+      const [keys, taskCount] = await Promise.all([
+        requestToPromise(transaction.objectStore(STORES.KEY_VALUE).getAllKeys()),
+        requestToPromise(transaction.objectStore(STORES.TASKS).count())
+      ]);
+
+      // Report the task list as a single key and hide internal metadata entries
+      const metaKeys = Object.values(META_KEYS);
+      const storedKeys = keys.map(key => String(key)).filter(key => !metaKeys.includes(key));
+      const hasTasks = taskCount > 0 || keys.includes(META_KEYS.TASK_ORDER);
+      return hasTasks ? [LocalStorageService.STORAGE_KEYS.TASKS, ...storedKeys] : storedKeys;
+    } catch (e) {
+      console.error('Error listing IndexedDB keys:', e);
+      return [];
+    }
+  };
+
+  const clear = async (): Promise<boolean> => {
+    try {
+      const db = await getDatabase();
+      const transaction = db.transaction([STORES.TASKS, STORES.KEY_VALUE], 'readwrite');
+      transaction.objectStore(STORES.TASKS).clear();
+      transaction.objectStore(STORES.KEY_VALUE).clear();
+      persistedTasks = new Map();
+      await transactionToPromise(transaction);
+      return true;
+    } catch (e) {
+      console.error('Error clearing IndexedDB data:', e);
+      return false;
+    }
+  };
+
+  return {
+    backend: StorageBackend.INDEXED_DB,
+    load,
+    save,
+    remove,
+    list,
+    clear
+  };
+};
+
+/**
+ * Service for interacting with the browser's IndexedDB.
+ * Provides the database helpers and an adapter implementing StorageAdapter.
+ */
+export const IndexedDBService = {
+  DB_NAME,
+  STORES,
+  META_KEYS,
+  isIndexedDBAvailable,
+  openDatabase,
+  createAdapter
+};
@@ -397,26 +397,24 @@ describe('LocalStorageService', () => {
   // Tests for version-specific functions
   describe('saveVersion', () => {
     test('should save version to localStorage successfully', () => {
-      jest.spyOn(LocalStorageService, 'saveData').mockReturnValueOnce(true);
-      
       const result = LocalStorageService.saveVersion();
       
       expect(result).toBe(true);
-      expect(LocalStorageService.saveData).toHaveBeenCalledWith(
+      expect(window.localStorage.setItem).toHaveBeenCalledWith(
         LocalStorageService.STORAGE_KEYS.VERSION,
-        '1.0' // This is the CURRENT_VERSION value from the localStorage.ts file
+        JSON.stringify(LocalStorageService.CURRENT_VERSION)
       );
     });
 
-    test('should call saveData with correct key and version value', () => {
-      jest.spyOn(LocalStorageService, 'saveData');
-      
+    test('should write the version key exactly once', () => {
       LocalStorageService.saveVersion();
       
-      expect(LocalStorageService.saveData).toHaveBeenCalledWith(
-        LocalStorageService.STORAGE_KEYS.VERSION,
-        '1.0'
+      const versionWrites = (window.localStorage.setItem as jest.Mock).mock.calls.filter(
+        ([key]) => key === LocalStorageService.STORAGE_KEYS.VERSION
       );
+      expect(versionWrites).toEqual([
+        [LocalStorageService.STORAGE_KEYS.VERSION, JSON.stringify(LocalStorageService.CURRENT_VERSION)]
+      ]);
     });
   });
 
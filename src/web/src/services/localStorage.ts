@@ -1,5 +1,7 @@
 import { Task } from '../types/Task';
 import { FilterType } from '../types/Filter';
+import { NotificationSeverity } from '../types/Notification';
+import { NotificationService } from './notifications';
 
 /**
  * Storage keys used for localStorage persistence.
@@ -8,17 +10,51 @@ import { FilterType } from '../types/Filter';
 const STORAGE_KEYS = {
   TASKS: 'react-todo-list-tasks',
   FILTER: 'react-todo-list-filter',
-  VERSION: 'react-todo-list-version'
+  SORT: 'react-todo-list-sort',
+  VIEWS: 'react-todo-list-views',
+  ACTIVE_VIEW: 'react-todo-list-active-view',
+  TAG_FILTER: 'react-todo-list-tag-filter',
+  VERSION: 'react-todo-list-version',
+  BACKUP: 'react-todo-list-backup',
+  RECOVERY: 'react-todo-list-recovery',
+  HISTORY: 'react-todo-list-history',
+  LISTS: 'react-todo-list-lists',
+  ACTIVE_LIST: 'react-todo-list-active-list'
 };
 
 /**
- * Current application version.
- * Used for data migration in future updates.
+ * Current data schema version.
+ * Used by MigrationService to decide which migrations to run on startup.
  */
-const CURRENT_VERSION = '1.0';
+const CURRENT_VERSION = '1.4';
+
+/**
+ * Checks whether an error thrown by localStorage means its quota is exhausted.
+ * Browsers name and number this error differently.
+ * 
+ * @param {unknown} error - The error to check
+ * @returns {boolean} True if localStorage is full
+ */
+const isQuotaExceededError = (error: unknown): boolean => {
+  if (!(error instanceof DOMException)) {
+    return false;
+  }
+  return (
+    error.name === 'QuotaExceededError' ||
+    error.name === 'NS_ERROR_DOM_QUOTA_REACHED' ||
+    error.code === 22 ||
+    error.code === 1014
+  );
+};
+
+/**
+ * Whether the user has been told that localStorage is unavailable, so they are told once per session.
+ */
+let hasReportedUnavailable = false;
 
 /**
  * Checks if localStorage is available in the current browser environment.
+ * Full storage still counts as available, so saves fail with a quota error the user can act on.
  * 
  * @returns {boolean} True if localStorage is available, false otherwise
  */
@@ -29,7 +65,17 @@ const isStorageAvailable = (): boolean => {
     window.localStorage.removeItem(testKey);
     return true;
   } catch (e) {
+    if (isQuotaExceededError(e) && window.localStorage.length > 0) {
+      return true;
+    }
     console.error('localStorage is not available:', e);
+    if (!hasReportedUnavailable) {
+      hasReportedUnavailable = true;
+      NotificationService.notify(
+        NotificationSeverity.WARNING,
+        'Browser storage is unavailable, so your changes will be lost when this page is closed'
+      );
+    }
     return false;
   }
 };
@@ -52,7 +98,11 @@ const saveData = (key: string, data: any): boolean => {
     localStorage.setItem(key, serializedData);
     return true;
   } catch (e) {
-    console.error(`Error saving data for key "${key}":`, e);
+    if (isQuotaExceededError(e)) {
+      console.error(`Unable to save data for key "${key}": localStorage is full`, e);
+    } else {
+      console.error(`Error saving data for key "${key}":`, e);
+    }
     return false;
   }
 };
@@ -78,6 +128,7 @@ const loadData = <T>(key: string, defaultValue: T): T => {
     return JSON.parse(serializedData) as T;
   } catch (e) {
     console.error(`Error loading data for key "${key}":`, e);
+    NotificationService.notify(NotificationSeverity.WARNING, 'Some saved data could not be read, so defaults are shown instead');
     return defaultValue;
   }
 };
@@ -99,10 +150,31 @@ const removeData = (key: string): boolean => {
     return true;
   } catch (e) {
     console.error(`Error removing data for key "${key}":`, e);
+    NotificationService.notify(NotificationSeverity.ERROR, 'Could not remove saved data');
     return false;
   }
 };
 
+/**
+ * Lists the application keys currently present in localStorage.
+ * 
+ * @returns {string[]} The app-specific keys that hold a value
+ */
+const listKeys = (): string[] => {
+  if (!isStorageAvailable()) {
+    console.error('Unable to list keys: localStorage is not available');
+    return [];
+  }
+
+  try {
+    // Only report app-specific keys to avoid exposing other applications' data
+    return Object.values(STORAGE_KEYS).filter(key => localStorage.getItem(key) !== null);
+  } catch (e) {
+    console.error('Error listing application keys:', e);
+    return [];
+  }
+};
+
 /**
  * Clears all application data from localStorage.
  * 
@@ -122,6 +194,7 @@ const clearAll = (): boolean => {
     return true;
   } catch (e) {
     console.error('Error clearing application data:', e);
+    NotificationService.notify(NotificationSeverity.ERROR, 'Could not clear saved data');
     return false;
   }
 };
@@ -173,6 +246,15 @@ const saveVersion = (): boolean => {
   return saveData(STORAGE_KEYS.VERSION, CURRENT_VERSION);
 };
 
+/**
+ * Loads the data schema version stored in localStorage.
+ * 
+ * @returns {string | null} The stored version, or null if no version has been saved
+ */
+const loadVersion = (): string | null => {
+  return loadData<string | null>(STORAGE_KEYS.VERSION, null);
+};
+
 /**
  * Calculates the current localStorage usage in bytes.
  * 
@@ -208,15 +290,19 @@ const getStorageUsage = (): number => {
  */
 export const LocalStorageService = {
   STORAGE_KEYS,
+  CURRENT_VERSION,
   isStorageAvailable,
+  isQuotaExceededError,
   saveData,
   loadData,
   removeData,
+  listKeys,
   clearAll,
   saveTasks,
   loadTasks,
   saveFilter,
   loadFilter,
   saveVersion,
+  loadVersion,
   getStorageUsage
 };
\ No newline at end of file
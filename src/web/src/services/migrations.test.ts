@@ -0,0 +1,317 @@
+import { Migration, MigrationBackup, MigrationService } from './migrations';
+import { LocalStorageService } from './localStorage';
+import { StorageAdapters } from './storageAdapters';
+import { StorageAdapter } from '../types/Storage';
+import { Task, Priority } from '../types/Task';
+
+const { STORAGE_KEYS, CURRENT_VERSION } = LocalStorageService;
+
+// Helper function to create a mock task for testing
+const createMockTask = (overrides = {}): Task => ({
+  id: 'task-123',
+  text: 'Test task',
+  completed: false,
+  priority: Priority.MEDIUM,
+  createdAt: 1623456789000,
+  listId: 'inbox',
+  ...overrides
+});
+
+/**
+ * Wraps a synchronous adapter so that every operation resolves asynchronously
+ */
+const createAsyncAdapter = (adapter: StorageAdapter): StorageAdapter => ({
+  backend: adapter.backend,
+  load: (key, defaultValue) => Promise.resolve(adapter.load(key, defaultValue)),
+  save: (key, data) => Promise.resolve(adapter.save(key, data)),
+  remove: key => Promise.resolve(adapter.remove(key)),
+  list: () => Promise.resolve(adapter.list()),
+  clear: () => Promise.resolve(adapter.clear())
+});
+
+// Test registry that upgrades past the current version so pending steps exist
+const renameMigration: Migration = {
+  version: '1.1',
+  description: 'Uppercase task text',
+  migrate: tasks => tasks.map(task => ({ ...task, text: task.text.toUpperCase() }))
+};
+
+const completeMigration: Migration = {
+  version: '1.2',
+  description: 'Mark all tasks completed',
+  migrate: tasks => tasks.map(task => ({ ...task, completed: true }))
+};
+
+describe('MigrationService', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('compareVersions', () => {
+    test('should compare versions numerically', () => {
+      expect(MigrationService.compareVersions('1.0', '1.0')).toBe(0);
+      expect(MigrationService.compareVersions('1.2', '1.10')).toBeLessThan(0);
+      expect(MigrationService.compareVersions('2.0', '1.9')).toBeGreaterThan(0);
+      expect(MigrationService.compareVersions('1', '1.0')).toBe(0);
+    });
+  });
+
+  describe('getPendingMigrations', () => {
+    test('should return migrations between the two versions in order', () => {
+      const pending = MigrationService.getPendingMigrations('1.0', '1.2', [
+        completeMigration,
+        renameMigration
+      ]);
+
+      expect(pending).toEqual([renameMigration, completeMigration]);
+    });
+
+    test('should skip migrations that were already applied', () => {
+      const pending = MigrationService.getPendingMigrations('1.1', '1.2', [
+        renameMigration,
+        completeMigration
+      ]);
+
+      expect(pending).toEqual([completeMigration]);
+    });
+  });
+
+  describe('applyMigrations', () => {
+    test('should apply each migration to the output of the previous one', () => {
+      const tasks = MigrationService.applyMigrations(
+        [createMockTask()],
+        [renameMigration, completeMigration]
+      );
+
+      expect(tasks).toEqual([createMockTask({ text: 'TEST TASK', completed: true })]);
+    });
+  });
+
+  describe('MIGRATIONS', () => {
+    test('should assign tasks without a list to the Inbox', () => {
+      const legacyTask = createMockTask();
+      delete (legacyTask as Partial<Task>).listId;
+      const workTask = createMockTask({ id: 'task-456', listId: 'work' });
+
+      const tasks = MigrationService.applyMigrations(
+        [legacyTask, workTask],
+        MigrationService.getPendingMigrations('1.0', '1.1')
+      );
+
+      expect(tasks).toEqual([createMockTask({ listId: 'inbox' }), workTask]);
+    });
+
+    test('should decode text that earlier versions escaped, including subtasks', () => {
+      const corrupted = createMockTask({
+        text: 'Fish &amp;amp; chips &amp;lt;today&amp;gt; &amp;amp;lt;br&amp;amp;gt;',
+        subtasks: [{ id: 'subtask-1', text: 'Buy &amp;quot;cod&amp;quot;', completed: false }]
+      });
+
+      const tasks = MigrationService.applyMigrations(
+        [corrupted, createMockTask({ id: 'task-456', text: 'Plain' })],
+        MigrationService.getPendingMigrations('1.1', '1.2')
+      );
+
+      expect(tasks).toEqual([
+        createMockTask({
+          text: 'Fish & chips <today> <br>',
+          subtasks: [{ id: 'subtask-1', text: 'Buy "cod"', completed: false }]
+        }),
+        createMockTask({ id: 'task-456', text: 'Plain' })
+      ]);
+    });
+
+    test('should record the stored order as the manual order', () => {
+      const tasks = MigrationService.applyMigrations(
+        [createMockTask({ id: 'task-1' }), createMockTask({ id: 'task-2', order: 7 }), createMockTask({ id: 'task-3' })],
+        MigrationService.getPendingMigrations('1.2', '1.3')
+      );
+
+      expect(tasks.map(task => task.order)).toEqual([0, 7, 2]);
+    });
+
+    test('should repair unknown priorities', () => {
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      const tasks = MigrationService.applyMigrations(
+        [createMockTask({ id: 'task-1', priority: 'High' as Priority }), createMockTask({ id: 'task-2', priority: '' as Priority })],
+        MigrationService.getPendingMigrations('1.3', '1.4')
+      );
+
+      expect(tasks.map(task => task.priority)).toEqual([Priority.HIGH, Priority.MEDIUM]);
+      warnSpy.mockRestore();
+    });
+  });
+
+  describe('runMigrations', () => {
+    test('should record the current version on a fresh install', () => {
+      const adapter = StorageAdapters.createMemoryAdapter();
+
+      const result = MigrationService.runMigrations(adapter, [renameMigration], '1.2');
+
+      expect(result).toEqual({ fromVersion: '1.2', toVersion: '1.2', applied: [] });
+      expect(adapter.load(STORAGE_KEYS.VERSION, null)).toBe('1.2');
+      expect(adapter.load(STORAGE_KEYS.TASKS, null)).toBeNull();
+    });
+
+    test('should treat unversioned data as the legacy version', () => {
+      const adapter = StorageAdapters.createMemoryAdapter({
+        [STORAGE_KEYS.TASKS]: [createMockTask()]
+      });
+
+      const result = MigrationService.runMigrations(adapter, [], '1.2');
+
+      expect(result).toEqual({
+        fromVersion: MigrationService.LEGACY_VERSION,
+        toVersion: '1.2',
+        applied: []
+      });
+      expect(adapter.load(STORAGE_KEYS.VERSION, null)).toBe('1.2');
+    });
+
+    test('should leave data at the current version untouched', () => {
+      const tasks = [createMockTask()];
+      const adapter = StorageAdapters.createMemoryAdapter({
+        [STORAGE_KEYS.TASKS]: tasks,
+        [STORAGE_KEYS.VERSION]: CURRENT_VERSION
+      });
+
+      const result = MigrationService.runMigrations(adapter);
+
+      expect(result).toEqual({ fromVersion: CURRENT_VERSION, toVersion: CURRENT_VERSION, applied: [] });
+      expect(adapter.load(STORAGE_KEYS.TASKS, [])).toEqual(tasks);
+      expect(adapter.load(STORAGE_KEYS.BACKUP, null)).toBeNull();
+    });
+
+    test('should run pending migrations in order and save the result', () => {
+      const adapter = StorageAdapters.createMemoryAdapter({
+        [STORAGE_KEYS.TASKS]: [createMockTask()],
+        [STORAGE_KEYS.VERSION]: '1.0'
+      });
+
+      const result = MigrationService.runMigrations(
+        adapter,
+        [completeMigration, renameMigration],
+        '1.2'
+      );
+
+      expect(result).toEqual({ fromVersion: '1.0', toVersion: '1.2', applied: ['1.1', '1.2'] });
+      expect(adapter.load(STORAGE_KEYS.TASKS, [])).toEqual([
+        createMockTask({ text: 'TEST TASK', completed: true })
+      ]);
+      expect(adapter.load(STORAGE_KEYS.VERSION, null)).toBe('1.2');
+    });
+
+    test('should back up the tasks once before migrating', () => {
+      const adapter = StorageAdapters.createMemoryAdapter({
+        [STORAGE_KEYS.TASKS]: [createMockTask()],
+        [STORAGE_KEYS.VERSION]: '1.0'
+      });
+
+      MigrationService.runMigrations(adapter, [renameMigration, completeMigration], '1.2');
+
+      expect(adapter.load<MigrationBackup | null>(STORAGE_KEYS.BACKUP, null)).toEqual({
+        fromVersion: '1.0',
+        toVersion: '1.2',
+        createdAt: expect.any(Number),
+        tasks: [createMockTask()]
+      });
+    });
+
+    test('should replace the backup of an earlier upgrade', () => {
+      const adapter = StorageAdapters.createMemoryAdapter({
+        [STORAGE_KEYS.TASKS]: [createMockTask()],
+        [STORAGE_KEYS.VERSION]: '1.0'
+      });
+
+      MigrationService.runMigrations(adapter, [renameMigration], '1.1');
+      MigrationService.runMigrations(adapter, [renameMigration, completeMigration], '1.2');
+
+      expect(adapter.load<MigrationBackup | null>(STORAGE_KEYS.BACKUP, null)).toMatchObject({
+        fromVersion: '1.1',
+        toVersion: '1.2',
+        tasks: [createMockTask({ text: 'TEST TASK' })]
+      });
+    });
+
+    test('should stop at the last successful version when a step fails', () => {
+      const failingMigration: Migration = {
+        version: '1.2',
+        description: 'Always fails',
+        migrate: () => {
+          throw new Error('Migration failed');
+        }
+      };
+      const adapter = StorageAdapters.createMemoryAdapter({
+        [STORAGE_KEYS.TASKS]: [createMockTask()],
+        [STORAGE_KEYS.VERSION]: '1.0'
+      });
+
+      const result = MigrationService.runMigrations(
+        adapter,
+        [renameMigration, failingMigration],
+        '1.2'
+      );
+
+      expect(result).toMatchObject({ fromVersion: '1.0', toVersion: '1.1', applied: ['1.1'] });
+      expect((result as { error?: Error }).error?.message).toBe('Migration failed');
+      expect(adapter.load(STORAGE_KEYS.VERSION, null)).toBe('1.1');
+      expect(adapter.load(STORAGE_KEYS.TASKS, [])).toEqual([createMockTask({ text: 'TEST TASK' })]);
+      expect(adapter.load<MigrationBackup | null>(STORAGE_KEYS.BACKUP, null)).toMatchObject({
+        fromVersion: '1.0',
+        tasks: [createMockTask()]
+      });
+    });
+
+    test('should not downgrade data stored by a newer version', () => {
+      const adapter = StorageAdapters.createMemoryAdapter({
+        [STORAGE_KEYS.TASKS]: [createMockTask()],
+        [STORAGE_KEYS.VERSION]: '9.0'
+      });
+
+      const result = MigrationService.runMigrations(adapter, [renameMigration], '1.2');
+
+      expect(result).toEqual({ fromVersion: '9.0', toVersion: '9.0', applied: [] });
+      expect(adapter.load(STORAGE_KEYS.VERSION, null)).toBe('9.0');
+      expect(console.warn).toHaveBeenCalled();
+    });
+
+    test('should support asynchronous adapters', async () => {
+      const memoryAdapter = StorageAdapters.createMemoryAdapter({
+        [STORAGE_KEYS.TASKS]: [createMockTask()],
+        [STORAGE_KEYS.VERSION]: '1.0'
+      });
+
+      const result = await MigrationService.runMigrations(
+        createAsyncAdapter(memoryAdapter),
+        [renameMigration, completeMigration],
+        '1.2'
+      );
+
+      expect(result.applied).toEqual(['1.1', '1.2']);
+      expect(memoryAdapter.load(STORAGE_KEYS.VERSION, null)).toBe('1.2');
+    });
+  });
+
+  describe('withMigrations', () => {
+    test('should return synchronous adapters unchanged', () => {
+      const adapter = StorageAdapters.createMemoryAdapter();
+
+      expect(MigrationService.withMigrations(adapter)).toBe(adapter);
+      expect(adapter.load(STORAGE_KEYS.VERSION, null)).toBe(CURRENT_VERSION);
+    });
+
+    test('should delay asynchronous operations until migrations finish', async () => {
+      const memoryAdapter = StorageAdapters.createMemoryAdapter();
+      const adapter = MigrationService.withMigrations(createAsyncAdapter(memoryAdapter));
+
+      await expect(adapter.load(STORAGE_KEYS.VERSION, null)).resolves.toBe(CURRENT_VERSION);
+      await expect(adapter.save(STORAGE_KEYS.FILTER, 'active')).resolves.toBe(true);
+      expect(memoryAdapter.load(STORAGE_KEYS.FILTER, null)).toBe('active');
+    });
+  });
+});
@@ -0,0 +1,270 @@
+import { Task } from '../types/Task';
+import { MaybePromise, StorageAdapter } from '../types/Storage';
+import MaybePromiseUtils from '../utils/maybePromise';
+import ListUtils from '../utils/listUtils';
+import TaskUtils from '../utils/taskUtils';
+import { LocalStorageService } from './localStorage';
+
+const { STORAGE_KEYS } = LocalStorageService;
+
+/**
+ * Schema version assumed for data persisted before versions were recorded.
+ */
+const LEGACY_VERSION = '1.0';
+
+/**
+ * A single step that upgrades persisted tasks to a new schema version.
+ */
+export interface Migration {
+  /** The schema version produced by this migration */
+  version: string;
+
+  /** Short human-readable description of the change */
+  description: string;
+
+  /** Transforms tasks stored in the previous version into this version */
+  migrate: (tasks: Task[]) => Task[];
+}
+
+/**
+ * Snapshot of the persisted tasks taken before an upgrade runs.
+ * Only the latest is kept; each upgrade replaces the backup of the one before.
+ */
+export interface MigrationBackup {
+  /** The schema version the tasks were stored in */
+  fromVersion: string;
+
+  /** The schema version the upgrade was migrating to */
+  toVersion: string;
+
+  /** Timestamp when the backup was taken */
+  createdAt: number;
+
+  /** The tasks as they were before the upgrade */
+  tasks: Task[];
+}
+
+/**
+ * Outcome of running the startup migrations.
+ */
+export interface MigrationResult {
+  /** The schema version found in storage */
+  fromVersion: string;
+
+  /** The schema version storage was left in */
+  toVersion: string;
+
+  /** Versions of the migrations that were applied, in order */
+  applied: string[];
+
+  /** The error that stopped the migrations, if any */
+  error?: Error;
+}
+
+/**
+ * Registry of schema migrations, ordered by version.
+ * Add new steps to the end and bump CURRENT_VERSION in LocalStorageService to match.
+ */
+const MIGRATIONS: Migration[] = [
+  {
+    version: '1.1',
+    description: 'Assign existing tasks to the Inbox list',
+    migrate: tasks => tasks.map(task => (task.listId ? task : { ...task, listId: ListUtils.INBOX_LIST_ID }))
+  },
+  {
+    version: '1.2',
+    description: 'Decode HTML entities escaped into task and subtask text',
+    migrate: tasks =>
+      tasks.map(task => ({
+        ...task,
+        text: TaskUtils.decodeLegacyTaskText(task.text),
+        ...(task.subtasks && {
+          subtasks: task.subtasks.map(subtask => ({ ...subtask, text: TaskUtils.decodeLegacyTaskText(subtask.text) }))
+        })
+      }))
+  },
+  {
+    version: '1.3',
+    description: 'Record the stored task order as the manual order',
+    migrate: tasks => tasks.map((task, index) => (task.order === undefined ? { ...task, order: index } : task))
+  },
+  {
+    version: '1.4',
+    description: 'Repair tasks whose priority is not a known level',
+    migrate: tasks => TaskUtils.repairTaskPriorities(tasks)
+  }
+];
+
+/**
+ * Compares two dotted version strings numerically
+ * @param a - The first version
+ * @param b - The second version
+ * @returns A negative number if a < b, positive if a > b, and 0 if equal
+ */
+const compareVersions = (a: string, b: string): number => {
+  const partsA = a.split('.').map(Number);
+  const partsB = b.split('.').map(Number);
+  const length = Math.max(partsA.length, partsB.length);
+
+  for (let i = 0; i < length; i++) {
+    const difference = (partsA[i] || 0) - (partsB[i] || 0);
+    if (difference !== 0) {
+      return difference;
+    }
+  }
+
+  return 0;
+};
+
+/**
+ * Returns the migrations needed to upgrade from one version to another, in order
+ * @param fromVersion - The version data is currently stored in
+ * @param toVersion - The version to upgrade to
+ * @param migrations - The migration registry to select from
+ * @returns The pending migrations sorted by version
+ */
+const getPendingMigrations = (
+  fromVersion: string,
+  toVersion: string = LocalStorageService.CURRENT_VERSION,
+  migrations: Migration[] = MIGRATIONS
+): Migration[] => {
+  return migrations
+    .filter(
+      migration =>
+        compareVersions(migration.version, fromVersion) > 0 &&
+        compareVersions(migration.version, toVersion) <= 0
+    )
+    .sort((a, b) => compareVersions(a.version, b.version));
+};
+
+/**
+ * Applies migrations to tasks in order, without touching storage
+ * @param tasks - The tasks to migrate
+ * @param migrations - The migrations to apply
+ * @returns The migrated tasks
+ */
+const applyMigrations = (tasks: Task[], migrations: Migration[]): Task[] => {
+  return migrations.reduce((migratedTasks, migration) => migration.migrate(migratedTasks), tasks);
+};
+
+/**
+ * Runs pending migrations over the tasks persisted in the given storage adapter.
+ * Before the first step the stored tasks are backed up under STORAGE_KEYS.BACKUP,
+ * replacing the backup of any earlier upgrade, and after each step the tasks and
+ * version are saved, so a failing step leaves storage at the last version that
+ * migrated successfully.
+ *
+ * @param adapter - The storage adapter holding the persisted data
+ * @param migrations - The migration registry, defaults to the application registry
+ * @param targetVersion - The version to upgrade to, defaults to the current version
+ * @returns The migration result, as a Promise if the adapter is asynchronous
+ */
+const runMigrations = (
+  adapter: StorageAdapter,
+  migrations: Migration[] = MIGRATIONS,
+  targetVersion: string = LocalStorageService.CURRENT_VERSION
+): MaybePromise<MigrationResult> => {
+  const { chain } = MaybePromiseUtils;
+
+  return chain(adapter.load<string | null>(STORAGE_KEYS.VERSION, null), storedVersion =>
+    chain(adapter.load<Task[] | null>(STORAGE_KEYS.TASKS, null), storedTasks => {
+      // Fresh installs have nothing to migrate and start at the current version
+      if (storedVersion === null && storedTasks === null) {
+        return chain(adapter.save(STORAGE_KEYS.VERSION, targetVersion), () => ({
+          fromVersion: targetVersion,
+          toVersion: targetVersion,
+          applied: []
+        }));
+      }
+
+      const fromVersion = storedVersion ?? LEGACY_VERSION;
+      if (compareVersions(fromVersion, targetVersion) > 0) {
+        console.warn(
+          `Stored data version ${fromVersion} is newer than application version ${targetVersion}`
+        );
+        return { fromVersion, toVersion: fromVersion, applied: [] };
+      }
+
+      const pending = getPendingMigrations(fromVersion, targetVersion, migrations);
+      const result: MigrationResult = { fromVersion, toVersion: fromVersion, applied: [] };
+
+      // Run each step after the previous one has been persisted
+      const runStep = (index: number, tasks: Task[]): MaybePromise<MigrationResult> => {
+        if (index >= pending.length) {
+          return chain(adapter.save(STORAGE_KEYS.VERSION, targetVersion), () => ({
+            ...result,
+            toVersion: targetVersion
+          }));
+        }
+
+        const migration = pending[index];
+        let migratedTasks: Task[];
+        try {
+          migratedTasks = migration.migrate(tasks);
+        } catch (e) {
+          console.error(`Error running migration to version ${migration.version}:`, e);
+          return { ...result, error: e instanceof Error ? e : new Error(String(e)) };
+        }
+
+        return chain(adapter.save(STORAGE_KEYS.TASKS, migratedTasks), () =>
+          chain(adapter.save(STORAGE_KEYS.VERSION, migration.version), () => {
+            result.toVersion = migration.version;
+            result.applied.push(migration.version);
+            return runStep(index + 1, migratedTasks);
+          })
+        );
+      };
+
+      const tasks = storedTasks ?? [];
+      if (pending.length === 0) {
+        return runStep(0, tasks);
+      }
+
+      // Back up the tasks once per upgrade; the intermediate versions can be rebuilt from it
+      const backup: MigrationBackup = {
+        fromVersion,
+        toVersion: targetVersion,
+        createdAt: Date.now(),
+        tasks
+      };
+      return chain(adapter.save(STORAGE_KEYS.BACKUP, backup), () => runStep(0, tasks));
+    })
+  );
+};
+
+/**
+ * Runs startup migrations and returns an adapter that is safe to read from.
+ * Synchronous adapters are migrated immediately and returned unchanged. For
+ * asynchronous adapters every operation waits until the migrations finish.
+ *
+ * @param adapter - The storage adapter to migrate
+ * @returns A storage adapter whose data is at the current version
+ */
+const withMigrations = (adapter: StorageAdapter): StorageAdapter => {
+  const migration = runMigrations(adapter);
+  if (!MaybePromiseUtils.isPromise(migration)) {
+    return adapter;
+  }
+
+  return {
+    backend: adapter.backend,
+    load: (key, defaultValue) => migration.then(() => adapter.load(key, defaultValue)),
+    save: (key, data) => migration.then(() => adapter.save(key, data)),
+    remove: key => migration.then(() => adapter.remove(key)),
+    list: () => migration.then(() => adapter.list()),
+    clear: () => migration.then(() => adapter.clear())
+  };
+};
+
+/**
+ * Service for upgrading persisted data between schema versions.
+ */
+export const MigrationService = {
+  MIGRATIONS,
+  LEGACY_VERSION,
+  compareVersions,
+  getPendingMigrations,
+  applyMigrations,
+  runMigrations,
+  withMigrations
+};
@@ -0,0 +1,51 @@
+import { NotificationService } from './notifications';
+import { NotificationSeverity } from '../types/Notification';
+
+describe('NotificationService', () => {
+  afterEach(() => {
+    // Dismiss notifications raised by a test so they do not leak into the next one
+    NotificationService.getNotifications().forEach(notification => NotificationService.dismiss(notification.id));
+  });
+
+  test('should add notifications and notify subscribers asynchronously', async () => {
+    const listener = jest.fn();
+    const unsubscribe = NotificationService.subscribe(listener);
+
+    const id = NotificationService.notify(NotificationSeverity.ERROR, 'Could not add the task');
+
+    expect(NotificationService.getNotifications()).toEqual([
+      expect.objectContaining({ id, severity: NotificationSeverity.ERROR, message: 'Could not add the task' })
+    ]);
+    expect(listener).not.toHaveBeenCalled();
+
+    await Promise.resolve();
+    expect(listener).toHaveBeenCalledWith(NotificationService.getNotifications());
+    unsubscribe();
+  });
+
+  test('should not repeat a notification that is already shown', () => {
+    const first = NotificationService.notify(NotificationSeverity.WARNING, 'Storage is unavailable');
+    const second = NotificationService.notify(NotificationSeverity.WARNING, 'Storage is unavailable');
+
+    expect(second).toBe(first);
+    expect(NotificationService.getNotifications()).toHaveLength(1);
+  });
+
+  test('should keep only the most recent notifications', () => {
+    for (let i = 0; i <= NotificationService.MAX_NOTIFICATIONS; i++) {
+      NotificationService.notify(NotificationSeverity.INFO, `Message ${i}`);
+    }
+
+    const messages = NotificationService.getNotifications().map(notification => notification.message);
+    expect(messages).toHaveLength(NotificationService.MAX_NOTIFICATIONS);
+    expect(messages[0]).toBe('Message 1');
+  });
+
+  test('should dismiss notifications by ID', () => {
+    const id = NotificationService.notify(NotificationSeverity.SUCCESS, 'Imported');
+
+    NotificationService.dismiss(id);
+
+    expect(NotificationService.getNotifications()).toEqual([]);
+  });
+});
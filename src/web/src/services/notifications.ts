@@ -0,0 +1,99 @@
+import { AppNotification, NotificationSeverity } from '../types/Notification';
+import IdGenerator from '../utils/idGenerator';
+
+/**
+ * Maximum number of notifications shown at once; the oldest are dropped first.
+ */
+const MAX_NOTIFICATIONS = 5;
+
+/**
+ * Callback invoked with the current notifications whenever they change.
+ */
+export type NotificationListener = (notifications: AppNotification[]) => void;
+
+let notifications: AppNotification[] = [];
+const listeners = new Set<NotificationListener>();
+
+/**
+ * Replaces the current notifications and notifies subscribers.
+ * Subscribers are notified in a microtask, so notifications raised while a
+ * component renders, such as by a failing storage read, never update another mid-render.
+ *
+ * @param {AppNotification[]} next - The new notifications
+ */
+const setNotifications = (next: AppNotification[]): void => {
+  notifications = next;
+  Promise.resolve().then(() => {
+    listeners.forEach(listener => listener(notifications));
+  });
+};
+
+/**
+ * Shows a notification to the user.
+ * A notification identical to one already shown is not repeated, so failures
+ * that recur on every render or save appear once.
+ *
+ * @param {NotificationSeverity} severity - How urgent the notification is
+ * @param {string} message - The text shown to the user
+ * @returns {string} The ID of the notification, for dismissing it
+ */
+const notify = (severity: NotificationSeverity, message: string): string => {
+  const existing = notifications.find(
+    notification => notification.severity === severity && notification.message === message
+  );
+  if (existing) {
+    return existing.id;
+  }
+
+  const notification: AppNotification = {
+    id: IdGenerator.generateWithPrefix('notification'),
+    severity,
+    message,
+    createdAt: Date.now()
+  };
+  setNotifications([...notifications, notification].slice(-MAX_NOTIFICATIONS));
+  return notification.id;
+};
+
+/**
+ * Removes a notification.
+ *
+ * @param {string} id - The ID of the notification to remove
+ */
+const dismiss = (id: string): void => {
+  if (notifications.some(notification => notification.id === id)) {
+    setNotifications(notifications.filter(notification => notification.id !== id));
+  }
+};
+
+/**
+ * Returns the notifications currently shown.
+ *
+ * @returns {AppNotification[]} The notifications, oldest first
+ */
+const getNotifications = (): AppNotification[] => notifications;
+
+/**
+ * Subscribes to changes in the notifications shown.
+ *
+ * @param {NotificationListener} listener - Callback invoked with the current notifications
+ * @returns {() => void} A function that removes the subscription
+ */
+const subscribe = (listener: NotificationListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Service for showing notifications to the user from anywhere in the application,
+ * including services that run outside React.
+ */
+export const NotificationService = {
+  MAX_NOTIFICATIONS,
+  notify,
+  dismiss,
+  getNotifications,
+  subscribe
+};
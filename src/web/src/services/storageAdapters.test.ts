@@ -0,0 +1,146 @@
+import { StorageAdapters } from './storageAdapters';
+import { IndexedDBService } from './indexedDB';
+import { LocalStorageService } from './localStorage';
+import { StorageBackend } from '../types/Storage';
+import { Task } from '../types/Task';
+
+// Helper function to create a mock task for testing
+const createMockTask = (overrides = {}): Task => ({
+  id: 'task-123',
+  text: 'Test task',
+  completed: false,
+  priority: 'medium',
+  createdAt: 1623456789000,
+  ...overrides
+});
+
+describe('StorageAdapters', () => {
+  const originalBackend = process.env.REACT_APP_STORAGE_BACKEND;
+
+  afterEach(() => {
+    if (originalBackend === undefined) {
+      delete process.env.REACT_APP_STORAGE_BACKEND;
+    } else {
+      process.env.REACT_APP_STORAGE_BACKEND = originalBackend;
+    }
+    jest.restoreAllMocks();
+  });
+
+  describe('createMemoryAdapter', () => {
+    test('should return the default value for missing keys', () => {
+      const adapter = StorageAdapters.createMemoryAdapter();
+
+      expect(adapter.backend).toBe(StorageBackend.MEMORY);
+      expect(adapter.load('missing', [])).toEqual([]);
+    });
+
+    test('should save and load data', () => {
+      const adapter = StorageAdapters.createMemoryAdapter();
+      const tasks = [createMockTask()];
+
+      expect(adapter.save('tasks', tasks)).toBe(true);
+      expect(adapter.load('tasks', [])).toEqual(tasks);
+    });
+
+    test('should not share references with the caller', () => {
+      const adapter = StorageAdapters.createMemoryAdapter();
+      const task = createMockTask();
+
+      adapter.save('task', task);
+      task.text = 'Mutated';
+
+      expect(adapter.load<Task | null>('task', null)?.text).toBe('Test task');
+    });
+
+    test('should seed the store with initial data', () => {
+      const adapter = StorageAdapters.createMemoryAdapter({ filter: 'active' });
+
+      expect(adapter.load('filter', 'all')).toBe('active');
+      expect(adapter.list()).toEqual(['filter']);
+    });
+
+    test('should remove and clear data', () => {
+      const adapter = StorageAdapters.createMemoryAdapter({ a: 1, b: 2 });
+
+      expect(adapter.remove('a')).toBe(true);
+      expect(adapter.list()).toEqual(['b']);
+
+      expect(adapter.clear()).toBe(true);
+      expect(adapter.list()).toEqual([]);
+    });
+  });
+
+  describe('createLocalStorageAdapter', () => {
+    test('should delegate to LocalStorageService', () => {
+      const adapter = StorageAdapters.createLocalStorageAdapter();
+      const tasks = [createMockTask()];
+      const saveSpy = jest.spyOn(LocalStorageService, 'saveData').mockReturnValue(true);
+      const loadSpy = jest.spyOn(LocalStorageService, 'loadData').mockReturnValue(tasks);
+
+      expect(adapter.backend).toBe(StorageBackend.LOCAL_STORAGE);
+      expect(adapter.save(LocalStorageService.STORAGE_KEYS.TASKS, tasks)).toBe(true);
+      expect(adapter.load(LocalStorageService.STORAGE_KEYS.TASKS, [])).toEqual(tasks);
+      expect(saveSpy).toHaveBeenCalledWith(LocalStorageService.STORAGE_KEYS.TASKS, tasks);
+      expect(loadSpy).toHaveBeenCalledWith(LocalStorageService.STORAGE_KEYS.TASKS, []);
+    });
+
+    test('should remove data through LocalStorageService', () => {
+      const adapter = StorageAdapters.createLocalStorageAdapter();
+      const removeSpy = jest.spyOn(LocalStorageService, 'removeData');
+
+      adapter.remove(LocalStorageService.STORAGE_KEYS.FILTER);
+
+      expect(removeSpy).toHaveBeenCalledWith(LocalStorageService.STORAGE_KEYS.FILTER);
+    });
+  });
+
+  describe('createStorageAdapter', () => {
+    test('should create an adapter for each backend', () => {
+      expect(StorageAdapters.createStorageAdapter(StorageBackend.MEMORY).backend).toBe(
+        StorageBackend.MEMORY
+      );
+      expect(StorageAdapters.createStorageAdapter(StorageBackend.LOCAL_STORAGE).backend).toBe(
+        StorageBackend.LOCAL_STORAGE
+      );
+    });
+
+    test('should fall back to localStorage when IndexedDB is unavailable', () => {
+      jest.spyOn(IndexedDBService, 'isIndexedDBAvailable').mockReturnValue(false);
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+      const adapter = StorageAdapters.createStorageAdapter(StorageBackend.INDEXED_DB);
+
+      expect(adapter.backend).toBe(StorageBackend.LOCAL_STORAGE);
+      expect(console.warn).toHaveBeenCalled();
+    });
+  });
+
+  describe('resolveStorageBackend', () => {
+    test('should read the configured backend', () => {
+      process.env.REACT_APP_STORAGE_BACKEND = 'memory';
+
+      expect(StorageAdapters.resolveStorageBackend()).toBe(StorageBackend.MEMORY);
+    });
+
+    test('should default to IndexedDB when the browser supports it', () => {
+      delete process.env.REACT_APP_STORAGE_BACKEND;
+      jest.spyOn(IndexedDBService, 'isIndexedDBAvailable').mockReturnValue(true);
+
+      expect(StorageAdapters.resolveStorageBackend()).toBe(StorageBackend.INDEXED_DB);
+    });
+
+    test('should default to localStorage when IndexedDB is unavailable', () => {
+      delete process.env.REACT_APP_STORAGE_BACKEND;
+      jest.spyOn(IndexedDBService, 'isIndexedDBAvailable').mockReturnValue(false);
+
+      expect(StorageAdapters.resolveStorageBackend()).toBe(StorageBackend.LOCAL_STORAGE);
+    });
+
+    test('should use the default for unknown values', () => {
+      process.env.REACT_APP_STORAGE_BACKEND = 'floppy-disk';
+      jest.spyOn(IndexedDBService, 'isIndexedDBAvailable').mockReturnValue(false);
+
+      expect(StorageAdapters.resolveStorageBackend()).toBe(StorageBackend.LOCAL_STORAGE);
+    });
+  });
+});
@@ -0,0 +1,117 @@
+import { StorageAdapter, StorageBackend } from '../types/Storage';
+import { IndexedDBService } from './indexedDB';
+import { LocalStorageService } from './localStorage';
+
+/**
+ * Creates a storage adapter backed by the browser's localStorage.
+ * Delegates to LocalStorageService so existing error handling is preserved.
+ *
+ * @returns {StorageAdapter} A synchronous localStorage adapter
+ */
+const createLocalStorageAdapter = (): StorageAdapter => ({
+  backend: StorageBackend.LOCAL_STORAGE,
+  load: <T>(key: string, defaultValue: T): T => LocalStorageService.loadData<T>(key, defaultValue),
+  save: <T>(key: string, data: T): boolean => LocalStorageService.saveData(key, data),
+  remove: (key: string): boolean => LocalStorageService.removeData(key),
+  list: (): string[] => LocalStorageService.listKeys(),
+  clear: (): boolean => LocalStorageService.clearAll()
+});
+
+/**
+ * Creates a volatile storage adapter that keeps data in memory.
+ * Values are stored serialized so callers never share references with the store,
+ * matching the copy semantics of the persistent backends.
+ *
+ * @param {Record<string, unknown>} initialData - Optional data to seed the store with
+ * @returns {StorageAdapter} A synchronous in-memory adapter
+ */
+const createMemoryAdapter = (initialData: Record<string, unknown> = {}): StorageAdapter => {
+  const store = new Map<string, string>();
+
+  Object.entries(initialData).forEach(([key, value]) => {
+    store.set(key, JSON.stringify(value));
+  });
+
+  return {
+    backend: StorageBackend.MEMORY,
+    load: <T>(key: string, defaultValue: T): T => {
+      const serializedData = store.get(key);
+      if (serializedData === undefined) {
+        return defaultValue;
+      }
+      try {
+        return JSON.parse(serializedData) as T;
+      } catch (e) {
+        console.error(`Error loading data for key "${key}":`, e);
+        return defaultValue;
+      }
+    },
+    save: <T>(key: string, data: T): boolean => {
+      try {
+        store.set(key, JSON.stringify(data));
+        return true;
+      } catch (e) {
+        console.error(`Error saving data for key "${key}":`, e);
+        return false;
+      }
+    },
+    remove: (key: string): boolean => {
+      store.delete(key);
+      return true;
+    },
+    list: (): string[] => Array.from(store.keys()),
+    clear: (): boolean => {
+      store.clear();
+      return true;
+    }
+  };
+};
+
+/**
+ * Creates the storage adapter for the requested backend.
+ * Falls back to localStorage when IndexedDB is not supported by the browser.
+ *
+ * @param {StorageBackend} backend - The backend to create an adapter for
+ * @returns {StorageAdapter} The adapter for the backend
+ */
+const createStorageAdapter = (backend: StorageBackend): StorageAdapter => {
+  switch (backend) {
+    case StorageBackend.MEMORY:
+      return createMemoryAdapter();
+    case StorageBackend.INDEXED_DB:
+      if (IndexedDBService.isIndexedDBAvailable()) {
+        return IndexedDBService.createAdapter();
+      }
+      console.warn('IndexedDB is not available, falling back to localStorage');
+      return createLocalStorageAdapter();
+    case StorageBackend.LOCAL_STORAGE:
+    default:
+      return createLocalStorageAdapter();
+  }
+};
+
+/**
+ * Determines the storage backend to use.
+ * Reads REACT_APP_STORAGE_BACKEND; without a known value, IndexedDB is used where the browser
+ * supports it and localStorage otherwise.
+ *
+ * @returns {StorageBackend} The storage backend to use
+ */
+const resolveStorageBackend = (): StorageBackend => {
+  const configured = process.env.REACT_APP_STORAGE_BACKEND;
+  const backends = Object.values(StorageBackend) as string[];
+  if (configured && backends.includes(configured)) {
+    return configured as StorageBackend;
+  }
+  return IndexedDBService.isIndexedDBAvailable() ? StorageBackend.INDEXED_DB : StorageBackend.LOCAL_STORAGE;
+};
+
+/**
+ * Factories for the storage adapters supported by the application.
+ */
+export const StorageAdapters = {
+  createLocalStorageAdapter,
+  createMemoryAdapter,
+  createStorageAdapter,
+  resolveStorageBackend
+};
@@ -0,0 +1,71 @@
+import { StorageHealthService } from './storageHealth';
+import { LocalStorageService } from './localStorage';
+import { StorageBackend } from '../types/Storage';
+
+describe('StorageHealthService', () => {
+  afterEach(() => {
+    // Clear failures recorded by a test so they do not leak into the next one
+    StorageHealthService.getFailedKeys().forEach(key => StorageHealthService.reportSave(key, true));
+    jest.restoreAllMocks();
+    delete process.env.REACT_APP_STORAGE_WARNING_THRESHOLD;
+  });
+
+  describe('reportSave', () => {
+    test('should track keys whose latest save failed', () => {
+      const listener = jest.fn();
+      const unsubscribe = StorageHealthService.subscribe(listener);
+
+      StorageHealthService.reportSave('tasks', false);
+      StorageHealthService.reportSave('tasks', false);
+      StorageHealthService.reportSave('history', false);
+      expect(StorageHealthService.getFailedKeys()).toEqual(['tasks', 'history']);
+
+      StorageHealthService.reportSave('tasks', true);
+      expect(StorageHealthService.getFailedKeys()).toEqual(['history']);
+
+      // Repeated failures of the same key do not notify again
+      expect(listener.mock.calls).toEqual([[['tasks']], [['tasks', 'history']], [['history']]]);
+      unsubscribe();
+    });
+
+    test('should request a retry after a successful save while others have failed', () => {
+      const retry = jest.fn();
+      const unsubscribe = StorageHealthService.subscribeRetry(retry);
+
+      StorageHealthService.reportSave('filter', true);
+      expect(retry).not.toHaveBeenCalled();
+
+      StorageHealthService.reportSave('history', false);
+      StorageHealthService.reportSave('filter', true);
+      expect(retry).toHaveBeenCalledTimes(1);
+      unsubscribe();
+    });
+  });
+
+  describe('getUsage', () => {
+    test('should measure localStorage against the assumed quota', () => {
+      jest.spyOn(LocalStorageService, 'getStorageUsage').mockReturnValue(1024);
+
+      expect(StorageHealthService.getUsage(StorageBackend.LOCAL_STORAGE)).toEqual({
+        used: 1024,
+        quota: StorageHealthService.LOCAL_STORAGE_QUOTA
+      });
+    });
+
+    test('should not measure in-memory storage', () => {
+      expect(StorageHealthService.getUsage(StorageBackend.MEMORY)).toBeNull();
+    });
+  });
+
+  describe('resolveWarningThreshold', () => {
+    test('should read the configured percentage and ignore invalid values', () => {
+      expect(StorageHealthService.resolveWarningThreshold()).toBe(StorageHealthService.DEFAULT_WARNING_THRESHOLD);
+
+      process.env.REACT_APP_STORAGE_WARNING_THRESHOLD = '90';
+      expect(StorageHealthService.resolveWarningThreshold()).toBe(90);
+
+      process.env.REACT_APP_STORAGE_WARNING_THRESHOLD = '150';
+      expect(StorageHealthService.resolveWarningThreshold()).toBe(StorageHealthService.DEFAULT_WARNING_THRESHOLD);
+    });
+  });
+});
@@ -0,0 +1,155 @@
+import { MaybePromise, StorageBackend } from '../types/Storage';
+import { LocalStorageService } from './localStorage';
+
+/**
+ * Storage limit assumed for localStorage, in the bytes counted by LocalStorageService.getStorageUsage.
+ * Browsers do not report the localStorage quota; this is the smallest limit common browsers apply.
+ */
+const LOCAL_STORAGE_QUOTA = 5 * 1024 * 1024;
+
+/**
+ * Percentage of the quota at which the storage indicator warns, unless configured otherwise.
+ */
+const DEFAULT_WARNING_THRESHOLD = 80;
+
+/**
+ * How much of its quota a storage backend is using.
+ */
+export interface StorageUsage {
+  /** Bytes in use */
+  used: number;
+
+  /** Bytes available in total */
+  quota: number;
+}
+
+/**
+ * Callback invoked with the keys whose latest value could not be saved.
+ */
+export type SaveFailureListener = (failedKeys: string[]) => void;
+
+/**
+ * Callback invoked when values that could not be saved should be saved again.
+ */
+export type RetryListener = () => void;
+
+let failedKeys: string[] = [];
+const failureListeners = new Set<SaveFailureListener>();
+const retryListeners = new Set<RetryListener>();
+
+/**
+ * Returns the keys whose latest value could not be saved.
+ *
+ * @returns {string[]} The keys, in the order their saves first failed
+ */
+const getFailedKeys = (): string[] => failedKeys;
+
+/**
+ * Asks every subscriber holding an unsaved value to save it again.
+ */
+const requestRetry = (): void => {
+  retryListeners.forEach(listener => listener());
+};
+
+/**
+ * Records the outcome of saving a key and notifies subscribers when the failed keys change.
+ * A successful save means space may have been freed, so values that failed before are retried.
+ *
+ * @param {string} key - The storage key that was saved
+ * @param {boolean} saved - Whether the save succeeded
+ */
+const reportSave = (key: string, saved: boolean): void => {
+  const hasFailed = failedKeys.includes(key);
+  if (saved && hasFailed) {
+    failedKeys = failedKeys.filter(failedKey => failedKey !== key);
+    failureListeners.forEach(listener => listener(failedKeys));
+  } else if (!saved && !hasFailed) {
+    failedKeys = [...failedKeys, key];
+    failureListeners.forEach(listener => listener(failedKeys));
+  }
+
+  // A successful save may have freed space for the values that failed before
+  if (saved && failedKeys.length > 0) {
+    requestRetry();
+  }
+};
+
+/**
+ * Subscribes to changes in the keys whose latest value could not be saved.
+ *
+ * @param {SaveFailureListener} listener - Callback invoked with the failed keys
+ * @returns {() => void} A function that removes the subscription
+ */
+const subscribe = (listener: SaveFailureListener): (() => void) => {
+  failureListeners.add(listener);
+  return () => {
+    failureListeners.delete(listener);
+  };
+};
+
+/**
+ * Subscribes to requests to save unsaved values again.
+ *
+ * @param {RetryListener} listener - Callback invoked on each retry request
+ * @returns {() => void} A function that removes the subscription
+ */
+const subscribeRetry = (listener: RetryListener): (() => void) => {
+  retryListeners.add(listener);
+  return () => {
+    retryListeners.delete(listener);
+  };
+};
+
+/**
+ * Measures how much of its quota a storage backend is using.
+ * In-memory storage has no quota, and IndexedDB usage is only known where the
+ * browser supports the StorageManager API.
+ *
+ * @param {StorageBackend} backend - The backend to measure
+ * @returns {MaybePromise<StorageUsage | null>} The usage, or null if it cannot be measured
+ */
+const getUsage = (backend: StorageBackend): MaybePromise<StorageUsage | null> => {
+  switch (backend) {
+    case StorageBackend.LOCAL_STORAGE:
+      return { used: LocalStorageService.getStorageUsage(), quota: LOCAL_STORAGE_QUOTA };
+    case StorageBackend.INDEXED_DB:
+      if (typeof navigator === 'undefined' || !navigator.storage?.estimate) {
+        return null;
+      }
+      return navigator.storage
+        .estimate()
+        .then(({ usage, quota }) => (usage !== undefined && quota ? { used: usage, quota } : null))
+        .catch(error => {
+          console.error('Error estimating storage usage:', error);
+          return null;
+        });
+    default:
+      return null;
+  }
+};
+
+/**
+ * Determines the usage percentage at which the storage indicator warns.
+ * Reads REACT_APP_STORAGE_WARNING_THRESHOLD and defaults to 80 for missing or out-of-range values.
+ *
+ * @returns {number} The threshold, as a percentage of the quota
+ */
+const resolveWarningThreshold = (): number => {
+  const configured = Number(process.env.REACT_APP_STORAGE_WARNING_THRESHOLD);
+  return configured > 0 && configured <= 100 ? configured : DEFAULT_WARNING_THRESHOLD;
+};
+
+/**
+ * Service for tracking failed saves and how close storage is to its quota.
+ */
+export const StorageHealthService = {
+  LOCAL_STORAGE_QUOTA,
+  DEFAULT_WARNING_THRESHOLD,
+  getFailedKeys,
+  reportSave,
+  requestRetry,
+  subscribe,
+  subscribeRetry,
+  getUsage,
+  resolveWarningThreshold
+};
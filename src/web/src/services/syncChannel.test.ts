@@ -0,0 +1,132 @@
+import { SyncService } from './syncChannel';
+import { StorageBackend } from '../types/Storage';
+
+/**
+ * Minimal in-process BroadcastChannel that delivers messages to every other
+ * channel instance with the same name, like tabs sharing a browser.
+ */
+class MockBroadcastChannel {
+  static instances: MockBroadcastChannel[] = [];
+
+  private listeners: ((event: MessageEvent) => void)[] = [];
+
+  constructor(public name: string) {
+    MockBroadcastChannel.instances.push(this);
+  }
+
+  postMessage(data: unknown) {
+    MockBroadcastChannel.instances
+      .filter(instance => instance !== this && instance.name === this.name)
+      .forEach(instance => {
+        instance.listeners.forEach(listener => listener({ data } as MessageEvent));
+      });
+  }
+
+  addEventListener(_type: string, listener: (event: MessageEvent) => void) {
+    this.listeners.push(listener);
+  }
+
+  removeEventListener(_type: string, listener: (event: MessageEvent) => void) {
+    this.listeners = this.listeners.filter(existing => existing !== listener);
+  }
+}
+
+/**
+ * Loads a fresh copy of the sync service, as a separate tab would
+ */
+const loadTab = (): typeof SyncService => {
+  let service: typeof SyncService | undefined;
+  jest.isolateModules(() => {
+    service = jest.requireActual<typeof import('./syncChannel')>('./syncChannel').SyncService;
+  });
+  return service as typeof SyncService;
+};
+
+describe('SyncService', () => {
+  afterEach(() => {
+    delete (window as { BroadcastChannel?: unknown }).BroadcastChannel;
+    MockBroadcastChannel.instances = [];
+  });
+
+  describe('with BroadcastChannel', () => {
+    beforeEach(() => {
+      (window as { BroadcastChannel?: unknown }).BroadcastChannel = MockBroadcastChannel;
+    });
+
+    test('should deliver changes to other tabs', () => {
+      const firstTab = loadTab();
+      const secondTab = loadTab();
+      const listener = jest.fn();
+
+      secondTab.subscribe(StorageBackend.LOCAL_STORAGE, listener);
+      firstTab.publish('react-todo-list-filter', 'active');
+
+      expect(listener).toHaveBeenCalledWith('react-todo-list-filter', 'active');
+    });
+
+    test('should stop delivering after unsubscribing', () => {
+      const firstTab = loadTab();
+      const secondTab = loadTab();
+      const listener = jest.fn();
+
+      const unsubscribe = secondTab.subscribe(StorageBackend.LOCAL_STORAGE, listener);
+      unsubscribe();
+      firstTab.publish('react-todo-list-filter', 'active');
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    test('should not share in-memory storage between tabs', () => {
+      const firstTab = loadTab();
+      const secondTab = loadTab();
+      const listener = jest.fn();
+
+      secondTab.subscribe(StorageBackend.MEMORY, listener);
+      firstTab.publish('react-todo-list-filter', 'active');
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('without BroadcastChannel', () => {
+    test('should report BroadcastChannel as unavailable', () => {
+      expect(loadTab().isBroadcastChannelAvailable()).toBe(false);
+    });
+
+    test('should fall back to storage events for localStorage', () => {
+      const listener = jest.fn();
+      const unsubscribe = loadTab().subscribe(StorageBackend.LOCAL_STORAGE, listener);
+
+      window.dispatchEvent(
+        new StorageEvent('storage', { key: 'react-todo-list-filter', newValue: '"completed"' })
+      );
+      window.dispatchEvent(new StorageEvent('storage', { key: 'react-todo-list-tasks', newValue: null }));
+      unsubscribe();
+
+      expect(listener).toHaveBeenNthCalledWith(1, 'react-todo-list-filter', 'completed');
+      expect(listener).toHaveBeenNthCalledWith(2, 'react-todo-list-tasks', null);
+    });
+
+    test('should ignore storage events that clear all keys', () => {
+      const listener = jest.fn();
+      const unsubscribe = loadTab().subscribe(StorageBackend.LOCAL_STORAGE, listener);
+
+      window.dispatchEvent(new StorageEvent('storage', { key: null }));
+      unsubscribe();
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    test('should not subscribe to storage events for other backends', () => {
+      const listener = jest.fn();
+      const unsubscribe = loadTab().subscribe(StorageBackend.INDEXED_DB, listener);
+
+      window.dispatchEvent(
+        new StorageEvent('storage', { key: 'react-todo-list-filter', newValue: '"completed"' })
+      );
+      unsubscribe();
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,132 @@
+import { StorageBackend } from '../types/Storage';
+import IdGenerator from '../utils/idGenerator';
+
+/**
+ * Name of the BroadcastChannel shared by all tabs of the application.
+ */
+const CHANNEL_NAME = 'react-todo-list-sync';
+
+/**
+ * Identifier of the current tab, used to ignore messages the tab sent itself.
+ */
+const TAB_ID = IdGenerator.generate();
+
+/**
+ * Message broadcast to other tabs when a stored value changes.
+ */
+export interface SyncMessage {
+  /** The storage key that changed */
+  key: string;
+
+  /** The new value, or null if the key was removed */
+  value: unknown;
+
+  /** Identifier of the tab that made the change */
+  sourceId: string;
+}
+
+/**
+ * Callback invoked when another tab changes a stored value.
+ * Receives null as the value when the key was removed.
+ */
+export type SyncListener = (key: string, value: unknown) => void;
+
+let channel: BroadcastChannel | null = null;
+
+/**
+ * Checks if BroadcastChannel is available in the current browser environment.
+ *
+ * @returns {boolean} True if BroadcastChannel is available, false otherwise
+ */
+const isBroadcastChannelAvailable = (): boolean => {
+  return typeof BroadcastChannel !== 'undefined';
+};
+
+/**
+ * Lazily opens the shared channel.
+ *
+ * @returns {BroadcastChannel | null} The channel, or null if BroadcastChannel is unsupported
+ */
+const getChannel = (): BroadcastChannel | null => {
+  if (!channel && isBroadcastChannelAvailable()) {
+    channel = new BroadcastChannel(CHANNEL_NAME);
+  }
+  return channel;
+};
+
+/**
+ * Notifies other tabs that a stored value has changed.
+ * Has no effect when BroadcastChannel is unsupported; localStorage-backed tabs
+ * are then notified through native storage events instead.
+ *
+ * @param {string} key - The storage key that changed
+ * @param {unknown} value - The new value, or null if the key was removed
+ */
+const publish = (key: string, value: unknown): void => {
+  const syncChannel = getChannel();
+  if (!syncChannel) {
+    return;
+  }
+
+  try {
+    const message: SyncMessage = { key, value, sourceId: TAB_ID };
+    syncChannel.postMessage(message);
+  } catch (e) {
+    console.error(`Error broadcasting change for key "${key}":`, e);
+  }
+};
+
+/**
+ * Subscribes to stored value changes made by other tabs.
+ * Uses BroadcastChannel when available and falls back to storage events for
+ * the localStorage backend. In-memory storage is never shared between tabs.
+ *
+ * @param {StorageBackend} backend - The backend the subscriber persists to
+ * @param {SyncListener} listener - Callback invoked with each remote change
+ * @returns {() => void} A function that removes the subscription
+ */
+const subscribe = (backend: StorageBackend, listener: SyncListener): (() => void) => {
+  if (backend === StorageBackend.MEMORY) {
+    return () => {};
+  }
+
+  const syncChannel = getChannel();
+  if (syncChannel) {
+    const handleMessage = (event: MessageEvent<SyncMessage>) => {
+      if (event.data && event.data.sourceId !== TAB_ID) {
+        listener(event.data.key, event.data.value);
+      }
+    };
+    syncChannel.addEventListener('message', handleMessage);
+    return () => syncChannel.removeEventListener('message', handleMessage);
+  }
+
+  if (backend === StorageBackend.LOCAL_STORAGE && typeof window !== 'undefined') {
+    const handleStorage = (event: StorageEvent) => {
+      // A null key means localStorage was cleared entirely, which is not a per-key change
+      if (event.key === null) {
+        return;
+      }
+
+      try {
+        listener(event.key, event.newValue === null ? null : JSON.parse(event.newValue));
+      } catch (e) {
+        console.error(`Error parsing remote change for key "${event.key}":`, e);
+      }
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }
+
+  return () => {};
+};
+
+/**
+ * Service for synchronizing stored values between open tabs of the application.
+ */
+export const SyncService = {
+  CHANNEL_NAME,
+  isBroadcastChannelAvailable,
+  publish,
+  subscribe
+};
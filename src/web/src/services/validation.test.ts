@@ -0,0 +1,163 @@
+import { ValidationService } from './validation';
+import { LocalStorageService } from './localStorage';
+import { StorageAdapters } from './storageAdapters';
+import { QuarantinedRecord, StorageAdapter } from '../types/Storage';
+import { Task, Priority } from '../types/Task';
+import { FilterType } from '../types/Filter';
+
+const { STORAGE_KEYS } = LocalStorageService;
+
+// Helper function to create a mock task for testing
+const createMockTask = (overrides = {}): Task => ({
+  id: 'task-123',
+  text: 'Test task',
+  completed: false,
+  priority: Priority.MEDIUM,
+  createdAt: 1623456789000,
+  listId: 'inbox',
+  ...overrides
+});
+
+/**
+ * Wraps a synchronous adapter so that every operation resolves asynchronously
+ */
+const createAsyncAdapter = (adapter: StorageAdapter): StorageAdapter => ({
+  backend: adapter.backend,
+  load: (key, defaultValue) => Promise.resolve(adapter.load(key, defaultValue)),
+  save: (key, data) => Promise.resolve(adapter.save(key, data)),
+  remove: key => Promise.resolve(adapter.remove(key)),
+  list: () => Promise.resolve(adapter.list()),
+  clear: () => Promise.resolve(adapter.clear())
+});
+
+describe('ValidationService', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('isValidTask', () => {
+    test('should accept tasks with and without optional fields', () => {
+      expect(ValidationService.isValidTask(createMockTask())).toBe(true);
+      expect(ValidationService.isValidTask(createMockTask({ listId: undefined, tags: ['work'] }))).toBe(true);
+    });
+
+    test('should reject tasks with missing or mistyped fields', () => {
+      expect(ValidationService.isValidTask(createMockTask({ id: '' }))).toBe(false);
+      expect(ValidationService.isValidTask(createMockTask({ completed: 'no' }))).toBe(false);
+      expect(ValidationService.isValidTask(createMockTask({ subtasks: [{ id: 's1' }] }))).toBe(false);
+      expect(ValidationService.isValidTask(null)).toBe(false);
+    });
+  });
+
+  describe('validateTasks', () => {
+    test('should keep valid tasks and reject invalid and duplicate ones', () => {
+      const first = createMockTask({ id: 'a' });
+      const second = createMockTask({ id: 'b' });
+      const broken = { text: 'No ID' };
+      const duplicate = createMockTask({ id: 'a', text: 'Copy' });
+
+      const result = ValidationService.validateTasks([first, broken, second, duplicate], []);
+
+      expect(result.value).toEqual([first, second]);
+      expect(result.invalid.map(record => record.value)).toEqual([broken, duplicate]);
+      expect(result.invalid[1].reason).toBe('Another task already has the ID "a"');
+      expect(result.invalid.every(record => record.key === STORAGE_KEYS.TASKS)).toBe(true);
+    });
+
+    test('should return the stored array when every task is valid', () => {
+      const tasks = [createMockTask()];
+
+      expect(ValidationService.validateTasks(tasks, []).value).toBe(tasks);
+    });
+
+    test('should reject a value that is not a list as a whole', () => {
+      const defaultValue: Task[] = [];
+      const result = ValidationService.validateTasks({ id: 'a' }, defaultValue);
+
+      expect(result.value).toBe(defaultValue);
+      expect(result.invalid).toHaveLength(1);
+      expect(result.invalid[0].value).toEqual({ id: 'a' });
+    });
+  });
+
+  describe('validateFilter', () => {
+    test('should accept known filters and reject anything else', () => {
+      expect(ValidationService.validateFilter(FilterType.ACTIVE, FilterType.ALL)).toEqual({
+        value: FilterType.ACTIVE,
+        invalid: []
+      });
+
+      const result = ValidationService.validateFilter('starred', FilterType.ALL);
+      expect(result.value).toBe(FilterType.ALL);
+      expect(result.invalid[0]).toMatchObject({ key: STORAGE_KEYS.FILTER, value: 'starred' });
+    });
+  });
+
+  describe('mergeRecords', () => {
+    test('should skip records already held for the same key', () => {
+      const record: QuarantinedRecord = { key: STORAGE_KEYS.FILTER, value: 'x', reason: 'Bad', quarantinedAt: 1 };
+      const repeated = { ...record, quarantinedAt: 2 };
+      const other = { ...record, key: STORAGE_KEYS.TASKS };
+
+      expect(ValidationService.mergeRecords([record], [repeated, other])).toEqual([record, other]);
+    });
+  });
+
+  describe('withValidation', () => {
+    test('should set aside invalid tasks and save the valid remainder', () => {
+      const memoryAdapter = StorageAdapters.createMemoryAdapter();
+      const task = createMockTask();
+      memoryAdapter.save(STORAGE_KEYS.TASKS, [task, { id: 7 }]);
+      const adapter = ValidationService.withValidation(memoryAdapter);
+
+      expect(adapter.load(STORAGE_KEYS.TASKS, [])).toEqual([task]);
+      expect(memoryAdapter.load(STORAGE_KEYS.TASKS, [])).toEqual([task]);
+
+      const records = memoryAdapter.load<QuarantinedRecord[]>(STORAGE_KEYS.RECOVERY, []);
+      expect(records).toHaveLength(1);
+      expect(records[0].value).toEqual({ id: 7 });
+
+      // The remainder is valid, so loading again sets nothing more aside
+      adapter.load(STORAGE_KEYS.TASKS, []);
+      expect(memoryAdapter.load(STORAGE_KEYS.RECOVERY, [])).toHaveLength(1);
+    });
+
+    test('should remove a value unusable as a whole and return the default', () => {
+      const memoryAdapter = StorageAdapters.createMemoryAdapter();
+      memoryAdapter.save(STORAGE_KEYS.FILTER, 42);
+      const adapter = ValidationService.withValidation(memoryAdapter);
+
+      expect(adapter.load(STORAGE_KEYS.FILTER, FilterType.ALL)).toBe(FilterType.ALL);
+      expect(memoryAdapter.load(STORAGE_KEYS.FILTER, null)).toBeNull();
+      expect(memoryAdapter.load<QuarantinedRecord[]>(STORAGE_KEYS.RECOVERY, [])[0].value).toBe(42);
+    });
+
+    test('should leave stored data untouched if the records cannot be set aside', () => {
+      const memoryAdapter = StorageAdapters.createMemoryAdapter();
+      memoryAdapter.save(STORAGE_KEYS.TASKS, 'broken');
+      const adapter = ValidationService.withValidation({
+        ...memoryAdapter,
+        save: (key, data) => key !== STORAGE_KEYS.RECOVERY && memoryAdapter.save(key, data)
+      });
+
+      expect(adapter.load(STORAGE_KEYS.TASKS, [])).toEqual([]);
+      expect(memoryAdapter.load(STORAGE_KEYS.TASKS, [])).toBe('broken');
+    });
+
+    test('should load the recovery key after validated loads on asynchronous adapters', async () => {
+      const memoryAdapter = StorageAdapters.createMemoryAdapter();
+      memoryAdapter.save(STORAGE_KEYS.FILTER, 'starred');
+      const adapter = ValidationService.withValidation(createAsyncAdapter(memoryAdapter));
+
+      const filter = adapter.load(STORAGE_KEYS.FILTER, FilterType.ALL);
+      const records = adapter.load<QuarantinedRecord[]>(STORAGE_KEYS.RECOVERY, []);
+
+      await expect(filter).resolves.toBe(FilterType.ALL);
+      await expect(records).resolves.toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,293 @@
+import { Task } from '../types/Task';
+import { FilterType } from '../types/Filter';
+import { MaybePromise, QuarantinedRecord, StorageAdapter } from '../types/Storage';
+import MaybePromiseUtils from '../utils/maybePromise';
+import { LocalStorageService } from './localStorage';
+
+const { STORAGE_KEYS } = LocalStorageService;
+
+/**
+ * Outcome of validating a value loaded from storage.
+ */
+export interface ValidationResult<T> {
+  /** The value with invalid records removed, or the default value if the value is unusable as a whole */
+  value: T;
+
+  /** The records that were removed, to be set aside under the recovery key */
+  invalid: QuarantinedRecord[];
+}
+
+/**
+ * Validates the value stored under a key, falling back to the caller's default value.
+ */
+type Validator = (value: unknown, defaultValue: unknown) => ValidationResult<unknown>;
+
+/**
+ * Checks whether a value is a plain object.
+ *
+ * @param {unknown} value - The value to check
+ * @returns {boolean} True if the value is a non-null, non-array object
+ */
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+/**
+ * Checks whether a value has the shape of a stored task.
+ * Optional fields are checked only when present.
+ *
+ * @param {unknown} value - The value to check
+ * @returns {boolean} True if the value is a valid task
+ */
+const isValidTask = (value: unknown): value is Task => {
+  if (!isRecord(value)) {
+    return false;
+  }
+
+  const isOptional = (key: string, type: string): boolean =>
+    value[key] === undefined || typeof value[key] === type;
+  const isOptionalStringArray = (key: string): boolean => {
+    const field = value[key];
+    return field === undefined || (Array.isArray(field) && field.every(item => typeof item === 'string'));
+  };
+
+  return (
+    typeof value.id === 'string' &&
+    value.id.length > 0 &&
+    typeof value.text === 'string' &&
+    typeof value.completed === 'boolean' &&
+    typeof value.priority === 'string' &&
+    typeof value.createdAt === 'number' &&
+    isOptional('updatedAt', 'number') &&
+    isOptional('listId', 'string') &&
+    isOptional('order', 'number') &&
+    isOptional('dueDate', 'string') &&
+    isOptional('dueTime', 'string') &&
+    isOptionalStringArray('tags') &&
+    isOptionalStringArray('projects') &&
+    isOptionalStringArray('contexts') &&
+    (value.subtasks === undefined ||
+      (Array.isArray(value.subtasks) &&
+        value.subtasks.every(
+          subtask =>
+            isRecord(subtask) &&
+            typeof subtask.id === 'string' &&
+            typeof subtask.text === 'string' &&
+            typeof subtask.completed === 'boolean'
+        )))
+  );
+};
+
+/**
+ * Creates a record describing a rejected value.
+ *
+ * @param key - The storage key the value was loaded from
+ * @param value - The rejected value
+ * @param reason - Why the value was rejected
+ * @returns The record to set aside
+ */
+const createRecord = (key: string, value: unknown, reason: string): QuarantinedRecord => ({
+  key,
+  value,
+  reason,
+  quarantinedAt: Date.now()
+});
+
+/**
+ * Validates stored tasks, keeping every valid task and rejecting the rest.
+ * Tasks reusing the ID of an earlier task are rejected, since IDs identify tasks in every operation.
+ *
+ * @param value - The value loaded from storage
+ * @param defaultValue - The value to use if the stored value is not a list
+ * @returns The valid tasks and the rejected records
+ */
+const validateTasks = (value: unknown, defaultValue: unknown): ValidationResult<unknown> => {
+  if (!Array.isArray(value)) {
+    return {
+      value: defaultValue,
+      invalid: [createRecord(STORAGE_KEYS.TASKS, value, 'The stored tasks are not a list')]
+    };
+  }
+
+  const seenIds = new Set<string>();
+  const tasks: Task[] = [];
+  const invalid: QuarantinedRecord[] = [];
+  value.forEach(item => {
+    if (!isValidTask(item)) {
+      invalid.push(createRecord(STORAGE_KEYS.TASKS, item, 'The task is missing a field or has a field of the wrong type'));
+    } else if (seenIds.has(item.id)) {
+      invalid.push(createRecord(STORAGE_KEYS.TASKS, item, `Another task already has the ID "${item.id}"`));
+    } else {
+      seenIds.add(item.id);
+      tasks.push(item);
+    }
+  });
+
+  // Keep the stored array itself when nothing was rejected
+  return { value: invalid.length > 0 ? tasks : value, invalid };
+};
+
+/**
+ * Validates the stored filter selection.
+ *
+ * @param value - The value loaded from storage
+ * @param defaultValue - The value to use if the stored value is not a known filter
+ * @returns The filter and the rejected record, if any
+ */
+const validateFilter = (value: unknown, defaultValue: unknown): ValidationResult<unknown> => {
+  if (Object.values(FilterType).includes(value as FilterType)) {
+    return { value, invalid: [] };
+  }
+  return {
+    value: defaultValue,
+    invalid: [createRecord(STORAGE_KEYS.FILTER, value, 'The stored filter is not a known filter')]
+  };
+};
+
+/**
+ * Validators for the storage keys checked on load.
+ */
+const VALIDATORS: Record<string, Validator> = {
+  [STORAGE_KEYS.TASKS]: validateTasks,
+  [STORAGE_KEYS.FILTER]: validateFilter
+};
+
+/**
+ * Validates a value loaded from storage.
+ * Keys without a validator, and default values returned for missing keys, are accepted as they are.
+ *
+ * @param key - The storage key the value was loaded from
+ * @param value - The loaded value
+ * @param defaultValue - The default value passed to the load
+ * @returns The value safe to use and the rejected records
+ */
+const validateStoredValue = <T>(key: string, value: T, defaultValue: T): ValidationResult<T> => {
+  const validator = VALIDATORS[key];
+  if (!validator || value === defaultValue) {
+    return { value, invalid: [] };
+  }
+  return validator(value, defaultValue) as ValidationResult<T>;
+};
+
+/**
+ * Returns the well-formed records from a possibly malformed persisted value.
+ *
+ * @param value - The value loaded from the recovery key
+ * @returns The records with a key, reason and timestamp
+ */
+const normalizeRecords = (value: unknown): QuarantinedRecord[] => {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  return value.filter(
+    (record): record is QuarantinedRecord =>
+      isRecord(record) &&
+      typeof record.key === 'string' &&
+      typeof record.reason === 'string' &&
+      typeof record.quarantinedAt === 'number'
+  );
+};
+
+/**
+ * Adds records to those already set aside, skipping any already held for the same key.
+ *
+ * @param existing - The records already set aside
+ * @param records - The records to add
+ * @returns The combined records
+ */
+const mergeRecords = (existing: QuarantinedRecord[], records: QuarantinedRecord[]): QuarantinedRecord[] => {
+  const seen = new Set(existing.map(record => `${record.key}\n${JSON.stringify(record.value)}`));
+  const added = records.filter(record => {
+    const id = `${record.key}\n${JSON.stringify(record.value)}`;
+    if (seen.has(id)) {
+      return false;
+    }
+    seen.add(id);
+    return true;
+  });
+  return [...existing, ...added];
+};
+
+/**
+ * Sets records aside under STORAGE_KEYS.RECOVERY, after those already held.
+ *
+ * @param adapter - The storage adapter holding the persisted data
+ * @param records - The records to set aside
+ * @returns True if the records were saved, as a Promise if the adapter is asynchronous
+ */
+const quarantineRecords = (adapter: StorageAdapter, records: QuarantinedRecord[]): MaybePromise<boolean> => {
+  const { chain } = MaybePromiseUtils;
+
+  return chain(adapter.load<unknown>(STORAGE_KEYS.RECOVERY, []), stored => {
+    console.warn(`Set aside ${records.length} invalid stored record(s) under ${STORAGE_KEYS.RECOVERY}`);
+    return adapter.save(STORAGE_KEYS.RECOVERY, mergeRecords(normalizeRecords(stored), records));
+  });
+};
+
+/**
+ * Returns an adapter that validates tasks and the filter as they are loaded.
+ * Invalid records are set aside under STORAGE_KEYS.RECOVERY and the valid remainder is
+ * saved back, so they are reported once. If the records cannot be set aside, the stored
+ * data is left untouched and only the value returned to the caller is cleaned.
+ * For asynchronous adapters, loads of the recovery key wait until validated loads finish.
+ *
+ * @param adapter - The storage adapter to validate
+ * @returns A storage adapter whose tasks and filter are safe to use
+ */
+const withValidation = (adapter: StorageAdapter): StorageAdapter => {
+  const { chain, isPromise } = MaybePromiseUtils;
+
+  // Validated loads still in progress on an asynchronous adapter
+  let pendingLoads: Promise<unknown> | null = null;
+
+  const load = <T>(key: string, defaultValue: T): MaybePromise<T> => {
+    if (key === STORAGE_KEYS.RECOVERY && pendingLoads) {
+      return pendingLoads.then(() => adapter.load(key, defaultValue));
+    }
+
+    const result = chain(adapter.load(key, defaultValue), value => {
+      const { value: validValue, invalid } = validateStoredValue(key, value, defaultValue);
+      if (invalid.length === 0) {
+        return value;
+      }
+
+      return chain(quarantineRecords(adapter, invalid), saved => {
+        if (!saved) {
+          return validValue;
+        }
+        // A value unusable as a whole is removed rather than replaced by the caller's default
+        const rewrite = validValue === defaultValue ? adapter.remove(key) : adapter.save(key, validValue);
+        return chain(rewrite, () => validValue);
+      });
+    });
+
+    if (isPromise(result) && VALIDATORS[key]) {
+      pendingLoads = Promise.all([pendingLoads, result]).catch(() => undefined);
+    }
+    return result;
+  };
+
+  return {
+    backend: adapter.backend,
+    load,
+    save: (key, data) => adapter.save(key, data),
+    remove: key => adapter.remove(key),
+    list: () => adapter.list(),
+    clear: () => adapter.clear()
+  };
+};
+
+/**
+ * Service for validating persisted data as it is loaded.
+ */
+export const ValidationService = {
+  isRecord,
+  isValidTask,
+  validateTasks,
+  validateFilter,
+  validateStoredValue,
+  normalizeRecords,
+  mergeRecords,
+  quarantineRecords,
+  withValidation
+};
@@ -0,0 +1,224 @@
+import { WorkspaceTransferService } from './workspaceTransfer';
+import { LocalStorageService } from './localStorage';
+import { Task, Priority } from '../types/Task';
+import { FilterType } from '../types/Filter';
+import { ImportMode } from '../types/Transfer';
+import CsvUtils from '../utils/csvUtils';
+import IcalUtils from '../utils/icalUtils';
+
+// Helper function to create a mock task for testing
+const createMockTask = (overrides: Partial<Task> = {}): Task => ({
+  id: 'task-123',
+  text: 'Test task',
+  completed: false,
+  priority: Priority.MEDIUM,
+  createdAt: 1623456789000,
+  listId: 'inbox',
+  ...overrides
+});
+
+const inbox = { id: 'inbox', name: 'Inbox', archived: false, createdAt: 0 };
+
+// Serializes a document the way an exported file would contain it
+const toFile = (document: unknown): string => JSON.stringify(document);
+
+describe('WorkspaceTransferService', () => {
+  describe('createExport', () => {
+    test('should include the tasks, filter, lists and versions', () => {
+      const tasks = [createMockTask()];
+      const document = WorkspaceTransferService.createExport(
+        { tasks, filter: FilterType.ACTIVE, lists: [inbox] },
+        Date.UTC(2024, 0, 2)
+      );
+
+      expect(document).toEqual({
+        app: 'react-todo-list',
+        appVersion: expect.any(String),
+        schemaVersion: LocalStorageService.CURRENT_VERSION,
+        exportedAt: '2024-01-02T00:00:00.000Z',
+        tasks,
+        filter: FilterType.ACTIVE,
+        lists: [inbox]
+      });
+    });
+
+    test('should round-trip through parseImport', () => {
+      const document = WorkspaceTransferService.createExport({
+        tasks: [createMockTask({ tags: ['work'], subtasks: [{ id: 'step-1', text: 'Step', completed: true }] })],
+        filter: FilterType.COMPLETED,
+        lists: [inbox]
+      });
+
+      expect(WorkspaceTransferService.parseImport(WorkspaceTransferService.serializeExport(document))).toEqual(
+        document
+      );
+    });
+  });
+
+  describe('parseImport', () => {
+    const validDocument = {
+      app: 'react-todo-list',
+      appVersion: '1.0.0',
+      schemaVersion: LocalStorageService.CURRENT_VERSION,
+      exportedAt: '2024-01-02T00:00:00.000Z',
+      tasks: [createMockTask()],
+      filter: FilterType.ALL,
+      lists: [inbox]
+    };
+
+    test('should reject files that are not JSON', () => {
+      expect(() => WorkspaceTransferService.parseImport('not json')).toThrow('The file is not valid JSON');
+    });
+
+    test('should reject JSON that is not an export of this app', () => {
+      expect(() => WorkspaceTransferService.parseImport(toFile([createMockTask()]))).toThrow(
+        'The file is not a React Todo List export'
+      );
+    });
+
+    test('should reject exports from a newer schema version', () => {
+      expect(() =>
+        WorkspaceTransferService.parseImport(toFile({ ...validDocument, schemaVersion: '99.0' }))
+      ).toThrow('newer version');
+    });
+
+    test('should reject invalid and duplicate tasks', () => {
+      expect(() =>
+        WorkspaceTransferService.parseImport(
+          toFile({ ...validDocument, tasks: [createMockTask(), { id: 'task-2', text: 5 }] })
+        )
+      ).toThrow('Task 2 in the export is invalid');
+      expect(() =>
+        WorkspaceTransferService.parseImport(toFile({ ...validDocument, tasks: [createMockTask(), createMockTask()] }))
+      ).toThrow('The export contains duplicate task IDs');
+    });
+
+    test('should migrate tasks from older schema versions', () => {
+      const legacyTask = createMockTask();
+      delete (legacyTask as Partial<Task>).listId;
+
+      const document = WorkspaceTransferService.parseImport(
+        toFile({ ...validDocument, schemaVersion: '1.0', tasks: [legacyTask], lists: undefined })
+      );
+
+      expect(document.tasks).toEqual([createMockTask({ listId: 'inbox', order: 0 })]);
+      expect(document.schemaVersion).toBe(LocalStorageService.CURRENT_VERSION);
+      expect(document.lists).toEqual([inbox]);
+    });
+
+    test('should repair unknown priorities in exports at the current schema version', () => {
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+      const document = WorkspaceTransferService.parseImport(
+        toFile({ ...validDocument, tasks: [createMockTask({ priority: 'critical' as Priority })] })
+      );
+
+      expect(document.tasks).toEqual([createMockTask({ priority: Priority.MEDIUM })]);
+      expect(warnSpy).toHaveBeenCalled();
+      warnSpy.mockRestore();
+    });
+
+    test('should fall back to the default filter when it is unknown', () => {
+      expect(WorkspaceTransferService.parseImport(toFile({ ...validDocument, filter: 'someday' })).filter).toBe(
+        FilterType.ALL
+      );
+    });
+  });
+
+  describe('previewImport', () => {
+    test('should separate additions, conflicts and unchanged tasks by id', () => {
+      const current = [createMockTask({ id: 'task-1' }), createMockTask({ id: 'task-2' })];
+      const incoming = [
+        createMockTask({ id: 'task-1' }),
+        createMockTask({ id: 'task-2', text: 'Changed' }),
+        createMockTask({ id: 'task-3' })
+      ];
+
+      expect(WorkspaceTransferService.previewImport(current, incoming)).toEqual({
+        additions: [incoming[2]],
+        conflicts: [{ current: current[1], incoming: incoming[1] }],
+        unchanged: 1
+      });
+    });
+  });
+
+  describe('applyImport', () => {
+    const current = [
+      createMockTask({ id: 'task-1', text: 'Newer here', updatedAt: 2000 }),
+      createMockTask({ id: 'task-2', text: 'Older here', updatedAt: 1000 })
+    ];
+    const incoming = [
+      createMockTask({ id: 'task-1', text: 'Older there', updatedAt: 1000 }),
+      createMockTask({ id: 'task-2', text: 'Newer there', updatedAt: 2000 }),
+      createMockTask({ id: 'task-3', text: 'New' })
+    ];
+
+    test('should keep the most recent version of conflicting tasks when merging', () => {
+      expect(WorkspaceTransferService.applyImport(current, incoming, ImportMode.MERGE)).toEqual([
+        current[0],
+        incoming[1],
+        incoming[2]
+      ]);
+    });
+
+    test('should keep the workspace version of conflicting tasks when skipping duplicates', () => {
+      expect(WorkspaceTransferService.applyImport(current, incoming, ImportMode.SKIP_DUPLICATES)).toEqual([
+        ...current,
+        incoming[2]
+      ]);
+    });
+
+    test('should use only the imported tasks when replacing', () => {
+      expect(WorkspaceTransferService.applyImport(current, incoming, ImportMode.REPLACE)).toBe(incoming);
+    });
+
+    describe('merging an export of the workspace back in', () => {
+      const workspace = [
+        createMockTask({
+          id: 'task-1',
+          listId: 'list-work',
+          order: 4,
+          dueDate: '2024-03-01',
+          dueTime: '09:00',
+          tags: ['client'],
+          subtasks: [{ id: 'subtask-1', text: 'Draft', completed: true }],
+          updatedAt: 1623456790123
+        }),
+        createMockTask({ id: 'task-2', text: 'Second', order: 5 })
+      ];
+
+      test('should keep the fields a CSV file does not carry', () => {
+        const [header, ...rows] = CsvUtils.parseCsv(CsvUtils.tasksToCsv(workspace));
+        const { tasks } = CsvUtils.rowsToTasks(rows, CsvUtils.guessColumnMapping(header), workspace, 'inbox');
+
+        expect(WorkspaceTransferService.previewImport(workspace, tasks).unchanged).toBe(2);
+        expect(WorkspaceTransferService.applyImport(workspace, tasks, ImportMode.MERGE)).toEqual(workspace);
+      });
+
+      test('should keep the fields an iCalendar file does not carry', () => {
+        const { tasks } = IcalUtils.parseIcal(IcalUtils.tasksToIcal(workspace), 'inbox', workspace);
+
+        expect(WorkspaceTransferService.previewImport(workspace, tasks).unchanged).toBe(2);
+        expect(WorkspaceTransferService.applyImport(workspace, tasks, ImportMode.MERGE)).toEqual(workspace);
+      });
+    });
+  });
+
+  describe('applyListImport', () => {
+    test('should add unknown lists when merging and replace them otherwise', () => {
+      const work = { id: 'work', name: 'Work', archived: false, createdAt: 1 };
+      const renamedWork = { ...work, name: 'Office' };
+      const home = { id: 'home', name: 'Home', archived: false, createdAt: 2 };
+
+      expect(WorkspaceTransferService.applyListImport([inbox, work], [renamedWork, home], ImportMode.MERGE)).toEqual([
+        inbox,
+        work,
+        home
+      ]);
+      expect(WorkspaceTransferService.applyListImport([inbox, work], [home], ImportMode.REPLACE)).toEqual([
+        inbox,
+        home
+      ]);
+    });
+  });
+});
@@ -0,0 +1,263 @@
+import { Task } from '../types/Task';
+import { TaskList } from '../types/List';
+import { FilterType } from '../types/Filter';
+import { WorkspaceExport, ImportMode, ImportPreview, ImportConflict } from '../types/Transfer';
+import { LocalStorageService } from './localStorage';
+import { MigrationService } from './migrations';
+import { ValidationService } from './validation';
+import TaskUtils from '../utils/taskUtils';
+import ListUtils from '../utils/listUtils';
+
+/**
+ * Identifier written into every export so unrelated JSON files are rejected on import.
+ */
+const APP_ID = 'react-todo-list';
+
+/**
+ * The parts of the workspace that are exported.
+ */
+export interface Workspace {
+  tasks: Task[];
+  filter: FilterType;
+  lists: TaskList[];
+}
+
+/**
+ * Returns the version of the running application, as configured in the environment.
+ *
+ * @returns {string} The application version, or 'unknown' if it is not configured
+ */
+const getAppVersion = (): string => {
+  return process.env.REACT_APP_VERSION || 'unknown';
+};
+
+/**
+ * Builds a versioned export document from the workspace.
+ *
+ * @param {Workspace} workspace - The tasks, filter and lists to export
+ * @param {number} now - The export time in milliseconds, defaults to the current time
+ * @returns {WorkspaceExport} The export document
+ */
+const createExport = (workspace: Workspace, now: number = Date.now()): WorkspaceExport => {
+  return {
+    app: APP_ID,
+    appVersion: getAppVersion(),
+    schemaVersion: LocalStorageService.CURRENT_VERSION,
+    exportedAt: new Date(now).toISOString(),
+    tasks: workspace.tasks,
+    filter: workspace.filter,
+    lists: workspace.lists
+  };
+};
+
+/**
+ * Serializes an export document as indented JSON.
+ *
+ * @param {WorkspaceExport} document - The export document
+ * @returns {string} The JSON text
+ */
+const serializeExport = (document: WorkspaceExport): string => {
+  return JSON.stringify(document, null, 2);
+};
+
+/**
+ * Builds a dated file name for an export.
+ *
+ * @param {string} extension - The file extension, without the leading dot
+ * @param {number} now - The export time in milliseconds, defaults to the current time
+ * @returns {string} The file name
+ */
+const getExportFilename = (extension: string, now: number = Date.now()): string => {
+  return `${APP_ID}-${TaskUtils.toDateKey(new Date(now))}.${extension}`;
+};
+
+/**
+ * Parses and validates the text of an exported JSON file.
+ * Tasks exported by an older schema version are migrated to the current one.
+ *
+ * @param {string} text - The file contents
+ * @returns {WorkspaceExport} The validated export document at the current schema version
+ * @throws Error describing why the file cannot be imported
+ */
+const parseImport = (text: string): WorkspaceExport => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    throw new Error('The file is not valid JSON');
+  }
+
+  if (!ValidationService.isRecord(data) || data.app !== APP_ID) {
+    throw new Error('The file is not a React Todo List export');
+  }
+
+  const schemaVersion = typeof data.schemaVersion === 'string' ? data.schemaVersion : '';
+  if (!schemaVersion) {
+    throw new Error('The export does not declare a schema version');
+  }
+  if (MigrationService.compareVersions(schemaVersion, LocalStorageService.CURRENT_VERSION) > 0) {
+    throw new Error(`The export was created by a newer version (schema ${schemaVersion})`);
+  }
+
+  if (!Array.isArray(data.tasks)) {
+    throw new Error('The export does not contain a task list');
+  }
+  const invalidIndex = data.tasks.findIndex(task => !ValidationService.isValidTask(task));
+  if (invalidIndex !== -1) {
+    throw new Error(`Task ${invalidIndex + 1} in the export is invalid`);
+  }
+  const ids = new Set((data.tasks as Task[]).map(task => task.id));
+  if (ids.size !== data.tasks.length) {
+    throw new Error('The export contains duplicate task IDs');
+  }
+
+  // Bring tasks from older exports up to the current schema, then repair any unknown priorities
+  // that were written at the current schema version
+  const tasks = TaskUtils.repairTaskPriorities(
+    MigrationService.applyMigrations(data.tasks as Task[], MigrationService.getPendingMigrations(schemaVersion))
+  );
+
+  const filter = Object.values(FilterType).includes(data.filter as FilterType)
+    ? (data.filter as FilterType)
+    : FilterType.ALL;
+
+  return {
+    app: APP_ID,
+    appVersion: typeof data.appVersion === 'string' ? data.appVersion : 'unknown',
+    schemaVersion: LocalStorageService.CURRENT_VERSION,
+    exportedAt: typeof data.exportedAt === 'string' ? data.exportedAt : '',
+    tasks,
+    filter,
+    lists: ListUtils.normalizeLists(data.lists)
+  };
+};
+
+/**
+ * Compares imported tasks with the workspace by task ID.
+ *
+ * @param {Task[]} current - The tasks in the workspace
+ * @param {Task[]} incoming - The imported tasks
+ * @returns {ImportPreview} The tasks that would be added, those that conflict and the unchanged count
+ */
+const previewImport = (current: Task[], incoming: Task[]): ImportPreview => {
+  const currentById = new Map(current.map(task => [task.id, task]));
+  const additions: Task[] = [];
+  const conflicts: ImportConflict[] = [];
+  let unchanged = 0;
+
+  incoming.forEach(task => {
+    const existing = currentById.get(task.id);
+    if (!existing) {
+      additions.push(task);
+    } else if (JSON.stringify(existing) !== JSON.stringify(task)) {
+      conflicts.push({ current: existing, incoming: task });
+    } else {
+      unchanged += 1;
+    }
+  });
+
+  return { additions, conflicts, unchanged };
+};
+
+/**
+ * Combines imported tasks with the workspace.
+ * New tasks are appended. When merging, conflicting tasks keep the most recently
+ * modified version, preferring the imported one when the timestamps are equal;
+ * when skipping duplicates, they keep the workspace version.
+ *
+ * @param {Task[]} current - The tasks in the workspace
+ * @param {Task[]} incoming - The imported tasks
+ * @param {ImportMode} mode - How to combine the imported tasks with the workspace tasks
+ * @returns {Task[]} The resulting tasks
+ */
+const applyImport = (current: Task[], incoming: Task[], mode: ImportMode): Task[] => {
+  if (mode === ImportMode.REPLACE) {
+    return incoming;
+  }
+
+  const currentIds = new Set(current.map(task => task.id));
+  const additions = incoming.filter(task => !currentIds.has(task.id));
+  if (mode === ImportMode.SKIP_DUPLICATES) {
+    return [...current, ...additions];
+  }
+
+  const incomingById = new Map(incoming.map(task => [task.id, task]));
+
+  const merged = current.map(task => {
+    const imported = incomingById.get(task.id);
+    if (!imported) {
+      return task;
+    }
+    return TaskUtils.getLastModified(task) > TaskUtils.getLastModified(imported) ? task : imported;
+  });
+
+  return [...merged, ...additions];
+};
+
+/**
+ * Combines imported lists with the workspace lists.
+ * Unless replacing, existing lists are kept and imported lists with unknown IDs are added.
+ *
+ * @param {TaskList[]} current - The lists in the workspace
+ * @param {TaskList[]} incoming - The imported lists
+ * @param {ImportMode} mode - How to combine the imported lists with the workspace lists
+ * @returns {TaskList[]} The resulting lists
+ */
+const applyListImport = (current: TaskList[], incoming: TaskList[], mode: ImportMode): TaskList[] => {
+  if (mode === ImportMode.REPLACE) {
+    return ListUtils.normalizeLists(incoming);
+  }
+
+  const currentIds = new Set(current.map(list => list.id));
+  return ListUtils.normalizeLists([...current, ...incoming.filter(list => !currentIds.has(list.id))]);
+};
+
+/**
+ * Reads a file selected by the user as text.
+ *
+ * @param {Blob} file - The file to read
+ * @returns {Promise<string>} A promise resolving to the file contents
+ */
+const readFile = (file: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result ?? ''));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsText(file);
+  });
+};
+
+/**
+ * Offers text content to the user as a file download.
+ *
+ * @param {string} filename - The name of the downloaded file
+ * @param {string} content - The file contents
+ * @param {string} mimeType - The MIME type of the file
+ */
+const downloadFile = (filename: string, content: string, mimeType: string): void => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Service for exporting the workspace to files and importing it back.
+ */
+export const WorkspaceTransferService = {
+  APP_ID,
+  getAppVersion,
+  createExport,
+  serializeExport,
+  getExportFilename,
+  parseImport,
+  previewImport,
+  applyImport,
+  applyListImport,
+  readFile,
+  downloadFile
+};
@@ -1,6 +1,6 @@
 /**
  * Enumeration of possible task filter types
- * Used for filtering tasks by completion status in the Todo List application
+ * Used for filtering tasks by completion status and due date in the Todo List application
  */
 export enum FilterType {
   /**
@@ -17,4 +17,30 @@ export enum FilterType {
    * Show only completed tasks
    */
   COMPLETED = 'completed',
-}
\ No newline at end of file
+  
+  /**
+   * Show only incomplete tasks due today
+   */
+  DUE_TODAY = 'dueToday',
+  
+  /**
+   * Show only incomplete tasks whose due date has passed
+   */
+  OVERDUE = 'overdue',
+}
+
+/**
+ * Structured filter combining a completion status with tags
+ * Used for filtering tasks by status and labels together
+ */
+export interface TaskFilter {
+  /**
+   * The completion status or due date filter to apply
+   */
+  status: FilterType;
+  
+  /**
+   * Tags a task must all carry to be shown; an empty list matches every task
+   */
+  tags: string[];
+}
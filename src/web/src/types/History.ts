@@ -0,0 +1,13 @@
+import { Task } from './Task';
+
+/**
+ * Undo/redo history of the task list.
+ * Each entry is a complete snapshot of the tasks at that point in time.
+ */
+export interface TaskHistory {
+  /** Snapshots that can be restored by undo, oldest first */
+  past: Task[][];
+
+  /** Snapshots that can be restored by redo, most recently undone last */
+  future: Task[][];
+}
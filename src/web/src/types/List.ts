@@ -0,0 +1,40 @@
+/**
+ * Interface defining the structure of a named task list (project)
+ * Every task belongs to exactly one list through its listId
+ */
+export interface TaskList {
+  /**
+   * Unique identifier for the list
+   */
+  id: string;
+  
+  /**
+   * The display name of the list
+   */
+  name: string;
+  
+  /**
+   * Whether the list has been archived and hidden from the main list navigation
+   */
+  archived: boolean;
+  
+  /**
+   * Timestamp when the list was created
+   */
+  createdAt: number;
+}
+
+/**
+ * Active and completed task counts for a single list
+ */
+export interface ListCounts {
+  /**
+   * Number of incomplete tasks in the list
+   */
+  active: number;
+  
+  /**
+   * Number of completed tasks in the list
+   */
+  completed: number;
+}
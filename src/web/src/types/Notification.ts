@@ -0,0 +1,55 @@
+/**
+ * Enumeration of notification severity levels, from least to most urgent
+ */
+export enum NotificationSeverity {
+  /**
+   * Neutral information, such as a completed background task
+   */
+  INFO = 'info',
+
+  /**
+   * Confirmation that an action succeeded
+   */
+  SUCCESS = 'success',
+
+  /**
+   * A problem the application worked around
+   */
+  WARNING = 'warning',
+
+  /**
+   * An action that failed
+   */
+  ERROR = 'error',
+}
+
+/**
+ * Interface defining a notification shown to the user as a toast
+ */
+export interface AppNotification {
+  /**
+   * Unique identifier for the notification
+   */
+  id: string;
+
+  /**
+   * How urgent the notification is
+   */
+  severity: NotificationSeverity;
+
+  /**
+   * The text shown to the user
+   */
+  message: string;
+
+  /**
+   * Timestamp when the notification was raised
+   */
+  createdAt: number;
+}
+
+/**
+ * Outcome of a todo list operation, so callers can react to failures
+ * A failure carries the message already shown to the user.
+ */
+export type OperationResult = { success: true } | { success: false; error: string };
@@ -0,0 +1,31 @@
+import { Task } from './Task';
+
+/**
+ * A compiled filter query that decides whether a task is shown
+ */
+export type TaskPredicate = (task: Task) => boolean;
+
+/**
+ * Interface defining a saved view: a named filter query shown as a filter tab
+ */
+export interface SavedView {
+  /**
+   * Unique identifier for the view
+   */
+  id: string;
+  
+  /**
+   * The name shown on the view's tab
+   */
+  name: string;
+  
+  /**
+   * The filter query, such as 'priority:high is:active "deploy"'
+   */
+  query: string;
+  
+  /**
+   * Timestamp when the view was created
+   */
+  createdAt: number;
+}
@@ -0,0 +1,27 @@
+import { FilterType } from './Filter';
+
+/**
+ * Interface defining the part of the application state reflected in the URL
+ * Exactly one of filter, viewId and taskId is set.
+ */
+export interface Route {
+  /**
+   * The status filter shown, or null when a view or a task is shown
+   */
+  filter: FilterType | null;
+
+  /**
+   * The ID of the saved view shown, or null
+   */
+  viewId: string | null;
+
+  /**
+   * The ID of the task linked to, or null
+   */
+  taskId: string | null;
+
+  /**
+   * The search query, empty when not searching
+   */
+  query: string;
+}
@@ -0,0 +1,96 @@
+/**
+ * Enumeration of the preset orders tasks can be shown in
+ * Used for choosing how the visible tasks are sorted in the Todo List application
+ */
+export enum SortMode {
+  /**
+   * The order the user arranged by dragging tasks
+   */
+  MANUAL = 'manual',
+  
+  /**
+   * Highest priority first, then oldest first
+   */
+  PRIORITY = 'priority',
+  
+  /**
+   * Earliest due date first, then highest priority first
+   */
+  DUE_DATE = 'dueDate',
+  
+  /**
+   * Oldest task first
+   */
+  CREATED = 'created',
+  
+  /**
+   * Alphabetical by task text
+   */
+  ALPHABETICAL = 'alphabetical',
+}
+
+/**
+ * Enumeration of the task fields tasks can be sorted by
+ */
+export enum SortField {
+  /**
+   * The manual order
+   */
+  ORDER = 'order',
+  
+  /**
+   * The priority level, ranked high, medium, low
+   */
+  PRIORITY = 'priority',
+  
+  /**
+   * The due date and time; tasks without a due date follow those with one
+   */
+  DUE_DATE = 'dueDate',
+  
+  /**
+   * The creation time
+   */
+  CREATED_AT = 'createdAt',
+  
+  /**
+   * The task text, ignoring case and accents
+   */
+  TEXT = 'text',
+}
+
+/**
+ * Enumeration of sort directions
+ */
+export enum SortDirection {
+  /**
+   * Smallest first: lowest priority, earliest time, A to Z
+   */
+  ASC = 'asc',
+  
+  /**
+   * Largest first: highest priority, latest time, Z to A
+   */
+  DESC = 'desc',
+}
+
+/**
+ * A single sort key: the field to compare and the direction to sort it in
+ */
+export interface SortKey {
+  /**
+   * The task field to compare
+   */
+  field: SortField;
+  
+  /**
+   * The direction to sort the field in
+   */
+  direction: SortDirection;
+}
+
+/**
+ * Sort keys applied in turn, each breaking ties left by the previous one
+ * For example: priority descending, then creation time ascending, then text ascending.
+ */
+export type SortSpec = SortKey[];
@@ -0,0 +1,89 @@
+/**
+ * A value that may be returned either synchronously or as a Promise.
+ * Storage adapters backed by synchronous APIs (localStorage, memory) return
+ * plain values, while asynchronous backends (IndexedDB) return Promises.
+ */
+export type MaybePromise<T> = T | Promise<T>;
+
+/**
+ * Enumeration of the storage backends the application can persist data to
+ */
+export enum StorageBackend {
+  /**
+   * Browser localStorage (default)
+   */
+  LOCAL_STORAGE = 'localStorage',
+
+  /**
+   * Volatile in-memory storage, useful for tests and private sessions
+   */
+  MEMORY = 'memory',
+
+  /**
+   * Browser IndexedDB database
+   */
+  INDEXED_DB = 'indexedDB',
+}
+
+/**
+ * Interface describing a key-value persistence backend.
+ * Every method may complete synchronously or asynchronously so that
+ * hooks can work against any backend without knowing its implementation.
+ */
+export interface StorageAdapter {
+  /**
+   * The backend implemented by this adapter
+   */
+  readonly backend: StorageBackend;
+
+  /**
+   * Loads the value stored under the key, or defaultValue if none exists
+   */
+  load<T>(key: string, defaultValue: T): MaybePromise<T>;
+
+  /**
+   * Saves a value under the key, resolving to true on success
+   */
+  save<T>(key: string, data: T): MaybePromise<boolean>;
+
+  /**
+   * Removes the value stored under the key, resolving to true on success
+   */
+  remove(key: string): MaybePromise<boolean>;
+
+  /**
+   * Lists the keys currently held by the adapter
+   */
+  list(): MaybePromise<string[]>;
+
+  /**
+   * Removes all application data held by the adapter
+   */
+  clear(): MaybePromise<boolean>;
+}
+
+/**
+ * A persisted record that failed validation on load and was set aside
+ * under the recovery key instead of being passed to the application
+ */
+export interface QuarantinedRecord {
+  /**
+   * The storage key the record was loaded from
+   */
+  key: string;
+
+  /**
+   * The record exactly as it was stored
+   */
+  value: unknown;
+
+  /**
+   * Why the record was rejected
+   */
+  reason: string;
+
+  /**
+   * Timestamp when the record was set aside
+   */
+  quarantinedAt: number;
+}
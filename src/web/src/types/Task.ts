@@ -8,6 +8,37 @@ export enum Priority {
   LOW = "low"
 }
 
+/**
+ * Enumeration of where a task's due date falls relative to now
+ * Used for highlighting tasks by urgency
+ */
+export enum DueStatus {
+  OVERDUE = "overdue",
+  TODAY = "today",
+  UPCOMING = "upcoming"
+}
+
+/**
+ * Interface defining the structure of a checklist item inside a task
+ * Subtasks break a task into steps, each with its own completion state
+ */
+export interface Subtask {
+  /**
+   * Unique identifier for the subtask
+   */
+  id: string;
+  
+  /**
+   * The text description of the subtask
+   */
+  text: string;
+  
+  /**
+   * Whether the subtask has been completed
+   */
+  completed: boolean;
+}
+
 /**
  * Interface defining the structure of a task in the todo list
  * Represents a single task item with all its properties
@@ -31,12 +62,59 @@ export interface Task {
   /**
    * The priority level of the task
    */
-  priority: string;
+  priority: Priority;
   
   /**
    * Timestamp when the task was created
    */
   createdAt: number;
+  
+  /**
+   * Identifier of the list the task belongs to
+   */
+  listId: string;
+  
+  /**
+   * Timestamp when the task was last modified
+   * Used to resolve conflicting edits made in different tabs
+   */
+  updatedAt?: number;
+  
+  /**
+   * Optional due date as a local calendar date (YYYY-MM-DD)
+   */
+  dueDate?: string;
+  
+  /**
+   * Optional due time of day as local time (HH:mm), only meaningful with a dueDate
+   */
+  dueTime?: string;
+  
+  /**
+   * Optional checklist of steps within the task
+   * A completed task never has open subtasks (see TaskUtils.toggleTaskStatus)
+   */
+  subtasks?: Subtask[];
+  
+  /**
+   * Optional labels for grouping and filtering, stored lowercase without the leading '#'
+   */
+  tags?: string[];
+  
+  /**
+   * Optional todo.txt '+project' names, stored without the leading '+'
+   */
+  projects?: string[];
+  
+  /**
+   * Optional todo.txt '@context' names, stored without the leading '@'
+   */
+  contexts?: string[];
+  
+  /**
+   * Optional position in the user's manual order; lower values come first
+   */
+  order?: number;
 }
 
 /**
@@ -53,7 +131,27 @@ export interface CreateTaskInput {
   /**
    * Optional priority level, defaults to medium if not specified
    */
-  priority?: string;
+  priority?: Priority;
+  
+  /**
+   * Optional due date (YYYY-MM-DD)
+   */
+  dueDate?: string;
+  
+  /**
+   * Optional due time (HH:mm), ignored without a dueDate
+   */
+  dueTime?: string;
+  
+  /**
+   * Optional labels for the task
+   */
+  tags?: string[];
+  
+  /**
+   * Optional list to add the task to, defaults to the Inbox
+   */
+  listId?: string;
 }
 
 /**
@@ -74,5 +172,20 @@ export interface UpdateTaskInput {
   /**
    * Optional updated priority level
    */
-  priority?: string;
+  priority?: Priority;
+  
+  /**
+   * Optional updated due date (YYYY-MM-DD), or null to remove the due date and time
+   */
+  dueDate?: string | null;
+  
+  /**
+   * Optional updated due time (HH:mm), or null to remove it
+   */
+  dueTime?: string | null;
+  
+  /**
+   * Optional replacement list of labels
+   */
+  tags?: string[];
 }
\ No newline at end of file
@@ -0,0 +1,141 @@
+import { Task } from './Task';
+import { TaskList } from './List';
+import { FilterType } from './Filter';
+
+/**
+ * Versioned document produced by exporting the workspace to JSON
+ */
+export interface WorkspaceExport {
+  /**
+   * Identifies the document as an export of this application
+   */
+  app: string;
+  
+  /**
+   * Version of the application that created the export
+   */
+  appVersion: string;
+  
+  /**
+   * Data schema version of the exported tasks, matching LocalStorageService.CURRENT_VERSION
+   */
+  schemaVersion: string;
+  
+  /**
+   * ISO timestamp of when the export was created
+   */
+  exportedAt: string;
+  
+  /**
+   * All tasks in the workspace
+   */
+  tasks: Task[];
+  
+  /**
+   * The filter selection at the time of export
+   */
+  filter: FilterType;
+  
+  /**
+   * The named lists the tasks belong to
+   */
+  lists: TaskList[];
+}
+
+/**
+ * Enumeration of the ways imported tasks can be combined with existing ones
+ */
+export enum ImportMode {
+  /**
+   * Add new tasks and resolve conflicting tasks by their last modification
+   */
+  MERGE = 'merge',
+  
+  /**
+   * Add new tasks and leave tasks that already exist untouched
+   */
+  SKIP_DUPLICATES = 'skipDuplicates',
+  
+  /**
+   * Discard the existing tasks and use the imported ones
+   */
+  REPLACE = 'replace',
+}
+
+/**
+ * A task that exists both in the workspace and in the import with different content
+ */
+export interface ImportConflict {
+  /**
+   * The task as it is in the workspace
+   */
+  current: Task;
+  
+  /**
+   * The task as it is in the import
+   */
+  incoming: Task;
+}
+
+/**
+ * Summary of what importing a document would change, shown before applying it
+ */
+export interface ImportPreview {
+  /**
+   * Imported tasks whose IDs do not exist in the workspace
+   */
+  additions: Task[];
+  
+  /**
+   * Imported tasks whose IDs exist in the workspace with different content
+   */
+  conflicts: ImportConflict[];
+  
+  /**
+   * Number of imported tasks identical to the workspace version
+   */
+  unchanged: number;
+}
+
+/**
+ * Task fields that can be read from and written to CSV columns
+ */
+export type CsvField = 'id' | 'text' | 'completed' | 'priority' | 'createdAt';
+
+/**
+ * Maps task fields to the index of the CSV column they are read from
+ * Unmapped fields fall back to the defaults used when creating a task
+ */
+export type CsvColumnMapping = {
+  [field in CsvField]?: number;
+};
+
+/**
+ * A row or line of an imported file that could not be imported
+ */
+export interface ImportRowError {
+  /**
+   * The 1-based number of the row in the file, counting any header row
+   */
+  row: number;
+  
+  /**
+   * Why the row was rejected
+   */
+  message: string;
+}
+
+/**
+ * Result of converting the rows of an imported file into tasks
+ */
+export interface TaskImportResult {
+  /**
+   * Tasks created from the valid rows
+   */
+  tasks: Task[];
+  
+  /**
+   * Rows that were rejected
+   */
+  errors: ImportRowError[];
+}
@@ -0,0 +1,149 @@
+import CsvUtils from './csvUtils';
+import { Task, Priority } from '../types/Task';
+
+// Helper function to create a mock task for testing
+const createMockTask = (overrides: Partial<Task> = {}): Task => ({
+  id: 'task-123',
+  text: 'Test task',
+  completed: false,
+  priority: Priority.MEDIUM,
+  createdAt: Date.UTC(2024, 0, 2),
+  listId: 'inbox',
+  ...overrides
+});
+
+describe('CsvUtils', () => {
+  describe('stringifyCsv', () => {
+    test('should quote fields containing delimiters, quotes, line breaks or edge spaces', () => {
+      expect(CsvUtils.stringifyCsv([['plain', 'a,b', 'say "hi"', 'two\nlines', ' padded']])).toBe(
+        'plain,"a,b","say ""hi""","two\nlines"," padded"\r\n'
+      );
+    });
+
+    test('should guard fields that spreadsheets would run as formulas', () => {
+      expect(CsvUtils.stringifyCsv([['=SUM(A1:A2)', '+1', '-1', '@cmd', "'=quoted"]])).toBe(
+        "'=SUM(A1:A2),'+1,'-1,'@cmd,''=quoted\r\n"
+      );
+    });
+  });
+
+  describe('parseCsv', () => {
+    test('should parse quoted fields, escaped quotes and embedded line breaks', () => {
+      expect(CsvUtils.parseCsv('text,priority\r\n"Buy milk, eggs",high\r\n"Say ""hi""\nto Bob",\r\n')).toEqual([
+        ['text', 'priority'],
+        ['Buy milk, eggs', 'high'],
+        ['Say "hi"\nto Bob', '']
+      ]);
+    });
+
+    test('should skip blank lines and a byte order mark', () => {
+      expect(CsvUtils.parseCsv('﻿text\n\nWalk dog\n')).toEqual([['text'], ['Walk dog']]);
+    });
+
+    test('should throw on an unterminated quoted field', () => {
+      expect(() => CsvUtils.parseCsv('text\n"Walk dog')).toThrow('unterminated quoted field');
+    });
+
+    test('should read back what tasksToCsv writes', () => {
+      const task = createMockTask({ text: 'Quote "this", please\nthanks', completed: true });
+      const [header, row] = CsvUtils.parseCsv(CsvUtils.tasksToCsv([task]));
+
+      expect(header).toEqual(['id', 'text', 'completed', 'priority', 'createdAt']);
+      expect(row).toEqual([task.id, task.text, 'true', 'medium', '2024-01-02T00:00:00.000Z']);
+    });
+
+    test('should remove the guard from formula-like fields', () => {
+      const fields = ['=HYPERLINK("x")', '-2 days', "'=quoted", "'plain"];
+
+      expect(CsvUtils.parseCsv(CsvUtils.stringifyCsv([fields]))).toEqual([fields]);
+    });
+  });
+
+  describe('guessColumnMapping', () => {
+    test('should recognize common header names', () => {
+      expect(CsvUtils.guessColumnMapping(['Title', 'Notes', 'Status', 'Priority', 'Created At'])).toEqual({
+        text: 0,
+        completed: 2,
+        priority: 3,
+        createdAt: 4
+      });
+    });
+  });
+
+  describe('parsePriority', () => {
+    test('should map free-text priorities onto the enum', () => {
+      expect(CsvUtils.parsePriority(' URGENT ')).toBe(Priority.HIGH);
+      expect(CsvUtils.parsePriority('p3')).toBe(Priority.LOW);
+      expect(CsvUtils.parsePriority('Normal')).toBe(Priority.MEDIUM);
+    });
+
+    test('should default to medium for empty or unknown values', () => {
+      expect(CsvUtils.parsePriority('')).toBe(Priority.MEDIUM);
+      expect(CsvUtils.parsePriority('whenever')).toBe(Priority.MEDIUM);
+    });
+  });
+
+  describe('rowsToTasks', () => {
+    test('should build tasks from the mapped columns', () => {
+      const { tasks, errors } = CsvUtils.rowsToTasks(
+        [['Done', 'Pay rent', 'High', '2024-01-02T00:00:00.000Z', 'task-7']],
+        { completed: 0, text: 1, priority: 2, createdAt: 3, id: 4 },
+        [],
+        'work'
+      );
+
+      expect(errors).toEqual([]);
+      expect(tasks).toEqual([
+        expect.objectContaining({
+          id: 'task-7',
+          text: 'Pay rent',
+          completed: true,
+          priority: Priority.HIGH,
+          createdAt: Date.UTC(2024, 0, 2),
+          listId: 'work'
+        })
+      ]);
+    });
+
+    test('should report rows with empty text or duplicate IDs', () => {
+      const { tasks, errors } = CsvUtils.rowsToTasks(
+        [['task-1', 'Walk dog'], ['task-2', '  '], ['task-1', 'Feed cat'], ['', '']],
+        { id: 0, text: 1 }
+      );
+
+      expect(tasks).toHaveLength(1);
+      expect(errors).toEqual([
+        { row: 3, message: 'Task text cannot be empty' },
+        { row: 4, message: 'Duplicate task ID "task-1"' }
+      ]);
+    });
+
+    test('should reuse the ID of an existing task with the same text', () => {
+      const existing = createMockTask({ id: 'task-existing', text: 'Walk dog' });
+
+      const { tasks } = CsvUtils.rowsToTasks([['walk dog']], { text: 0 }, [existing]);
+
+      expect(tasks[0].id).toBe('task-existing');
+    });
+
+    test('should update only the fields a row sets on an existing task', () => {
+      const existing = createMockTask({
+        id: 'task-1',
+        listId: 'list-work',
+        order: 3,
+        dueDate: '2024-03-01',
+        tags: ['home'],
+        subtasks: [{ id: 'subtask-1', text: 'Call', completed: false }]
+      });
+
+      const { tasks } = CsvUtils.rowsToTasks(
+        [['task-1', 'Renamed', '']],
+        { id: 0, text: 1, priority: 2 },
+        [existing],
+        'inbox'
+      );
+
+      expect(tasks).toEqual([{ ...existing, text: 'Renamed' }]);
+    });
+  });
+});
@@ -0,0 +1,321 @@
+/**
+ * Utility module for reading and writing tasks as CSV (RFC 4180) in the React Todo List application.
+ */
+import { Task, Priority } from '../types/Task';
+import { CsvField, CsvColumnMapping, TaskImportResult, ImportRowError } from '../types/Transfer';
+import TaskUtils from './taskUtils';
+
+/**
+ * Task fields written to CSV, in column order
+ */
+const CSV_FIELDS: CsvField[] = ['id', 'text', 'completed', 'priority', 'createdAt'];
+
+/**
+ * Header names recognized for each field when guessing a column mapping
+ */
+const HEADER_ALIASES: Record<CsvField, string[]> = {
+  id: ['id', 'taskid', 'uid'],
+  text: ['text', 'task', 'title', 'name', 'description', 'summary', 'todo'],
+  completed: ['completed', 'complete', 'done', 'status', 'finished'],
+  priority: ['priority', 'prio', 'importance', 'urgency'],
+  createdAt: ['createdat', 'created', 'createdon', 'date', 'added']
+};
+
+/**
+ * Free-text priority values mapped onto the Priority enum
+ */
+const PRIORITY_ALIASES: Record<string, Priority> = {
+  high: Priority.HIGH,
+  h: Priority.HIGH,
+  urgent: Priority.HIGH,
+  important: Priority.HIGH,
+  critical: Priority.HIGH,
+  top: Priority.HIGH,
+  p1: Priority.HIGH,
+  '!!!': Priority.HIGH,
+  medium: Priority.MEDIUM,
+  med: Priority.MEDIUM,
+  m: Priority.MEDIUM,
+  normal: Priority.MEDIUM,
+  default: Priority.MEDIUM,
+  p2: Priority.MEDIUM,
+  '!!': Priority.MEDIUM,
+  low: Priority.LOW,
+  l: Priority.LOW,
+  minor: Priority.LOW,
+  someday: Priority.LOW,
+  p3: Priority.LOW,
+  '!': Priority.LOW
+};
+
+/**
+ * Values read as a completed task; anything else is treated as incomplete
+ */
+const COMPLETED_VALUES = ['true', 'yes', 'y', '1', 'x', 'done', 'completed', 'complete', 'finished'];
+
+/**
+ * Matches fields that spreadsheets would run as formulas, optionally behind the apostrophes
+ * added to guard them, so that guarded fields are told apart from text starting with an apostrophe
+ */
+const FORMULA_PATTERN = /^'*[=+\-@\t\r]/;
+
+/**
+ * Quotes a field when it contains a delimiter, quote, line break or surrounding whitespace
+ * Fields starting like a formula are prefixed with an apostrophe, so spreadsheets show them as
+ * text instead of running them; parseCsv removes the apostrophe again.
+ * @param value - The field value
+ * @returns The field as it should appear in CSV
+ */
+const escapeField = (value: string): string => {
+  const guarded = FORMULA_PATTERN.test(value) ? `'${value}` : value;
+  if (/[",\r\n]/.test(guarded) || guarded !== guarded.trim()) {
+    return `"${guarded.replace(/"/g, '""')}"`;
+  }
+  return guarded;
+};
+
+/**
+ * Removes the apostrophe escapeField adds in front of fields starting like a formula
+ * @param value - The field as parsed
+ * @returns The field value
+ */
+const unguardField = (value: string): string => {
+  return value[0] === "'" && FORMULA_PATTERN.test(value) ? value.slice(1) : value;
+};
+
+/**
+ * Serializes rows of fields as CSV, with CRLF line endings
+ * @param rows - The rows to serialize
+ * @returns The CSV text
+ */
+const stringifyCsv = (rows: string[][]): string => {
+  return rows.map(row => row.map(escapeField).join(',')).join('\r\n') + '\r\n';
+};
+
+/**
+ * Parses CSV text into rows of fields
+ * Supports quoted fields containing delimiters, escaped quotes and line breaks,
+ * CRLF or LF line endings, and a leading byte order mark. Blank lines are skipped,
+ * and the apostrophe escapeField puts in front of formula-like fields is removed.
+ * @param text - The CSV text
+ * @returns The parsed rows
+ * @throws Error if a quoted field is not closed
+ */
+const parseCsv = (text: string): string[][] => {
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  // Ends the current row, dropping rows made of a single empty field
+  const endRow = () => {
+    row.push(unguardField(field));
+    if (row.length > 1 || row[0] !== '') {
+      rows.push(row);
+    }
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(unguardField(field));
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      // Treat CRLF as a single line break
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++;
+      }
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error('The CSV file has an unterminated quoted field');
+  }
+  if (field !== '' || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+};
+
+/**
+ * Converts tasks to CSV with a header row
+ * @param tasks - The tasks to export
+ * @returns The CSV text
+ */
+const tasksToCsv = (tasks: Task[]): string => {
+  const rows = tasks.map(task => [
+    task.id,
+    task.text,
+    String(task.completed),
+    task.priority,
+    new Date(task.createdAt).toISOString()
+  ]);
+  return stringifyCsv([CSV_FIELDS, ...rows]);
+};
+
+/**
+ * Guesses which column holds each task field from the header names
+ * @param headers - The header row
+ * @returns The mapping of recognized fields to column indexes
+ */
+const guessColumnMapping = (headers: string[]): CsvColumnMapping => {
+  const normalizedHeaders = headers.map(header => header.toLowerCase().replace(/[^a-z0-9]/g, ''));
+  const mapping: CsvColumnMapping = {};
+
+  CSV_FIELDS.forEach(field => {
+    const index = normalizedHeaders.findIndex(header => HEADER_ALIASES[field].includes(header));
+    if (index !== -1) {
+      mapping[field] = index;
+    }
+  });
+
+  return mapping;
+};
+
+/**
+ * Maps a free-text priority onto the Priority enum
+ * @param value - The priority as written in the file
+ * @returns The matching priority, or medium if the value is empty or unrecognized
+ */
+const parsePriority = (value: string | undefined): Priority => {
+  return PRIORITY_ALIASES[(value ?? '').trim().toLowerCase()] ?? Priority.MEDIUM;
+};
+
+/**
+ * Reads a completion value such as "true", "yes", "x" or "done"
+ * @param value - The completion value as written in the file
+ * @returns True if the value marks the task as completed
+ */
+const parseCompleted = (value: string | undefined): boolean => {
+  return COMPLETED_VALUES.includes((value ?? '').trim().toLowerCase());
+};
+
+/**
+ * Reads a creation time given as a date string or as milliseconds since the epoch
+ * @param value - The creation time as written in the file
+ * @returns The timestamp in milliseconds, or null if the value is empty or invalid
+ */
+const parseCreatedAt = (value: string | undefined): number | null => {
+  const trimmedValue = (value ?? '').trim();
+  if (!trimmedValue) {
+    return null;
+  }
+  const timestamp = /^\d+$/.test(trimmedValue) ? Number(trimmedValue) : Date.parse(trimmedValue);
+  return Number.isNaN(timestamp) ? null : timestamp;
+};
+
+/**
+ * Converts mapped CSV rows into tasks, reporting rows that cannot be imported
+ * Rows without a mapped ID reuse the ID of an existing task with the same text, so that
+ * re-importing a spreadsheet produces duplicates that can be skipped or merged.
+ * A row matching an existing task updates only the fields it sets, so the task keeps
+ * its list, order, due date, tags and subtasks when the import is merged.
+ * @param rows - The data rows, without the header row
+ * @param mapping - The columns to read each field from; the text column is required
+ * @param existingTasks - The tasks already in the workspace
+ * @param listId - The list to add the tasks to
+ * @returns The imported tasks and the rejected rows
+ */
+const rowsToTasks = (
+  rows: string[][],
+  mapping: CsvColumnMapping,
+  existingTasks: Task[] = [],
+  listId?: string
+): TaskImportResult => {
+  const tasks: Task[] = [];
+  const errors: ImportRowError[] = [];
+  const seenIds = new Set<string>();
+  const existingIdsByText = new Map(existingTasks.map(task => [task.text.toLowerCase(), task.id]));
+  const existingById = new Map(existingTasks.map(task => [task.id, task]));
+
+  // Reads a mapped field from a row, or undefined if the field is not mapped
+  const read = (row: string[], field: CsvField): string | undefined =>
+    mapping[field] === undefined ? undefined : row[mapping[field] as number];
+
+  rows.forEach((row, index) => {
+    // Line numbers count the header row
+    const rowNumber = index + 2;
+    const text = read(row, 'text') ?? '';
+
+    // Rows of empty cells, such as trailing spreadsheet rows, are ignored
+    if (row.every(cell => !cell.trim())) {
+      return;
+    }
+
+    if (!TaskUtils.validateTaskText(text)) {
+      errors.push({ row: rowNumber, message: 'Task text cannot be empty' });
+      return;
+    }
+
+    const task = TaskUtils.createTask({ text, priority: parsePriority(read(row, 'priority')), listId });
+    const id = (read(row, 'id') ?? '').trim() || existingIdsByText.get(task.text.toLowerCase()) || task.id;
+
+    if (seenIds.has(id)) {
+      errors.push({ row: rowNumber, message: `Duplicate task ID "${id}"` });
+      return;
+    }
+    seenIds.add(id);
+
+    const createdAt = parseCreatedAt(read(row, 'createdAt'));
+    const imported: Task = {
+      ...task,
+      id,
+      completed: parseCompleted(read(row, 'completed')),
+      createdAt: createdAt ?? task.createdAt
+    };
+
+    const existing = existingById.get(id);
+    if (!existing) {
+      tasks.push(imported);
+      return;
+    }
+
+    // Blank priority and creation cells leave the existing values alone
+    const fields: (keyof Task)[] = ['text'];
+    if (mapping.completed !== undefined) {
+      fields.push('completed');
+    }
+    if ((read(row, 'priority') ?? '').trim()) {
+      fields.push('priority');
+    }
+    if (createdAt !== null) {
+      fields.push('createdAt');
+    }
+    tasks.push(TaskUtils.overlayTaskFields(existing, imported, fields));
+  });
+
+  return { tasks, errors };
+};
+
+// Export CSV functions as a default object for convenient importing
+export default {
+  CSV_FIELDS,
+  escapeField,
+  stringifyCsv,
+  parseCsv,
+  tasksToCsv,
+  guessColumnMapping,
+  parsePriority,
+  parseCompleted,
+  parseCreatedAt,
+  rowsToTasks
+};
@@ -0,0 +1,102 @@
+import HistoryUtils from './historyUtils';
+import { Task, Priority } from '../types/Task';
+
+// Helper function to create a mock task for testing
+const createMockTask = (overrides: Partial<Task> = {}): Task => ({
+  id: 'task-123',
+  text: 'Test task',
+  completed: false,
+  priority: Priority.MEDIUM,
+  createdAt: 1623456789000,
+  ...overrides
+});
+
+describe('HistoryUtils', () => {
+  const first = [createMockTask({ id: 'task-1' })];
+  const second = [...first, createMockTask({ id: 'task-2' })];
+  const third = [...second, createMockTask({ id: 'task-3' })];
+
+  describe('normalize', () => {
+    test('should return valid histories unchanged', () => {
+      const history = { past: [first], future: [] };
+      expect(HistoryUtils.normalize(history)).toBe(history);
+    });
+
+    test('should replace malformed values with an empty history', () => {
+      expect(HistoryUtils.normalize(null)).toEqual({ past: [], future: [] });
+      expect(HistoryUtils.normalize('all')).toEqual({ past: [], future: [] });
+      expect(HistoryUtils.normalize({ past: [] })).toEqual({ past: [], future: [] });
+    });
+  });
+
+  describe('record', () => {
+    test('should add the previous tasks and clear the redo entries', () => {
+      const history = HistoryUtils.record({ past: [first], future: [third] }, second);
+
+      expect(history).toEqual({ past: [first, second], future: [] });
+    });
+
+    test('should drop the oldest entries beyond the maximum size', () => {
+      let history = HistoryUtils.createHistory();
+      history = HistoryUtils.record(history, first, 2);
+      history = HistoryUtils.record(history, second, 2);
+      history = HistoryUtils.record(history, third, 2);
+
+      expect(history.past).toEqual([second, third]);
+    });
+
+    test('should drop the oldest entries beyond the size budget', () => {
+      const maxBytes = HistoryUtils.getSnapshotSize(second) + HistoryUtils.getSnapshotSize(third);
+      let history = HistoryUtils.createHistory();
+      history = HistoryUtils.record(history, first, 50, maxBytes);
+      history = HistoryUtils.record(history, second, 50, maxBytes);
+      history = HistoryUtils.record(history, third, 50, maxBytes);
+
+      expect(history.past).toEqual([second, third]);
+    });
+  });
+
+  describe('limitSize', () => {
+    test('should return histories within the budget unchanged', () => {
+      const history = { past: [first], future: [second] };
+      expect(HistoryUtils.limitSize(history)).toBe(history);
+    });
+
+    test('should keep recent undo entries in preference to redo entries', () => {
+      const maxBytes = HistoryUtils.getSnapshotSize(second) + HistoryUtils.getSnapshotSize(first);
+      const history = HistoryUtils.limitSize({ past: [third, second], future: [third, first] }, maxBytes);
+
+      expect(history).toEqual({ past: [second], future: [first] });
+    });
+  });
+
+  describe('undo', () => {
+    test('should restore the last recorded tasks and allow redoing', () => {
+      const result = HistoryUtils.undo({ past: [first, second], future: [] }, third);
+
+      expect(result).toEqual({
+        tasks: second,
+        history: { past: [first], future: [third] }
+      });
+    });
+
+    test('should return null when there is nothing to undo', () => {
+      expect(HistoryUtils.undo(HistoryUtils.createHistory(), first)).toBeNull();
+    });
+  });
+
+  describe('redo', () => {
+    test('should reapply the last undone tasks and allow undoing again', () => {
+      const result = HistoryUtils.redo({ past: [first], future: [third] }, second);
+
+      expect(result).toEqual({
+        tasks: third,
+        history: { past: [first, second], future: [] }
+      });
+    });
+
+    test('should return null when there is nothing to redo', () => {
+      expect(HistoryUtils.redo(HistoryUtils.createHistory(), first)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * Utility module for managing the undo/redo history of the task list.
+ * All functions are pure and return new history objects rather than mutating.
+ */
+import { Task } from '../types/Task';
+import { TaskHistory } from '../types/History';
+
+/**
+ * Maximum number of snapshots kept in each direction.
+ */
+const MAX_HISTORY_SIZE = 50;
+
+/**
+ * Maximum size of the persisted history, in the bytes counted by LocalStorageService.getStorageUsage.
+ * Each snapshot holds every task, so with large lists the entry limit alone would fill the storage quota.
+ */
+const MAX_HISTORY_BYTES = 512 * 1024;
+
+// Serialized sizes of the snapshots measured so far; snapshots are never mutated, so sizes stay valid
+const snapshotSizes = new WeakMap<Task[], number>();
+
+/**
+ * Creates an empty history
+ * @returns A history with nothing to undo or redo
+ */
+const createHistory = (): TaskHistory => ({ past: [], future: [] });
+
+/**
+ * Returns a valid history from a possibly malformed persisted value
+ * @param value - The value loaded from storage
+ * @returns The value if it is a valid history, otherwise an empty history
+ */
+const normalize = (value: unknown): TaskHistory => {
+  const history = value as TaskHistory | null;
+  if (!history || !Array.isArray(history.past) || !Array.isArray(history.future)) {
+    return createHistory();
+  }
+  return history;
+};
+
+/**
+ * Returns the size of a snapshot once serialized, as counted by LocalStorageService.getStorageUsage
+ * @param tasks - The snapshot to measure
+ * @returns The size in bytes
+ */
+const getSnapshotSize = (tasks: Task[]): number => {
+  let size = snapshotSizes.get(tasks);
+  if (size === undefined) {
+    // Stored strings take 2 bytes per UTF-16 character
+    size = JSON.stringify(tasks).length * 2;
+    snapshotSizes.set(tasks, size);
+  }
+  return size;
+};
+
+/**
+ * Drops the oldest entries until the history fits within a size budget.
+ * Undo entries are kept in preference to redo entries, and recent entries in preference to older ones.
+ * @param history - The history to limit
+ * @param maxBytes - Maximum total size of the snapshots, in bytes
+ * @returns The history itself if it fits, otherwise a history with the oldest entries dropped
+ */
+const limitSize = (history: TaskHistory, maxBytes: number = MAX_HISTORY_BYTES): TaskHistory => {
+  let remaining = maxBytes;
+
+  // Keep the most recent entries, which are last in both directions, while they fit
+  const keepRecent = (entries: Task[][]): Task[][] => {
+    let start = entries.length;
+    while (start > 0 && getSnapshotSize(entries[start - 1]) <= remaining) {
+      remaining -= getSnapshotSize(entries[start - 1]);
+      start--;
+    }
+    return start === 0 ? entries : entries.slice(start);
+  };
+
+  const past = keepRecent(history.past);
+  const future = keepRecent(history.future);
+  return past === history.past && future === history.future ? history : { past, future };
+};
+
+/**
+ * Records the tasks as they were before a change, discarding any redo entries
+ * @param history - The current history
+ * @param previousTasks - The tasks before the change
+ * @param maxSize - Maximum number of undo entries to keep
+ * @param maxBytes - Maximum total size of the undo entries, in bytes
+ * @returns The updated history
+ */
+const record = (
+  history: TaskHistory,
+  previousTasks: Task[],
+  maxSize: number = MAX_HISTORY_SIZE,
+  maxBytes: number = MAX_HISTORY_BYTES
+): TaskHistory => {
+  // Drop the oldest entries once either bound is reached
+  const past = [...history.past, previousTasks].slice(-maxSize);
+  return limitSize({ past, future: [] }, maxBytes);
+};
+
+/**
+ * Steps back one entry in the history
+ * @param history - The current history
+ * @param currentTasks - The tasks currently shown, which become the redo entry
+ * @returns The restored tasks and updated history, or null if there is nothing to undo
+ */
+const undo = (history: TaskHistory, currentTasks: Task[]): { tasks: Task[]; history: TaskHistory } | null => {
+  if (history.past.length === 0) {
+    return null;
+  }
+
+  const tasks = history.past[history.past.length - 1];
+  return {
+    tasks,
+    history: limitSize({
+      past: history.past.slice(0, -1),
+      future: [...history.future, currentTasks].slice(-MAX_HISTORY_SIZE)
+    })
+  };
+};
+
+/**
+ * Steps forward one entry in the history
+ * @param history - The current history
+ * @param currentTasks - The tasks currently shown, which become the undo entry
+ * @returns The restored tasks and updated history, or null if there is nothing to redo
+ */
+const redo = (history: TaskHistory, currentTasks: Task[]): { tasks: Task[]; history: TaskHistory } | null => {
+  if (history.future.length === 0) {
+    return null;
+  }
+
+  const tasks = history.future[history.future.length - 1];
+  return {
+    tasks,
+    history: limitSize({
+      past: [...history.past, currentTasks].slice(-MAX_HISTORY_SIZE),
+      future: history.future.slice(0, -1)
+    })
+  };
+};
+
+// Export history functions as a default object for convenient importing
+export default {
+  MAX_HISTORY_SIZE,
+  MAX_HISTORY_BYTES,
+  createHistory,
+  normalize,
+  getSnapshotSize,
+  limitSize,
+  record,
+  undo,
+  redo
+};
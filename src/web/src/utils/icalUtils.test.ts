@@ -0,0 +1,227 @@
+import IcalUtils from './icalUtils';
+import { Task, Priority } from '../types/Task';
+
+// Helper function to create a mock task for testing
+const createMockTask = (overrides: Partial<Task> = {}): Task => ({
+  id: 'task-123',
+  text: 'Test task',
+  completed: false,
+  priority: Priority.MEDIUM,
+  createdAt: Date.UTC(2024, 0, 2, 9, 30),
+  listId: 'inbox',
+  ...overrides
+});
+
+// Fixed export time used as DTSTAMP
+const NOW = Date.UTC(2024, 0, 10, 12);
+
+describe('IcalUtils', () => {
+  describe('escapeText', () => {
+    test('should escape backslashes, semicolons, commas and line breaks', () => {
+      expect(IcalUtils.escapeText('a\\b; c, d\ne')).toBe('a\\\\b\\; c\\, d\\ne');
+    });
+
+    test('should be reversed by unescapeText', () => {
+      const text = 'Path C:\\temp; call Bob, Alice\nthen "rest"';
+      expect(IcalUtils.unescapeText(IcalUtils.escapeText(text))).toBe(text);
+    });
+
+    test('should split lists only at unescaped commas', () => {
+      expect(IcalUtils.splitTextList('work,a\\,b,c\\\\')).toEqual(['work', 'a,b', 'c\\']);
+    });
+  });
+
+  describe('foldLine', () => {
+    test('should leave lines of up to 75 octets unchanged', () => {
+      const line = `SUMMARY:${'x'.repeat(67)}`;
+      expect(IcalUtils.foldLine(line)).toBe(line);
+    });
+
+    test('should fold long lines into parts of at most 75 octets with a leading space', () => {
+      const line = `SUMMARY:${'x'.repeat(200)}`;
+      const parts = IcalUtils.foldLine(line).split('\r\n');
+
+      expect(parts.length).toBe(3);
+      expect(parts[0]).toHaveLength(75);
+      expect(parts.slice(1).every(part => part.startsWith(' ') && part.length <= 75)).toBe(true);
+      expect(IcalUtils.unfoldLines(parts.join('\r\n'))).toEqual([line]);
+    });
+
+    test('should count UTF-8 octets and never split a multi-byte character', () => {
+      const line = `SUMMARY:${'é'.repeat(40)}`;
+      const parts = IcalUtils.foldLine(line).split('\r\n');
+      const octets = (part: string) => Buffer.byteLength(part, 'utf8');
+
+      expect(parts.every(part => octets(part) <= 75)).toBe(true);
+      expect(parts.map((part, index) => (index === 0 ? part : part.slice(1))).join('')).toBe(line);
+    });
+  });
+
+  describe('tasksToIcal', () => {
+    test('should write a calendar with one VTODO per task and CRLF line endings', () => {
+      const tasks = [
+        createMockTask({ text: 'Call Bob, then Alice', priority: Priority.HIGH, tags: ['phone'] }),
+        createMockTask({
+          id: 'task-2',
+          completed: true,
+          priority: Priority.LOW,
+          updatedAt: Date.UTC(2024, 0, 3),
+          dueDate: '2024-01-05'
+        })
+      ];
+
+      expect(IcalUtils.tasksToIcal(tasks, NOW)).toBe(
+        [
+          'BEGIN:VCALENDAR',
+          'VERSION:2.0',
+          'PRODID:-//React Todo List//Tasks//EN',
+          'CALSCALE:GREGORIAN',
+          'BEGIN:VTODO',
+          'UID:task-123',
+          'DTSTAMP:20240110T120000Z',
+          'CREATED:20240102T093000Z',
+          'SUMMARY:Call Bob\\, then Alice',
+          'PRIORITY:1',
+          'STATUS:NEEDS-ACTION',
+          'CATEGORIES:phone',
+          'END:VTODO',
+          'BEGIN:VTODO',
+          'UID:task-2',
+          'DTSTAMP:20240110T120000Z',
+          'CREATED:20240102T093000Z',
+          'SUMMARY:Test task',
+          'PRIORITY:9',
+          'STATUS:COMPLETED',
+          'LAST-MODIFIED:20240103T000000Z',
+          'COMPLETED:20240103T000000Z',
+          'DUE;VALUE=DATE:20240105',
+          'END:VTODO',
+          'END:VCALENDAR',
+          ''
+        ].join('\r\n')
+      );
+    });
+
+    test('should write due times as floating local date-times', () => {
+      const ical = IcalUtils.tasksToIcal([createMockTask({ dueDate: '2024-01-05', dueTime: '18:30' })], NOW);
+      expect(ical).toContain('\r\nDUE:20240105T183000\r\n');
+    });
+  });
+
+  describe('parseIcal', () => {
+    test('should round-trip tasks through an iCalendar file', () => {
+      const tasks = [
+        createMockTask({
+          text: 'Plan the offsite; book rooms, catering and travel for everyone on the team',
+          priority: Priority.HIGH,
+          dueDate: '2024-01-05',
+          dueTime: '18:30',
+          tags: ['work', 'q1']
+        }),
+        createMockTask({ id: 'task-2', completed: true, priority: Priority.LOW, updatedAt: Date.UTC(2024, 0, 3) }),
+        createMockTask({ id: 'task-3', dueDate: '2024-02-01' })
+      ];
+
+      const { tasks: parsed, errors } = IcalUtils.parseIcal(IcalUtils.tasksToIcal(tasks, NOW), 'inbox');
+
+      expect(errors).toEqual([]);
+      expect(parsed).toEqual(tasks);
+    });
+
+    test('should update only the fields iCalendar carries on existing tasks', () => {
+      const existing = createMockTask({
+        id: 'task-1',
+        listId: 'list-work',
+        order: 2,
+        createdAt: Date.UTC(2024, 0, 2, 9, 30, 15, 250),
+        updatedAt: Date.UTC(2024, 0, 3, 8, 0, 0, 500),
+        subtasks: [{ id: 'subtask-1', text: 'Call', completed: true }],
+        projects: ['launch']
+      });
+      const edited = { ...existing, text: 'Edited elsewhere', dueDate: '2024-01-05', tags: ['work'] };
+
+      const { tasks } = IcalUtils.parseIcal(IcalUtils.tasksToIcal([edited], NOW), 'inbox', [existing]);
+
+      expect(tasks).toEqual([edited]);
+    });
+
+    test('should read to-dos written by other calendar clients', () => {
+      const content = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'BEGIN:VEVENT',
+        'UID:event-1',
+        'SUMMARY:Not a task',
+        'END:VEVENT',
+        'BEGIN:VTODO',
+        'UID:abc@example.com',
+        'DTSTAMP:20240101T000000Z',
+        'SUMMARY;LANGUAGE=en:Renew passport and book the appointment at the office bef',
+        ' ore it closes',
+        'PRIORITY:3',
+        'DUE:20240105T170000Z',
+        'BEGIN:VALARM',
+        'ACTION:DISPLAY',
+        'DESCRIPTION:Reminder',
+        'END:VALARM',
+        'STATUS:IN-PROCESS',
+        'END:VTODO',
+        'END:VCALENDAR'
+      ].join('\n');
+
+      const { tasks, errors } = IcalUtils.parseIcal(content, 'work');
+      const due = new Date(Date.UTC(2024, 0, 5, 17));
+
+      expect(errors).toEqual([]);
+      expect(tasks).toHaveLength(1);
+      expect(tasks[0]).toMatchObject({
+        id: 'abc@example.com',
+        text: 'Renew passport and book the appointment at the office before it closes',
+        priority: Priority.HIGH,
+        completed: false,
+        createdAt: Date.UTC(2024, 0, 1),
+        listId: 'work',
+        dueDate: `${due.getFullYear()}-${String(due.getMonth() + 1).padStart(2, '0')}-${String(due.getDate()).padStart(2, '0')}`,
+        dueTime: `${String(due.getHours()).padStart(2, '0')}:00`
+      });
+    });
+
+    test('should map PRIORITY values onto priorities', () => {
+      expect(IcalUtils.parsePriorityValue('4')).toBe(Priority.HIGH);
+      expect(IcalUtils.parsePriorityValue('5')).toBe(Priority.MEDIUM);
+      expect(IcalUtils.parsePriorityValue('0')).toBe(Priority.MEDIUM);
+      expect(IcalUtils.parsePriorityValue(undefined)).toBe(Priority.MEDIUM);
+      expect(IcalUtils.parsePriorityValue('6')).toBe(Priority.LOW);
+    });
+
+    test('should report to-dos without a summary or with a duplicate UID', () => {
+      const content = [
+        'BEGIN:VCALENDAR',
+        'BEGIN:VTODO',
+        'UID:a',
+        'SUMMARY:First',
+        'END:VTODO',
+        'BEGIN:VTODO',
+        'UID:b',
+        'END:VTODO',
+        'BEGIN:VTODO',
+        'UID:a',
+        'SUMMARY:Again',
+        'END:VTODO',
+        'END:VCALENDAR'
+      ].join('\r\n');
+
+      const { tasks, errors } = IcalUtils.parseIcal(content);
+
+      expect(tasks.map(task => task.text)).toEqual(['First']);
+      expect(errors).toEqual([
+        { row: 2, message: 'Task text cannot be empty' },
+        { row: 3, message: 'Duplicate task ID "a"' }
+      ]);
+    });
+
+    test('should reject content that is not an iCalendar file', () => {
+      expect(() => IcalUtils.parseIcal('id,text\n1,Walk dog')).toThrow('The file is not an iCalendar file');
+    });
+  });
+});
@@ -0,0 +1,413 @@
+/**
+ * Utility module for converting tasks to and from iCalendar (RFC 5545) VTODO components in the React Todo List application.
+ * Each task becomes one VTODO: UID from the ID, SUMMARY from the text, PRIORITY from the priority,
+ * STATUS from the completion state and CREATED from the creation time.
+ */
+import { Task, Priority } from '../types/Task';
+import { ImportRowError, TaskImportResult } from '../types/Transfer';
+import TaskUtils from './taskUtils';
+
+/**
+ * Product identifier written into every calendar
+ */
+const PRODUCT_ID = '-//React Todo List//Tasks//EN';
+
+/**
+ * Maximum length of a content line in octets, excluding the line break
+ */
+const MAX_LINE_OCTETS = 75;
+
+/**
+ * iCalendar PRIORITY values written for each priority level (1 is highest, 9 is lowest)
+ */
+const PRIORITY_VALUES: Record<string, number> = {
+  [Priority.HIGH]: 1,
+  [Priority.MEDIUM]: 5,
+  [Priority.LOW]: 9
+};
+
+/**
+ * Task fields read from a VTODO component; an existing task with the same UID keeps its other fields
+ */
+const ICAL_FIELDS: (keyof Task)[] = ['text', 'completed', 'priority', 'dueDate', 'dueTime', 'tags'];
+
+/**
+ * A content line split into its property name, parameters and value
+ */
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+/**
+ * Escapes a TEXT value: backslashes, semicolons, commas and line breaks
+ * @param value - The text to escape
+ * @returns The escaped value
+ */
+const escapeText = (value: string): string => {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+};
+
+/**
+ * Reverses the escaping of a TEXT value
+ * @param value - The escaped value
+ * @returns The original text
+ */
+const unescapeText = (value: string): string => {
+  return value.replace(/\\([\\;,nN])/g, (_match, char: string) => (char.toLowerCase() === 'n' ? '\n' : char));
+};
+
+/**
+ * Splits a list of TEXT values at the commas that are not escaped, unescaping each value
+ * @param value - The escaped, comma-separated values
+ * @returns The values
+ */
+const splitTextList = (value: string): string[] => {
+  const items: string[] = [];
+  let current = '';
+  for (let i = 0; i < value.length; i++) {
+    if (value[i] === '\\' && i + 1 < value.length) {
+      current += value[i] + value[i + 1];
+      i++;
+    } else if (value[i] === ',') {
+      items.push(current);
+      current = '';
+    } else {
+      current += value[i];
+    }
+  }
+  items.push(current);
+  return items.map(unescapeText);
+};
+
+/**
+ * Counts the octets a character takes up in UTF-8
+ * @param char - A single character, possibly a surrogate pair
+ * @returns The number of octets
+ */
+const getOctetLength = (char: string): number => {
+  const codePoint = char.codePointAt(0) ?? 0;
+  if (codePoint < 0x80) {
+    return 1;
+  }
+  if (codePoint < 0x800) {
+    return 2;
+  }
+  return codePoint < 0x10000 ? 3 : 4;
+};
+
+/**
+ * Folds a content line so that no line exceeds 75 octets
+ * Continuation lines start with a single space, and characters are never split.
+ * @param line - The unfolded content line
+ * @returns The folded line, with CRLF between the parts
+ */
+const foldLine = (line: string): string => {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  Array.from(line).forEach(char => {
+    const length = getOctetLength(char);
+    if (octets + length > MAX_LINE_OCTETS) {
+      parts.push(current);
+      // The leading space of a continuation line counts towards its length
+      current = ' ';
+      octets = 1;
+    }
+    current += char;
+    octets += length;
+  });
+  parts.push(current);
+
+  return parts.join('\r\n');
+};
+
+/**
+ * Joins folded content lines back together and splits the content into lines
+ * @param content - The iCalendar content
+ * @returns The unfolded, non-empty content lines
+ */
+const unfoldLines = (content: string): string[] => {
+  return content
+    .replace(/\r?\n[ \t]/g, '')
+    .split(/\r?\n/)
+    .filter(line => line.length > 0);
+};
+
+/**
+ * Formats a timestamp as a UTC DATE-TIME value (YYYYMMDDTHHMMSSZ)
+ * @param timestamp - The timestamp in milliseconds
+ * @returns The DATE-TIME value
+ */
+const formatDateTime = (timestamp: number): string => {
+  return new Date(timestamp).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+};
+
+/**
+ * Parses a DATE (YYYYMMDD) or DATE-TIME (YYYYMMDDTHHMMSS, optionally ending in Z) value
+ * DATE-TIME values without Z are floating and read as local time.
+ * @param value - The value to parse
+ * @returns The date, or null if the value is invalid
+ */
+const parseDateTime = (value: string): Date | null => {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+
+  const [year, month, day, hours, minutes, seconds] = match.slice(1, 7).map(part => Number(part ?? 0));
+  const date = match[7]
+    ? new Date(Date.UTC(year, month - 1, day, hours, minutes, seconds))
+    : new Date(year, month - 1, day, hours, minutes, seconds);
+  return Number.isNaN(date.getTime()) ? null : date;
+};
+
+/**
+ * Maps an iCalendar PRIORITY value onto the Priority enum
+ * 1-4 is high, 5 or undefined (0) is medium and 6-9 is low.
+ * @param value - The PRIORITY value, if any
+ * @returns The matching priority
+ */
+const parsePriorityValue = (value: string | undefined): Priority => {
+  const priority = Number(value);
+  if (!Number.isInteger(priority) || priority < 1 || priority === 5 || priority > 9) {
+    return Priority.MEDIUM;
+  }
+  return priority < 5 ? Priority.HIGH : Priority.LOW;
+};
+
+/**
+ * Splits a content line into its name, parameters and value
+ * The value starts at the first colon outside a quoted parameter value.
+ * @param line - The unfolded content line
+ * @returns The parsed line, or null if it has no value
+ */
+const parseContentLine = (line: string): ContentLine | null => {
+  let inQuotes = false;
+  let colonIndex = -1;
+  for (let i = 0; i < line.length && colonIndex === -1; i++) {
+    if (line[i] === '"') {
+      inQuotes = !inQuotes;
+    } else if (line[i] === ':' && !inQuotes) {
+      colonIndex = i;
+    }
+  }
+  if (colonIndex === -1) {
+    return null;
+  }
+
+  const [name, ...paramParts] = line.slice(0, colonIndex).split(';');
+  const params: Record<string, string> = {};
+  paramParts.forEach(part => {
+    const [key, ...rest] = part.split('=');
+    params[key.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '');
+  });
+
+  return { name: name.toUpperCase(), params, value: line.slice(colonIndex + 1) };
+};
+
+/**
+ * Converts a task into the content lines of a VTODO component, before folding
+ * @param task - The task to convert
+ * @param now - The time written as DTSTAMP
+ * @returns The content lines
+ */
+const taskToVTodo = (task: Task, now: number): string[] => {
+  const lines = [
+    'BEGIN:VTODO',
+    `UID:${task.id}`,
+    `DTSTAMP:${formatDateTime(now)}`,
+    `CREATED:${formatDateTime(task.createdAt)}`,
+    `SUMMARY:${escapeText(task.text)}`,
+    `PRIORITY:${PRIORITY_VALUES[task.priority] ?? PRIORITY_VALUES[Priority.MEDIUM]}`,
+    `STATUS:${task.completed ? 'COMPLETED' : 'NEEDS-ACTION'}`
+  ];
+
+  if (task.updatedAt) {
+    lines.push(`LAST-MODIFIED:${formatDateTime(task.updatedAt)}`);
+  }
+  if (task.completed) {
+    lines.push(`COMPLETED:${formatDateTime(task.updatedAt ?? task.createdAt)}`);
+  }
+  if (task.dueDate) {
+    // Due times are local, so they are written as floating DATE-TIME values
+    const date = task.dueDate.replace(/-/g, '');
+    lines.push(
+      task.dueTime ? `DUE:${date}T${task.dueTime.replace(':', '')}00` : `DUE;VALUE=DATE:${date}`
+    );
+  }
+  if (task.tags && task.tags.length > 0) {
+    lines.push(`CATEGORIES:${task.tags.map(escapeText).join(',')}`);
+  }
+
+  lines.push('END:VTODO');
+  return lines;
+};
+
+/**
+ * Converts tasks into an iCalendar file with one VTODO per task
+ * @param tasks - The tasks to export
+ * @param now - The export time in milliseconds, defaults to the current time
+ * @returns The iCalendar content, with folded lines and CRLF line endings
+ */
+const tasksToIcal = (tasks: Task[], now: number = Date.now()): string => {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    ...tasks.flatMap(task => taskToVTodo(task, now)),
+    'END:VCALENDAR'
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+/**
+ * Converts the properties of a VTODO component into a task
+ * @param properties - The component's content lines
+ * @param listId - The list to add the task to
+ * @returns The task
+ * @throws Error if the component has no summary or an invalid due date
+ */
+const vTodoToTask = (properties: ContentLine[], listId?: string): Task => {
+  const find = (name: string): ContentLine | undefined => properties.find(line => line.name === name);
+  const readDate = (name: string): Date | null => {
+    const line = find(name);
+    return line ? parseDateTime(line.value) : null;
+  };
+
+  // Due dates are stored as a local date and optional time
+  let dueDate: string | undefined;
+  let dueTime: string | undefined;
+  const due = find('DUE');
+  const dueAt = due ? parseDateTime(due.value) : null;
+  if (due && !dueAt) {
+    throw new Error('Due date is invalid');
+  }
+  if (due && dueAt) {
+    dueDate = TaskUtils.toDateKey(dueAt);
+    if (due.params.VALUE !== 'DATE' && due.value.includes('T')) {
+      dueTime = `${String(dueAt.getHours()).padStart(2, '0')}:${String(dueAt.getMinutes()).padStart(2, '0')}`;
+    }
+  }
+
+  const categories = properties
+    .filter(line => line.name === 'CATEGORIES')
+    .flatMap(line => splitTextList(line.value));
+
+  const task = TaskUtils.createTask({
+    text: unescapeText(find('SUMMARY')?.value ?? ''),
+    priority: parsePriorityValue(find('PRIORITY')?.value),
+    listId,
+    dueDate,
+    dueTime,
+    tags: categories
+  });
+
+  const uid = (find('UID')?.value ?? '').trim();
+  const createdAt = readDate('CREATED') ?? readDate('DTSTAMP');
+  const updatedAt = readDate('LAST-MODIFIED');
+
+  return {
+    ...task,
+    ...(uid && { id: uid }),
+    completed: find('STATUS')?.value.toUpperCase() === 'COMPLETED' || find('COMPLETED') !== undefined,
+    ...(createdAt && { createdAt: createdAt.getTime() }),
+    ...(updatedAt && { updatedAt: updatedAt.getTime() })
+  };
+};
+
+/**
+ * Applies the fields a VTODO component carries to the existing task with the same UID
+ * The task keeps its list, order, subtasks and creation time. The modification time is taken
+ * from the file unless it only differs by the milliseconds iCalendar cannot hold.
+ * @param existing - The task in the workspace
+ * @param imported - The task read from the file
+ * @returns The existing task with the iCalendar fields applied
+ */
+const overlayVTodo = (existing: Task, imported: Task): Task => {
+  const toSeconds = (timestamp: number | undefined) =>
+    timestamp === undefined ? undefined : Math.floor(timestamp / 1000);
+  const isModified =
+    imported.updatedAt !== undefined && toSeconds(imported.updatedAt) !== toSeconds(existing.updatedAt);
+  return TaskUtils.overlayTaskFields(existing, imported, isModified ? [...ICAL_FIELDS, 'updatedAt'] : ICAL_FIELDS);
+};
+
+/**
+ * Converts an iCalendar file into tasks, one per VTODO component
+ * Other components, such as events and the alarms nested in to-dos, are ignored.
+ * To-dos whose UID matches an existing task update only the fields iCalendar carries.
+ * @param content - The iCalendar content
+ * @param listId - The list to add new tasks to
+ * @param existingTasks - The tasks already in the workspace
+ * @returns The imported tasks and the rejected to-dos, numbered in file order
+ * @throws Error if the content is not an iCalendar file
+ */
+const parseIcal = (content: string, listId?: string, existingTasks: Task[] = []): TaskImportResult => {
+  const lines = unfoldLines(content.charCodeAt(0) === 0xfeff ? content.slice(1) : content);
+  if (lines[0]?.trim().toUpperCase() !== 'BEGIN:VCALENDAR') {
+    throw new Error('The file is not an iCalendar file');
+  }
+
+  const tasks: Task[] = [];
+  const errors: ImportRowError[] = [];
+  const seenIds = new Set<string>();
+  const existingById = new Map(existingTasks.map(task => [task.id, task]));
+  let properties: ContentLine[] | null = null;
+  let nestedDepth = 0;
+  let todoNumber = 0;
+
+  lines.forEach(line => {
+    const parsed = parseContentLine(line);
+    if (!parsed) {
+      return;
+    }
+    const value = parsed.value.trim().toUpperCase();
+
+    if (parsed.name === 'BEGIN' && value === 'VTODO' && !properties) {
+      properties = [];
+      todoNumber += 1;
+    } else if (properties && parsed.name === 'BEGIN') {
+      nestedDepth += 1;
+    } else if (properties && parsed.name === 'END' && nestedDepth > 0) {
+      nestedDepth -= 1;
+    } else if (properties && parsed.name === 'END' && value === 'VTODO') {
+      try {
+        const task = vTodoToTask(properties, listId);
+        if (seenIds.has(task.id)) {
+          throw new Error(`Duplicate task ID "${task.id}"`);
+        }
+        seenIds.add(task.id);
+        const existing = existingById.get(task.id);
+        tasks.push(existing ? overlayVTodo(existing, task) : task);
+      } catch (e) {
+        errors.push({ row: todoNumber, message: e instanceof Error ? e.message : 'Invalid to-do' });
+      }
+      properties = null;
+    } else if (properties && nestedDepth === 0) {
+      properties.push(parsed);
+    }
+  });
+
+  return { tasks, errors };
+};
+
+// Export iCalendar functions as a default object for convenient importing
+export default {
+  escapeText,
+  unescapeText,
+  splitTextList,
+  foldLine,
+  unfoldLines,
+  formatDateTime,
+  parseDateTime,
+  parsePriorityValue,
+  tasksToIcal,
+  parseIcal
+};
@@ -0,0 +1,141 @@
+import ListUtils from './listUtils';
+import { Task, Priority } from '../types/Task';
+import { TaskList } from '../types/List';
+
+// Helper function to create a mock task for testing
+const createMockTask = (overrides: Partial<Task> = {}): Task => ({
+  id: 'task-123',
+  text: 'Test task',
+  completed: false,
+  priority: Priority.MEDIUM,
+  createdAt: 1623456789000,
+  listId: 'inbox',
+  ...overrides
+});
+
+// Helper function to create a mock list for testing
+const createMockList = (overrides: Partial<TaskList> = {}): TaskList => ({
+  id: 'work',
+  name: 'Work',
+  archived: false,
+  createdAt: 1623456789000,
+  ...overrides
+});
+
+describe('ListUtils', () => {
+  describe('normalizeLists', () => {
+    test('should create the Inbox when nothing is stored', () => {
+      expect(ListUtils.normalizeLists(null)).toEqual([ListUtils.createInbox()]);
+    });
+
+    test('should keep the Inbox first and unarchived', () => {
+      const work = createMockList();
+      const inbox = { ...ListUtils.createInbox(), name: 'Inbox', archived: true };
+
+      expect(ListUtils.normalizeLists([work, inbox, { id: 1 }])).toEqual([
+        { ...inbox, archived: false },
+        work
+      ]);
+    });
+  });
+
+  describe('createList', () => {
+    test('should append a list with a trimmed name', () => {
+      const lists = ListUtils.createList([ListUtils.createInbox()], '  Home ');
+
+      expect(lists).toHaveLength(2);
+      expect(lists[1]).toMatchObject({ name: 'Home', archived: false });
+    });
+
+    test('should throw an error when the name is empty', () => {
+      expect(() => ListUtils.createList([], '   ')).toThrow('List name cannot be empty');
+    });
+  });
+
+  describe('renameList', () => {
+    test('should rename only the matching list', () => {
+      const lists = [ListUtils.createInbox(), createMockList()];
+
+      expect(ListUtils.renameList(lists, 'work', 'Office')).toEqual([
+        lists[0],
+        createMockList({ name: 'Office' })
+      ]);
+    });
+  });
+
+  describe('setListArchived', () => {
+    test('should archive and restore a list', () => {
+      const archived = ListUtils.setListArchived([createMockList()], 'work', true);
+
+      expect(archived[0].archived).toBe(true);
+      expect(ListUtils.setListArchived(archived, 'work', false)[0].archived).toBe(false);
+    });
+
+    test('should not archive the Inbox', () => {
+      expect(() => ListUtils.setListArchived([ListUtils.createInbox()], 'inbox', true)).toThrow(
+        'The Inbox cannot be archived'
+      );
+    });
+  });
+
+  describe('deleteList', () => {
+    test('should remove the list', () => {
+      expect(ListUtils.deleteList([ListUtils.createInbox(), createMockList()], 'work')).toEqual([
+        ListUtils.createInbox()
+      ]);
+    });
+
+    test('should not delete the Inbox', () => {
+      expect(() => ListUtils.deleteList([ListUtils.createInbox()], 'inbox')).toThrow(
+        'The Inbox cannot be deleted'
+      );
+    });
+  });
+
+  describe('moveTasksToInbox', () => {
+    test('should move only the tasks of the list', () => {
+      const tasks = [createMockTask({ id: 'task-1', listId: 'work' }), createMockTask({ id: 'task-2', listId: 'home' })];
+      const moved = ListUtils.moveTasksToInbox(tasks, 'work');
+
+      expect(moved[0].listId).toBe('inbox');
+      expect(moved[1]).toBe(tasks[1]);
+    });
+
+    test('should return the original array when the list is empty', () => {
+      const tasks = [createMockTask()];
+
+      expect(ListUtils.moveTasksToInbox(tasks, 'work')).toBe(tasks);
+    });
+  });
+
+  describe('getTasksInList', () => {
+    test('should return the tasks of the list, treating unknown lists as the Inbox', () => {
+      const lists = [ListUtils.createInbox(), createMockList()];
+      const tasks = [
+        createMockTask({ id: 'task-1' }),
+        createMockTask({ id: 'task-2', listId: 'work' }),
+        createMockTask({ id: 'task-3', listId: 'deleted' })
+      ];
+
+      expect(ListUtils.getTasksInList(tasks, 'work', lists)).toEqual([tasks[1]]);
+      expect(ListUtils.getTasksInList(tasks, 'inbox', lists)).toEqual([tasks[0], tasks[2]]);
+    });
+  });
+
+  describe('getListCounts', () => {
+    test('should count active and completed tasks per list', () => {
+      const lists = [ListUtils.createInbox(), createMockList(), createMockList({ id: 'home' })];
+      const tasks = [
+        createMockTask({ id: 'task-1' }),
+        createMockTask({ id: 'task-2', listId: 'work' }),
+        createMockTask({ id: 'task-3', listId: 'work', completed: true })
+      ];
+
+      expect(ListUtils.getListCounts(tasks, lists)).toEqual({
+        inbox: { active: 1, completed: 0 },
+        work: { active: 1, completed: 1 },
+        home: { active: 0, completed: 0 }
+      });
+    });
+  });
+});
@@ -0,0 +1,183 @@
+/**
+ * Utility module for managing named task lists in the React Todo List application.
+ * All functions are pure and return new arrays rather than mutating their input.
+ */
+import { Task } from '../types/Task';
+import { TaskList, ListCounts } from '../types/List';
+import IdGenerator from './idGenerator';
+
+/**
+ * Identifier of the default list that always exists and receives tasks without a list
+ */
+const INBOX_LIST_ID = 'inbox';
+
+/**
+ * Creates the default Inbox list
+ * @returns The Inbox list
+ */
+const createInbox = (): TaskList => ({
+  id: INBOX_LIST_ID,
+  name: 'Inbox',
+  archived: false,
+  createdAt: 0
+});
+
+/**
+ * Returns a valid list of lists from a possibly malformed persisted value
+ * The Inbox is always present, as the first list, and never archived.
+ * @param value - The value loaded from storage
+ * @returns The valid lists, starting with the Inbox
+ */
+const normalizeLists = (value: unknown): TaskList[] => {
+  const lists = Array.isArray(value)
+    ? (value as TaskList[]).filter(list => list && typeof list.id === 'string' && typeof list.name === 'string')
+    : [];
+
+  const inbox = lists.find(list => list.id === INBOX_LIST_ID);
+  const others = lists.filter(list => list.id !== INBOX_LIST_ID);
+  return [inbox ? { ...inbox, archived: false } : createInbox(), ...others];
+};
+
+/**
+ * Validates and tidies a list name
+ * @param name - The name entered by the user
+ * @returns The trimmed name
+ * @throws Error if the name is empty
+ */
+const sanitizeListName = (name: string): string => {
+  const trimmedName = (name ?? '').trim();
+  if (trimmedName.length === 0) {
+    throw new Error('List name cannot be empty');
+  }
+  return trimmedName;
+};
+
+/**
+ * Adds a new list to the end of the lists
+ * @param lists - The current lists
+ * @param name - The name of the new list
+ * @returns A new array containing the new list
+ */
+const createList = (lists: TaskList[], name: string): TaskList[] => {
+  const list: TaskList = {
+    id: IdGenerator.generateWithPrefix('list'),
+    name: sanitizeListName(name),
+    archived: false,
+    createdAt: Date.now()
+  };
+  return [...lists, list];
+};
+
+/**
+ * Renames a list
+ * @param lists - The current lists
+ * @param listId - The ID of the list to rename
+ * @param name - The new name
+ * @returns A new array with the renamed list
+ */
+const renameList = (lists: TaskList[], listId: string, name: string): TaskList[] => {
+  const sanitizedName = sanitizeListName(name);
+  return lists.map(list => (list.id === listId ? { ...list, name: sanitizedName } : list));
+};
+
+/**
+ * Archives or restores a list; the Inbox cannot be archived
+ * @param lists - The current lists
+ * @param listId - The ID of the list to update
+ * @param archived - Whether the list should be archived
+ * @returns A new array with the updated list
+ * @throws Error if asked to archive the Inbox
+ */
+const setListArchived = (lists: TaskList[], listId: string, archived: boolean): TaskList[] => {
+  if (listId === INBOX_LIST_ID && archived) {
+    throw new Error('The Inbox cannot be archived');
+  }
+  return lists.map(list => (list.id === listId ? { ...list, archived } : list));
+};
+
+/**
+ * Removes a list; the Inbox cannot be deleted
+ * Tasks in the deleted list should be moved with moveTasksToInbox.
+ * @param lists - The current lists
+ * @param listId - The ID of the list to delete
+ * @returns A new array without the list
+ * @throws Error if asked to delete the Inbox
+ */
+const deleteList = (lists: TaskList[], listId: string): TaskList[] => {
+  if (listId === INBOX_LIST_ID) {
+    throw new Error('The Inbox cannot be deleted');
+  }
+  return lists.filter(list => list.id !== listId);
+};
+
+/**
+ * Moves every task of a list into the Inbox
+ * @param tasks - The current array of tasks
+ * @param listId - The ID of the list being emptied
+ * @returns A new array with the tasks moved, or the original array if none were in the list
+ */
+const moveTasksToInbox = (tasks: Task[], listId: string): Task[] => {
+  if (!tasks.some(task => task.listId === listId)) {
+    return tasks;
+  }
+  return tasks.map(task =>
+    task.listId === listId ? { ...task, listId: INBOX_LIST_ID, updatedAt: Date.now() } : task
+  );
+};
+
+/**
+ * Returns the tasks that belong to a list
+ * Tasks with an unknown list are treated as belonging to the Inbox.
+ * @param tasks - The array of tasks
+ * @param listId - The ID of the list
+ * @param lists - The known lists, used to route orphaned tasks to the Inbox
+ * @returns The tasks in the list
+ */
+const getTasksInList = (tasks: Task[], listId: string, lists: TaskList[] = []): Task[] => {
+  const knownIds = new Set(lists.map(list => list.id));
+  return tasks.filter(task => {
+    const taskListId = lists.length > 0 && !knownIds.has(task.listId) ? INBOX_LIST_ID : task.listId ?? INBOX_LIST_ID;
+    return taskListId === listId;
+  });
+};
+
+/**
+ * Counts active and completed tasks for every list
+ * @param tasks - The array of tasks
+ * @param lists - The known lists
+ * @returns The counts keyed by list ID, with zero counts for empty lists
+ */
+const getListCounts = (tasks: Task[], lists: TaskList[]): Record<string, ListCounts> => {
+  const counts: Record<string, ListCounts> = {};
+  lists.forEach(list => {
+    counts[list.id] = { active: 0, completed: 0 };
+  });
+
+  tasks.forEach(task => {
+    const listCounts = counts[task.listId] ?? counts[INBOX_LIST_ID];
+    if (listCounts) {
+      if (task.completed) {
+        listCounts.completed += 1;
+      } else {
+        listCounts.active += 1;
+      }
+    }
+  });
+
+  return counts;
+};
+
+// Export list functions as a default object for convenient importing
+export default {
+  INBOX_LIST_ID,
+  createInbox,
+  normalizeLists,
+  sanitizeListName,
+  createList,
+  renameList,
+  setListArchived,
+  deleteList,
+  moveTasksToInbox,
+  getTasksInList,
+  getListCounts
+};
@@ -0,0 +1,85 @@
+import MarkdownUtils from './markdownUtils';
+import { Task, Priority } from '../types/Task';
+
+// Helper function to create a mock task for testing
+const createMockTask = (overrides: Partial<Task> = {}): Task => ({
+  id: 'task-123',
+  text: 'Test task',
+  completed: false,
+  priority: Priority.MEDIUM,
+  createdAt: 1623456789000,
+  listId: 'inbox',
+  ...overrides
+});
+
+describe('MarkdownUtils', () => {
+  describe('tasksToMarkdown', () => {
+    test('should write a checklist item per task with its completion state and tags', () => {
+      const tasks = [
+        createMockTask({ text: 'Write tests', tags: ['dev'] }),
+        createMockTask({ id: 'task-2', text: 'Fix bug', completed: true })
+      ];
+
+      expect(MarkdownUtils.tasksToMarkdown(tasks)).toBe('- [ ] Write tests #dev\n- [x] Fix bug\n');
+    });
+
+    test('should group tasks under priority headings, skipping empty groups', () => {
+      const tasks = [
+        createMockTask({ text: 'Read book', priority: Priority.LOW }),
+        createMockTask({ id: 'task-2', text: 'Ship release', priority: Priority.HIGH }),
+        createMockTask({ id: 'task-3', text: 'Tidy desk', priority: Priority.LOW, completed: true })
+      ];
+
+      expect(MarkdownUtils.tasksToMarkdown(tasks, true)).toBe(
+        '## High priority\n\n- [ ] Ship release\n\n## Low priority\n\n- [ ] Read book\n- [x] Tidy desk\n'
+      );
+    });
+
+    test('should return an empty string when there are no tasks', () => {
+      expect(MarkdownUtils.tasksToMarkdown([], true)).toBe('');
+    });
+  });
+
+  describe('isChecklist', () => {
+    test('should detect checklist items in any list style', () => {
+      expect(MarkdownUtils.isChecklist('Notes\n* [X] Done')).toBe(true);
+      expect(MarkdownUtils.isChecklist('1. [ ] First')).toBe(true);
+      expect(MarkdownUtils.isChecklist('- plain item\n[ ] not a list')).toBe(false);
+    });
+  });
+
+  describe('parseChecklist', () => {
+    test('should create a task per item, keeping completion and tags and ignoring other lines', () => {
+      const { tasks, errors } = MarkdownUtils.parseChecklist(
+        'Release plan:\n\n- [ ] Write notes #docs\n  - [x] Tag build\n- not a task\n',
+        'list-1'
+      );
+
+      expect(errors).toEqual([]);
+      expect(tasks).toHaveLength(2);
+      expect(tasks[0]).toMatchObject({ text: 'Write notes', completed: false, tags: ['docs'], listId: 'list-1' });
+      expect(tasks[1]).toMatchObject({ text: 'Tag build', completed: true, priority: Priority.MEDIUM });
+    });
+
+    test('should report empty items by line number', () => {
+      const { tasks, errors } = MarkdownUtils.parseChecklist('- [ ] Keep\n- [ ]  \n');
+
+      expect(tasks).toHaveLength(1);
+      expect(errors).toEqual([{ row: 2, message: 'Task text cannot be empty' }]);
+    });
+
+    test('should restore priorities from the headings of a grouped export', () => {
+      const tasks = [
+        createMockTask({ text: 'Ship release', priority: Priority.HIGH }),
+        createMockTask({ id: 'task-2', text: 'Read book', priority: Priority.LOW, completed: true })
+      ];
+
+      const parsed = MarkdownUtils.parseChecklist(MarkdownUtils.tasksToMarkdown(tasks, true)).tasks;
+
+      expect(parsed.map(({ text, priority, completed }) => ({ text, priority, completed }))).toEqual([
+        { text: 'Ship release', priority: Priority.HIGH, completed: false },
+        { text: 'Read book', priority: Priority.LOW, completed: true }
+      ]);
+    });
+  });
+});
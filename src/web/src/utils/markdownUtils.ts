@@ -0,0 +1,128 @@
+/**
+ * Utility module for converting tasks to and from GitHub-flavored Markdown checklists in the React Todo List application.
+ * Items are written as '- [ ] text' or '- [x] text', optionally under a heading per priority.
+ */
+import { Task, Priority } from '../types/Task';
+import { ImportRowError, TaskImportResult } from '../types/Transfer';
+import TaskUtils from './taskUtils';
+import TagUtils from './tagUtils';
+
+/**
+ * Matches a checklist item ('- [ ] text', '* [x] text' or '1. [ ] text') and captures the marker and the text
+ */
+const CHECKLIST_ITEM_PATTERN = /^\s*(?:[-*+]|\d+[.)])\s+\[([ xX])\]\s+(.*)$/;
+
+/**
+ * Matches a Markdown heading and captures its text
+ */
+const HEADING_PATTERN = /^\s*#{1,6}\s+(.*)$/;
+
+/**
+ * Headings written for each priority group, in the order the groups appear
+ */
+const PRIORITY_HEADINGS: Record<string, string> = {
+  [Priority.HIGH]: 'High priority',
+  [Priority.MEDIUM]: 'Medium priority',
+  [Priority.LOW]: 'Low priority'
+};
+
+/**
+ * Converts a task into a Markdown checklist item
+ * Tags are appended as '#tag' so that pasting the item back restores them.
+ * @param task - The task to convert
+ * @returns The checklist item, without a line break
+ */
+const taskToChecklistItem = (task: Task): string => {
+  const text = task.text.replace(/\s*[\r\n]+\s*/g, ' ').trim();
+  const tags = (task.tags ?? []).map(tag => ` #${tag}`).join('');
+  return `- [${task.completed ? 'x' : ' '}] ${text}${tags}`;
+};
+
+/**
+ * Converts tasks into a Markdown checklist
+ * @param tasks - The tasks to export, in the order they should appear
+ * @param groupByPriority - Whether to group the items under a heading per priority
+ * @returns The Markdown text
+ */
+const tasksToMarkdown = (tasks: Task[], groupByPriority: boolean = false): string => {
+  if (tasks.length === 0) {
+    return '';
+  }
+  if (!groupByPriority) {
+    return tasks.map(taskToChecklistItem).join('\n') + '\n';
+  }
+
+  // Write each non-empty priority group under its heading, keeping the task order within groups
+  const sections = Object.keys(PRIORITY_HEADINGS)
+    .map(priority => ({ priority, items: tasks.filter(task => task.priority === priority) }))
+    .filter(section => section.items.length > 0)
+    .map(({ priority, items }) =>
+      [`## ${PRIORITY_HEADINGS[priority]}`, '', ...items.map(taskToChecklistItem)].join('\n')
+    );
+
+  // Tasks with an unrecognized priority are listed last, without a heading
+  const ungrouped = tasks.filter(task => !PRIORITY_HEADINGS[task.priority]);
+  if (ungrouped.length > 0) {
+    sections.push(ungrouped.map(taskToChecklistItem).join('\n'));
+  }
+
+  return sections.join('\n\n') + '\n';
+};
+
+/**
+ * Checks whether text contains at least one Markdown checklist item
+ * @param text - The text to inspect, such as pasted content
+ * @returns True if any line is a checklist item
+ */
+const isChecklist = (text: string): boolean => {
+  return text.split(/\r?\n/).some(line => CHECKLIST_ITEM_PATTERN.test(line));
+};
+
+/**
+ * Converts a Markdown checklist into tasks, one per checklist item
+ * Completion state and '#tags' are preserved. Priority headings written by tasksToMarkdown
+ * set the priority of the items below them; other lines are ignored.
+ * @param text - The Markdown text
+ * @param listId - The list to add the tasks to
+ * @returns The tasks and the checklist items that could not be converted, by line number
+ */
+const parseChecklist = (text: string, listId?: string): TaskImportResult => {
+  const tasks: Task[] = [];
+  const errors: ImportRowError[] = [];
+  let priority: Priority = Priority.MEDIUM;
+
+  text.split(/\r?\n/).forEach((line, index) => {
+    const heading = HEADING_PATTERN.exec(line);
+    if (heading) {
+      // Any heading resets the priority unless it names a priority group
+      const headingText = heading[1].trim().toLowerCase();
+      priority =
+        Object.values(Priority).find(level => PRIORITY_HEADINGS[level].toLowerCase() === headingText) ??
+        Priority.MEDIUM;
+      return;
+    }
+
+    const item = CHECKLIST_ITEM_PATTERN.exec(line);
+    if (!item) {
+      return;
+    }
+
+    try {
+      const parsed = TagUtils.parseTags(item[2]);
+      const task = TaskUtils.createTask({ text: parsed.text, priority, listId, tags: parsed.tags });
+      tasks.push({ ...task, completed: item[1] !== ' ' });
+    } catch (e) {
+      errors.push({ row: index + 1, message: e instanceof Error ? e.message : 'Invalid checklist item' });
+    }
+  });
+
+  return { tasks, errors };
+};
+
+// Export Markdown functions as a default object for convenient importing
+export default {
+  taskToChecklistItem,
+  tasksToMarkdown,
+  isChecklist,
+  parseChecklist
+};
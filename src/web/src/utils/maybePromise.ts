@@ -0,0 +1,31 @@
+/**
+ * Utility module for working with values that may or may not be Promises.
+ * Allows code to stay synchronous for synchronous storage adapters while
+ * still supporting asynchronous ones.
+ */
+import { MaybePromise } from '../types/Storage';
+
+/**
+ * Checks whether a value is a Promise (or any thenable)
+ * @param value - The value to check
+ * @returns True if the value is a Promise
+ */
+const isPromise = <T>(value: MaybePromise<T>): value is Promise<T> => {
+  return typeof (value as Promise<T>)?.then === 'function';
+};
+
+/**
+ * Applies a callback to a value, waiting for it first only if it is a Promise
+ * @param value - A plain value or a Promise
+ * @param callback - The function to apply to the resolved value
+ * @returns The callback result, wrapped in a Promise only if the input was one
+ */
+const chain = <T, U>(value: MaybePromise<T>, callback: (resolved: T) => MaybePromise<U>): MaybePromise<U> => {
+  return isPromise(value) ? value.then(callback) : callback(value);
+};
+
+// Export MaybePromise helpers as a default object for convenient importing
+export default {
+  isPromise,
+  chain
+};
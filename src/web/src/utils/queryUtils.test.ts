@@ -0,0 +1,97 @@
+import QueryUtils from './queryUtils';
+import { Task, Priority } from '../types/Task';
+
+// Helper function to create a mock task for testing
+const createMockTask = (overrides: Partial<Task> = {}): Task => ({
+  id: 'task-123',
+  text: 'Test task',
+  completed: false,
+  priority: Priority.MEDIUM,
+  createdAt: new Date(2026, 0, 15, 9, 30).getTime(),
+  ...overrides
+});
+
+// Noon on 20 January 2026, local time
+const NOW = new Date(2026, 0, 20, 12, 0).getTime();
+
+describe('QueryUtils', () => {
+  const tasks = [
+    createMockTask({ id: 'task-1', text: 'Deploy to staging', priority: Priority.HIGH, tags: ['ops'] }),
+    createMockTask({ id: 'task-2', text: 'Déploy docs', priority: Priority.HIGH, completed: true, createdAt: new Date(2025, 11, 31).getTime() }),
+    createMockTask({ id: 'task-3', text: 'Write tests', priority: Priority.LOW, dueDate: '2026-01-19' }),
+    createMockTask({ id: 'task-4', text: 'Plan release', dueDate: '2026-01-20' })
+  ];
+  const query = (value: string) => tasks.filter(QueryUtils.parseQuery(value, NOW)).map(task => task.id);
+
+  describe('tokenizeQuery', () => {
+    test('should split terms and keep quoted text together', () => {
+      expect(QueryUtils.tokenizeQuery('priority:high -tag:"two words" "deploy now"')).toEqual([
+        { raw: 'priority:high', negated: false, field: 'priority', value: 'high', quoted: false },
+        { raw: '-tag:"two words"', negated: true, field: 'tag', value: 'two words', quoted: true },
+        { raw: '"deploy now"', negated: false, field: undefined, value: 'deploy now', quoted: true }
+      ]);
+    });
+  });
+
+  describe('parseQuery', () => {
+    test('should accept every task for a blank query', () => {
+      expect(query('  ')).toEqual(['task-1', 'task-2', 'task-3', 'task-4']);
+    });
+
+    test('should combine terms so that every one must match', () => {
+      expect(query('priority:high is:active created:>2026-01-01 "deploy"')).toEqual(['task-1']);
+    });
+
+    test('should match text ignoring case and diacritics', () => {
+      expect(query('deploy')).toEqual(['task-1', 'task-2']);
+      expect(query('text:"DEPLOY TO"')).toEqual(['task-1']);
+    });
+
+    test('should match priorities and states', () => {
+      expect(query('priority:LOW')).toEqual(['task-3']);
+      expect(query('is:completed')).toEqual(['task-2']);
+      expect(query('is:overdue')).toEqual(['task-3']);
+      expect(query('is:today')).toEqual(['task-4']);
+    });
+
+    test('should compare dates by calendar day', () => {
+      expect(query('created:2026-01-15')).toEqual(['task-1', 'task-3', 'task-4']);
+      expect(query('created:<2026-01-01')).toEqual(['task-2']);
+      expect(query('due:>=2026-01-19')).toEqual(['task-3', 'task-4']);
+      expect(query('due:<today')).toEqual(['task-3']);
+      expect(query('due:none')).toEqual(['task-1', 'task-2']);
+    });
+
+    test('should match tags and negated terms', () => {
+      expect(query('tag:OPS')).toEqual(['task-1']);
+      expect(query('#ops')).toEqual(['task-1']);
+      expect(query('-#ops -is:completed')).toEqual(['task-3', 'task-4']);
+    });
+  });
+
+  describe('getQueryError', () => {
+    test('should return null for a valid query', () => {
+      expect(QueryUtils.getQueryError('priority:high is:active')).toBeNull();
+    });
+
+    test('should explain syntax errors', () => {
+      expect(QueryUtils.getQueryError('prio:high')).toBe(
+        'Unknown field "prio" in prio:high. Use priority, is, created, due, tag or text'
+      );
+      expect(QueryUtils.getQueryError('priority:urgent')).toBe(
+        'Unknown priority "urgent" in priority:urgent. Use high, medium or low'
+      );
+      expect(QueryUtils.getQueryError('is:')).toBe('Missing a value after "is:" in is:');
+      expect(QueryUtils.getQueryError('is:someday')).toBe(
+        'Unknown state "someday" in is:someday. Use active, completed, overdue or today'
+      );
+      expect(QueryUtils.getQueryError('created:>2026-02-30')).toBe(
+        'Invalid date "2026-02-30" in created:>2026-02-30. Use a date such as 2026-01-31, or today'
+      );
+      expect(QueryUtils.getQueryError('is:active "deploy')).toBe('Missing closing quote in "deploy');
+      expect(QueryUtils.getQueryError(':high')).toBe(
+        'Missing a field name before the colon in :high. Use priority, is, created, due, tag or text'
+      );
+    });
+  });
+});
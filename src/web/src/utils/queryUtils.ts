@@ -0,0 +1,270 @@
+/**
+ * Utility module for the filter query language of the React Todo List application.
+ * A query is a list of terms separated by spaces, and a task must match every term:
+ *
+ *   priority:high|medium|low          is:active|completed|overdue|today
+ *   created:>2026-01-01               due:<=today, due:none
+ *   tag:work or #work                 text:deploy, "deploy to staging" or a bare word
+ *
+ * Dates compare by calendar day and accept =, >, >=, < and <= before a YYYY-MM-DD date or 'today'.
+ * A leading '-' negates a term, and double quotes keep spaces inside a value.
+ */
+import { Task, Priority, DueStatus } from '../types/Task';
+import { TaskPredicate } from '../types/Query';
+import TaskUtils from './taskUtils';
+import TagUtils from './tagUtils';
+import SearchUtils from './searchUtils';
+
+/**
+ * Fields a query term can name, in the order they are listed in error messages
+ */
+const QUERY_FIELDS = ['priority', 'is', 'created', 'due', 'tag', 'text'];
+
+/**
+ * States accepted by 'is:' terms
+ */
+const STATE_PREDICATES: Record<string, (task: Task, now: number) => boolean> = {
+  active: task => !task.completed,
+  completed: task => task.completed,
+  overdue: (task, now) => TaskUtils.getDueStatus(task, now) === DueStatus.OVERDUE,
+  today: (task, now) => TaskUtils.getDueStatus(task, now) === DueStatus.TODAY
+};
+
+/**
+ * Matches a date condition and captures the comparison operator and the date
+ */
+const DATE_CONDITION_PATTERN = /^(>=|<=|>|<|=)?(.*)$/;
+
+/**
+ * A query term split into its parts
+ */
+interface QueryTerm {
+  /** The term as written, for error messages */
+  raw: string;
+  /** Whether the term started with '-' */
+  negated: boolean;
+  /** The lowercase field name before the first unquoted ':', if any */
+  field?: string;
+  /** The value, with quotes removed */
+  value: string;
+  /** Whether any part of the value was quoted */
+  quoted: boolean;
+}
+
+/**
+ * Joins words into a readable list, such as 'a, b or c'
+ * @param words - The words to join
+ * @returns The joined words
+ */
+const formatChoices = (words: string[]): string => {
+  return words.length > 1 ? `${words.slice(0, -1).join(', ')} or ${words[words.length - 1]}` : words.join('');
+};
+
+/**
+ * Splits a query into terms, keeping quoted text together
+ * @param query - The query as typed
+ * @returns The terms in order
+ * @throws Error if a quote is not closed
+ */
+const tokenizeQuery = (query: string): QueryTerm[] => {
+  const terms: QueryTerm[] = [];
+  let i = 0;
+
+  while (i < query.length) {
+    if (/\s/.test(query[i])) {
+      i++;
+      continue;
+    }
+
+    const start = i;
+    const negated = query[i] === '-' && i + 1 < query.length && !/\s/.test(query[i + 1]);
+    if (negated) {
+      i++;
+    }
+
+    let value = '';
+    let field: string | undefined;
+    let quoted = false;
+    while (i < query.length && !/\s/.test(query[i])) {
+      if (query[i] === '"') {
+        const close = query.indexOf('"', i + 1);
+        if (close === -1) {
+          throw new Error(`Missing closing quote in ${query.slice(start)}`);
+        }
+        value += query.slice(i + 1, close);
+        quoted = true;
+        i = close + 1;
+      } else if (query[i] === ':' && field === undefined && !quoted) {
+        // The first unquoted colon separates the field from its value
+        field = value.toLowerCase();
+        value = '';
+        i++;
+      } else {
+        value += query[i];
+        i++;
+      }
+    }
+
+    terms.push({ raw: query.slice(start, i), negated, field, value, quoted });
+  }
+
+  return terms;
+};
+
+/**
+ * Checks whether a string is a real calendar date in YYYY-MM-DD form
+ * @param value - The string to check
+ * @returns True if the date exists
+ */
+const isDateKey = (value: string): boolean => {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return false;
+  }
+  const [year, month, day] = value.split('-').map(Number);
+  return TaskUtils.toDateKey(new Date(year, month - 1, day)) === value;
+};
+
+/**
+ * Compiles a date condition such as '>2026-01-01' or '<=today' for a date read from each task
+ * @param term - The term holding the condition
+ * @param getDateKey - Reads a task's date as YYYY-MM-DD, or undefined if it has none
+ * @param now - A fixed current time, or undefined to use the time each task is checked
+ * @returns The predicate
+ * @throws Error if the date is invalid
+ */
+const compileDateCondition = (
+  term: QueryTerm,
+  getDateKey: (task: Task) => string | undefined,
+  now?: number
+): TaskPredicate => {
+  const [, operator = '=', date] = DATE_CONDITION_PATTERN.exec(term.value) as RegExpExecArray;
+  const isToday = date.toLowerCase() === 'today';
+  if (!isToday && !isDateKey(date)) {
+    throw new Error(`Invalid date "${date}" in ${term.raw}. Use a date such as 2026-01-31, or today`);
+  }
+
+  return task => {
+    const taskDate = getDateKey(task);
+    if (taskDate === undefined) {
+      return false;
+    }
+    const target = isToday ? TaskUtils.toDateKey(new Date(now ?? Date.now())) : date;
+    switch (operator) {
+      case '>':
+        return taskDate > target;
+      case '>=':
+        return taskDate >= target;
+      case '<':
+        return taskDate < target;
+      case '<=':
+        return taskDate <= target;
+      default:
+        return taskDate === target;
+    }
+  };
+};
+
+/**
+ * Compiles a single query term
+ * @param term - The term to compile
+ * @param now - A fixed current time, or undefined to use the time each task is checked
+ * @returns The predicate for the term, ignoring negation
+ * @throws Error describing why the term is invalid
+ */
+const compileTerm = (term: QueryTerm, now?: number): TaskPredicate => {
+  const { field, value } = term;
+
+  // Terms without a field search the task text, or its tags when written as '#tag'
+  if (field === undefined) {
+    if (!term.quoted && value.length > 1 && value[0] === '#') {
+      const tag = TagUtils.normalizeTag(value);
+      return task => (task.tags ?? []).includes(tag);
+    }
+    if (!value) {
+      throw new Error(`Empty quotes in ${term.raw}. Put the text to find between the quotes`);
+    }
+    const text = SearchUtils.foldText(value);
+    return task => SearchUtils.getSearchText(task).includes(text);
+  }
+
+  if (!field) {
+    throw new Error(`Missing a field name before the colon in ${term.raw}. Use ${formatChoices(QUERY_FIELDS)}`);
+  }
+  if (!QUERY_FIELDS.includes(field)) {
+    throw new Error(`Unknown field "${field}" in ${term.raw}. Use ${formatChoices(QUERY_FIELDS)}`);
+  }
+  if (!value) {
+    throw new Error(`Missing a value after "${field}:" in ${term.raw}`);
+  }
+
+  switch (field) {
+    case 'priority': {
+      const priority = value.toLowerCase();
+      const priorities = Object.values(Priority) as string[];
+      if (!priorities.includes(priority)) {
+        throw new Error(`Unknown priority "${value}" in ${term.raw}. Use ${formatChoices(priorities)}`);
+      }
+      return task => task.priority === priority;
+    }
+    case 'is': {
+      const predicate = STATE_PREDICATES[value.toLowerCase()];
+      if (!predicate) {
+        throw new Error(`Unknown state "${value}" in ${term.raw}. Use ${formatChoices(Object.keys(STATE_PREDICATES))}`);
+      }
+      return task => predicate(task, now ?? Date.now());
+    }
+    case 'created':
+      return compileDateCondition(term, task => TaskUtils.toDateKey(new Date(task.createdAt)), now);
+    case 'due':
+      if (value.toLowerCase() === 'none') {
+        return task => !task.dueDate;
+      }
+      return compileDateCondition(term, task => task.dueDate, now);
+    case 'tag': {
+      const tag = TagUtils.normalizeTag(value);
+      return task => (task.tags ?? []).includes(tag);
+    }
+    default: {
+      const text = SearchUtils.foldText(value);
+      return task => SearchUtils.getSearchText(task).includes(text);
+    }
+  }
+};
+
+/**
+ * Compiles a filter query into a predicate that a task must satisfy
+ * @param query - The query, such as 'priority:high is:active created:>2026-01-01 "deploy"'
+ * @param now - A fixed current time for 'today' and due states; by default the time each task is checked
+ * @returns The predicate, which accepts every task when the query is blank
+ * @throws Error describing the first invalid term
+ */
+const parseQuery = (query: string, now?: number): TaskPredicate => {
+  const predicates = tokenizeQuery(query).map(term => {
+    const predicate = compileTerm(term, now);
+    return term.negated ? (task: Task) => !predicate(task) : predicate;
+  });
+
+  return task => predicates.every(predicate => predicate(task));
+};
+
+/**
+ * Checks a filter query for syntax errors
+ * @param query - The query to check
+ * @returns The error message for the first invalid term, or null if the query is valid
+ */
+const getQueryError = (query: string): string | null => {
+  try {
+    parseQuery(query);
+    return null;
+  } catch (e) {
+    return e instanceof Error ? e.message : 'Invalid query';
+  }
+};
+
+// Export query functions as a default object for convenient importing
+export default {
+  QUERY_FIELDS,
+  tokenizeQuery,
+  parseQuery,
+  getQueryError
+};
@@ -0,0 +1,77 @@
+import RouteUtils from './routeUtils';
+import { FilterType } from '../types/Filter';
+
+describe('RouteUtils', () => {
+  const route = { filter: null, viewId: null, taskId: null, query: '' };
+
+  describe('parseRoute', () => {
+    test('should parse status filters, treating the root as all tasks', () => {
+      expect(RouteUtils.parseRoute('#/completed')).toEqual({ ...route, filter: FilterType.COMPLETED });
+      expect(RouteUtils.parseRoute('#/dueToday')).toEqual({ ...route, filter: FilterType.DUE_TODAY });
+      expect(RouteUtils.parseRoute('#/')).toEqual({ ...route, filter: FilterType.ALL });
+    });
+
+    test('should parse views and tasks by ID', () => {
+      expect(RouteUtils.parseRoute('#/view/view-1')).toEqual({ ...route, viewId: 'view-1' });
+      expect(RouteUtils.parseRoute('/task/task%201')).toEqual({ ...route, taskId: 'task 1' });
+    });
+
+    test('should read the search query', () => {
+      expect(RouteUtils.parseRoute('#/active?q=deploy+to+staging')).toEqual({
+        ...route,
+        filter: FilterType.ACTIVE,
+        query: 'deploy to staging'
+      });
+    });
+
+    test('should return null for hashes that are not routes', () => {
+      expect(RouteUtils.parseRoute('')).toBeNull();
+      expect(RouteUtils.parseRoute('#main')).toBeNull();
+      expect(RouteUtils.parseRoute('#/someday')).toBeNull();
+      expect(RouteUtils.parseRoute('#/task/')).toBeNull();
+      expect(RouteUtils.parseRoute('#/task/a/b')).toBeNull();
+      expect(RouteUtils.parseRoute('#/task/%E0%A4%A')).toBeNull();
+    });
+  });
+
+  describe('formatRoute', () => {
+    test('should format each kind of route so that it parses back', () => {
+      const routes = [
+        { ...route, filter: FilterType.OVERDUE },
+        { ...route, viewId: 'view/1' },
+        { ...route, taskId: 'task-1', query: 'café & co' }
+      ];
+
+      routes.forEach(value => {
+        expect(RouteUtils.parseRoute(RouteUtils.formatRoute(value))).toEqual(value);
+      });
+      expect(RouteUtils.formatRoute({ ...route, filter: FilterType.ACTIVE, query: 'a b' })).toBe('#/active?q=a+b');
+    });
+
+    test('should prefer a task over a view and a view over the filter', () => {
+      expect(RouteUtils.formatRoute({ filter: FilterType.ACTIVE, viewId: 'view-1', taskId: 'task-1', query: '' }))
+        .toBe('#/task/task-1');
+      expect(RouteUtils.formatRoute({ filter: FilterType.ACTIVE, viewId: 'view-1', taskId: null, query: '' }))
+        .toBe('#/view/view-1');
+    });
+  });
+
+  describe('getTaskLink', () => {
+    test('should link to a single task', () => {
+      expect(RouteUtils.getTaskLink('task-1')).toBe('#/task/task-1');
+    });
+  });
+
+  describe('isSameLocation', () => {
+    test('should ignore the search query', () => {
+      expect(RouteUtils.isSameLocation(
+        { ...route, filter: FilterType.ACTIVE, query: 'a' },
+        { ...route, filter: FilterType.ACTIVE }
+      )).toBe(true);
+      expect(RouteUtils.isSameLocation(
+        { ...route, filter: FilterType.ACTIVE },
+        { ...route, filter: FilterType.COMPLETED }
+      )).toBe(false);
+    });
+  });
+});
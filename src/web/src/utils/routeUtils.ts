@@ -0,0 +1,105 @@
+/**
+ * Utility module for reading and writing the URL hash of the React Todo List application.
+ * The hash names what is shown, followed by the search query when searching:
+ *
+ *   #/active, #/completed, ...     a status filter; #/ shows all tasks
+ *   #/view/<id>                     a saved view
+ *   #/task/<id>                     a single task, scrolled to and highlighted
+ *   #/completed?q=deploy            any of the above, searched for 'deploy'
+ */
+import { FilterType } from '../types/Filter';
+import { Route } from '../types/Route';
+
+/**
+ * Name of the hash parameter holding the search query
+ */
+const QUERY_PARAM = 'q';
+
+/**
+ * Parses a URL hash into a route
+ * @param hash - The hash, with or without the leading '#'
+ * @returns The route, or null if the hash is empty or not a route, such as a plain '#section' anchor
+ */
+const parseRoute = (hash: string): Route | null => {
+  const value = hash.replace(/^#/, '');
+  if (value[0] !== '/') {
+    return null;
+  }
+
+  const queryStart = value.indexOf('?');
+  const path = queryStart === -1 ? value.slice(1) : value.slice(1, queryStart);
+  const params = new URLSearchParams(queryStart === -1 ? '' : value.slice(queryStart + 1));
+  const query = params.get(QUERY_PARAM) ?? '';
+  const route: Route = { filter: null, viewId: null, taskId: null, query };
+
+  const [section, id, ...rest] = path.split('/');
+  if (rest.length > 0) {
+    return null;
+  }
+
+  // Views and tasks are named by ID; malformed escapes in the ID make the hash unusable
+  if ((section === 'view' || section === 'task') && id) {
+    try {
+      const decoded = decodeURIComponent(id);
+      return section === 'view' ? { ...route, viewId: decoded } : { ...route, taskId: decoded };
+    } catch (error) {
+      return null;
+    }
+  }
+
+  if (id !== undefined) {
+    return null;
+  }
+  if (section === '') {
+    return { ...route, filter: FilterType.ALL };
+  }
+  return Object.values(FilterType).includes(section as FilterType)
+    ? { ...route, filter: section as FilterType }
+    : null;
+};
+
+/**
+ * Formats a route as a URL hash
+ * @param route - The route to format
+ * @returns The hash, including the leading '#'
+ */
+const formatRoute = (route: Route): string => {
+  let path: string;
+  if (route.taskId) {
+    path = `/task/${encodeURIComponent(route.taskId)}`;
+  } else if (route.viewId) {
+    path = `/view/${encodeURIComponent(route.viewId)}`;
+  } else {
+    path = `/${route.filter ?? FilterType.ALL}`;
+  }
+
+  const query = route.query ? `?${new URLSearchParams({ [QUERY_PARAM]: route.query }).toString()}` : '';
+  return `#${path}${query}`;
+};
+
+/**
+ * Returns the hash linking to a single task
+ * @param taskId - The ID of the task
+ * @returns The hash, including the leading '#'
+ */
+const getTaskLink = (taskId: string): string => {
+  return formatRoute({ filter: null, viewId: null, taskId, query: '' });
+};
+
+/**
+ * Checks whether two routes show the same tasks, ignoring the search query
+ * @param a - The first route
+ * @param b - The second route
+ * @returns True if both routes name the same filter, view or task
+ */
+const isSameLocation = (a: Route, b: Route): boolean => {
+  return formatRoute({ ...a, query: '' }) === formatRoute({ ...b, query: '' });
+};
+
+// Export route functions as a default object for convenient importing
+export default {
+  parseRoute,
+  formatRoute,
+  getTaskLink,
+  isSameLocation
+};
@@ -0,0 +1,104 @@
+import SearchUtils from './searchUtils';
+import { Task, Priority } from '../types/Task';
+
+// Helper function to create a mock task for testing
+const createMockTask = (overrides: Partial<Task> = {}): Task => ({
+  id: 'task-123',
+  text: 'Test task',
+  completed: false,
+  priority: Priority.MEDIUM,
+  createdAt: 1623456789000,
+  ...overrides
+});
+
+describe('SearchUtils', () => {
+  describe('foldText', () => {
+    test('should remove diacritics and lowercase text', () => {
+      expect(SearchUtils.foldText('Crème Brûlée at CAFÉ')).toBe('creme brulee at cafe');
+    });
+  });
+
+  describe('searchTasks', () => {
+    const tasks = [
+      createMockTask({ id: 'task-1', text: 'Book the Café table' }),
+      createMockTask({ id: 'task-2', text: 'Buy milk', tags: ['errands'] }),
+      createMockTask({ id: 'task-3', text: 'Plan trip', subtasks: [{ id: 'step-1', text: 'Renew passport', completed: false }] }),
+      createMockTask({ id: 'task-4', text: 'Write report', projects: ['quarterly'], contexts: ['office'] })
+    ];
+    const search = (query: string) => SearchUtils.searchTasks(tasks, query).map(task => task.id);
+
+    test('should return the same array for a blank query', () => {
+      expect(SearchUtils.searchTasks(tasks, '   ')).toBe(tasks);
+    });
+
+    test('should match substrings ignoring case and diacritics', () => {
+      expect(search('cafe')).toEqual(['task-1']);
+      expect(search('CAFÉ')).toEqual(['task-1']);
+      expect(search('MILK')).toEqual(['task-2']);
+    });
+
+    test('should match tags, projects, contexts and subtasks', () => {
+      expect(search('errand')).toEqual(['task-2']);
+      expect(search('passport')).toEqual(['task-3']);
+      expect(search('quarterly office')).toEqual(['task-4']);
+    });
+
+    test('should require every word to match', () => {
+      expect(search('buy milk')).toEqual(['task-2']);
+      expect(search('buy report')).toEqual([]);
+    });
+
+    test('should match words with letters left out', () => {
+      expect(search('rprt')).toEqual(['task-4']);
+      expect(search('pasprt')).toEqual(['task-3']);
+    });
+
+    test('should not match letters scattered too far apart or across fields', () => {
+      expect(search('bt')).toEqual([]);
+      expect(search('btbl')).toEqual([]);
+      expect(search('milkerrands')).toEqual([]);
+    });
+
+    test('should reuse the search text of unchanged tasks', () => {
+      const task = createMockTask({ text: 'Cached' });
+
+      expect(SearchUtils.getSearchText(task)).toBe('cached');
+      (task as { text: string }).text = 'Changed in place';
+      expect(SearchUtils.getSearchText(task)).toBe('cached');
+    });
+  });
+
+  describe('getHighlightRanges', () => {
+    test('should return every substring match in the original text', () => {
+      expect(SearchUtils.getHighlightRanges('Milk, more milk', 'milk')).toEqual([[0, 4], [11, 15]]);
+    });
+
+    test('should map matches on folded text back to accented characters', () => {
+      expect(SearchUtils.getHighlightRanges('Book the Café', 'cafe')).toEqual([[9, 13]]);
+      // 'e' followed by a combining acute accent
+      expect(SearchUtils.getHighlightRanges('Café now', 'cafe')).toEqual([[0, 5]]);
+    });
+
+    test('should merge overlapping matches of several words', () => {
+      expect(SearchUtils.getHighlightRanges('Buy milk', 'mil ilk buy')).toEqual([[0, 3], [4, 8]]);
+    });
+
+    test('should highlight the letters of a fuzzy match', () => {
+      expect(SearchUtils.getHighlightRanges('Write report', 'rprt')).toEqual([[6, 7], [8, 9], [10, 12]]);
+    });
+
+    test('should return no ranges for a blank query', () => {
+      expect(SearchUtils.getHighlightRanges('Buy milk', '')).toEqual([]);
+    });
+  });
+
+  describe('splitHighlights', () => {
+    test('should split text into highlighted and plain parts', () => {
+      expect(SearchUtils.splitHighlights('Buy milk today', 'milk')).toEqual([
+        { text: 'Buy ', highlighted: false },
+        { text: 'milk', highlighted: true },
+        { text: ' today', highlighted: false }
+      ]);
+    });
+  });
+});
@@ -0,0 +1,226 @@
+/**
+ * Utility module for full-text search across tasks in the React Todo List application.
+ * Matching ignores case and diacritics, so "cafe" finds "Café". Each word of the query must
+ * match the task text, a tag, a project, a context or a subtask, either as a substring or,
+ * for words of three or more letters, as a fuzzy match with a few letters left out.
+ */
+import { Task } from '../types/Task';
+
+/**
+ * Matches the combining marks left behind when accented letters are decomposed
+ */
+const COMBINING_MARKS = /[\u0300-\u036f]/g;
+
+/**
+ * Shortest query word that may match fuzzily; shorter words only match as substrings
+ */
+const MIN_FUZZY_LENGTH = 3;
+
+/**
+ * Separates the fields of a task's search text, so that matches never span two fields
+ */
+const FIELD_SEPARATOR = '\n';
+
+/**
+ * Folded search text per task
+ * Tasks are replaced rather than changed when edited, so entries never go stale
+ * and are released along with the tasks they describe.
+ */
+const searchTextCache = new WeakMap<Task, string>();
+
+/**
+ * Folds text for comparison by removing diacritics and converting it to lowercase
+ * @param value - The text to fold
+ * @returns The folded text
+ */
+const foldText = (value: string): string => {
+  return value.normalize('NFD').replace(COMBINING_MARKS, '').toLowerCase();
+};
+
+/**
+ * Folds text one character at a time, recording where each folded character came from
+ * @param value - The text to fold
+ * @returns The folded text and, for each of its characters, the index of the original character
+ */
+const foldWithPositions = (value: string): { folded: string; positions: number[] } => {
+  let folded = '';
+  const positions: number[] = [];
+
+  for (let i = 0; i < value.length; i++) {
+    const piece = foldText(value[i]);
+    for (let j = 0; j < piece.length; j++) {
+      folded += piece[j];
+      positions.push(i);
+    }
+  }
+
+  return { folded, positions };
+};
+
+/**
+ * Splits a search query into folded words
+ * @param query - The search query as typed
+ * @returns The words to match, empty when the query is blank
+ */
+const getSearchTerms = (query: string): string[] => {
+  return foldText(query).split(/\s+/).filter(term => term.length > 0);
+};
+
+/**
+ * Finds the letters of a word in order within a short stretch of text
+ * The stretch may be at most twice as long as the word and may not cross a field separator.
+ * @param folded - The folded text to search
+ * @param term - The folded word to find
+ * @returns The indexes of the matched letters, or null if the word does not match
+ */
+const findFuzzyMatch = (folded: string, term: string): number[] | null => {
+  if (term.length < MIN_FUZZY_LENGTH) {
+    return null;
+  }
+
+  const maxSpan = term.length * 2;
+  for (let start = folded.indexOf(term[0]); start !== -1; start = folded.indexOf(term[0], start + 1)) {
+    const matched = [start];
+    for (let i = start + 1; i < folded.length && i - start < maxSpan && matched.length < term.length; i++) {
+      if (folded[i] === FIELD_SEPARATOR) {
+        break;
+      }
+      if (folded[i] === term[matched.length]) {
+        matched.push(i);
+      }
+    }
+    if (matched.length === term.length) {
+      return matched;
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Returns the folded text searched for a task, computing it once per task
+ * @param task - The task to describe
+ * @returns The task text, tags, projects, contexts and subtasks, folded and separated by line breaks
+ */
+const getSearchText = (task: Task): string => {
+  let searchText = searchTextCache.get(task);
+  if (searchText === undefined) {
+    searchText = foldText(
+      [
+        task.text,
+        ...(task.tags ?? []),
+        ...(task.projects ?? []),
+        ...(task.contexts ?? []),
+        ...(task.subtasks ?? []).map(subtask => subtask.text)
+      ].join(FIELD_SEPARATOR)
+    );
+    searchTextCache.set(task, searchText);
+  }
+  return searchText;
+};
+
+/**
+ * Checks whether a task matches every word of a search query
+ * @param task - The task to check
+ * @param terms - The folded query words
+ * @returns True if each word matches as a substring or fuzzily
+ */
+const matchesSearch = (task: Task, terms: string[]): boolean => {
+  const searchText = getSearchText(task);
+  return terms.every(term => searchText.includes(term) || findFuzzyMatch(searchText, term) !== null);
+};
+
+/**
+ * Filters tasks by a search query
+ * @param tasks - The tasks to search
+ * @param query - The search query as typed
+ * @returns The matching tasks in their original order, or the same array when the query is blank
+ */
+const searchTasks = (tasks: Task[], query: string): Task[] => {
+  const terms = getSearchTerms(query);
+  if (terms.length === 0) {
+    return tasks;
+  }
+  return tasks.filter(task => matchesSearch(task, terms));
+};
+
+/**
+ * Finds the parts of a text matched by a search query
+ * Substring matches are preferred; a word is highlighted letter by letter only when it matches fuzzily.
+ * @param value - The text to highlight
+ * @param query - The search query as typed
+ * @returns Sorted, non-overlapping [start, end) ranges of the original text
+ */
+const getHighlightRanges = (value: string, query: string): Array<[number, number]> => {
+  const terms = getSearchTerms(query);
+  if (terms.length === 0 || !value) {
+    return [];
+  }
+
+  const { folded, positions } = foldWithPositions(value);
+  // Maps the end of a folded character back to the original text, including any dropped accents
+  const toOriginalEnd = (index: number): number =>
+    index + 1 < positions.length ? Math.max(positions[index] + 1, positions[index + 1]) : value.length;
+
+  const ranges: Array<[number, number]> = [];
+  terms.forEach(term => {
+    let index = folded.indexOf(term);
+    if (index !== -1) {
+      for (; index !== -1; index = folded.indexOf(term, index + term.length)) {
+        ranges.push([positions[index], toOriginalEnd(index + term.length - 1)]);
+      }
+      return;
+    }
+    (findFuzzyMatch(folded, term) ?? []).forEach(matched => {
+      ranges.push([positions[matched], toOriginalEnd(matched)]);
+    });
+  });
+
+  // Merge overlapping and adjacent ranges
+  ranges.sort((a, b) => a[0] - b[0]);
+  return ranges.reduce<Array<[number, number]>>((merged, range) => {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1]);
+    } else {
+      merged.push([range[0], range[1]]);
+    }
+    return merged;
+  }, []);
+};
+
+/**
+ * Splits a text into the parts matched by a search query and the parts in between
+ * @param value - The text to split
+ * @param query - The search query as typed
+ * @returns The parts of the text in order, each marked as highlighted or not
+ */
+const splitHighlights = (value: string, query: string): Array<{ text: string; highlighted: boolean }> => {
+  const segments: Array<{ text: string; highlighted: boolean }> = [];
+  let position = 0;
+
+  getHighlightRanges(value, query).forEach(([start, end]) => {
+    if (start > position) {
+      segments.push({ text: value.slice(position, start), highlighted: false });
+    }
+    segments.push({ text: value.slice(start, end), highlighted: true });
+    position = end;
+  });
+  if (position < value.length) {
+    segments.push({ text: value.slice(position), highlighted: false });
+  }
+
+  return segments;
+};
+
+// Export search functions as a default object for convenient importing
+export default {
+  foldText,
+  getSearchTerms,
+  findFuzzyMatch,
+  getSearchText,
+  matchesSearch,
+  searchTasks,
+  getHighlightRanges,
+  splitHighlights
+};
@@ -0,0 +1,75 @@
+import TagUtils from './tagUtils';
+import { Task, Priority } from '../types/Task';
+
+// Helper function to create a mock task for testing
+const createMockTask = (overrides: Partial<Task> = {}): Task => ({
+  id: 'task-123',
+  text: 'Test task',
+  completed: false,
+  priority: Priority.MEDIUM,
+  createdAt: 1623456789000,
+  ...overrides
+});
+
+describe('TagUtils', () => {
+  describe('normalizeTag', () => {
+    test('should lowercase tags and strip the leading #', () => {
+      expect(TagUtils.normalizeTag(' #Work ')).toBe('work');
+      expect(TagUtils.normalizeTag('home')).toBe('home');
+    });
+  });
+
+  describe('mergeTags', () => {
+    test('should combine lists without duplicates or empty tags', () => {
+      expect(TagUtils.mergeTags(['work', 'Home'], undefined, ['#home', '', 'errands'])).toEqual([
+        'work',
+        'home',
+        'errands'
+      ]);
+    });
+  });
+
+  describe('parseTags', () => {
+    test('should extract tags and remove them from the text', () => {
+      expect(TagUtils.parseTags('Call #Work plumber #home-repair')).toEqual({
+        text: 'Call plumber',
+        tags: ['work', 'home-repair']
+      });
+    });
+
+    test('should return text without tags unchanged', () => {
+      expect(TagUtils.parseTags('  Buy milk  ')).toEqual({ text: '  Buy milk  ', tags: [] });
+    });
+
+    test('should ignore # characters inside words', () => {
+      expect(TagUtils.parseTags('Fix issue#42 in C#')).toEqual({ text: 'Fix issue#42 in C#', tags: [] });
+    });
+
+    test('should return empty text when the input only contains tags', () => {
+      expect(TagUtils.parseTags('#work #home')).toEqual({ text: '', tags: ['work', 'home'] });
+    });
+  });
+
+  describe('getAllTags', () => {
+    test('should return the sorted unique tags of all tasks', () => {
+      const tasks = [
+        createMockTask({ tags: ['work', 'urgent'] }),
+        createMockTask(),
+        createMockTask({ tags: ['home', 'work'] })
+      ];
+
+      expect(TagUtils.getAllTags(tasks)).toEqual(['home', 'urgent', 'work']);
+    });
+  });
+
+  describe('hasAllTags', () => {
+    test('should require every given tag', () => {
+      const task = createMockTask({ tags: ['work', 'urgent'] });
+
+      expect(TagUtils.hasAllTags(task, ['work'])).toBe(true);
+      expect(TagUtils.hasAllTags(task, ['work', 'urgent'])).toBe(true);
+      expect(TagUtils.hasAllTags(task, ['work', 'home'])).toBe(false);
+      expect(TagUtils.hasAllTags(createMockTask(), [])).toBe(true);
+    });
+  });
+});
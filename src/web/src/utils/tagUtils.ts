@@ -0,0 +1,78 @@
+/**
+ * Utility module for working with task tags in the React Todo List application.
+ * Tags are stored lowercase without the leading '#' and are unique per task.
+ */
+import { Task } from '../types/Task';
+
+/**
+ * Matches '#tag' tokens at the start of the text or after whitespace
+ * Tags may contain letters, digits, underscores and hyphens.
+ */
+const TAG_PATTERN = /(^|\s)#([\w-]+)/g;
+
+/**
+ * Normalizes a tag for storage and comparison
+ * @param tag - The tag, with or without a leading '#'
+ * @returns The lowercase tag without the leading '#'
+ */
+const normalizeTag = (tag: string): string => {
+  return tag.trim().replace(/^#+/, '').toLowerCase();
+};
+
+/**
+ * Combines tag lists, normalizing each tag and dropping empty values and duplicates
+ * @param tagLists - The tag lists to combine
+ * @returns The combined tags in first-seen order
+ */
+const mergeTags = (...tagLists: (string[] | undefined)[]): string[] => {
+  const tags = tagLists.flatMap(list => list ?? []).map(normalizeTag).filter(tag => tag.length > 0);
+  return Array.from(new Set(tags));
+};
+
+/**
+ * Extracts '#tag' tokens from task text
+ * Text without tags is returned unchanged; otherwise the tags are removed and the
+ * remaining words are joined with single spaces.
+ * @param text - The text entered by the user
+ * @returns The text without tags and the normalized tags it contained
+ */
+const parseTags = (text: string): { text: string; tags: string[] } => {
+  const matches = Array.from(text.matchAll(TAG_PATTERN));
+  if (matches.length === 0) {
+    return { text, tags: [] };
+  }
+
+  return {
+    text: text.replace(TAG_PATTERN, ' ').replace(/\s+/g, ' ').trim(),
+    tags: mergeTags(matches.map(match => match[2]))
+  };
+};
+
+/**
+ * Collects every tag used across the given tasks
+ * @param tasks - The tasks to inspect
+ * @returns The unique tags, sorted alphabetically
+ */
+const getAllTags = (tasks: Task[]): string[] => {
+  return mergeTags(...tasks.map(task => task.tags)).sort();
+};
+
+/**
+ * Checks whether a task carries every one of the given tags
+ * @param task - The task to inspect
+ * @param tags - The normalized tags to look for
+ * @returns True if the task has all of the tags, or if no tags are given
+ */
+const hasAllTags = (task: Task, tags: string[]): boolean => {
+  const taskTags = task.tags ?? [];
+  return tags.every(tag => taskTags.includes(tag));
+};
+
+// Export tag functions as a default object for convenient importing
+export default {
+  normalizeTag,
+  mergeTags,
+  parseTags,
+  getAllTags,
+  hasAllTags
+};
@@ -1,6 +1,7 @@
 import taskUtils from './taskUtils';
-import { Task, CreateTaskInput, UpdateTaskInput, Priority } from '../types/Task';
+import { Task, CreateTaskInput, UpdateTaskInput, Priority, DueStatus } from '../types/Task';
 import { FilterType } from '../types/Filter';
+import { SortMode, SortField, SortDirection } from '../types/Sort';
 
 // Mock the IdGenerator to ensure consistent IDs in tests
 jest.mock('./idGenerator', () => ({
@@ -22,6 +23,7 @@ const createMockTask = (overrides = {}): Task => ({
   completed: false,
   priority: Priority.MEDIUM,
   createdAt: 1623456789000,
+  listId: 'inbox',
   ...overrides
 });
 
@@ -72,11 +74,53 @@ describe('taskUtils', () => {
       expect(() => taskUtils.createTask(input)).toThrow('Task text cannot be empty');
     });
 
-    test('should sanitize task text', () => {
-      const input: CreateTaskInput = { text: '  <script>alert("XSS")</script>  ' };
+    test('should trim task text and store it without escaping', () => {
+      const input: CreateTaskInput = { text: '  <script>alert("XSS")</script> & more  ' };
       const task = taskUtils.createTask(input);
       
-      expect(task.text).toBe('&lt;script&gt;alert(&quot;XSS&quot;)&lt;/script&gt;');
+      expect(task.text).toBe('<script>alert("XSS")</script> & more');
+    });
+
+    test('should add the task to the Inbox unless a list is given', () => {
+      expect(taskUtils.createTask({ text: 'Inbox task' }).listId).toBe('inbox');
+      expect(taskUtils.createTask({ text: 'Work task', listId: 'work' }).listId).toBe('work');
+    });
+  });
+
+  describe('createTask with due dates', () => {
+    test('should create a task with a due date and time', () => {
+      const task = taskUtils.createTask({ text: 'Task', dueDate: '2024-03-05', dueTime: '14:30' });
+      
+      expect(task.dueDate).toBe('2024-03-05');
+      expect(task.dueTime).toBe('14:30');
+    });
+
+    test('should ignore a due time without a due date', () => {
+      const task = taskUtils.createTask({ text: 'Task', dueTime: '14:30' });
+      
+      expect(task).not.toHaveProperty('dueDate');
+      expect(task).not.toHaveProperty('dueTime');
+    });
+
+    test('should create a task with normalized tags', () => {
+      const task = taskUtils.createTask({ text: 'Task', tags: ['Work', '#work', 'home'] });
+      
+      expect(task.tags).toEqual(['work', 'home']);
+    });
+
+    test('should omit tags when none are given', () => {
+      expect(taskUtils.createTask({ text: 'Task', tags: [] })).not.toHaveProperty('tags');
+    });
+
+    test('should throw an error for an unknown priority', () => {
+      expect(() => taskUtils.createTask({ text: 'Task', priority: 'urgent' as Priority })).toThrow('Invalid priority value');
+    });
+
+    test('should throw an error for malformed or impossible due dates', () => {
+      expect(() => taskUtils.createTask({ text: 'Task', dueDate: '05/03/2024' })).toThrow('Invalid due date');
+      expect(() => taskUtils.createTask({ text: 'Task', dueDate: '2024-02-30' })).toThrow('Invalid due date');
+      expect(() => taskUtils.createTask({ text: 'Task', dueDate: '2024-03-05', dueTime: '25:00' }))
+        .toThrow('Invalid due time');
     });
   });
 
@@ -102,6 +146,14 @@ describe('taskUtils', () => {
       expect(updatedTasks[1].priority).toBe(Priority.HIGH);
     });
 
+    test('should record when the task was updated', () => {
+      const input: UpdateTaskInput = { id: 'task-1', text: 'Updated Task' };
+      const updatedTasks = taskUtils.updateTask(tasks, input);
+      
+      expect(updatedTasks[1].updatedAt).toBeLessThanOrEqual(Date.now());
+      expect(updatedTasks[0].updatedAt).toBeUndefined();
+    });
+
     test('should update both text and priority', () => {
       const input: UpdateTaskInput = { 
         id: 'task-1', 
@@ -127,11 +179,51 @@ describe('taskUtils', () => {
       expect(() => taskUtils.updateTask(tasks, input)).toThrow('Task ID is required for updates');
     });
 
-    test('should sanitize updated text', () => {
+    test('should trim updated text without escaping it', () => {
       const input: UpdateTaskInput = { id: 'task-1', text: '  Updated Task with <b>HTML</b>  ' };
       const updatedTasks = taskUtils.updateTask(tasks, input);
       
-      expect(updatedTasks[1].text).toBe('Updated Task with &lt;b&gt;HTML&lt;/b&gt;');
+      expect(updatedTasks[1].text).toBe('Updated Task with <b>HTML</b>');
+    });
+
+    test('should leave text unchanged over repeated edits', () => {
+      const text = 'Fish & chips <today>';
+      const once = taskUtils.updateTask(tasks, { id: 'task-1', text });
+      const twice = taskUtils.updateTask(once, { id: 'task-1', text: once[1].text });
+      
+      expect(twice[1].text).toBe(text);
+    });
+
+    test('should set and change the due date and time', () => {
+      const withDueDate = taskUtils.updateTask(tasks, { id: 'task-1', dueDate: '2024-03-05', dueTime: '09:00' });
+      const rescheduled = taskUtils.updateTask(withDueDate, { id: 'task-1', dueDate: '2024-03-06' });
+      
+      expect(withDueDate[1]).toMatchObject({ dueDate: '2024-03-05', dueTime: '09:00' });
+      expect(rescheduled[1]).toMatchObject({ dueDate: '2024-03-06', dueTime: '09:00' });
+    });
+
+    test('should replace the tags of a task', () => {
+      const withTags = taskUtils.updateTask(tasks, { id: 'task-1', tags: ['work', 'home'] });
+      const updatedTasks = taskUtils.updateTask(withTags, { id: 'task-1', tags: ['Home'] });
+      
+      expect(withTags[1].tags).toEqual(['work', 'home']);
+      expect(updatedTasks[1].tags).toEqual(['home']);
+    });
+
+    test('should remove the due date and time when the due date is null', () => {
+      const withDueDate = taskUtils.updateTask(tasks, { id: 'task-1', dueDate: '2024-03-05', dueTime: '09:00' });
+      const updatedTasks = taskUtils.updateTask(withDueDate, { id: 'task-1', dueDate: null });
+      
+      expect(updatedTasks[1]).not.toHaveProperty('dueDate');
+      expect(updatedTasks[1]).not.toHaveProperty('dueTime');
+    });
+
+    test('should remove only the due time when the due time is null', () => {
+      const withDueDate = taskUtils.updateTask(tasks, { id: 'task-1', dueDate: '2024-03-05', dueTime: '09:00' });
+      const updatedTasks = taskUtils.updateTask(withDueDate, { id: 'task-1', dueTime: null });
+      
+      expect(updatedTasks[1].dueDate).toBe('2024-03-05');
+      expect(updatedTasks[1]).not.toHaveProperty('dueTime');
     });
   });
 
@@ -166,6 +258,93 @@ describe('taskUtils', () => {
     test('should throw an error when id is not provided', () => {
       expect(() => taskUtils.toggleTaskStatus(tasks, '')).toThrow('Task ID is required');
     });
+
+    test('should complete open subtasks when completing a task', () => {
+      const parent = createMockTask({
+        id: 'parent',
+        subtasks: [
+          { id: 'step-1', text: 'Step 1', completed: true },
+          { id: 'step-2', text: 'Step 2', completed: false }
+        ]
+      });
+      const [completedParent] = taskUtils.toggleTaskStatus([parent], 'parent');
+      
+      expect(completedParent.completed).toBe(true);
+      expect(completedParent.subtasks?.every(subtask => subtask.completed)).toBe(true);
+    });
+
+    test('should leave subtasks unchanged when reopening a task', () => {
+      const parent = createMockTask({
+        id: 'parent',
+        completed: true,
+        subtasks: [{ id: 'step-1', text: 'Step 1', completed: true }]
+      });
+      const [reopenedParent] = taskUtils.toggleTaskStatus([parent], 'parent');
+      
+      expect(reopenedParent.completed).toBe(false);
+      expect(reopenedParent.subtasks).toEqual(parent.subtasks);
+    });
+  });
+
+  describe('subtasks', () => {
+    const step = (id: string, completed = false) => ({ id, text: `Step ${id}`, completed });
+
+    test('should add a trimmed subtask to the end of the checklist', () => {
+      const tasks = [createMockTask({ id: 'parent', subtasks: [step('a')] })];
+      const [parent] = taskUtils.addSubtask(tasks, 'parent', '  Buy <milk>  ');
+      
+      expect(parent.subtasks).toHaveLength(2);
+      expect(parent.subtasks?.[0]).toEqual(step('a'));
+      expect(parent.subtasks?.[1]).toMatchObject({ text: 'Buy <milk>', completed: false });
+    });
+
+    test('should reopen a completed task when a step is added', () => {
+      const tasks = [createMockTask({ id: 'parent', completed: true })];
+      
+      expect(taskUtils.addSubtask(tasks, 'parent', 'Another step')[0].completed).toBe(false);
+    });
+
+    test('should throw an error when subtask text is empty', () => {
+      const tasks = [createMockTask({ id: 'parent' })];
+      
+      expect(() => taskUtils.addSubtask(tasks, 'parent', '  ')).toThrow('Subtask text cannot be empty');
+    });
+
+    test('should toggle a subtask without completing the task', () => {
+      const tasks = [createMockTask({ id: 'parent', subtasks: [step('a', true), step('b')] })];
+      const [parent] = taskUtils.toggleSubtaskStatus(tasks, 'parent', 'b');
+      
+      expect(parent.subtasks).toEqual([step('a', true), step('b', true)]);
+      expect(parent.completed).toBe(false);
+    });
+
+    test('should reopen a completed task when one of its steps is reopened', () => {
+      const tasks = [createMockTask({ id: 'parent', completed: true, subtasks: [step('a', true)] })];
+      const [parent] = taskUtils.toggleSubtaskStatus(tasks, 'parent', 'a');
+      
+      expect(parent.subtasks).toEqual([step('a')]);
+      expect(parent.completed).toBe(false);
+    });
+
+    test('should delete a subtask', () => {
+      const tasks = [createMockTask({ id: 'parent', subtasks: [step('a'), step('b')] })];
+      
+      expect(taskUtils.deleteSubtask(tasks, 'parent', 'a')[0].subtasks).toEqual([step('b')]);
+    });
+
+    test('should return the original array if the task or subtask is not found', () => {
+      const tasks = [createMockTask({ id: 'parent', subtasks: [step('a')] })];
+      
+      expect(taskUtils.toggleSubtaskStatus(tasks, 'missing', 'a')).toBe(tasks);
+      expect(taskUtils.toggleSubtaskStatus(tasks, 'parent', 'missing')).toBe(tasks);
+      expect(taskUtils.deleteSubtask(tasks, 'parent', 'missing')).toBe(tasks);
+    });
+
+    test('should report subtask progress', () => {
+      expect(taskUtils.getSubtaskProgress(createMockTask())).toEqual({ completed: 0, total: 0 });
+      expect(taskUtils.getSubtaskProgress(createMockTask({ subtasks: [step('a', true), step('b')] })))
+        .toEqual({ completed: 1, total: 2 });
+    });
   });
 
   describe('deleteTask', () => {
@@ -196,6 +375,28 @@ describe('taskUtils', () => {
     });
   });
 
+  describe('moveTaskToList', () => {
+    test('should move the task to the given list', () => {
+      const tasks = createMockTasks(2);
+      const updatedTasks = taskUtils.moveTaskToList(tasks, 'task-1', 'work');
+
+      expect(updatedTasks[1].listId).toBe('work');
+      expect(updatedTasks[1].updatedAt).toBeDefined();
+      expect(updatedTasks[0]).toBe(tasks[0]);
+    });
+
+    test('should return the original array when nothing moves', () => {
+      const tasks = createMockTasks(2);
+
+      expect(taskUtils.moveTaskToList(tasks, 'task-1', 'inbox')).toBe(tasks);
+      expect(taskUtils.moveTaskToList(tasks, 'non-existent', 'work')).toBe(tasks);
+    });
+
+    test('should throw an error when the list is not provided', () => {
+      expect(() => taskUtils.moveTaskToList(createMockTasks(1), 'task-0', '')).toThrow('List ID is required');
+    });
+  });
+
   describe('filterTasks', () => {
     let tasks: Task[];
     
@@ -230,6 +431,158 @@ describe('taskUtils', () => {
       expect(filteredTasks.length).toBe(4);
       expect(filteredTasks).toEqual(tasks);
     });
+
+    test('should return incomplete tasks due today when filter is DUE_TODAY', () => {
+      const now = new Date(2024, 2, 5, 12, 0).getTime();
+      const dueTasks = [
+        createMockTask({ id: 'today', dueDate: '2024-03-05' }),
+        createMockTask({ id: 'earlier-today', dueDate: '2024-03-05', dueTime: '09:00' }),
+        createMockTask({ id: 'done-today', dueDate: '2024-03-05', completed: true }),
+        createMockTask({ id: 'tomorrow', dueDate: '2024-03-06' }),
+        createMockTask({ id: 'none' })
+      ];
+      
+      const filteredTasks = taskUtils.filterTasks(dueTasks, FilterType.DUE_TODAY, now);
+      
+      expect(filteredTasks.map(t => t.id)).toEqual(['today', 'earlier-today']);
+    });
+
+    test('should return incomplete tasks past their due date when filter is OVERDUE', () => {
+      const now = new Date(2024, 2, 5, 12, 0).getTime();
+      const dueTasks = [
+        createMockTask({ id: 'yesterday', dueDate: '2024-03-04' }),
+        createMockTask({ id: 'earlier-today', dueDate: '2024-03-05', dueTime: '09:00' }),
+        createMockTask({ id: 'later-today', dueDate: '2024-03-05', dueTime: '18:00' }),
+        createMockTask({ id: 'done-yesterday', dueDate: '2024-03-04', completed: true }),
+        createMockTask({ id: 'none' })
+      ];
+      
+      const filteredTasks = taskUtils.filterTasks(dueTasks, FilterType.OVERDUE, now);
+      
+      expect(filteredTasks.map(t => t.id)).toEqual(['yesterday', 'earlier-today']);
+    });
+  });
+
+  describe('filterTasks with a structured filter', () => {
+    const taggedTasks = [
+      createMockTask({ id: 'work', tags: ['work'] }),
+      createMockTask({ id: 'work-done', tags: ['work'], completed: true }),
+      createMockTask({ id: 'work-urgent', tags: ['work', 'urgent'] }),
+      createMockTask({ id: 'untagged' })
+    ];
+
+    test('should combine the status filter with tags', () => {
+      const filteredTasks = taskUtils.filterTasks(taggedTasks, { status: FilterType.ACTIVE, tags: ['work'] });
+      
+      expect(filteredTasks.map(t => t.id)).toEqual(['work', 'work-urgent']);
+    });
+
+    test('should require every selected tag', () => {
+      const filteredTasks = taskUtils.filterTasks(taggedTasks, { status: FilterType.ALL, tags: ['work', 'urgent'] });
+      
+      expect(filteredTasks.map(t => t.id)).toEqual(['work-urgent']);
+    });
+
+    test('should filter by status only when no tags are selected', () => {
+      const filteredTasks = taskUtils.filterTasks(taggedTasks, { status: FilterType.COMPLETED, tags: [] });
+      
+      expect(filteredTasks.map(t => t.id)).toEqual(['work-done']);
+    });
+  });
+
+  describe('getDueStatus', () => {
+    const now = new Date(2024, 2, 5, 12, 0).getTime();
+
+    test('should return null for tasks without a due date', () => {
+      expect(taskUtils.getDueStatus(createMockTask(), now)).toBeNull();
+    });
+
+    test('should return null for completed tasks', () => {
+      expect(taskUtils.getDueStatus(createMockTask({ dueDate: '2024-03-01', completed: true }), now)).toBeNull();
+    });
+
+    test('should treat a date without a time as due at the end of the day', () => {
+      expect(taskUtils.getDueStatus(createMockTask({ dueDate: '2024-03-05' }), now)).toBe(DueStatus.TODAY);
+      expect(taskUtils.getDueStatus(createMockTask({ dueDate: '2024-03-04' }), now)).toBe(DueStatus.OVERDUE);
+    });
+
+    test('should treat a passed due time today as overdue', () => {
+      const task = createMockTask({ dueDate: '2024-03-05', dueTime: '11:59' });
+      
+      expect(taskUtils.getDueStatus(task, now)).toBe(DueStatus.OVERDUE);
+      expect(taskUtils.isOverdue(task, now)).toBe(true);
+    });
+
+    test('should return UPCOMING for future dates', () => {
+      expect(taskUtils.getDueStatus(createMockTask({ dueDate: '2024-03-06' }), now)).toBe(DueStatus.UPCOMING);
+    });
+  });
+
+  describe('formatDueDate', () => {
+    const now = new Date(2024, 2, 5, 12, 0).getTime();
+
+    test('should return an empty string for tasks without a due date', () => {
+      expect(taskUtils.formatDueDate(createMockTask(), now)).toBe('');
+    });
+
+    test('should include the due time when set', () => {
+      const formatted = taskUtils.formatDueDate(createMockTask({ dueDate: '2024-03-06', dueTime: '14:30' }), now);
+      
+      expect(formatted).toMatch(/6/);
+      expect(formatted).toMatch(/, 14:30$/);
+    });
+
+    test('should include the year only for dates outside the current year', () => {
+      expect(taskUtils.formatDueDate(createMockTask({ dueDate: '2024-03-06' }), now)).not.toMatch(/2024/);
+      expect(taskUtils.formatDueDate(createMockTask({ dueDate: '2025-03-06' }), now)).toMatch(/2025/);
+    });
+  });
+
+  describe('isValidPriority', () => {
+    test('should accept only the priority levels', () => {
+      expect(taskUtils.isValidPriority(Priority.LOW)).toBe(true);
+      expect(taskUtils.isValidPriority('HIGH')).toBe(false);
+      expect(taskUtils.isValidPriority(undefined)).toBe(false);
+    });
+  });
+
+  describe('normalizePriority', () => {
+    test('should ignore case and surrounding whitespace', () => {
+      expect(taskUtils.normalizePriority(' High ')).toBe(Priority.HIGH);
+      expect(taskUtils.normalizePriority('low')).toBe(Priority.LOW);
+    });
+
+    test('should return null for values that are not priority levels', () => {
+      expect(taskUtils.normalizePriority('urgent')).toBeNull();
+      expect(taskUtils.normalizePriority(3)).toBeNull();
+      expect(taskUtils.normalizePriority(null)).toBeNull();
+    });
+  });
+
+  describe('repairTaskPriorities', () => {
+    test('should return the same array when every priority is valid', () => {
+      const tasks = createMockTasks(3);
+
+      expect(taskUtils.repairTaskPriorities(tasks)).toBe(tasks);
+    });
+
+    test('should normalize recognizable priorities and reset unknown ones to medium', () => {
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      const valid = createMockTask({ id: 'task-1', priority: Priority.LOW });
+      const tasks = [
+        valid,
+        createMockTask({ id: 'task-2', priority: 'HIGH' as Priority }),
+        createMockTask({ id: 'task-3', priority: 'urgent' as Priority }),
+        createMockTask({ id: 'task-4', priority: undefined as unknown as Priority })
+      ];
+
+      const repaired = taskUtils.repairTaskPriorities(tasks);
+
+      expect(repaired.map(task => task.priority)).toEqual([Priority.LOW, Priority.HIGH, Priority.MEDIUM, Priority.MEDIUM]);
+      expect(repaired[0]).toBe(valid);
+      expect(warnSpy).toHaveBeenCalledWith('Repaired 3 tasks with an unknown priority');
+      warnSpy.mockRestore();
+    });
   });
 
   describe('updateTaskPriority', () => {
@@ -300,6 +653,140 @@ describe('taskUtils', () => {
       expect(sortedTasks[0].id).toBe('task-1'); // LOW
       expect(sortedTasks[1].id).toBe('task-2'); // Invalid (lowest priority)
     });
+
+    test('should place invalid priorities last whatever their position', () => {
+      const tasks = [
+        createMockTask({ id: 'task-1', priority: 'invalid' as Priority }),
+        createMockTask({ id: 'task-2', priority: Priority.LOW }),
+        createMockTask({ id: 'task-3', priority: Priority.HIGH })
+      ];
+      
+      const sortedTasks = taskUtils.sortTasksByPriority(tasks);
+      
+      expect(sortedTasks.map(task => task.id)).toEqual(['task-3', 'task-2', 'task-1']);
+    });
+  });
+
+  describe('sortTasks', () => {
+    const tasks = [
+      createMockTask({ id: 'task-1', text: 'banana', priority: Priority.LOW, createdAt: 3, order: 1, dueDate: '2024-03-01' }),
+      createMockTask({ id: 'task-2', text: 'Apple', priority: Priority.HIGH, createdAt: 2 }),
+      createMockTask({ id: 'task-3', text: 'cherry', priority: Priority.MEDIUM, createdAt: 1, order: 0, dueDate: '2024-02-01' })
+    ];
+    const ids = (sorted: Task[]) => sorted.map(task => task.id);
+
+    test('should sort by manual order, placing tasks without an order last', () => {
+      expect(ids(taskUtils.sortTasks(tasks, taskUtils.SORT_PRESETS[SortMode.MANUAL]))).toEqual(['task-3', 'task-1', 'task-2']);
+    });
+
+    test('should sort by each preset', () => {
+      expect(ids(taskUtils.sortTasks(tasks, taskUtils.SORT_PRESETS[SortMode.PRIORITY]))).toEqual(['task-2', 'task-3', 'task-1']);
+      expect(ids(taskUtils.sortTasks(tasks, taskUtils.SORT_PRESETS[SortMode.DUE_DATE]))).toEqual(['task-3', 'task-1', 'task-2']);
+      expect(ids(taskUtils.sortTasks(tasks, taskUtils.SORT_PRESETS[SortMode.CREATED]))).toEqual(['task-3', 'task-2', 'task-1']);
+      expect(ids(taskUtils.sortTasks(tasks, taskUtils.SORT_PRESETS[SortMode.ALPHABETICAL]))).toEqual(['task-2', 'task-1', 'task-3']);
+    });
+
+    test('should sort by priority when no specification is given', () => {
+      expect(ids(taskUtils.sortTasks(tasks))).toEqual(['task-2', 'task-3', 'task-1']);
+      expect(taskUtils.sortTasks(tasks)).not.toBe(tasks);
+    });
+
+    test('should break ties with each following key', () => {
+      const sameDay = [
+        createMockTask({ id: 'task-1', text: 'b', priority: Priority.HIGH, createdAt: 2 }),
+        createMockTask({ id: 'task-2', text: 'c', priority: Priority.HIGH, createdAt: 1 }),
+        createMockTask({ id: 'task-3', text: 'a', priority: Priority.HIGH, createdAt: 2 }),
+        createMockTask({ id: 'task-4', text: 'z', priority: Priority.LOW, createdAt: 0 })
+      ];
+
+      expect(ids(taskUtils.sortTasks(sameDay, [
+        { field: SortField.PRIORITY, direction: SortDirection.DESC },
+        { field: SortField.CREATED_AT, direction: SortDirection.ASC },
+        { field: SortField.TEXT, direction: SortDirection.ASC }
+      ]))).toEqual(['task-2', 'task-3', 'task-1', 'task-4']);
+    });
+
+    test('should keep missing values last in either direction', () => {
+      const spec = (direction: SortDirection) => [{ field: SortField.DUE_DATE, direction }];
+
+      expect(ids(taskUtils.sortTasks(tasks, spec(SortDirection.ASC)))).toEqual(['task-3', 'task-1', 'task-2']);
+      expect(ids(taskUtils.sortTasks(tasks, spec(SortDirection.DESC)))).toEqual(['task-1', 'task-3', 'task-2']);
+    });
+
+    test('should keep the relative order of tasks that tie on every key', () => {
+      const sameText = [
+        createMockTask({ id: 'task-1', text: 'Same' }),
+        createMockTask({ id: 'task-2', text: 'same' }),
+        createMockTask({ id: 'task-3', text: 'SAME' })
+      ];
+
+      expect(ids(taskUtils.sortTasks(sameText, [{ field: SortField.TEXT, direction: SortDirection.ASC }]))).toEqual([
+        'task-1',
+        'task-2',
+        'task-3'
+      ]);
+    });
+  });
+
+  describe('normalizeSortSpec', () => {
+    test('should expand preset names stored by earlier versions', () => {
+      expect(taskUtils.normalizeSortSpec('manual')).toEqual(taskUtils.SORT_PRESETS[SortMode.MANUAL]);
+    });
+
+    test('should keep valid specifications and drop unknown properties', () => {
+      expect(taskUtils.normalizeSortSpec([{ field: 'text', direction: 'desc', extra: true }])).toEqual([
+        { field: SortField.TEXT, direction: SortDirection.DESC }
+      ]);
+    });
+
+    test('should fall back to the priority preset for invalid values', () => {
+      const priority = taskUtils.SORT_PRESETS[SortMode.PRIORITY];
+
+      expect(taskUtils.normalizeSortSpec(undefined)).toEqual(priority);
+      expect(taskUtils.normalizeSortSpec([])).toEqual(priority);
+      expect(taskUtils.normalizeSortSpec([{ field: 'colour', direction: 'asc' }])).toEqual(priority);
+    });
+  });
+
+  describe('getSortMode', () => {
+    test('should find the preset matching a specification', () => {
+      expect(taskUtils.getSortMode([{ field: SortField.ORDER, direction: SortDirection.ASC }])).toBe(SortMode.MANUAL);
+      expect(taskUtils.getSortMode([{ field: SortField.ORDER, direction: SortDirection.DESC }])).toBeNull();
+    });
+  });
+
+  describe('getNextOrder', () => {
+    test('should return a value after every existing order', () => {
+      expect(taskUtils.getNextOrder([])).toBe(0);
+      expect(taskUtils.getNextOrder([createMockTask({ order: 7 }), createMockTask()])).toBe(8);
+      expect(taskUtils.getNextOrder([createMockTask(), createMockTask()])).toBe(2);
+    });
+  });
+
+  describe('reorderTask', () => {
+    const tasks = [0, 1, 2, 3].map(i => createMockTask({ id: `task-${i}`, order: i }));
+    const allIds = tasks.map(task => task.id);
+    const orderOf = (result: Task[]) =>
+      taskUtils.sortTasksByOrder(result).map(task => task.id);
+
+    test('should move a task up or down', () => {
+      expect(orderOf(taskUtils.reorderTask(tasks, 'task-3', allIds, 0))).toEqual(['task-3', 'task-0', 'task-1', 'task-2']);
+      expect(orderOf(taskUtils.reorderTask(tasks, 'task-0', allIds, 2))).toEqual(['task-1', 'task-2', 'task-0', 'task-3']);
+      expect(orderOf(taskUtils.reorderTask(tasks, 'task-1', allIds, 3))).toEqual(['task-0', 'task-2', 'task-3', 'task-1']);
+    });
+
+    test('should keep hidden tasks in place when moving among filtered tasks', () => {
+      // Only task-0 and task-2 are visible; task-2 moves above task-0
+      const result = taskUtils.reorderTask(tasks, 'task-2', ['task-0', 'task-2'], 0);
+
+      expect(orderOf(result)).toEqual(['task-2', 'task-0', 'task-1', 'task-3']);
+      expect(result.map(task => task.order)).toEqual([1, 2, 0, 3]);
+    });
+
+    test('should return the original array when nothing moves', () => {
+      expect(taskUtils.reorderTask(tasks, 'task-1', allIds, 1)).toBe(tasks);
+      expect(taskUtils.reorderTask(tasks, 'missing', allIds, 0)).toBe(tasks);
+    });
   });
 
   describe('getActiveTaskCount', () => {
@@ -392,4 +879,109 @@ describe('taskUtils', () => {
       expect(taskUtils.sanitizeTaskText('')).toBe('');
     });
   });
-});
\ No newline at end of file
+
+  describe('decodeTaskText', () => {
+    test('should reverse sanitizeTaskText', () => {
+      const text = `<b>Tom's</b> "fish" & chips`;
+      expect(taskUtils.decodeTaskText(taskUtils.sanitizeTaskText(text))).toBe(text);
+    });
+
+    test('should decode a single level per call', () => {
+      expect(taskUtils.decodeTaskText('&amp;lt;')).toBe('&lt;');
+    });
+
+    test('should keep entities the user typed', () => {
+      const text = 'Write &amp;lt; for <';
+      expect(taskUtils.decodeTaskText(taskUtils.sanitizeTaskText(text))).toBe(text);
+    });
+
+    test('should leave raw text unchanged', () => {
+      expect(taskUtils.decodeTaskText('A & B < C')).toBe('A & B < C');
+    });
+  });
+
+  describe('decodeLegacyTaskText', () => {
+    test('should decode every level of escaping', () => {
+      expect(taskUtils.decodeLegacyTaskText('Fish &amp;amp; chips &amp;lt;today&amp;gt;')).toBe('Fish & chips <today>');
+    });
+
+    test('should decode text escaped on entry, on creation and on each edit', () => {
+      const text = `<b>Tom's</b> "fish" & chips`;
+      const stored = taskUtils.sanitizeTaskText(taskUtils.sanitizeTaskText(taskUtils.sanitizeTaskText(text)));
+      expect(taskUtils.decodeLegacyTaskText(stored)).toBe(text);
+    });
+
+    test('should leave raw text unchanged', () => {
+      expect(taskUtils.decodeLegacyTaskText('A & B < C')).toBe('A & B < C');
+    });
+  });
+
+  describe('overlayTaskFields', () => {
+    test('should apply only the given fields and remove those the imported task lacks', () => {
+      const existing = createMockTask({ id: 'task-1', listId: 'list-work', order: 2, dueDate: '2024-03-01', tags: ['home'] });
+      const imported = createMockTask({ id: 'task-1', text: 'Imported', listId: 'inbox', priority: Priority.HIGH });
+
+      expect(taskUtils.overlayTaskFields(existing, imported, ['text', 'dueDate'])).toEqual({
+        ...existing,
+        text: 'Imported',
+        dueDate: undefined
+      });
+      expect(taskUtils.overlayTaskFields(existing, imported, ['dueDate'])).not.toHaveProperty('dueDate');
+    });
+  });
+
+  describe('mergeTasks', () => {
+    const base = [
+      createMockTask({ id: 'task-1', text: 'One' }),
+      createMockTask({ id: 'task-2', text: 'Two' })
+    ];
+
+    test('should take remote changes to tasks that are unchanged locally', () => {
+      const remote = [base[0], { ...base[1], completed: true, updatedAt: 1623456790000 }];
+      
+      expect(taskUtils.mergeTasks(base, base, remote)).toEqual(remote);
+    });
+
+    test('should keep local changes to tasks that are unchanged remotely', () => {
+      const local = [{ ...base[0], text: 'Local', updatedAt: 1623456790000 }, base[1]];
+      
+      expect(taskUtils.mergeTasks(base, local, base)).toEqual(local);
+    });
+
+    test('should keep the most recent edit when both sides changed the same task', () => {
+      const local = [{ ...base[0], text: 'Local', updatedAt: 1623456791000 }, base[1]];
+      const remote = [{ ...base[0], text: 'Remote', updatedAt: 1623456790000 }, base[1]];
+      
+      expect(taskUtils.mergeTasks(base, local, remote)[0].text).toBe('Local');
+      expect(taskUtils.mergeTasks(base, remote, local)[0].text).toBe('Local');
+    });
+
+    test('should prefer the remote edit when timestamps are equal', () => {
+      const local = [{ ...base[0], text: 'Local', updatedAt: 1623456790000 }, base[1]];
+      const remote = [{ ...base[0], text: 'Remote', updatedAt: 1623456790000 }, base[1]];
+      
+      expect(taskUtils.mergeTasks(base, local, remote)[0].text).toBe('Remote');
+    });
+
+    test('should keep tasks added on either side', () => {
+      const localTask = createMockTask({ id: 'task-local' });
+      const remoteTask = createMockTask({ id: 'task-remote' });
+      
+      const merged = taskUtils.mergeTasks(base, [...base, localTask], [...base, remoteTask]);
+      
+      expect(merged.map(task => task.id)).toEqual(['task-1', 'task-2', 'task-remote', 'task-local']);
+    });
+
+    test('should apply deletions of tasks the other side did not edit', () => {
+      expect(taskUtils.mergeTasks(base, base, [base[1]])).toEqual([base[1]]);
+      expect(taskUtils.mergeTasks(base, [base[1]], base)).toEqual([base[1]]);
+    });
+
+    test('should keep a task that was edited on one side and deleted on the other', () => {
+      const edited = { ...base[0], text: 'Edited', updatedAt: 1623456790000 };
+      
+      expect(taskUtils.mergeTasks(base, [edited, base[1]], [base[1]])).toEqual([base[1], edited]);
+      expect(taskUtils.mergeTasks(base, [base[1]], [edited, base[1]])).toEqual([edited, base[1]]);
+    });
+  });
+});
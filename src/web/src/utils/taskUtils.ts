@@ -1,6 +1,9 @@
-import { Task, CreateTaskInput, UpdateTaskInput, Priority } from '../types/Task';
-import { FilterType } from '../types/Filter';
+import { Task, Subtask, CreateTaskInput, UpdateTaskInput, Priority, DueStatus } from '../types/Task';
+import { FilterType, TaskFilter } from '../types/Filter';
+import { SortMode, SortField, SortDirection, SortKey, SortSpec } from '../types/Sort';
 import IdGenerator from './idGenerator';
+import TagUtils from './tagUtils';
+import ListUtils from './listUtils';
 
 /**
  * Creates a new task object with the provided text and priority
@@ -13,27 +16,40 @@ const createTask = (input: CreateTaskInput): Task => {
     throw new Error('Task text cannot be empty');
   }
 
-  // Trim whitespace from input text
-  const sanitizedText = sanitizeTaskText(input.text);
+  // Trim whitespace from input text; the text is stored raw and escaped when it is output
+  const trimmedText = input.text.trim();
 
   // Generate a unique ID for the task
   const id = IdGenerator.generateWithPrefix('task-');
 
-  // Set default priority to MEDIUM if not provided
-  const priority = input.priority || Priority.MEDIUM;
+  // Set default priority to MEDIUM if not provided, rejecting unknown levels
+  const priority = input.priority ?? Priority.MEDIUM;
+  if (!isValidPriority(priority)) {
+    throw new Error('Invalid priority value');
+  }
+
+  // Validate the optional due date and time
+  validateDueDate(input.dueDate, input.dueTime);
+
+  // Normalize the optional tags
+  const tags = TagUtils.mergeTags(input.tags);
 
-  // Create and return a new task object
+  // Create and return a new task object, with a due time only alongside a due date
   return {
     id,
-    text: sanitizedText,
+    text: trimmedText,
     completed: false,
     priority,
-    createdAt: Date.now()
+    createdAt: Date.now(),
+    listId: input.listId || ListUtils.INBOX_LIST_ID,
+    ...(input.dueDate && { dueDate: input.dueDate }),
+    ...(input.dueDate && input.dueTime && { dueTime: input.dueTime }),
+    ...(tags.length > 0 && { tags })
   };
 };
 
 /**
- * Updates an existing task with new text and/or priority
+ * Updates an existing task with new text, priority, due date and/or tags
  * @param tasks - The current array of tasks
  * @param input - Object containing task ID and updated properties
  * @returns A new array with the updated task
@@ -52,14 +68,28 @@ const updateTask = (tasks: Task[], input: UpdateTaskInput): Task[] => {
     return tasks;
   }
 
+  // Validate the optional priority, due date and time
+  if (input.priority !== undefined && !isValidPriority(input.priority)) {
+    throw new Error('Invalid priority value');
+  }
+  validateDueDate(input.dueDate, input.dueTime);
+
   // Create a new array with all tasks
   const updatedTasks = [...tasks];
 
-  // Replace the found task with an updated version containing new text and/or priority
+  // Replace the found task with an updated version containing new text, priority and/or due date
+  const { dueDate, dueTime, ...task } = updatedTasks[taskIndex];
+  const nextDueDate = input.dueDate !== undefined ? input.dueDate : dueDate;
+  const nextDueTime = input.dueTime !== undefined ? input.dueTime : dueTime;
   updatedTasks[taskIndex] = {
-    ...updatedTasks[taskIndex],
-    ...(input.text !== undefined && { text: sanitizeTaskText(input.text) }),
-    ...(input.priority !== undefined && { priority: input.priority })
+    ...task,
+    ...(input.text !== undefined && { text: input.text.trim() }),
+    ...(input.priority !== undefined && { priority: input.priority }),
+    ...(input.tags !== undefined && { tags: TagUtils.mergeTags(input.tags) }),
+    // A null due date removes the due time along with it
+    ...(nextDueDate && { dueDate: nextDueDate }),
+    ...(nextDueDate && nextDueTime && { dueTime: nextDueTime }),
+    updatedAt: Date.now()
   };
 
   // Return the new tasks array
@@ -68,6 +98,8 @@ const updateTask = (tasks: Task[], input: UpdateTaskInput): Task[] => {
 
 /**
  * Toggles the completion status of a task
+ * Completing a task also completes all of its open subtasks, so a completed task
+ * never has open steps. Reopening a task leaves its subtasks unchanged.
  * @param tasks - The current array of tasks
  * @param taskId - The ID of the task to toggle
  * @returns A new array with the toggled task
@@ -90,9 +122,16 @@ const toggleTaskStatus = (tasks: Task[], taskId: string): Task[] => {
   const updatedTasks = [...tasks];
 
   // Replace the found task with an updated version with the completed status toggled
+  const task = updatedTasks[taskIndex];
+  const completed = !task.completed;
   updatedTasks[taskIndex] = {
-    ...updatedTasks[taskIndex],
-    completed: !updatedTasks[taskIndex].completed
+    ...task,
+    completed,
+    // Completing the task completes its open subtasks as well
+    ...(completed && task.subtasks && {
+      subtasks: task.subtasks.map(subtask => ({ ...subtask, completed: true }))
+    }),
+    updatedAt: Date.now()
   };
 
   // Return the new tasks array
@@ -116,12 +155,179 @@ const deleteTask = (tasks: Task[], taskId: string): Task[] => {
 };
 
 /**
- * Filters tasks based on the specified filter type
+ * Moves a task to another list
+ * @param tasks - The current array of tasks
+ * @param taskId - The ID of the task to move
+ * @param listId - The ID of the destination list
+ * @returns A new array with the moved task, or the original array if nothing changed
+ */
+const moveTaskToList = (tasks: Task[], taskId: string, listId: string): Task[] => {
+  // Validate that both IDs exist
+  if (!taskId) {
+    throw new Error('Task ID is required');
+  }
+  if (!listId) {
+    throw new Error('List ID is required');
+  }
+
+  // Leave the array untouched if the task is missing or already in the list
+  const task = tasks.find(t => t.id === taskId);
+  if (!task || task.listId === listId) {
+    return tasks;
+  }
+
+  return tasks.map(t => (t.id === taskId ? { ...t, listId, updatedAt: Date.now() } : t));
+};
+
+/**
+ * Applies a change to the subtasks of a task
+ * @param tasks - The current array of tasks
+ * @param taskId - The ID of the task that owns the subtasks
+ * @param update - Function returning the changed task fields, or null if nothing changes
+ * @returns A new array with the updated task, or the original array if nothing changed
+ */
+const updateSubtasks = (
+  tasks: Task[],
+  taskId: string,
+  update: (task: Task, subtasks: Subtask[]) => Partial<Task> | null
+): Task[] => {
+  // Validate that taskId exists
+  if (!taskId) {
+    throw new Error('Task ID is required');
+  }
+
+  // Find the task with the matching ID
+  const taskIndex = tasks.findIndex(task => task.id === taskId);
+
+  // If task not found, return the original array
+  if (taskIndex === -1) {
+    return tasks;
+  }
+
+  // If the subtask change does not apply, return the original array
+  const task = tasks[taskIndex];
+  const changes = update(task, task.subtasks ?? []);
+  if (!changes) {
+    return tasks;
+  }
+
+  // Replace the found task with a version containing the changed subtasks
+  const updatedTasks = [...tasks];
+  updatedTasks[taskIndex] = {
+    ...task,
+    ...changes,
+    updatedAt: Date.now()
+  };
+
+  return updatedTasks;
+};
+
+/**
+ * Adds a subtask to the end of a task's checklist
+ * Adding an open step to a completed task reopens the task.
+ * @param tasks - The current array of tasks
+ * @param taskId - The ID of the task to add the subtask to
+ * @param text - The text of the new subtask
+ * @returns A new array with the updated task
+ */
+const addSubtask = (tasks: Task[], taskId: string, text: string): Task[] => {
+  // Validate that the subtask text is not empty
+  if (!validateTaskText(text)) {
+    throw new Error('Subtask text cannot be empty');
+  }
+
+  const subtask: Subtask = {
+    id: IdGenerator.generateWithPrefix('subtask'),
+    text: text.trim(),
+    completed: false
+  };
+
+  return updateSubtasks(tasks, taskId, (_task, subtasks) => ({
+    subtasks: [...subtasks, subtask],
+    completed: false
+  }));
+};
+
+/**
+ * Toggles the completion status of a subtask
+ * Reopening a subtask of a completed task reopens the task. Completing the last
+ * open subtask does not complete the task; that remains an explicit action.
+ * @param tasks - The current array of tasks
+ * @param taskId - The ID of the task that owns the subtask
+ * @param subtaskId - The ID of the subtask to toggle
+ * @returns A new array with the updated task
+ */
+const toggleSubtaskStatus = (tasks: Task[], taskId: string, subtaskId: string): Task[] => {
+  return updateSubtasks(tasks, taskId, (task, subtasks) => {
+    const subtask = subtasks.find(item => item.id === subtaskId);
+    if (!subtask) {
+      return null;
+    }
+
+    return {
+      subtasks: subtasks.map(item => (item.id === subtaskId ? { ...item, completed: !item.completed } : item)),
+      // Reopening a step means the task is no longer done
+      completed: subtask.completed ? false : task.completed
+    };
+  });
+};
+
+/**
+ * Removes a subtask from a task's checklist
+ * @param tasks - The current array of tasks
+ * @param taskId - The ID of the task that owns the subtask
+ * @param subtaskId - The ID of the subtask to delete
+ * @returns A new array with the updated task
+ */
+const deleteSubtask = (tasks: Task[], taskId: string, subtaskId: string): Task[] => {
+  return updateSubtasks(tasks, taskId, (_task, subtasks) =>
+    subtasks.some(item => item.id === subtaskId)
+      ? { subtasks: subtasks.filter(item => item.id !== subtaskId) }
+      : null
+  );
+};
+
+/**
+ * Counts the completed and total subtasks of a task
+ * @param task - The task to inspect
+ * @returns The number of completed subtasks and the total number of subtasks
+ */
+const getSubtaskProgress = (task: Task): { completed: number; total: number } => {
+  const subtasks = task.subtasks ?? [];
+  return {
+    completed: subtasks.filter(subtask => subtask.completed).length,
+    total: subtasks.length
+  };
+};
+
+/**
+ * Filters tasks based on a completion status and, optionally, tags
+ * A plain FilterType filters by status only. A TaskFilter additionally keeps only
+ * tasks that carry all of its tags.
+ * @param tasks - The array of tasks to filter
+ * @param filter - The status filter, or a structured filter combining status and tags
+ * @param now - The current time, used by the due date filters
+ * @returns A filtered array of tasks
+ */
+const filterTasks = (tasks: Task[], filter: FilterType | TaskFilter, now: number = Date.now()): Task[] => {
+  // Apply the tag filter first, then the status filter
+  if (typeof filter === 'object' && filter !== null) {
+    const tags = TagUtils.mergeTags(filter.tags);
+    const taggedTasks = tags.length > 0 ? tasks.filter(task => TagUtils.hasAllTags(task, tags)) : tasks;
+    return filterTasksByStatus(taggedTasks, filter.status, now);
+  }
+  
+  return filterTasksByStatus(tasks, filter, now);
+};
+
+/**
+ * Filters tasks by completion status or due date
  * @param tasks - The array of tasks to filter
  * @param filterType - The type of filter to apply
+ * @param now - The current time, used by the due date filters
  * @returns A filtered array of tasks
  */
-const filterTasks = (tasks: Task[], filterType: FilterType): Task[] => {
+const filterTasksByStatus = (tasks: Task[], filterType: FilterType, now: number): Task[] => {
   // If filter is ALL, return all tasks
   if (filterType === FilterType.ALL) {
     return tasks;
@@ -137,10 +343,67 @@ const filterTasks = (tasks: Task[], filterType: FilterType): Task[] => {
     return tasks.filter(task => task.completed);
   }
   
+  // If filter is DUE_TODAY, return incomplete tasks due today
+  if (filterType === FilterType.DUE_TODAY) {
+    return tasks.filter(task => isDueToday(task, now));
+  }
+  
+  // If filter is OVERDUE, return incomplete tasks past their due date
+  if (filterType === FilterType.OVERDUE) {
+    return tasks.filter(task => isOverdue(task, now));
+  }
+  
   // For any other filter value, return all tasks as a fallback
   return tasks;
 };
 
+/**
+ * Priority levels with their display names, highest first, in the order they are offered to the user
+ * The position of each level, starting at 1, is the key that sets it on a focused task
+ */
+const PRIORITY_OPTIONS: Array<{ value: Priority; label: string }> = [
+  { value: Priority.HIGH, label: 'High' },
+  { value: Priority.MEDIUM, label: 'Medium' },
+  { value: Priority.LOW, label: 'Low' }
+];
+
+/**
+ * Checks whether a value is one of the priority levels
+ * @param value - The value to check
+ * @returns True if the value is a Priority
+ */
+const isValidPriority = (value: unknown): value is Priority => {
+  return Object.values(Priority).includes(value as Priority);
+};
+
+/**
+ * Reads a priority level from an untrusted value, ignoring case and surrounding whitespace
+ * @param value - The value to read, such as a priority loaded from storage
+ * @returns The priority, or null if the value is not a priority level
+ */
+const normalizePriority = (value: unknown): Priority | null => {
+  const priority = typeof value === 'string' ? value.trim().toLowerCase() : value;
+  return isValidPriority(priority) ? priority : null;
+};
+
+/**
+ * Repairs tasks whose priority is not a known level, such as tasks loaded from storage or imported
+ * Levels differing only in case or whitespace are normalized; anything else becomes medium.
+ * @param tasks - The tasks to repair
+ * @returns The same array if every priority is valid, otherwise a new array with the repaired tasks
+ */
+const repairTaskPriorities = (tasks: Task[]): Task[] => {
+  const invalidCount = tasks.filter(task => !isValidPriority(task.priority)).length;
+  if (invalidCount === 0) {
+    return tasks;
+  }
+
+  console.warn(`Repaired ${invalidCount} ${invalidCount === 1 ? 'task' : 'tasks'} with an unknown priority`);
+  return tasks.map(task =>
+    isValidPriority(task.priority) ? task : { ...task, priority: normalizePriority(task.priority) ?? Priority.MEDIUM }
+  );
+};
+
 /**
  * Updates the priority of a specific task
  * @param tasks - The current array of tasks
@@ -148,15 +411,14 @@ const filterTasks = (tasks: Task[], filterType: FilterType): Task[] => {
  * @param priority - The new priority value
  * @returns A new array with the updated task priority
  */
-const updateTaskPriority = (tasks: Task[], taskId: string, priority: string): Task[] => {
+const updateTaskPriority = (tasks: Task[], taskId: string, priority: Priority): Task[] => {
   // Validate that taskId exists
   if (!taskId) {
     throw new Error('Task ID is required');
   }
 
-  // Validate that priority is a valid Priority value
-  const validPriorities = Object.values(Priority);
-  if (!validPriorities.includes(priority as Priority)) {
+  // Validate that priority is a valid Priority value, as callers may pass values read from the UI
+  if (!isValidPriority(priority)) {
     throw new Error('Invalid priority value');
   }
 
@@ -174,34 +436,227 @@ const updateTaskPriority = (tasks: Task[], taskId: string, priority: string): Ta
   // Replace the found task with an updated version with the new priority
   updatedTasks[taskIndex] = {
     ...updatedTasks[taskIndex],
-    priority
+    priority,
+    updatedAt: Date.now()
   };
 
   // Return the new tasks array
   return updatedTasks;
 };
 
+/**
+ * Rank of each priority level when sorting; higher ranks sort later in ascending order
+ */
+const PRIORITY_RANKS: Record<Priority, number> = {
+  [Priority.LOW]: 1,
+  [Priority.MEDIUM]: 2,
+  [Priority.HIGH]: 3
+};
+
+/**
+ * Sort specifications for each preset sort mode
+ */
+const SORT_PRESETS: Record<SortMode, SortSpec> = {
+  [SortMode.MANUAL]: [
+    { field: SortField.ORDER, direction: SortDirection.ASC }
+  ],
+  [SortMode.PRIORITY]: [
+    { field: SortField.PRIORITY, direction: SortDirection.DESC },
+    { field: SortField.CREATED_AT, direction: SortDirection.ASC },
+    { field: SortField.TEXT, direction: SortDirection.ASC }
+  ],
+  [SortMode.DUE_DATE]: [
+    { field: SortField.DUE_DATE, direction: SortDirection.ASC },
+    { field: SortField.PRIORITY, direction: SortDirection.DESC },
+    { field: SortField.CREATED_AT, direction: SortDirection.ASC }
+  ],
+  [SortMode.CREATED]: [
+    { field: SortField.CREATED_AT, direction: SortDirection.ASC },
+    { field: SortField.TEXT, direction: SortDirection.ASC }
+  ],
+  [SortMode.ALPHABETICAL]: [
+    { field: SortField.TEXT, direction: SortDirection.ASC },
+    { field: SortField.CREATED_AT, direction: SortDirection.ASC }
+  ]
+};
+
+/**
+ * Reads the value a task is sorted by for a field
+ * @param task - The task to read
+ * @param field - The field to read
+ * @returns The value to compare, or null if the task has no value for the field
+ */
+const getSortValue = (task: Task, field: SortField): number | string | null => {
+  switch (field) {
+    case SortField.ORDER:
+      return task.order ?? null;
+    case SortField.PRIORITY:
+      return PRIORITY_RANKS[task.priority] ?? null;
+    case SortField.DUE_DATE:
+      return getDueTimestamp(task);
+    case SortField.CREATED_AT:
+      return task.createdAt;
+    default:
+      return task.text;
+  }
+};
+
+/**
+ * Compares two tasks by each key of a sort specification in turn
+ * Tasks without a value for a key, such as tasks without a due date, follow those with one
+ * in either direction.
+ * @param a - The first task
+ * @param b - The second task
+ * @param spec - The sort specification
+ * @returns A negative number if a sorts first, a positive number if b sorts first, or 0 if they tie
+ */
+const compareTasks = (a: Task, b: Task, spec: SortSpec): number => {
+  for (const { field, direction } of spec) {
+    const valueA = getSortValue(a, field);
+    const valueB = getSortValue(b, field);
+    if (valueA === null || valueB === null) {
+      if (valueA !== valueB) {
+        return valueA === null ? 1 : -1;
+      }
+      continue;
+    }
+
+    const difference =
+      typeof valueA === 'string'
+        ? valueA.localeCompare(String(valueB), undefined, { sensitivity: 'base' })
+        : valueA - Number(valueB);
+    if (difference !== 0) {
+      return direction === SortDirection.DESC ? -difference : difference;
+    }
+  }
+  return 0;
+};
+
+/**
+ * Sorts tasks by a sort specification
+ * Sorting is stable, so tasks that tie on every key keep their relative order.
+ * @param tasks - The array of tasks to sort
+ * @param spec - The sort keys to apply, defaulting to highest priority first
+ * @returns A new sorted array of tasks
+ */
+const sortTasks = (tasks: Task[], spec: SortSpec = SORT_PRESETS[SortMode.PRIORITY]): Task[] => {
+  return tasks
+    .map((task, index) => ({ task, index }))
+    .sort((a, b) => compareTasks(a.task, b.task, spec) || a.index - b.index)
+    .map(({ task }) => task);
+};
+
 /**
  * Sorts tasks by priority (HIGH > MEDIUM > LOW)
+ * Tasks with an unknown priority follow the rest, and tasks of the same priority keep their order.
  * @param tasks - The array of tasks to sort
  * @returns A new array with tasks sorted by priority
  */
 const sortTasksByPriority = (tasks: Task[]): Task[] => {
-  // Create a priority order mapping (HIGH: 0, MEDIUM: 1, LOW: 2)
-  const priorityOrder = {
-    [Priority.HIGH]: 0,
-    [Priority.MEDIUM]: 1,
-    [Priority.LOW]: 2
-  };
+  return sortTasks(tasks, [{ field: SortField.PRIORITY, direction: SortDirection.DESC }]);
+};
+
+/**
+ * Sorts tasks by their manual order
+ * Tasks without an order, such as imported ones, follow the ordered tasks in their array order.
+ * @param tasks - The array of tasks to sort
+ * @returns A new array with tasks in manual order
+ */
+const sortTasksByOrder = (tasks: Task[]): Task[] => {
+  return sortTasks(tasks, SORT_PRESETS[SortMode.MANUAL]);
+};
+
+/**
+ * Checks whether a value is a valid sort key
+ * @param value - The value to check
+ * @returns True if the value names a known field and direction
+ */
+const isValidSortKey = (value: unknown): value is SortKey => {
+  const key = value as SortKey;
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    Object.values(SortField).includes(key.field) &&
+    Object.values(SortDirection).includes(key.direction)
+  );
+};
+
+/**
+ * Brings a stored sort setting into a valid sort specification
+ * Preset names, as stored by earlier versions, are expanded to their specification.
+ * @param value - The stored sort setting
+ * @returns The sort specification, or the priority preset if the value is not valid
+ */
+const normalizeSortSpec = (value: unknown): SortSpec => {
+  if (typeof value === 'string' && Object.values(SortMode).includes(value as SortMode)) {
+    return SORT_PRESETS[value as SortMode];
+  }
+  if (Array.isArray(value) && value.length > 0 && value.every(isValidSortKey)) {
+    return value.map(({ field, direction }) => ({ field, direction }));
+  }
+  return SORT_PRESETS[SortMode.PRIORITY];
+};
+
+/**
+ * Finds the preset sort mode matching a sort specification
+ * @param spec - The sort specification
+ * @returns The matching sort mode, or null for a custom specification
+ */
+const getSortMode = (spec: SortSpec): SortMode | null => {
+  const matches = (preset: SortSpec) =>
+    preset.length === spec.length &&
+    preset.every((key, index) => key.field === spec[index].field && key.direction === spec[index].direction);
+  const mode = Object.values(SortMode).find(candidate => matches(SORT_PRESETS[candidate]));
+  return mode ?? null;
+};
 
-  // Create a copy of the tasks array
-  const sortedTasks = [...tasks];
+/**
+ * Returns the manual order value for a task added after the given tasks
+ * @param tasks - The existing tasks
+ * @returns An order value greater than any existing one
+ */
+const getNextOrder = (tasks: Task[]): number => {
+  return tasks.reduce((max, task) => Math.max(max, (task.order ?? -1) + 1), tasks.length);
+};
+
+/**
+ * Moves a task to a new position among the visible tasks, renumbering the manual order
+ * Tasks hidden by a filter keep their positions relative to each other, so the
+ * order stays consistent when the filter changes.
+ * @param tasks - The current array of tasks
+ * @param taskId - The ID of the task to move
+ * @param visibleIds - The IDs of the tasks shown, in their current order
+ * @param toIndex - The position among the visible tasks to move the task to
+ * @returns A new array with updated order values, or the original array if nothing moved
+ */
+const reorderTask = (tasks: Task[], taskId: string, visibleIds: string[], toIndex: number): Task[] => {
+  const fromIndex = visibleIds.indexOf(taskId);
+  if (fromIndex === -1 || fromIndex === toIndex || visibleIds.length < 2) {
+    return tasks;
+  }
 
-  // Sort the copy based on priority order (higher priority first)
-  return sortedTasks.sort((a, b) => {
-    const priorityA = priorityOrder[a.priority as Priority] ?? 99; // Default to lowest priority if invalid
-    const priorityB = priorityOrder[b.priority as Priority] ?? 99;
-    return priorityA - priorityB;
+  // Remove the task from the full manual order
+  const ordered = sortTasksByOrder(tasks);
+  const moved = ordered.find(task => task.id === taskId);
+  if (!moved) {
+    return tasks;
+  }
+  const remaining = ordered.filter(task => task.id !== taskId);
+
+  // Insert it before the visible task now at the target position, or after the last visible task
+  const otherVisibleIds = visibleIds.filter(id => id !== taskId);
+  const clampedIndex = Math.max(0, Math.min(toIndex, otherVisibleIds.length));
+  const insertAt =
+    clampedIndex < otherVisibleIds.length
+      ? remaining.findIndex(task => task.id === otherVisibleIds[clampedIndex])
+      : remaining.findIndex(task => task.id === otherVisibleIds[otherVisibleIds.length - 1]) + 1;
+  remaining.splice(insertAt, 0, moved);
+
+  // Renumber every task so the order values stay compact
+  const orderById = new Map(remaining.map((task, index) => [task.id, index]));
+  return tasks.map(task => {
+    const order = orderById.get(task.id) as number;
+    return task.order === order ? task : { ...task, order };
   });
 };
 
@@ -244,9 +699,214 @@ const validateTaskText = (text: string): boolean => {
 };
 
 /**
- * Sanitizes task text by trimming whitespace and preventing XSS
- * @param text - The task text to sanitize
- * @returns Sanitized task text
+ * Formats a date as a local calendar date key (YYYY-MM-DD)
+ * @param date - The date to format
+ * @returns The date key
+ */
+const toDateKey = (date: Date): string => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+/**
+ * Checks that an optional due date and time are well formed
+ * @param dueDate - The due date (YYYY-MM-DD), if any
+ * @param dueTime - The due time (HH:mm), if any
+ * @throws Error if either value is malformed or names an impossible date or time
+ */
+const validateDueDate = (dueDate?: string | null, dueTime?: string | null): void => {
+  if (dueDate) {
+    const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(dueDate);
+    const date = match && new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+    if (!date || toDateKey(date) !== dueDate) {
+      throw new Error('Invalid due date');
+    }
+  }
+
+  if (dueTime) {
+    const match = /^(\d{2}):(\d{2})$/.exec(dueTime);
+    if (!match || Number(match[1]) > 23 || Number(match[2]) > 59) {
+      throw new Error('Invalid due time');
+    }
+  }
+};
+
+/**
+ * Returns the moment a task becomes overdue
+ * Tasks without a due time are due at the end of their due date.
+ * @param task - The task to inspect
+ * @returns The due timestamp, or null if the task has no due date
+ */
+const getDueTimestamp = (task: Task): number | null => {
+  if (!task.dueDate) {
+    return null;
+  }
+
+  const [year, month, day] = task.dueDate.split('-').map(Number);
+  if (task.dueTime) {
+    const [hours, minutes] = task.dueTime.split(':').map(Number);
+    return new Date(year, month - 1, day, hours, minutes).getTime();
+  }
+  return new Date(year, month - 1, day, 23, 59, 59, 999).getTime();
+};
+
+/**
+ * Determines where a task's due date falls relative to now
+ * @param task - The task to inspect
+ * @param now - The current time
+ * @returns The due status, or null if the task is completed or has no due date
+ */
+const getDueStatus = (task: Task, now: number = Date.now()): DueStatus | null => {
+  const dueTimestamp = getDueTimestamp(task);
+  if (task.completed || dueTimestamp === null) {
+    return null;
+  }
+
+  if (now > dueTimestamp) {
+    return DueStatus.OVERDUE;
+  }
+  return task.dueDate === toDateKey(new Date(now)) ? DueStatus.TODAY : DueStatus.UPCOMING;
+};
+
+/**
+ * Checks whether an incomplete task is past its due date or time
+ * @param task - The task to inspect
+ * @param now - The current time
+ * @returns True if the task is overdue
+ */
+const isOverdue = (task: Task, now: number = Date.now()): boolean => {
+  return getDueStatus(task, now) === DueStatus.OVERDUE;
+};
+
+/**
+ * Checks whether an incomplete task is due today, including tasks whose due time today has passed
+ * @param task - The task to inspect
+ * @param now - The current time
+ * @returns True if the task is due today
+ */
+const isDueToday = (task: Task, now: number = Date.now()): boolean => {
+  return !task.completed && task.dueDate === toDateKey(new Date(now));
+};
+
+/**
+ * Formats a task's due date and time for display
+ * @param task - The task to format
+ * @param now - The current time, used to omit the year for dates in the current year
+ * @returns The formatted due date, or an empty string if the task has no due date
+ */
+const formatDueDate = (task: Task, now: number = Date.now()): string => {
+  const dueTimestamp = getDueTimestamp(task);
+  if (dueTimestamp === null) {
+    return '';
+  }
+
+  const dueDate = new Date(dueTimestamp);
+  const formattedDate = dueDate.toLocaleDateString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    ...(dueDate.getFullYear() !== new Date(now).getFullYear() && { year: 'numeric' })
+  });
+  return task.dueTime ? `${formattedDate}, ${task.dueTime}` : formattedDate;
+};
+
+/**
+ * Returns the timestamp of a task's most recent modification
+ * @param task - The task to inspect
+ * @returns The last modification time, falling back to the creation time
+ */
+const getLastModified = (task: Task): number => {
+  return task.updatedAt ?? task.createdAt;
+};
+
+/**
+ * Applies the fields an imported file carries to the existing task with the same ID
+ * Formats such as CSV and iCalendar hold only some task fields, so the others, such as the
+ * list, manual order and subtasks, keep their current values instead of being reset.
+ * @param existing - The task in the workspace
+ * @param imported - The task read from the file
+ * @param fields - The fields the file carries; fields the imported task lacks are removed
+ * @returns A new task combining both
+ */
+const overlayTaskFields = (existing: Task, imported: Task, fields: (keyof Task)[]): Task => {
+  const task: Partial<Task> = { ...existing };
+  fields.forEach(field => {
+    if (imported[field] === undefined) {
+      delete task[field];
+    } else {
+      Object.assign(task, { [field]: imported[field] });
+    }
+  });
+  return task as Task;
+};
+
+/**
+ * Merges a task list changed in another tab into the local task list.
+ * Performs a three-way merge per task id against the last list both sides agreed on:
+ * - A task changed on only one side takes that side's version
+ * - A task changed on both sides keeps the most recently modified version,
+ *   preferring the remote version when the timestamps are equal
+ * - A task deleted on one side is deleted unless the other side has since edited it
+ * - Tasks added on either side are kept
+ * The result follows the remote order, with tasks added locally appended at the end.
+ * @param base - The task list last persisted before either change
+ * @param local - The current local task list
+ * @param remote - The task list received from the other tab
+ * @returns The merged task list
+ */
+const mergeTasks = (base: Task[], local: Task[], remote: Task[]): Task[] => {
+  const baseById = new Map(base.map(task => [task.id, task]));
+  const localById = new Map(local.map(task => [task.id, task]));
+  const remoteIds = new Set(remote.map(task => task.id));
+
+  // Compares two versions of a task by content
+  const isSame = (a: Task | undefined, b: Task | undefined): boolean =>
+    JSON.stringify(a) === JSON.stringify(b);
+
+  const merged: Task[] = [];
+
+  remote.forEach(remoteTask => {
+    const baseTask = baseById.get(remoteTask.id);
+    const localTask = localById.get(remoteTask.id);
+
+    if (!localTask) {
+      // Deleted locally: drop it unless the remote side edited it after the deletion base
+      if (!baseTask || !isSame(baseTask, remoteTask)) {
+        merged.push(remoteTask);
+      }
+      return;
+    }
+
+    if (isSame(localTask, baseTask)) {
+      merged.push(remoteTask);
+    } else if (isSame(remoteTask, baseTask)) {
+      merged.push(localTask);
+    } else {
+      merged.push(getLastModified(localTask) > getLastModified(remoteTask) ? localTask : remoteTask);
+    }
+  });
+
+  local.forEach(localTask => {
+    if (remoteIds.has(localTask.id)) {
+      return;
+    }
+
+    // Added locally, or deleted remotely after a local edit
+    const baseTask = baseById.get(localTask.id);
+    if (!baseTask || !isSame(localTask, baseTask)) {
+      merged.push(localTask);
+    }
+  });
+
+  return merged;
+};
+
+/**
+ * Escapes task text for output as HTML markup, trimming whitespace
+ * Task text is stored raw. React escapes text it renders, so this is only needed
+ * where text is written into markup directly.
+ * @param text - The task text to escape
+ * @returns Escaped task text
  */
 const sanitizeTaskText = (text: string): string => {
   // Trim whitespace from text
@@ -261,17 +921,86 @@ const sanitizeTaskText = (text: string): string => {
     .replace(/'/g, '&#039;');
 };
 
+/**
+ * Entities produced by sanitizeTaskText and the characters they stand for
+ */
+const TEXT_ENTITIES: Record<string, string> = {
+  '&amp;': '&',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&quot;': '"',
+  '&#039;': "'",
+  '&#39;': "'"
+};
+
+/**
+ * Decodes the HTML entities that sanitizeTaskText produces
+ * Exactly one level is decoded, undoing the single escape sanitizeTaskText applies, so entities
+ * the user typed, such as '&lt;', are kept as written.
+ * @param text - The escaped task text
+ * @returns The raw task text
+ */
+const decodeTaskText = (text: string): string => {
+  // A single pass, so the output of one replacement is never decoded again
+  return text.replace(/&(?:amp|lt|gt|quot|#0?39);/g, entity => TEXT_ENTITIES[entity]);
+};
+
+/**
+ * Decodes text stored by earlier versions, which escaped it once on entry, again on creation and
+ * again on every edit. Levels are decoded until the text stops changing.
+ * @param text - The text as stored by an earlier version
+ * @returns The raw task text
+ */
+const decodeLegacyTaskText = (text: string): string => {
+  let decoded = text;
+  let previous;
+  do {
+    previous = decoded;
+    decoded = decodeTaskText(previous);
+  } while (decoded !== previous);
+  return decoded;
+};
+
 // Export all task utility functions as a default object for convenient importing
 export default {
   createTask,
   updateTask,
   toggleTaskStatus,
   deleteTask,
+  moveTaskToList,
   filterTasks,
+  PRIORITY_OPTIONS,
+  isValidPriority,
+  normalizePriority,
+  repairTaskPriorities,
   updateTaskPriority,
   sortTasksByPriority,
+  SORT_PRESETS,
+  compareTasks,
+  sortTasks,
+  sortTasksByOrder,
+  normalizeSortSpec,
+  getSortMode,
+  getNextOrder,
+  reorderTask,
   getActiveTaskCount,
   getCompletedTaskCount,
   validateTaskText,
-  sanitizeTaskText
+  sanitizeTaskText,
+  decodeTaskText,
+  decodeLegacyTaskText,
+  getLastModified,
+  overlayTaskFields,
+  mergeTasks,
+  toDateKey,
+  validateDueDate,
+  getDueTimestamp,
+  getDueStatus,
+  isOverdue,
+  isDueToday,
+  formatDueDate,
+  addSubtask,
+  toggleSubtaskStatus,
+  deleteSubtask,
+  getSubtaskProgress
 };
\ No newline at end of file
@@ -0,0 +1,147 @@
+import TodoTxtUtils from './todoTxtUtils';
+import { Task, Priority } from '../types/Task';
+
+// Helper function to create a mock task for testing, created at local midnight
+const createMockTask = (overrides: Partial<Task> = {}): Task => ({
+  id: 'task-123',
+  text: 'Test task',
+  completed: false,
+  priority: Priority.MEDIUM,
+  createdAt: new Date(2024, 0, 2).getTime(),
+  listId: 'inbox',
+  ...overrides
+});
+
+describe('TodoTxtUtils', () => {
+  describe('taskToLine', () => {
+    test('should write priority, creation date, text and metadata', () => {
+      const task = createMockTask({
+        text: 'Call Mom',
+        priority: Priority.HIGH,
+        tags: ['family'],
+        projects: ['Home'],
+        contexts: ['phone'],
+        dueDate: '2024-01-05',
+        dueTime: '18:30'
+      });
+
+      expect(TodoTxtUtils.taskToLine(task)).toBe(
+        '(A) 2024-01-02 Call Mom #family +Home @phone due:2024-01-05T18:30'
+      );
+    });
+
+    test('should write completed tasks with a completion date and a pri tag', () => {
+      const task = createMockTask({
+        completed: true,
+        priority: Priority.LOW,
+        updatedAt: new Date(2024, 0, 4, 15).getTime()
+      });
+
+      expect(TodoTxtUtils.taskToLine(task)).toBe('x 2024-01-04 2024-01-02 Test task pri:C');
+    });
+  });
+
+  describe('parseLine', () => {
+    test('should read priority letters, with later letters as low and no letter as medium', () => {
+      expect(TodoTxtUtils.parseLine('(A) Task').priority).toBe(Priority.HIGH);
+      expect(TodoTxtUtils.parseLine('(B) Task').priority).toBe(Priority.MEDIUM);
+      expect(TodoTxtUtils.parseLine('(D) Task').priority).toBe(Priority.LOW);
+      expect(TodoTxtUtils.parseLine('Task').priority).toBe(Priority.MEDIUM);
+    });
+
+    test('should read completion, dates, projects, contexts and tags', () => {
+      const task = TodoTxtUtils.parseLine('x 2024-01-04 2024-01-02 Review PR +Work @office #code', 'list-1');
+
+      expect(task).toMatchObject({
+        text: 'Review PR',
+        completed: true,
+        createdAt: new Date(2024, 0, 2).getTime(),
+        listId: 'list-1',
+        projects: ['Work'],
+        contexts: ['office'],
+        tags: ['code']
+      });
+    });
+
+    test('should treat a lone date after the completion marker as the completion date', () => {
+      const before = Date.now();
+      const task = TodoTxtUtils.parseLine('x 2024-01-04 Done already');
+
+      expect(task.completed).toBe(true);
+      expect(task.text).toBe('Done already');
+      expect(task.createdAt).toBeGreaterThanOrEqual(before);
+    });
+
+    test('should only read a priority at the start of an open task', () => {
+      expect(TodoTxtUtils.parseLine('Fix (A) bug').text).toBe('Fix (A) bug');
+    });
+
+    test('should throw when a line has no text', () => {
+      expect(() => TodoTxtUtils.parseLine('(A) 2024-01-02 +Work @home')).toThrow('Task text cannot be empty');
+    });
+
+    test('should throw on an invalid due date', () => {
+      expect(() => TodoTxtUtils.parseLine('Task due:2024-13-40')).toThrow();
+    });
+  });
+
+  describe('round trips', () => {
+    test('should preserve task fields through a line and back', () => {
+      const tasks = [
+        createMockTask({
+          text: 'Call Mom',
+          priority: Priority.HIGH,
+          tags: ['family'],
+          projects: ['Home', 'Errands'],
+          contexts: ['phone'],
+          dueDate: '2024-01-05',
+          dueTime: '18:30'
+        }),
+        createMockTask({ id: 'task-2', text: 'File taxes & <receipts>', completed: true, priority: Priority.LOW }),
+        createMockTask({ id: 'task-3', text: 'Read book', dueDate: '2024-02-01' })
+      ];
+
+      const { tasks: parsed, errors } = TodoTxtUtils.parseTodoTxt(TodoTxtUtils.tasksToTodoTxt(tasks));
+
+      expect(errors).toEqual([]);
+      parsed.forEach((task, index) => {
+        const { id, updatedAt, ...expected } = tasks[index];
+        expect({ ...task, id }).toEqual({ ...expected, id });
+      });
+    });
+
+    test('should write canonical lines back unchanged', () => {
+      const content = [
+        '(A) 2024-01-02 Call Mom #family +Home @phone due:2024-01-05T18:30',
+        '(B) 2024-01-03 Plan trip +Travel',
+        'x 2024-01-04 2024-01-02 File taxes pri:C',
+        ''
+      ].join('\n');
+
+      const { tasks } = TodoTxtUtils.parseTodoTxt(content);
+      // Completed tasks take their completion date from the last modification
+      const restored = tasks.map(task =>
+        task.completed ? { ...task, updatedAt: new Date(2024, 0, 4).getTime() } : task
+      );
+
+      expect(TodoTxtUtils.tasksToTodoTxt(restored)).toBe(content);
+    });
+  });
+
+  describe('parseTodoTxt', () => {
+    test('should skip blank lines and report lines without text by line number', () => {
+      const result = TodoTxtUtils.parseTodoTxt('Walk dog\r\n\r\n(A) +Work\nFeed cat\n');
+
+      expect(result.tasks.map(task => task.text)).toEqual(['Walk dog', 'Feed cat']);
+      expect(result.errors).toEqual([{ row: 3, message: 'Task text cannot be empty' }]);
+    });
+
+    test('should reuse the ID of an existing task with the same text once', () => {
+      const existing = [createMockTask({ id: 'task-existing', text: 'Walk dog' })];
+      const { tasks } = TodoTxtUtils.parseTodoTxt('walk dog\nWalk dog\n', existing);
+
+      expect(tasks[0].id).toBe('task-existing');
+      expect(tasks[1].id).not.toBe('task-existing');
+    });
+  });
+});
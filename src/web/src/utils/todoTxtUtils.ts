@@ -0,0 +1,221 @@
+/**
+ * Utility module for converting tasks to and from the todo.txt line format in the React Todo List application.
+ * See https://github.com/todotxt/todo.txt for the format.
+ *
+ * A line is written as: [x completion-date | (priority)] creation-date text #tags +projects @contexts [due:date] [pri:letter]
+ * Completed tasks carry their priority as a 'pri:' tag, as the format reserves the leading position for 'x'.
+ * Creation dates are stored to the day, and subtasks are not represented.
+ */
+import { Task, Priority } from '../types/Task';
+import { ImportRowError, TaskImportResult } from '../types/Transfer';
+import TaskUtils from './taskUtils';
+import TagUtils from './tagUtils';
+
+/**
+ * Priority letters written for each priority level
+ */
+const PRIORITY_LETTERS: Record<string, string> = {
+  [Priority.HIGH]: 'A',
+  [Priority.MEDIUM]: 'B',
+  [Priority.LOW]: 'C'
+};
+
+/**
+ * Matches a todo.txt date (YYYY-MM-DD)
+ */
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Matches a due date tag, optionally with a time (due:YYYY-MM-DD or due:YYYY-MM-DDTHH:mm)
+ */
+const DUE_PATTERN = /^due:(\d{4}-\d{2}-\d{2})(?:T(\d{2}:\d{2}))?$/;
+
+/**
+ * Maps a todo.txt priority letter onto the Priority enum
+ * A is high, B is medium and every later letter is low.
+ * @param letter - The priority letter, if any
+ * @returns The matching priority, or medium when there is no letter
+ */
+const parsePriorityLetter = (letter: string | undefined): Priority => {
+  if (!letter) {
+    return Priority.MEDIUM;
+  }
+  if (letter === 'A') {
+    return Priority.HIGH;
+  }
+  return letter === 'B' ? Priority.MEDIUM : Priority.LOW;
+};
+
+/**
+ * Converts a todo.txt date into a timestamp at local midnight
+ * @param dateKey - The date (YYYY-MM-DD)
+ * @returns The timestamp in milliseconds
+ */
+const parseDate = (dateKey: string): number => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return new Date(year, month - 1, day).getTime();
+};
+
+/**
+ * Converts a task into a todo.txt line
+ * @param task - The task to convert
+ * @returns The todo.txt line, without a line break
+ */
+const taskToLine = (task: Task): string => {
+  const letter = PRIORITY_LETTERS[task.priority] ?? PRIORITY_LETTERS[Priority.MEDIUM];
+  const parts: string[] = [];
+
+  if (task.completed) {
+    parts.push('x', TaskUtils.toDateKey(new Date(task.updatedAt ?? task.createdAt)));
+  } else {
+    parts.push(`(${letter})`);
+  }
+
+  parts.push(TaskUtils.toDateKey(new Date(task.createdAt)));
+  // Tasks are single lines, so line breaks in the text become spaces
+  parts.push(task.text.replace(/\s*[\r\n]+\s*/g, ' ').trim());
+  (task.tags ?? []).forEach(tag => parts.push(`#${tag}`));
+  (task.projects ?? []).forEach(project => parts.push(`+${project}`));
+  (task.contexts ?? []).forEach(context => parts.push(`@${context}`));
+
+  if (task.dueDate) {
+    parts.push(`due:${task.dueDate}${task.dueTime ? `T${task.dueTime}` : ''}`);
+  }
+  if (task.completed) {
+    parts.push(`pri:${letter}`);
+  }
+
+  return parts.join(' ');
+};
+
+/**
+ * Converts tasks into todo.txt content, one task per line
+ * @param tasks - The tasks to export
+ * @returns The todo.txt content
+ */
+const tasksToTodoTxt = (tasks: Task[]): string => {
+  return tasks.map(taskToLine).join('\n') + (tasks.length > 0 ? '\n' : '');
+};
+
+/**
+ * Converts a todo.txt line into a task
+ * @param line - The todo.txt line
+ * @param listId - The list to add the task to
+ * @returns The task, with a newly generated ID
+ * @throws Error if the line has no text or an invalid due date
+ */
+const parseLine = (line: string, listId?: string): Task => {
+  const tokens = line.trim().split(/\s+/);
+  let index = 0;
+  let letter: string | undefined;
+  let creationDate: string | undefined;
+
+  // Leading completion marker and dates, or priority and creation date
+  const completed = tokens[0] === 'x';
+  if (completed) {
+    index += 1;
+    if (DATE_PATTERN.test(tokens[index] ?? '') && DATE_PATTERN.test(tokens[index + 1] ?? '')) {
+      // Completion date followed by creation date
+      creationDate = tokens[index + 1];
+      index += 2;
+    } else if (DATE_PATTERN.test(tokens[index] ?? '')) {
+      // Completion date only
+      index += 1;
+    }
+  } else {
+    const priorityMatch = /^\(([A-Z])\)$/.exec(tokens[index] ?? '');
+    if (priorityMatch) {
+      letter = priorityMatch[1];
+      index += 1;
+    }
+    if (DATE_PATTERN.test(tokens[index] ?? '')) {
+      creationDate = tokens[index];
+      index += 1;
+    }
+  }
+
+  // Sort the remaining tokens into metadata and text
+  const words: string[] = [];
+  const projects: string[] = [];
+  const contexts: string[] = [];
+  let dueDate: string | undefined;
+  let dueTime: string | undefined;
+
+  tokens.slice(index).forEach(token => {
+    const dueMatch = DUE_PATTERN.exec(token);
+    const priorityTag = /^pri:([A-Z])$/.exec(token);
+    if (token.length > 1 && token[0] === '+') {
+      projects.push(token.slice(1));
+    } else if (token.length > 1 && token[0] === '@') {
+      contexts.push(token.slice(1));
+    } else if (dueMatch) {
+      dueDate = dueMatch[1];
+      dueTime = dueMatch[2];
+    } else if (priorityTag) {
+      letter = priorityTag[1];
+    } else {
+      words.push(token);
+    }
+  });
+
+  const parsed = TagUtils.parseTags(words.join(' '));
+  const task = TaskUtils.createTask({
+    text: parsed.text,
+    priority: parsePriorityLetter(letter),
+    listId,
+    dueDate,
+    dueTime,
+    tags: parsed.tags
+  });
+
+  return {
+    ...task,
+    completed,
+    ...(creationDate && { createdAt: parseDate(creationDate) }),
+    ...(projects.length > 0 && { projects: Array.from(new Set(projects)) }),
+    ...(contexts.length > 0 && { contexts: Array.from(new Set(contexts)) })
+  };
+};
+
+/**
+ * Converts todo.txt content into tasks, reporting lines that cannot be imported
+ * Tasks reuse the ID of an existing task with the same text, so that re-importing
+ * a file produces duplicates that can be skipped or merged.
+ * @param content - The todo.txt content
+ * @param existingTasks - The tasks already in the workspace
+ * @param listId - The list to add the tasks to
+ * @returns The imported tasks and the rejected lines
+ */
+const parseTodoTxt = (content: string, existingTasks: Task[] = [], listId?: string): TaskImportResult => {
+  const tasks: Task[] = [];
+  const errors: ImportRowError[] = [];
+  const seenIds = new Set<string>();
+  const existingIdsByText = new Map(existingTasks.map(task => [task.text.toLowerCase(), task.id]));
+
+  content.split(/\r?\n/).forEach((line, index) => {
+    if (!line.trim()) {
+      return;
+    }
+
+    try {
+      const task = parseLine(line, listId);
+      const existingId = existingIdsByText.get(task.text.toLowerCase());
+      const id = existingId && !seenIds.has(existingId) ? existingId : task.id;
+      seenIds.add(id);
+      tasks.push({ ...task, id });
+    } catch (e) {
+      errors.push({ row: index + 1, message: e instanceof Error ? e.message : 'Invalid line' });
+    }
+  });
+
+  return { tasks, errors };
+};
+
+// Export todo.txt functions as a default object for convenient importing
+export default {
+  parsePriorityLetter,
+  taskToLine,
+  tasksToTodoTxt,
+  parseLine,
+  parseTodoTxt
+};
@@ -0,0 +1,37 @@
+import ViewUtils from './viewUtils';
+
+describe('ViewUtils', () => {
+  const view = { id: 'view-0', name: 'Urgent', query: 'priority:high', createdAt: 0 };
+
+  describe('normalizeViews', () => {
+    test('should drop malformed views', () => {
+      expect(ViewUtils.normalizeViews([view, { id: 'view-2', name: 'No query' }, null])).toEqual([view]);
+      expect(ViewUtils.normalizeViews('views')).toEqual([]);
+    });
+  });
+
+  describe('createView', () => {
+    test('should add a view with a trimmed name and query', () => {
+      const views = ViewUtils.createView([view], '  Deploys ', ' "deploy" is:active ');
+
+      expect(views).toHaveLength(2);
+      expect(views[1]).toMatchObject({ name: 'Deploys', query: '"deploy" is:active' });
+      expect(views[1].id).toMatch(/^view-/);
+    });
+
+    test('should reject an empty name or query', () => {
+      expect(() => ViewUtils.createView([], ' ', 'is:active')).toThrow('View name cannot be empty');
+      expect(() => ViewUtils.createView([], 'Active', ' ')).toThrow('View query cannot be empty');
+    });
+
+    test('should reject an invalid query with the syntax error', () => {
+      expect(() => ViewUtils.createView([], 'Broken', 'prio:high')).toThrow('Unknown field "prio"');
+    });
+  });
+
+  describe('deleteView', () => {
+    test('should remove the view', () => {
+      expect(ViewUtils.deleteView([view], 'view-0')).toEqual([]);
+    });
+  });
+});
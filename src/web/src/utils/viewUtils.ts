@@ -0,0 +1,72 @@
+/**
+ * Utility module for managing saved views in the React Todo List application.
+ * A saved view is a named filter query shown as an extra filter tab.
+ * All functions are pure and return new arrays rather than mutating their input.
+ */
+import { SavedView } from '../types/Query';
+import IdGenerator from './idGenerator';
+import QueryUtils from './queryUtils';
+
+/**
+ * Returns a valid list of views from a possibly malformed persisted value
+ * @param value - The value loaded from storage
+ * @returns The views with a string ID, name and query
+ */
+const normalizeViews = (value: unknown): SavedView[] => {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  return (value as SavedView[]).filter(
+    view => view && typeof view.id === 'string' && typeof view.name === 'string' && typeof view.query === 'string'
+  );
+};
+
+/**
+ * Adds a new view to the end of the views
+ * @param views - The current views
+ * @param name - The name of the new view
+ * @param query - The filter query the view applies
+ * @returns A new array containing the new view
+ * @throws Error if the name is empty or the query is invalid
+ */
+const createView = (views: SavedView[], name: string, query: string): SavedView[] => {
+  const trimmedName = (name ?? '').trim();
+  if (trimmedName.length === 0) {
+    throw new Error('View name cannot be empty');
+  }
+  const trimmedQuery = (query ?? '').trim();
+  if (trimmedQuery.length === 0) {
+    throw new Error('View query cannot be empty');
+  }
+
+  // Reject queries that would fail every time the view is opened
+  const error = QueryUtils.getQueryError(trimmedQuery);
+  if (error) {
+    throw new Error(error);
+  }
+
+  const view: SavedView = {
+    id: IdGenerator.generateWithPrefix('view'),
+    name: trimmedName,
+    query: trimmedQuery,
+    createdAt: Date.now()
+  };
+  return [...views, view];
+};
+
+/**
+ * Removes a view
+ * @param views - The current views
+ * @param viewId - The ID of the view to delete
+ * @returns A new array without the view
+ */
+const deleteView = (views: SavedView[], viewId: string): SavedView[] => {
+  return views.filter(view => view.id !== viewId);
+};
+
+// Export view functions as a default object for convenient importing
+export default {
+  normalizeViews,
+  createView,
+  deleteView
+};